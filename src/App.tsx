@@ -1,15 +1,19 @@
 import { useState } from 'react';
 import { BrowserRouter, Routes, Route, useLocation } from 'react-router-dom';
+import { Toaster } from 'sonner';
 import { Header } from './components/layout/Header';
 import { Sidebar } from './components/layout/Sidebar';
 import { Home } from './pages/Home';
 import { ToolPage } from './pages/ToolPage';
 import { NotFound } from './pages/NotFound';
 import { ToolsProvider, useToolsContext } from './contexts/ToolsContext';
-import { ThemeProvider } from './components/theme-provider';
+import { ThemeProvider, useTheme } from './components/theme-provider';
+import { CommandPalette } from './components/command-palette';
 
 function AppContent() {
   const [sidebarOpen, setSidebarOpen] = useState(true);
+  const [commandPaletteOpen, setCommandPaletteOpen] = useState(false);
+  const { theme } = useTheme();
   const { selectedCategory, setSelectedCategory, searchQuery, setSearchQuery } = useToolsContext();
   const location = useLocation();
 
@@ -28,8 +32,12 @@ function AppContent() {
         onSearch={setSearchQuery}
         searchQuery={searchQuery}
         showBackButton={isToolPage}
+        onCommandPaletteOpen={() => setCommandPaletteOpen(true)}
       />
 
+      {/* 命令面板 */}
+      <CommandPalette open={commandPaletteOpen} onOpenChange={setCommandPaletteOpen} />
+
       {/* 主体区域 */}
       <div className="flex flex-1 overflow-hidden">
         {/* 侧边栏 */}
@@ -48,6 +56,8 @@ function AppContent() {
           <Route path="*" element={<NotFound />} />
         </Routes>
       </div>
+
+      <Toaster theme={theme} position="top-center" richColors />
     </div>
   );
 }
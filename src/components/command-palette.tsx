@@ -0,0 +1,261 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { FC, KeyboardEvent } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Search, CornerDownLeft, Zap } from 'lucide-react';
+import type { LucideProps } from 'lucide-react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import type { MatchRange } from '@/lib/fuzzy';
+import { search, type SearchField } from '@/lib/search';
+import { Highlight } from '@/components/common/Highlight';
+import { allTools, localizeTool } from '@/tools';
+import { useI18n } from '@/hooks/useI18n';
+import { localize, type Locale } from '@/lib/i18n';
+import { t } from '@/locales';
+import type { ToolCommand, ToolConfig } from '@/tools/types';
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface PaletteItem {
+  id: string;
+  title: string;
+  /** 中文标题，非中文界面下仍可用拼音搜索 */
+  defaultTitle: string;
+  subtitle: string;
+  icon: FC<LucideProps>;
+  isCommand: boolean;
+  keywords: string[];
+  tool: ToolConfig;
+  command?: ToolCommand;
+}
+
+interface PaletteResult {
+  item: PaletteItem;
+  titleRanges?: MatchRange[];
+}
+
+/** 最多展示的结果数 */
+const MAX_RESULTS = 50;
+
+/**
+ * 所有面板条目：工具本身 + 工具注册的指令
+ */
+function buildPaletteItems(locale: Locale): PaletteItem[] {
+  return allTools.flatMap((tool) => {
+    const { name, description } = localizeTool(tool, locale);
+
+    return [
+      {
+        id: tool.id,
+        title: name,
+        defaultTitle: tool.name,
+        subtitle: description,
+        icon: tool.icon,
+        isCommand: false,
+        keywords: tool.tags,
+        tool,
+      },
+      ...(tool.commands ?? []).map((command) => ({
+        id: `${tool.id}:${command.id}`,
+        title: `${name}: ${localize({ title: command.title }, command.locales, locale).title}`,
+        defaultTitle: `${tool.name}: ${command.title}`,
+        subtitle: t('palette.runCommand'),
+        icon: Zap,
+        isCommand: true,
+        keywords: [...(command.keywords ?? []), ...tool.tags],
+        tool,
+        command,
+      })),
+    ];
+  });
+}
+
+/**
+ * 面板搜索字段，权重：名称 > 关键词/标签 > 描述
+ */
+function getPaletteSearchFields(item: PaletteItem): SearchField[] {
+  return [
+    { key: 'title', text: item.title, weight: 3 },
+    ...(item.defaultTitle !== item.title
+      ? [{ key: 'title:default', text: item.defaultTitle, weight: 3 }]
+      : []),
+    ...item.keywords.map((keyword) => ({ key: `keyword:${keyword}`, text: keyword, weight: 2 })),
+    ...(item.isCommand ? [] : [{ key: 'subtitle', text: item.subtitle, weight: 1 }]),
+  ];
+}
+
+/**
+ * 根据查询词筛选并排序面板条目
+ */
+function buildResults(query: string, locale: Locale): PaletteResult[] {
+  return search(buildPaletteItems(locale), query, getPaletteSearchFields)
+    .slice(0, MAX_RESULTS)
+    .map((result) => ({ item: result.item, titleRanges: result.highlights.title }));
+}
+
+interface CommandPaletteContentProps {
+  onClose: () => void;
+}
+
+/**
+ * 面板内容
+ * 面板关闭时卸载，再次打开时查询状态自动重置
+ */
+const CommandPaletteContent = ({ onClose }: CommandPaletteContentProps) => {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+  const { locale, t } = useI18n();
+
+  const results = useMemo(() => buildResults(query, locale), [query, locale]);
+
+  // 保持当前选中项可见
+  useEffect(() => {
+    const active = listRef.current?.querySelector(`[data-index="${activeIndex}"]`);
+    active?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const handleQueryChange = (value: string) => {
+    setQuery(value);
+    setActiveIndex(0);
+  };
+
+  const handleSelect = async (item: PaletteItem) => {
+    onClose();
+
+    if (!item.command) {
+      navigate(`/tool/${item.tool.id}`);
+      return;
+    }
+
+    try {
+      const message = await item.command.run();
+      if (message) {
+        toast.success(message);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('palette.commandFailed'));
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((index) => Math.min(index + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((index) => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      const result = results[activeIndex];
+      if (result) {
+        handleSelect(result.item);
+      }
+    }
+  };
+
+  return (
+    <>
+      {/* 搜索框 */}
+      <div className="flex items-center gap-3 border-b px-4">
+        <Search className="h-4 w-4 shrink-0 text-muted-foreground" />
+        <input
+          value={query}
+          onChange={(e) => handleQueryChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={t('palette.placeholder')}
+          className="h-12 w-full bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+          autoFocus
+        />
+      </div>
+
+      {/* 结果列表 */}
+      <div ref={listRef} className="max-h-80 overflow-y-auto p-2">
+        {results.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            {t('palette.empty')}
+          </p>
+        ) : (
+          results.map(({ item, titleRanges }, index) => {
+            const Icon = item.icon;
+            const isActive = index === activeIndex;
+
+            return (
+              <button
+                key={item.id}
+                data-index={index}
+                onClick={() => handleSelect(item)}
+                onMouseMove={() => setActiveIndex(index)}
+                className={cn(
+                  'flex w-full cursor-pointer items-center gap-3 rounded-md px-3 py-2 text-left text-sm',
+                  isActive ? 'bg-accent text-accent-foreground' : 'text-foreground'
+                )}
+              >
+                <Icon
+                  className={cn(
+                    'h-4 w-4 shrink-0',
+                    item.isCommand ? 'text-primary' : 'text-muted-foreground'
+                  )}
+                />
+                <div className="min-w-0 flex-1">
+                  <div className="truncate font-medium">
+                    <Highlight text={item.title} ranges={titleRanges} />
+                  </div>
+                  <div className="truncate text-xs text-muted-foreground">
+                    {item.subtitle}
+                  </div>
+                </div>
+                {isActive && (
+                  <CornerDownLeft className="h-4 w-4 shrink-0 text-muted-foreground" />
+                )}
+              </button>
+            );
+          })
+        )}
+      </div>
+
+      {/* 底部提示 */}
+      <div className="flex items-center gap-4 border-t px-4 py-2 text-xs text-muted-foreground">
+        <span>{t('palette.hintSelect')}</span>
+        <span>{t('palette.hintOpen')}</span>
+        <span>{t('palette.hintClose')}</span>
+      </div>
+    </>
+  );
+};
+
+/**
+ * 全局命令面板（Ctrl+K / ⌘K）
+ * 模糊搜索工具和工具注册的指令
+ */
+export const CommandPalette = ({ open, onOpenChange }: CommandPaletteProps) => {
+  const { t } = useI18n();
+
+  // 全局快捷键
+  useEffect(() => {
+    const handleKeyDown = (e: globalThis.KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [open, onOpenChange]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent showCloseButton={false} className="gap-0 overflow-hidden p-0 sm:max-w-xl">
+        <DialogTitle className="sr-only">{t('palette.title')}</DialogTitle>
+        <DialogDescription className="sr-only">{t('palette.description')}</DialogDescription>
+        <CommandPaletteContent onClose={() => onOpenChange(false)} />
+      </DialogContent>
+    </Dialog>
+  );
+};
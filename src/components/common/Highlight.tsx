@@ -0,0 +1,37 @@
+import type { MatchRange } from '@/lib/fuzzy';
+
+interface HighlightProps {
+  text: string;
+  ranges?: MatchRange[];
+}
+
+/**
+ * 搜索命中高亮
+ * ranges 需已排序且互不重叠（见 lib/search）
+ */
+export const Highlight = ({ text, ranges }: HighlightProps) => {
+  if (!ranges || ranges.length === 0) {
+    return <>{text}</>;
+  }
+
+  const parts = [];
+  let cursor = 0;
+
+  for (const [start, end] of ranges) {
+    if (start > cursor) {
+      parts.push(text.slice(cursor, start));
+    }
+    parts.push(
+      <mark key={start} className="rounded-sm bg-primary/20 text-inherit">
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  }
+
+  if (cursor < text.length) {
+    parts.push(text.slice(cursor));
+  }
+
+  return <>{parts}</>;
+};
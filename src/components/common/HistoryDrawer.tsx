@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { History, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { useToolHistory } from '@/hooks/useToolHistory';
+import { useI18n } from '@/hooks/useI18n';
+import { HISTORY_LIMIT_OPTIONS, type HistoryEntry } from '@/lib/history';
+
+interface HistoryDrawerProps {
+  toolId: string;
+  /** 点击记录时还原 */
+  onRestore: (entry: HistoryEntry) => void;
+}
+
+/** 预览文本的最大长度 */
+const PREVIEW_LENGTH = 120;
+
+function preview(text: string): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > PREVIEW_LENGTH
+    ? `${singleLine.slice(0, PREVIEW_LENGTH)}…`
+    : singleLine;
+}
+
+/**
+ * 历史记录抽屉
+ * 展示当前工具的历史输入输出，点击即可还原
+ */
+export const HistoryDrawer = ({ toolId, onRestore }: HistoryDrawerProps) => {
+  const [open, setOpen] = useState(false);
+  const { locale, t } = useI18n();
+  const { entries, isLoading, enabled, limit, setEnabled, setLimit, remove, clear } =
+    useToolHistory(toolId);
+
+  const handleRestore = (entry: HistoryEntry) => {
+    onRestore(entry);
+    setOpen(false);
+  };
+
+  const handleClear = async () => {
+    try {
+      await clear();
+      toast.success(t('history.cleared'));
+    } catch {
+      toast.error(t('history.clearFailed'));
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <History className="h-4 w-4 mr-2" />
+          {t('history.title')}
+        </Button>
+      </SheetTrigger>
+
+      <SheetContent className="w-full gap-0 sm:max-w-md">
+        <SheetHeader className="border-b">
+          <SheetTitle>{t('history.title')}</SheetTitle>
+          <SheetDescription>{t('history.description')}</SheetDescription>
+        </SheetHeader>
+
+        {/* 设置 */}
+        <div className="flex items-center justify-between gap-4 border-b px-4 py-3">
+          <div className="flex items-center gap-2">
+            <Switch id="history-enabled" checked={enabled} onCheckedChange={setEnabled} />
+            <Label htmlFor="history-enabled" className="cursor-pointer text-sm">
+              {t('history.enabled')}
+            </Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground">{t('history.keep')}</span>
+            <Select value={String(limit)} onValueChange={(value) => setLimit(Number(value))}>
+              <SelectTrigger className="h-8 w-20">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {HISTORY_LIMIT_OPTIONS.map((option) => (
+                  <SelectItem key={option} value={String(option)}>
+                    {t('history.limitOption', { count: option })}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {/* 记录列表 */}
+        <div className="min-h-0 flex-1 overflow-y-auto">
+          {!isLoading && entries.length === 0 && (
+            <p className="p-8 text-center text-sm text-muted-foreground">
+              {enabled ? t('history.empty') : t('history.disabled')}
+            </p>
+          )}
+
+          {entries.map((entry) => (
+            <div key={entry.id} className="group relative border-b">
+              <button
+                onClick={() => handleRestore(entry)}
+                className="w-full cursor-pointer space-y-1.5 px-4 py-3 pr-12 text-left transition-colors hover:bg-accent"
+              >
+                <div className="flex flex-wrap items-center gap-1.5 text-xs text-muted-foreground">
+                  <span>{new Date(entry.createdAt).toLocaleString(locale, { hour12: false })}</span>
+                  {Object.entries(entry.options ?? {}).map(([key, value]) => (
+                    <span key={key} className="rounded bg-secondary px-1.5 py-0.5 text-secondary-foreground">
+                      {String(value)}
+                    </span>
+                  ))}
+                </div>
+                <p className="break-all font-mono text-xs">{preview(entry.input) || t('history.emptyValue')}</p>
+                {entry.output && (
+                  <p className="break-all font-mono text-xs text-muted-foreground">
+                    → {preview(entry.output)}
+                  </p>
+                )}
+              </button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => remove(entry.id)}
+                className="absolute right-2 top-2 h-7 w-7 p-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+                title={t('common.delete')}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {entries.length > 0 && (
+          <div className="border-t p-4">
+            <Button variant="outline" size="sm" className="w-full" onClick={handleClear}>
+              {t('history.clear')}
+            </Button>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
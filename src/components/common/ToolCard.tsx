@@ -0,0 +1,105 @@
+import { Star, WifiOff } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { useI18n } from '@/hooks/useI18n';
+import { localizeTool } from '@/tools';
+import type { MatchRange } from '@/lib/fuzzy';
+import type { ToolConfig } from '@/tools/types';
+import { Highlight } from './Highlight';
+
+interface ToolCardProps {
+  tool: ToolConfig;
+  /** 搜索命中区间，键为 name、description 或 tag:<标签> */
+  highlights?: Record<string, MatchRange[]>;
+  isFavorite?: boolean;
+  onClick?: () => void;
+  onToggleFavorite?: () => void;
+}
+
+/**
+ * 工具卡片组件
+ * 展示工具图标、名称、描述和标签，右上角可切换收藏
+ * 离线时需要联网的工具会置灰并标注
+ */
+export const ToolCard = ({
+  tool,
+  highlights = {},
+  isFavorite = false,
+  onClick,
+  onToggleFavorite,
+}: ToolCardProps) => {
+  const Icon = tool.icon;
+  const isOnline = useOnlineStatus();
+  const unavailable = tool.requiresBackend && !isOnline;
+  const { locale, t } = useI18n();
+  const { name, description } = localizeTool(tool, locale);
+
+  // 命中的标签优先展示
+  const tags = [...tool.tags].sort(
+    (a, b) => Number(`tag:${b}` in highlights) - Number(`tag:${a}` in highlights)
+  );
+
+  return (
+    <div className="group relative">
+      <button
+        onClick={onClick}
+        className={cn(
+          'relative h-full w-full overflow-hidden rounded-lg border bg-card p-6 shadow-sm transition-all hover:shadow-md text-left cursor-pointer',
+          unavailable && 'opacity-60'
+        )}
+        title={unavailable ? t('toolCard.offlineTip') : undefined}
+      >
+        {/* 工具图标 */}
+        <div className="mb-4 flex h-12 w-12 items-center justify-center rounded-lg bg-primary/10 text-primary transition-colors group-hover:bg-primary group-hover:text-primary-foreground">
+          <Icon className="h-6 w-6" />
+        </div>
+
+        {/* 工具信息 */}
+        <h3 className="mb-2 pr-8 text-lg font-semibold">
+          <Highlight text={name} ranges={highlights.name} />
+        </h3>
+        <p className="mb-4 text-sm text-muted-foreground line-clamp-2">
+          <Highlight text={description} ranges={highlights.description} />
+        </p>
+
+        {/* 标签 */}
+        <div className="flex flex-wrap gap-2">
+          {unavailable && (
+            <span className="flex items-center gap-1 rounded-full bg-destructive/10 px-2.5 py-0.5 text-xs font-medium text-destructive">
+              <WifiOff className="h-3 w-3" />
+              {t('toolCard.needsNetwork')}
+            </span>
+          )}
+          {tags.slice(0, 3).map((tag) => (
+            <span
+              key={tag}
+              className="rounded-full bg-secondary px-2.5 py-0.5 text-xs font-medium text-secondary-foreground"
+            >
+              <Highlight text={tag} ranges={highlights[`tag:${tag}`]} />
+            </span>
+          ))}
+        </div>
+
+        {/* 悬浮效果 */}
+        <div className="absolute inset-0 -z-10 bg-gradient-to-br from-primary/5 to-transparent opacity-0 transition-opacity group-hover:opacity-100" />
+      </button>
+
+      {/* 收藏按钮 */}
+      {onToggleFavorite && (
+        <button
+          onClick={onToggleFavorite}
+          className={cn(
+            'absolute right-4 top-4 cursor-pointer rounded-md p-1.5 transition-colors hover:bg-accent',
+            isFavorite
+              ? 'text-yellow-500'
+              : 'text-muted-foreground opacity-0 group-hover:opacity-100 focus-visible:opacity-100'
+          )}
+          title={isFavorite ? t('toolCard.unfavorite') : t('toolCard.favorite')}
+        >
+          <Star className={cn('h-5 w-5', isFavorite && 'fill-current')} />
+          <span className="sr-only">{isFavorite ? t('toolCard.unfavorite') : t('toolCard.favorite')}</span>
+        </button>
+      )}
+    </div>
+  );
+};
@@ -1,14 +1,18 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Menu, Search, ArrowLeft, X, Sun, Moon } from 'lucide-react';
+import { Menu, Search, ArrowLeft, X, Sun, Moon, Command, WifiOff, Languages } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useTheme } from '@/components/theme-provider';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { useI18n } from '@/hooks/useI18n';
+import { LOCALES } from '@/lib/i18n';
 
 interface HeaderProps {
   onMenuClick?: () => void;
   onSearch?: (query: string) => void;
   searchQuery?: string;
   showBackButton?: boolean;
+  onCommandPaletteOpen?: () => void;
 }
 
 /**
@@ -19,11 +23,14 @@ export const Header = ({
   onSearch,
   searchQuery = '',
   showBackButton = false,
+  onCommandPaletteOpen,
 }: HeaderProps) => {
   const navigate = useNavigate();
   const [localSearchQuery, setLocalSearchQuery] = useState(searchQuery);
   const [showMobileSearch, setShowMobileSearch] = useState(false);
   const { theme, setTheme } = useTheme();
+  const isOnline = useOnlineStatus();
+  const { locale, setLocale, t } = useI18n();
 
   const handleSearchChange = (value: string) => {
     setLocalSearchQuery(value);
@@ -39,6 +46,9 @@ export const Header = ({
     setTheme(theme === 'light' ? 'dark' : 'light');
   };
 
+  // 在支持的语言之间循环切换
+  const nextLocale = LOCALES[(LOCALES.findIndex((item) => item.id === locale) + 1) % LOCALES.length];
+
   return (
     <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
       <div className="flex h-16 items-center gap-4 px-4">
@@ -50,7 +60,7 @@ export const Header = ({
           onClick={onMenuClick}
         >
           <Menu className="h-5 w-5" />
-          <span className="sr-only">打开菜单</span>
+          <span className="sr-only">{t('header.openMenu')}</span>
         </Button>
 
         {/* 返回按钮（桌面端固定位置） */}
@@ -62,7 +72,7 @@ export const Header = ({
             onClick={() => navigate('/')}
           >
             <ArrowLeft className="h-5 w-5" />
-            <span className="sr-only">返回首页</span>
+            <span className="sr-only">{t('common.backHome')}</span>
           </Button>
         )}
 
@@ -76,7 +86,7 @@ export const Header = ({
           </div>
           <div className="hidden sm:block">
             <h1 className="text-lg font-semibold">Just Tools</h1>
-            <p className="text-xs text-muted-foreground">实用工具集合</p>
+            <p className="text-xs text-muted-foreground">{t('header.subtitle')}</p>
           </div>
         </button>
 
@@ -87,7 +97,7 @@ export const Header = ({
               <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
               <input
                 type="search"
-                placeholder="搜索工具..."
+                placeholder={t('header.searchPlaceholder')}
                 value={localSearchQuery}
                 onChange={(e) => handleSearchChange(e.target.value)}
                 className="h-9 w-full rounded-md border border-input bg-background pl-10 pr-10 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
@@ -106,6 +116,17 @@ export const Header = ({
 
         {/* 右侧操作区 */}
         <div className="flex items-center gap-2 ml-auto">
+          {/* 离线提示 */}
+          {!isOnline && (
+            <span
+              className="flex items-center gap-1.5 rounded-full bg-muted px-2.5 py-1 text-xs text-muted-foreground"
+              title={t('header.offlineTip')}
+            >
+              <WifiOff className="h-3.5 w-3.5" />
+              {t('header.offline')}
+            </span>
+          )}
+
           {/* 搜索按钮 - 移动端 */}
           {!showBackButton && (
             <Button
@@ -115,15 +136,37 @@ export const Header = ({
               onClick={() => setShowMobileSearch(!showMobileSearch)}
             >
               <Search className="h-5 w-5" />
-              <span className="sr-only">搜索</span>
+              <span className="sr-only">{t('header.search')}</span>
             </Button>
           )}
 
+          {/* 命令面板按钮 */}
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onCommandPaletteOpen}
+            title={t('header.commandPaletteTip')}
+          >
+            <Command className="h-5 w-5" />
+            <span className="sr-only">{t('header.commandPalette')}</span>
+          </Button>
+
+          {/* 语言切换按钮 */}
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setLocale(nextLocale.id)}
+            title={`${t('header.language')}: ${nextLocale.label}`}
+          >
+            <Languages className="h-5 w-5" />
+            <span className="sr-only">{t('header.language')}</span>
+          </Button>
+
           {/* 主题切换按钮 */}
           <Button variant="ghost" size="icon" onClick={toggleTheme}>
             <Sun className="h-5 w-5 rotate-0 scale-100 transition-all dark:-rotate-90 dark:scale-0" />
             <Moon className="absolute h-5 w-5 rotate-90 scale-0 transition-all dark:rotate-0 dark:scale-100" />
-            <span className="sr-only">切换主题</span>
+            <span className="sr-only">{t('header.toggleTheme')}</span>
           </Button>
 
           {/* GitHub 链接 */}
@@ -158,7 +201,7 @@ export const Header = ({
             <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
             <input
               type="search"
-              placeholder="搜索工具..."
+              placeholder={t('header.searchPlaceholder')}
               value={localSearchQuery}
               onChange={(e) => handleSearchChange(e.target.value)}
               className="h-9 w-full rounded-md border border-input bg-background pl-10 pr-10 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
@@ -2,8 +2,10 @@ import { useNavigate } from 'react-router-dom';
 import { X, Layers, ChevronLeft, ChevronRight } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
-import { getAllCategories, getToolCountByCategory } from '@/tools';
-import type { ToolCategory } from '@/tools/types';
+import { useToolMetadata } from '@/hooks/useToolMetadata';
+import { getAllCategories, getToolCountByCategory, localizeCategory, localizeTool } from '@/tools';
+import { useI18n } from '@/hooks/useI18n';
+import type { ToolCategory, ToolConfig } from '@/tools/types';
 import { version } from '../../../package.json';
 
 interface SidebarProps {
@@ -29,6 +31,8 @@ export const Sidebar = ({
   const categories = getAllCategories();
   const toolCounts = getToolCountByCategory();
   const totalTools = Object.values(toolCounts).reduce((a, b) => a + b, 0);
+  const { favoriteTools, recentTools } = useToolMetadata();
+  const { t } = useI18n();
 
   const handleCategoryClick = (category: ToolCategory | 'all') => {
     onCategoryChange?.(category);
@@ -38,6 +42,53 @@ export const Sidebar = ({
     }
   };
 
+  const handleToolClick = (toolId: string) => {
+    navigate(`/tool/${toolId}`);
+    if (window.innerWidth < 768) {
+      onClose?.();
+    }
+  };
+
+  // 渲染快捷工具分组（收藏、最近使用）
+  const renderToolGroup = (title: string, tools: ToolConfig[]) => {
+    if (tools.length === 0) return null;
+
+    return (
+      <>
+        {/* 分隔线 */}
+        <div className="my-3 h-px bg-border" />
+
+        {isOpen && (
+          <h3 className="mb-1 px-3 text-xs font-medium text-muted-foreground">
+            {title}
+          </h3>
+        )}
+        <div className="space-y-0.5">
+          {tools.map((tool) => {
+            const Icon = tool.icon;
+            const { name } = localizeTool(tool);
+            return (
+              <button
+                key={tool.id}
+                onClick={() => handleToolClick(tool.id)}
+                className={cn(
+                  'cursor-pointer flex items-center gap-3 rounded-lg px-3 py-2 text-sm transition-all hover:bg-accent',
+                  isOpen ? 'w-full' : 'md:w-auto md:justify-center'
+                )}
+                title={!isOpen ? name : undefined}
+              >
+                <Icon className="h-4 w-4 shrink-0 text-foreground/70" />
+                {isOpen && (
+                  <span className="flex-1 truncate text-left">{name}</span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      </>
+    );
+  };
+
   return (
     < >
       {/* 移动端遮罩层 */}
@@ -61,10 +112,10 @@ export const Sidebar = ({
           'flex items-center justify-between border-b p-4 md:hidden',
           !isOpen && 'hidden'
         )}>
-          <h2 className="text-base font-semibold">工具分类</h2>
+          <h2 className="text-base font-semibold">{t('sidebar.title')}</h2>
           <Button variant="ghost" size="icon" onClick={onClose}>
             <X className="h-4 w-4" />
-            <span className="sr-only">关闭</span>
+            <span className="sr-only">{t('common.close')}</span>
           </Button>
         </div>
 
@@ -88,7 +139,7 @@ export const Sidebar = ({
                   : 'hover:bg-accent',
                 isOpen ? 'w-full' : 'md:w-auto md:justify-center'
               )}
-              title={!isOpen ? '全部工具' : undefined}
+              title={!isOpen ? t('nav.allTools') : undefined}
             >
               <div
                 className={cn(
@@ -106,7 +157,7 @@ export const Sidebar = ({
               </div>
               {isOpen && (
                 <>
-                  <span className="flex-1 text-left whitespace-nowrap">全部工具</span>
+                  <span className="flex-1 text-left whitespace-nowrap">{t('nav.allTools')}</span>
                   <span
                     className={cn(
                       'flex h-5 min-w-[20px] shrink-0 items-center justify-center rounded-full px-1.5 text-xs font-semibold',
@@ -130,6 +181,7 @@ export const Sidebar = ({
                 const Icon = category.icon;
                 const count = toolCounts[category.id] || 0;
                 const isSelected = selectedCategory === category.id;
+                const { name } = localizeCategory(category);
 
                 return (
                   <button
@@ -142,7 +194,7 @@ export const Sidebar = ({
                         : 'hover:bg-accent',
                       isOpen ? 'w-full' : 'md:w-auto md:justify-center'
                     )}
-                    title={!isOpen ? category.name : undefined}
+                    title={!isOpen ? name : undefined}
                   >
                     <div
                       className={cn(
@@ -160,7 +212,7 @@ export const Sidebar = ({
                     </div>
                     {isOpen && (
                       <>
-                        <span className="flex-1 text-left whitespace-nowrap">{category.name}</span>
+                        <span className="flex-1 text-left whitespace-nowrap">{name}</span>
                         {count > 0 && (
                           <span
                             className={cn(
@@ -179,6 +231,12 @@ export const Sidebar = ({
                 );
               })}
             </div>
+
+            {/* 收藏 */}
+            {renderToolGroup(t('nav.favorites'), favoriteTools)}
+
+            {/* 最近使用 */}
+            {renderToolGroup(t('nav.recent'), recentTools)}
           </nav>
 
           {/* 底部信息 */}
@@ -201,7 +259,7 @@ export const Sidebar = ({
               <button
                 onClick={onToggle}
                 className="cursor-pointer hidden h-6 w-6 items-center justify-center rounded-md transition-colors hover:bg-accent md:flex"
-                title={isOpen ? '收起侧边栏' : '展开侧边栏'}
+                title={isOpen ? t('sidebar.collapse') : t('sidebar.expand')}
               >
                 {isOpen ? (
                   <ChevronLeft className="h-6 w-6 " />
@@ -1,11 +1,14 @@
 import { createContext, useContext, useState, useMemo } from 'react';
 import type { ReactNode } from 'react';
-import { allTools, getToolsByCategory } from '@/tools';
+import { allTools, getToolsByCategory, rankTools } from '@/tools';
+import { useI18n } from '@/hooks/useI18n';
+import type { ToolSearchResult } from '@/tools';
 import type { ToolCategory, ToolConfig } from '@/tools/types';
 
 interface ToolsContextType {
   allTools: ToolConfig[];
   filteredTools: ToolConfig[];
+  searchResults: ToolSearchResult[];
   selectedCategory: ToolCategory | 'all';
   setSelectedCategory: (category: ToolCategory | 'all') => void;
   searchQuery: string;
@@ -17,35 +20,25 @@ const ToolsContext = createContext<ToolsContextType | undefined>(undefined);
 export const ToolsProvider = ({ children }: { children: ReactNode }) => {
   const [selectedCategory, setSelectedCategory] = useState<ToolCategory | 'all'>('all');
   const [searchQuery, setSearchQuery] = useState('');
+  const { locale } = useI18n();
 
-  // 根据分类和搜索过滤工具
-  const filteredTools = useMemo(() => {
-    let tools: ToolConfig[] = [];
+  // 根据分类筛选，再按搜索关键词排序
+  const searchResults = useMemo(() => {
+    const tools =
+      selectedCategory === 'all' ? allTools : getToolsByCategory(selectedCategory);
 
-    // 根据分类筛选
-    if (selectedCategory === 'all') {
-      tools = allTools;
-    } else {
-      tools = getToolsByCategory(selectedCategory);
-    }
+    return rankTools(searchQuery, tools, locale);
+  }, [selectedCategory, searchQuery, locale]);
 
-    // 根据搜索关键词过滤
-    if (searchQuery.trim()) {
-      const lowerQuery = searchQuery.toLowerCase();
-      tools = tools.filter(
-        (tool) =>
-          tool.name.toLowerCase().includes(lowerQuery) ||
-          tool.description.toLowerCase().includes(lowerQuery) ||
-          tool.tags.some((tag) => tag.toLowerCase().includes(lowerQuery))
-      );
-    }
-
-    return tools;
-  }, [selectedCategory, searchQuery]);
+  const filteredTools = useMemo(
+    () => searchResults.map((result) => result.item),
+    [searchResults]
+  );
 
   const value = {
     allTools,
     filteredTools,
+    searchResults,
     selectedCategory,
     setSelectedCategory,
     searchQuery,
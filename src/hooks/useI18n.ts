@@ -0,0 +1,15 @@
+import { useSyncExternalStore } from 'react';
+import { getLocale, setLocale, subscribeLocale } from '@/lib/i18n';
+import { t } from '@/locales';
+
+/**
+ * 国际化 Hook
+ * 语言切换时触发重新渲染
+ * @returns locale - 当前语言
+ * @returns setLocale - 切换语言
+ * @returns t - 应用界面的翻译函数
+ */
+export function useI18n() {
+  const locale = useSyncExternalStore(subscribeLocale, getLocale);
+  return { locale, setLocale, t };
+}
@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import {
+  clearHistory,
+  deleteHistoryEntry,
+  getHistory,
+  getHistorySettings,
+  setHistoryEnabled,
+  setHistoryLimit,
+  subscribeHistory,
+  type HistoryEntry,
+} from '@/lib/history';
+
+/**
+ * 工具历史记录 Hook
+ * @param toolId - 工具 ID
+ * @returns entries - 按时间倒序排列的历史记录
+ * @returns enabled / limit - 当前工具是否记录历史、保留条数
+ */
+export function useToolHistory(toolId: string) {
+  const settings = useSyncExternalStore(subscribeHistory, getHistorySettings);
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [loadedToolId, setLoadedToolId] = useState<string | null>(null);
+
+  // 加载记录，记录变化时重新加载
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = () => {
+      getHistory(toolId)
+        .then((next) => {
+          if (cancelled) return;
+          setEntries(next);
+          setLoadedToolId(toolId);
+        })
+        .catch((error) => console.error('Failed to load history:', error));
+    };
+
+    load();
+    const unsubscribe = subscribeHistory(load);
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [toolId]);
+
+  const setEnabled = useCallback(
+    (enabled: boolean) => setHistoryEnabled(toolId, enabled),
+    [toolId]
+  );
+
+  const clear = useCallback(() => clearHistory(toolId), [toolId]);
+
+  return {
+    entries: loadedToolId === toolId ? entries : [],
+    isLoading: loadedToolId !== toolId,
+    enabled: !settings.disabledTools.includes(toolId),
+    limit: settings.limit,
+    setEnabled,
+    setLimit: setHistoryLimit,
+    remove: deleteHistoryEntry,
+    clear,
+  };
+}
@@ -0,0 +1,63 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { allTools } from '@/tools';
+import type { ToolConfig, ToolMetadata } from '@/tools/types';
+import {
+  getToolMetadataSnapshot,
+  recordToolUsage,
+  subscribeToolMetadata,
+  toggleToolFavorite,
+} from '@/lib/tool-metadata';
+
+/** 最近使用列表的最大长度 */
+const RECENT_LIMIT = 5;
+
+/**
+ * 工具元数据 Hook
+ * 提供收藏、使用次数、最近使用等数据及操作
+ */
+export function useToolMetadata() {
+  const metadata = useSyncExternalStore(
+    subscribeToolMetadata,
+    getToolMetadataSnapshot
+  );
+
+  // 收藏的工具（按注册表顺序）
+  const favoriteTools = useMemo(
+    () => allTools.filter((tool) => metadata[tool.id]?.isFavorite),
+    [metadata]
+  );
+
+  // 最近使用的工具（按最后使用时间倒序）
+  const recentTools = useMemo(
+    () =>
+      allTools
+        .filter((tool) => metadata[tool.id]?.lastUsed)
+        .sort((a, b) => (metadata[b.id].lastUsed ?? 0) - (metadata[a.id].lastUsed ?? 0))
+        .slice(0, RECENT_LIMIT),
+    [metadata]
+  );
+
+  const getMetadata = useCallback(
+    (toolId: string): ToolMetadata => metadata[toolId] ?? {},
+    [metadata]
+  );
+
+  // 按使用次数倒序排列，次数相同时保持原有顺序
+  const sortByUsage = useCallback(
+    (tools: ToolConfig[]): ToolConfig[] =>
+      [...tools].sort(
+        (a, b) => (metadata[b.id]?.usageCount ?? 0) - (metadata[a.id]?.usageCount ?? 0)
+      ),
+    [metadata]
+  );
+
+  return {
+    metadata,
+    getMetadata,
+    favoriteTools,
+    recentTools,
+    sortByUsage,
+    recordUsage: recordToolUsage,
+    toggleFavorite: toggleToolFavorite,
+  };
+}
@@ -0,0 +1,37 @@
+import { createContext, useContext } from 'react';
+import type { ToolHistoryRecord } from '@/lib/history';
+
+interface ToolStateContextValue {
+  /** 从分享链接或历史记录还原的状态（已经过 deserializeState 校验） */
+  initialState: unknown;
+  /** 上报工具当前状态，生成分享链接和历史记录时使用 */
+  reportState: (state: unknown) => void;
+  /** 上报一次处理结果，写入历史记录 */
+  recordHistory: (record: ToolHistoryRecord) => void;
+}
+
+/**
+ * 工具状态上下文，由 ToolPage 提供
+ */
+export const ToolStateContext = createContext<ToolStateContextValue>({
+  initialState: undefined,
+  reportState: () => {},
+  recordHistory: () => {},
+});
+
+/**
+ * 工具状态 Hook
+ * 配合 ToolConfig.serializeState / deserializeState 实现分享链接和历史记录
+ * @returns initialState - 需要还原的初始状态（没有时为 undefined）
+ * @returns reportState - 状态变化时调用，上报可分享的状态
+ * @returns recordHistory - 处理成功后调用，记录输入、输出和选项（会自动防抖去重）
+ */
+export function useToolState<S>() {
+  const { initialState, reportState, recordHistory } = useContext(ToolStateContext);
+
+  return {
+    initialState: initialState as S | undefined,
+    reportState: reportState as (state: S) => void,
+    recordHistory,
+  };
+}
@@ -1,6 +1,7 @@
 import { useState, useMemo } from 'react';
-import { allTools, getToolsByCategory } from '@/tools';
-import type { ToolCategory, ToolConfig } from '@/tools/types';
+import { allTools, getToolsByCategory, rankTools } from '@/tools';
+import { useI18n } from '@/hooks/useI18n';
+import type { ToolCategory } from '@/tools/types';
 
 /**
  * 工具管理 Hook
@@ -11,35 +12,25 @@ export function useTools() {
     ToolCategory | 'all'
   >('all');
   const [searchQuery, setSearchQuery] = useState('');
+  const { locale } = useI18n();
 
-  // 根据分类和搜索过滤工具
-  const filteredTools = useMemo(() => {
-    let tools: ToolConfig[] = [];
+  // 根据分类筛选，再按搜索关键词排序
+  const searchResults = useMemo(() => {
+    const tools =
+      selectedCategory === 'all' ? allTools : getToolsByCategory(selectedCategory);
 
-    // 根据分类筛选
-    if (selectedCategory === 'all') {
-      tools = allTools;
-    } else {
-      tools = getToolsByCategory(selectedCategory);
-    }
+    return rankTools(searchQuery, tools, locale);
+  }, [selectedCategory, searchQuery, locale]);
 
-    // 根据搜索关键词过滤
-    if (searchQuery.trim()) {
-      const lowerQuery = searchQuery.toLowerCase();
-      tools = tools.filter(
-        (tool) =>
-          tool.name.toLowerCase().includes(lowerQuery) ||
-          tool.description.toLowerCase().includes(lowerQuery) ||
-          tool.tags.some((tag) => tag.toLowerCase().includes(lowerQuery))
-      );
-    }
-
-    return tools;
-  }, [selectedCategory, searchQuery]);
+  const filteredTools = useMemo(
+    () => searchResults.map((result) => result.item),
+    [searchResults]
+  );
 
   return {
     allTools,
     filteredTools,
+    searchResults,
     selectedCategory,
     setSelectedCategory,
     searchQuery,
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { fuzzyMatch, tokenize } from './fuzzy';
+
+describe('tokenize', () => {
+  it('按空白拆分并转小写', () => {
+    expect(tokenize('  JSON   Format ')).toEqual(['json', 'format']);
+    expect(tokenize('')).toEqual([]);
+  });
+});
+
+describe('fuzzyMatch', () => {
+  it('完全相同 > 单词开头 > 单词中间 > 拼写容错', () => {
+    const exact = fuzzyMatch('json', 'JSON')!;
+    const prefix = fuzzyMatch('json', 'JSON Formatter')!;
+    const inner = fuzzyMatch('son', 'JSON Formatter')!;
+    const typo = fuzzyMatch('jsno', 'JSON Formatter')!;
+
+    expect(exact.score).toBeGreaterThan(prefix.score);
+    expect(prefix.score).toBeGreaterThan(inner.score);
+    expect(inner.score).toBeGreaterThan(typo.score);
+    expect(prefix.ranges).toEqual([[0, 4]]);
+    expect(inner.ranges).toEqual([[1, 4]]);
+  });
+
+  it('中文全拼', () => {
+    expect(fuzzyMatch('shijianchuo', '时间戳转换')?.ranges).toEqual([[0, 3]]);
+    // 关键词可以停在某个字的拼音中间
+    expect(fuzzyMatch('mimash', '密码生成')?.ranges).toEqual([[0, 3]]);
+    expect(fuzzyMatch('zhuanhuan', '时间戳转换')?.ranges).toEqual([[3, 5]]);
+  });
+
+  it('拼音首字母', () => {
+    expect(fuzzyMatch('mmsc', '密码生成')).toEqual({ score: 0.8, ranges: [[0, 4]] });
+    expect(fuzzyMatch('sjc', '时间戳转换')?.ranges).toEqual([[0, 3]]);
+  });
+
+  it('拼写容错', () => {
+    expect(fuzzyMatch('jsno', 'JSON Formatter')?.ranges).toEqual([[0, 4]]);
+    expect(fuzzyMatch('timestmp', 'Timestamp Converter')?.ranges).toEqual([[0, 9]]);
+    // 短关键词只容许一处错误
+    expect(fuzzyMatch('jxnx', 'JSON Formatter')).toBeNull();
+  });
+
+  it('无关的查询不匹配', () => {
+    expect(fuzzyMatch('qwerty', 'JSON Formatter')).toBeNull();
+    expect(fuzzyMatch('xyz', '时间戳转换')).toBeNull();
+  });
+
+  it('空关键词视为命中', () => {
+    expect(fuzzyMatch('', '任意文本')).toEqual({ score: 1, ranges: [] });
+  });
+});
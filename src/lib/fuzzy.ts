@@ -0,0 +1,201 @@
+import { pinyin } from 'pinyin-pro';
+
+/**
+ * 模糊匹配工具
+ * 支持原文子串、中文全拼、拼音首字母（如 "时间戳" 可用 "shijianchuo" 或 "sjc" 匹配）
+ * 以及英文单词的拼写容错（如 "timestmp" 匹配 "timestamp"）
+ */
+
+/** 匹配区间 [起始, 结束)，基于原文的字符下标 */
+export type MatchRange = [start: number, end: number];
+
+/**
+ * 匹配结果
+ */
+export interface FuzzyMatch {
+  /** 0 ~ 1 之间的得分 */
+  score: number;
+  /** 命中的原文区间 */
+  ranges: MatchRange[];
+}
+
+interface TextIndex {
+  lower: string;
+  /** 每个字符对应的拼音（不含中文时为 null） */
+  syllables: string[] | null;
+  /** 拼接后的全拼 */
+  fullPinyin: string;
+  /** 每个字符在全拼中的起始位置 */
+  pinyinOffsets: number[];
+  /** 每个字符对应的首字母，与原文等长 */
+  initials: string;
+  /** 英文单词及其区间 */
+  words: { word: string; start: number; end: number }[];
+}
+
+const CJK_PATTERN = /[一-龥]/;
+
+const indexCache = new Map<string, TextIndex>();
+
+/**
+ * 构建文本的匹配索引（结果会缓存）
+ */
+function buildIndex(text: string): TextIndex {
+  const cached = indexCache.get(text);
+  if (cached) return cached;
+
+  const lower = text.toLowerCase();
+  let syllables: string[] | null = null;
+
+  if (CJK_PATTERN.test(text)) {
+    const result = pinyin(text, { toneType: 'none', type: 'array' });
+    // 代理对等特殊字符会导致长度不一致，此时逐字转换
+    syllables = result.length === text.length
+      ? result
+      : Array.from({ length: text.length }, (_, i) =>
+          pinyin(text[i], { toneType: 'none' })
+        );
+    syllables = syllables.map((syllable) => syllable.toLowerCase());
+  }
+
+  const pinyinOffsets: number[] = [];
+  let fullPinyin = '';
+  for (const syllable of syllables ?? []) {
+    pinyinOffsets.push(fullPinyin.length);
+    fullPinyin += syllable;
+  }
+
+  const initials = syllables
+    ? syllables.map((syllable) => syllable[0] ?? ' ').join('')
+    : lower;
+
+  const words = Array.from(lower.matchAll(/[a-z0-9]+/g), (m) => ({
+    word: m[0],
+    start: m.index,
+    end: m.index + m[0].length,
+  }));
+
+  const index = { lower, syllables, fullPinyin, pinyinOffsets, initials, words };
+  indexCache.set(text, index);
+  return index;
+}
+
+/**
+ * 将查询词拆分为小写的关键词
+ */
+export function tokenize(query: string): string[] {
+  return query.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * 计算编辑距离（含相邻字符交换）
+ */
+function editDistance(a: string, b: string): number {
+  const dp = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      dp[i][j] = Math.min(dp[i - 1][j] + 1, dp[i][j - 1] + 1, dp[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        dp[i][j] = Math.min(dp[i][j], dp[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return dp[a.length][b.length];
+}
+
+/**
+ * 全拼匹配：关键词必须从某个字的拼音开头开始
+ */
+function matchPinyin(token: string, index: TextIndex): MatchRange | null {
+  const { syllables, fullPinyin, pinyinOffsets } = index;
+  if (!syllables) return null;
+
+  for (let start = 0; start < syllables.length; start++) {
+    const offset = pinyinOffsets[start];
+    if (!syllables[start] || !fullPinyin.startsWith(token, offset)) continue;
+
+    const endOffset = offset + token.length;
+    let end = start;
+    while (end < syllables.length && pinyinOffsets[end] < endOffset) {
+      end++;
+    }
+    return [start, end];
+  }
+
+  return null;
+}
+
+/**
+ * 拼写容错：与英文单词（或其前缀）的编辑距离在阈值以内
+ */
+function matchTypo(token: string, index: TextIndex): FuzzyMatch | null {
+  if (token.length < 3 || !/^[a-z0-9]+$/.test(token)) return null;
+
+  const maxDistance = token.length >= 6 ? 2 : 1;
+  let best: FuzzyMatch | null = null;
+
+  for (const { word, start, end } of index.words) {
+    if (word.length < 3) continue;
+
+    const distance = Math.min(
+      editDistance(token, word),
+      editDistance(token, word.slice(0, token.length))
+    );
+    if (distance === 0 || distance > maxDistance) continue;
+
+    const score = 0.6 - distance * 0.15;
+    if (!best || score > best.score) {
+      best = { score, ranges: [[start, end]] };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * 单个关键词与文本的模糊匹配
+ * @param token - 小写关键词（见 tokenize）
+ * @param text - 待匹配文本
+ * @returns 匹配结果，不匹配返回 null
+ */
+export function fuzzyMatch(token: string, text: string): FuzzyMatch | null {
+  if (!token) return { score: 1, ranges: [] };
+
+  const index = buildIndex(text);
+
+  // 1. 原文子串：完全相同 > 单词开头 > 单词中间
+  const position = index.lower.indexOf(token);
+  if (position !== -1) {
+    const prev = index.lower[position - 1];
+    const atWordStart = position === 0 || !/[a-z0-9]/.test(prev);
+    return {
+      score: token === index.lower ? 1 : atWordStart ? 0.95 : 0.85,
+      ranges: [[position, position + token.length]],
+    };
+  }
+
+  // 2. 中文全拼
+  const pinyinRange = matchPinyin(token, index);
+  if (pinyinRange) {
+    return { score: 0.9, ranges: [pinyinRange] };
+  }
+
+  // 3. 拼音首字母
+  if (index.syllables && token.length >= 2) {
+    const initialsPosition = index.initials.indexOf(token);
+    if (initialsPosition !== -1) {
+      return {
+        score: 0.8,
+        ranges: [[initialsPosition, initialsPosition + token.length]],
+      };
+    }
+  }
+
+  // 4. 拼写容错
+  return matchTypo(token, index);
+}
@@ -0,0 +1,235 @@
+/**
+ * 工具历史记录存储
+ * 记录保存在 IndexedDB 中（输入输出可能较大，不适合放在 localStorage），
+ * 记录设置（保留条数、按工具关闭）保存在 localStorage
+ */
+
+const DB_NAME = 'just-tools';
+const DB_VERSION = 1;
+const STORE_NAME = 'history';
+const SETTINGS_STORAGE = 'just-tools-history-settings';
+
+/** 可选的保留条数 */
+export const HISTORY_LIMIT_OPTIONS = [20, 50, 100, 200];
+
+/**
+ * 工具上报的一次处理记录
+ */
+export interface ToolHistoryRecord {
+  /** 输入内容 */
+  input: string;
+  /** 输出内容 */
+  output: string;
+  /** 处理选项（如算法、格式），用于展示 */
+  options?: Record<string, string | number | boolean>;
+}
+
+/**
+ * 历史记录条目
+ */
+export interface HistoryEntry extends ToolHistoryRecord {
+  /** 自增 ID */
+  id: number;
+  /** 工具 ID */
+  toolId: string;
+  /** 工具序列化后的状态（见 ToolConfig.serializeState），用于还原 */
+  state: string;
+  /** 记录时间 */
+  createdAt: number;
+}
+
+/**
+ * 历史记录设置
+ */
+export interface HistorySettings {
+  /** 每个工具最多保留的条数 */
+  limit: number;
+  /** 关闭了历史记录的工具 ID */
+  disabledTools: string[];
+}
+
+const DEFAULT_SETTINGS: HistorySettings = {
+  limit: 50,
+  disabledTools: [],
+};
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * 订阅历史记录或设置的变化
+ */
+export function subscribeHistory(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// ============================================================================
+// 设置
+// ============================================================================
+
+function loadSettings(): HistorySettings {
+  try {
+    const raw = localStorage.getItem(SETTINGS_STORAGE);
+    const parsed = raw ? (JSON.parse(raw) as Partial<HistorySettings>) : {};
+    return {
+      limit: typeof parsed.limit === 'number' && parsed.limit > 0 ? parsed.limit : DEFAULT_SETTINGS.limit,
+      disabledTools: Array.isArray(parsed.disabledTools) ? parsed.disabledTools : [],
+    };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+let settings = loadSettings();
+
+function commitSettings(next: HistorySettings) {
+  settings = next;
+  try {
+    localStorage.setItem(SETTINGS_STORAGE, JSON.stringify(next));
+  } catch (error) {
+    console.error('Failed to persist history settings:', error);
+  }
+  notify();
+}
+
+/**
+ * 获取当前设置快照
+ */
+export function getHistorySettings(): HistorySettings {
+  return settings;
+}
+
+/**
+ * 工具是否记录历史
+ */
+export function isHistoryEnabled(toolId: string): boolean {
+  return !settings.disabledTools.includes(toolId);
+}
+
+/**
+ * 开启或关闭某个工具的历史记录
+ * 关闭时不会删除已有记录
+ */
+export function setHistoryEnabled(toolId: string, enabled: boolean): void {
+  const disabledTools = settings.disabledTools.filter((id) => id !== toolId);
+  if (!enabled) disabledTools.push(toolId);
+  commitSettings({ ...settings, disabledTools });
+}
+
+/**
+ * 设置每个工具最多保留的条数，超出的旧记录会在下次写入时清理
+ */
+export function setHistoryLimit(limit: number): void {
+  commitSettings({ ...settings, limit });
+}
+
+// ============================================================================
+// IndexedDB
+// ============================================================================
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, {
+        keyPath: 'id',
+        autoIncrement: true,
+      });
+      store.createIndex('toolId', 'toolId');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch((error) => {
+    // 允许下次重试
+    dbPromise = null;
+    throw error;
+  });
+
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDatabase();
+  return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+}
+
+/**
+ * 获取工具的历史记录
+ * @param toolId - 工具 ID
+ * @returns 按时间倒序排列的记录
+ */
+export async function getHistory(toolId: string): Promise<HistoryEntry[]> {
+  const store = await getStore('readonly');
+  const entries = await promisify<HistoryEntry[]>(
+    store.index('toolId').getAll(IDBKeyRange.only(toolId))
+  );
+  return entries.sort((a, b) => b.id - a.id);
+}
+
+/**
+ * 写入一条历史记录
+ * 工具已关闭记录时忽略；与最近一条状态相同时只更新时间和输出；超出保留条数时删除最旧的记录
+ * @param toolId - 工具 ID
+ * @param state - 工具序列化后的状态
+ * @param record - 输入、输出和选项
+ */
+export async function addHistoryEntry(
+  toolId: string,
+  state: string,
+  record: ToolHistoryRecord
+): Promise<void> {
+  if (!isHistoryEnabled(toolId)) return;
+
+  const [latest] = await getHistory(toolId);
+  const entry = { toolId, state, createdAt: Date.now(), ...record };
+
+  const store = await getStore('readwrite');
+  await promisify(
+    latest?.state === state ? store.put({ ...entry, id: latest.id }) : store.add(entry)
+  );
+
+  const expired = (await getHistory(toolId)).slice(settings.limit);
+  if (expired.length > 0) {
+    const cleanup = await getStore('readwrite');
+    await Promise.all(expired.map((item) => promisify(cleanup.delete(item.id))));
+  }
+
+  notify();
+}
+
+/**
+ * 删除一条历史记录
+ */
+export async function deleteHistoryEntry(id: number): Promise<void> {
+  const store = await getStore('readwrite');
+  await promisify(store.delete(id));
+  notify();
+}
+
+/**
+ * 清空工具的全部历史记录
+ */
+export async function clearHistory(toolId: string): Promise<void> {
+  const entries = await getHistory(toolId);
+  const store = await getStore('readwrite');
+  await Promise.all(entries.map((entry) => promisify(store.delete(entry.id))));
+  notify();
+}
@@ -0,0 +1,135 @@
+/**
+ * 国际化
+ * 当前语言保存在 localStorage，可在 React 组件外（如工具的 utils）读取；
+ * 各模块通过 defineMessages 定义自己的消息目录，调用时按当前语言取值
+ */
+
+export type Locale = 'zh-CN' | 'en-US';
+
+/**
+ * 支持的语言
+ */
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: 'zh-CN', label: '简体中文' },
+  { id: 'en-US', label: 'English' },
+];
+
+/** 默认语言，未翻译的文本回退到该语言 */
+export const DEFAULT_LOCALE: Locale = 'zh-CN';
+
+const STORAGE_KEY = 'just-tools-locale';
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+function isLocale(value: unknown): value is Locale {
+  return LOCALES.some((locale) => locale.id === value);
+}
+
+function detectLocale(): Locale {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch {
+    // localStorage 不可用时使用浏览器语言
+  }
+
+  if (typeof navigator !== 'undefined' && !navigator.language.startsWith('zh')) {
+    return 'en-US';
+  }
+  return DEFAULT_LOCALE;
+}
+
+let currentLocale: Locale = detectLocale();
+
+function applyDocumentLocale(locale: Locale) {
+  if (typeof document !== 'undefined') {
+    document.documentElement.lang = locale;
+  }
+}
+
+applyDocumentLocale(currentLocale);
+
+/**
+ * 订阅语言变化（供 useSyncExternalStore 使用）
+ */
+export function subscribeLocale(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * 获取当前语言
+ */
+export function getLocale(): Locale {
+  return currentLocale;
+}
+
+/**
+ * 切换语言并持久化
+ */
+export function setLocale(locale: Locale): void {
+  currentLocale = locale;
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch (error) {
+    console.error('Failed to persist locale:', error);
+  }
+  applyDocumentLocale(locale);
+  listeners.forEach((listener) => listener());
+}
+
+/** 消息插值参数，对应消息中的 {name} 占位符 */
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * 翻译函数
+ */
+export type Translator<K extends string> = (key: K, params?: MessageParams) => string;
+
+/**
+ * 定义消息目录
+ * 英文目录必须覆盖中文目录的全部键，缺失时类型检查报错
+ * @param zhCN - 中文消息
+ * @param enUS - 英文消息
+ * @returns 按当前语言取值的翻译函数
+ */
+export function defineMessages<K extends string>(
+  zhCN: Record<K, string>,
+  enUS: Record<NoInfer<K>, string>
+): Translator<K> {
+  const catalogs: Record<Locale, Record<K, string>> = {
+    'zh-CN': zhCN,
+    'en-US': enUS,
+  };
+
+  return (key, params) => {
+    const message = catalogs[currentLocale][key] ?? catalogs[DEFAULT_LOCALE][key] ?? key;
+    if (!params) return message;
+    return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+      name in params ? String(params[name]) : match
+    );
+  };
+}
+
+/**
+ * 可本地化的文本，键为语言，缺失的语言回退到默认文本
+ */
+export type LocalizedText<T> = Partial<Record<Locale, Partial<T>>>;
+
+/**
+ * 取本地化后的文本
+ * @param base - 默认语言的文本
+ * @param locales - 其他语言的文本
+ * @param locale - 目标语言，默认为当前语言
+ */
+export function localize<T extends object>(
+  base: T,
+  locales: LocalizedText<T> | undefined,
+  locale: Locale = currentLocale
+): T {
+  return { ...base, ...locales?.[locale] };
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { search, type SearchField } from './search';
+
+interface Item {
+  name: string;
+  description: string;
+}
+
+const items: Item[] = [
+  { name: 'JSON to TypeScript', description: '根据 JSON 生成类型定义' },
+  { name: 'JSON', description: '格式化 JSON' },
+  { name: '密码生成', description: '生成随机密码' },
+  { name: '时间戳转换', description: 'Unix timestamp 与日期互转' },
+  { name: 'Hash', description: '计算 JSON 文件的摘要' },
+];
+
+const getFields = (item: Item): SearchField[] => [
+  { key: 'name', text: item.name, weight: 3 },
+  { key: 'description', text: item.description, weight: 1 },
+];
+
+const names = (query: string) => search(items, query, getFields).map((r) => r.item.name);
+
+describe('search', () => {
+  it('查询为空时按原顺序返回全部条目', () => {
+    expect(names('  ')).toEqual(items.map((item) => item.name));
+  });
+
+  it('完全相同 > 前缀 > 仅描述命中', () => {
+    expect(names('json')).toEqual(['JSON', 'JSON to TypeScript', 'Hash']);
+  });
+
+  it('同样的命中方式，名称的权重高于描述', () => {
+    const results = search(items, 'json', getFields);
+    const byName = results.find((r) => r.item.name === 'JSON to TypeScript')!;
+    const byDescription = results.find((r) => r.item.name === 'Hash')!;
+    expect(byName.highlights.name).toEqual([[0, 4]]);
+    expect(byDescription.highlights).toEqual({ description: [[3, 7]] });
+    expect(byName.score).toBe(byDescription.score * 3);
+  });
+
+  it('支持拼音、首字母与拼写容错', () => {
+    expect(names('mmsc')).toEqual(['密码生成']);
+    expect(names('shijianchuo')).toEqual(['时间戳转换']);
+    expect(names('timestmp')).toEqual(['时间戳转换']);
+  });
+
+  it('每个关键词都必须命中', () => {
+    expect(names('json typescript')).toEqual(['JSON to TypeScript']);
+    expect(names('json qwerty')).toEqual([]);
+  });
+
+  it('无关的查询没有结果', () => {
+    expect(names('qwerty')).toEqual([]);
+  });
+
+  it('返回合并后的高亮区间', () => {
+    const [result] = search(items, 'json js', getFields);
+    expect(result.item.name).toBe('JSON');
+    expect(result.highlights).toEqual({ name: [[0, 4]], description: [[4, 8]] });
+  });
+});
@@ -0,0 +1,106 @@
+import { fuzzyMatch, tokenize, type MatchRange } from './fuzzy';
+
+/**
+ * 通用加权搜索
+ * 查询词按空白拆分，每个关键词都必须命中至少一个字段；
+ * 得分为各关键词在所有字段中的最高加权得分之和
+ */
+
+/**
+ * 参与搜索的字段
+ */
+export interface SearchField {
+  /** 字段标识，用于取回高亮区间 */
+  key: string;
+  /** 字段文本 */
+  text: string;
+  /** 字段权重 */
+  weight: number;
+}
+
+/**
+ * 搜索结果
+ */
+export interface SearchResult<T> {
+  item: T;
+  score: number;
+  /** 字段标识 → 命中区间 */
+  highlights: Record<string, MatchRange[]>;
+}
+
+/**
+ * 合并重叠或相邻的区间
+ */
+function mergeRanges(ranges: MatchRange[]): MatchRange[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: MatchRange[] = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * 加权模糊搜索
+ * @param items - 待搜索的条目
+ * @param query - 查询词
+ * @param getFields - 提取条目的可搜索字段
+ * @returns 按得分降序排列的结果，得分相同时保持原有顺序；查询为空时返回全部条目
+ */
+export function search<T>(
+  items: T[],
+  query: string,
+  getFields: (item: T) => SearchField[]
+): SearchResult<T>[] {
+  const tokens = tokenize(query);
+
+  if (tokens.length === 0) {
+    return items.map((item) => ({ item, score: 0, highlights: {} }));
+  }
+
+  const results: SearchResult<T>[] = [];
+
+  for (const item of items) {
+    const fields = getFields(item);
+    const collected: Record<string, MatchRange[]> = {};
+    let score = 0;
+    let matchedAll = true;
+
+    for (const token of tokens) {
+      let best = 0;
+
+      for (const field of fields) {
+        const match = fuzzyMatch(token, field.text);
+        if (!match) continue;
+
+        best = Math.max(best, match.score * field.weight);
+        (collected[field.key] ??= []).push(...match.ranges);
+      }
+
+      if (best === 0) {
+        matchedAll = false;
+        break;
+      }
+      score += best;
+    }
+
+    if (!matchedAll) continue;
+
+    const highlights: Record<string, MatchRange[]> = {};
+    for (const [key, ranges] of Object.entries(collected)) {
+      highlights[key] = mergeRanges(ranges);
+    }
+
+    results.push({ item, score, highlights });
+  }
+
+  // Array.prototype.sort 是稳定排序，同分时保持注册顺序
+  return results.sort((a, b) => b.score - a.score);
+}
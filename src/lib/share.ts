@@ -0,0 +1,99 @@
+import { t } from '@/locales';
+
+/**
+ * 分享链接工具函数
+ * 工具状态经 deflate 压缩后以 base64url 编码放入 URL hash（#state=...），
+ * hash 不会发送到服务器，分享内容仅在浏览器本地解析
+ */
+
+const HASH_PREFIX = '#state=';
+
+/** 压缩编码后状态的最大长度（字符），超出时拒绝生成链接 */
+export const MAX_SHARE_STATE_LENGTH = 8000;
+
+/**
+ * 通过流压缩/解压字节
+ */
+async function transform(
+  bytes: Uint8Array<ArrayBuffer>,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(token: string): Uint8Array<ArrayBuffer> {
+  const base64 = token.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * 压缩并编码状态字符串
+ * @param raw - 工具序列化后的状态
+ * @returns 可放入 URL 的编码结果
+ * @throws 状态过大时抛出错误
+ */
+export async function encodeShareState(raw: string): Promise<string> {
+  const compressed = await transform(
+    new TextEncoder().encode(raw),
+    new CompressionStream('deflate-raw')
+  );
+  const token = toBase64Url(compressed);
+
+  if (token.length > MAX_SHARE_STATE_LENGTH) {
+    const sizeKB = (token.length / 1024).toFixed(1);
+    const limitKB = (MAX_SHARE_STATE_LENGTH / 1024).toFixed(1);
+    throw new Error(t('share.tooLarge', { size: sizeKB, limit: limitKB }));
+  }
+
+  return token;
+}
+
+/**
+ * 解码并解压状态字符串
+ * @param token - encodeShareState 的编码结果
+ * @returns 工具序列化后的状态
+ * @throws 数据损坏时抛出错误
+ */
+export async function decodeShareState(token: string): Promise<string> {
+  try {
+    const decompressed = await transform(
+      fromBase64Url(token),
+      new DecompressionStream('deflate-raw')
+    );
+    return new TextDecoder().decode(decompressed);
+  } catch {
+    throw new Error(t('share.corrupted'));
+  }
+}
+
+/**
+ * 从 URL hash 中读取分享状态
+ * @param hash - location.hash
+ * @returns 编码后的状态，不存在返回 null
+ */
+export function readShareToken(hash: string): string | null {
+  return hash.startsWith(HASH_PREFIX) ? hash.slice(HASH_PREFIX.length) || null : null;
+}
+
+/**
+ * 生成当前页面的分享链接
+ * @param token - encodeShareState 的编码结果
+ */
+export function buildShareUrl(token: string): string {
+  const { origin, pathname } = window.location;
+  return `${origin}${pathname}${HASH_PREFIX}${token}`;
+}
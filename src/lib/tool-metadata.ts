@@ -0,0 +1,89 @@
+import type { ToolMetadata } from '@/tools/types';
+
+/**
+ * 工具元数据存储
+ * 记录每个工具的使用次数、最后使用时间和收藏状态，持久化到 localStorage
+ */
+
+const STORAGE_KEY = 'just-tools-metadata';
+
+export type ToolMetadataMap = Record<string, ToolMetadata>;
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+function load(): ToolMetadataMap {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === 'object' ? (parsed as ToolMetadataMap) : {};
+  } catch {
+    return {};
+  }
+}
+
+let snapshot: ToolMetadataMap = load();
+
+function commit(next: ToolMetadataMap) {
+  snapshot = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.error('Failed to persist tool metadata:', error);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+function update(toolId: string, patch: (current: ToolMetadata) => ToolMetadata) {
+  commit({ ...snapshot, [toolId]: patch(snapshot[toolId] ?? {}) });
+}
+
+// 其他标签页修改时同步
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    if (event.key !== STORAGE_KEY) return;
+    snapshot = load();
+    listeners.forEach((listener) => listener());
+  });
+}
+
+/**
+ * 订阅元数据变化（供 useSyncExternalStore 使用）
+ */
+export function subscribeToolMetadata(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * 获取当前元数据快照
+ */
+export function getToolMetadataSnapshot(): ToolMetadataMap {
+  return snapshot;
+}
+
+/**
+ * 记录一次工具访问
+ * @param toolId - 工具 ID
+ */
+export function recordToolUsage(toolId: string): void {
+  update(toolId, (current) => ({
+    ...current,
+    usageCount: (current.usageCount ?? 0) + 1,
+    lastUsed: Date.now(),
+  }));
+}
+
+/**
+ * 切换工具收藏状态
+ * @param toolId - 工具 ID
+ */
+export function toggleToolFavorite(toolId: string): void {
+  update(toolId, (current) => ({
+    ...current,
+    isFavorite: !current.isFavorite,
+  }));
+}
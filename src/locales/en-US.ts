@@ -0,0 +1,80 @@
+import type { zhCN } from './zh-CN';
+
+/**
+ * 英文消息目录
+ */
+export const enUS: Record<keyof typeof zhCN, string> = {
+  'common.backHome': 'Back to home',
+  'common.close': 'Close',
+  'common.delete': 'Delete',
+
+  'header.subtitle': 'Handy tools collection',
+  'header.openMenu': 'Open menu',
+  'header.search': 'Search',
+  'header.searchPlaceholder': 'Search tools...',
+  'header.offline': 'Offline',
+  'header.offlineTip': 'You are offline. Features that need the network are unavailable',
+  'header.commandPalette': 'Command palette',
+  'header.commandPaletteTip': 'Command palette (Ctrl+K)',
+  'header.toggleTheme': 'Toggle theme',
+  'header.language': 'Switch language',
+
+  'nav.allTools': 'All tools',
+  'nav.favorites': 'Favorites',
+  'nav.recent': 'Recently used',
+
+  'sidebar.title': 'Categories',
+  'sidebar.collapse': 'Collapse sidebar',
+  'sidebar.expand': 'Expand sidebar',
+
+  'home.toolList': 'Tools',
+  'home.count': '{count} tools found',
+  'home.sortDefault': 'Default',
+  'home.sortFrequency': 'Most used',
+  'home.emptyTitle': 'No tools',
+  'home.emptyDescription': 'There are no tools in this category yet',
+
+  'notFound.title': 'Page not found',
+  'notFound.description': 'Sorry, the page you requested does not exist. The link may be wrong or the page may have been removed.',
+
+  'toolPage.notFoundTitle': 'Tool not found',
+  'toolPage.notFoundDescription': 'This tool does not exist. Go back home and pick another one',
+  'toolPage.share': 'Share link',
+  'toolPage.shareInvalid': 'The shared link contains invalid data',
+  'toolPage.shareRestoreFailed': 'Failed to restore shared content',
+  'toolPage.shareEmpty': 'Nothing to share yet',
+  'toolPage.shareCopied': 'Share link copied to clipboard',
+  'toolPage.shareFailed': 'Failed to create share link',
+  'toolPage.historyInvalid': 'This history entry contains invalid data',
+  'toolPage.historyRestored': 'History entry restored',
+
+  'share.tooLarge': 'Content is too large ({size} KB compressed, limit {limit} KB) to share as a link',
+  'share.corrupted': 'The shared link is corrupted and cannot be restored',
+
+  'toolCard.offlineTip': 'Unavailable offline, requires network',
+  'toolCard.needsNetwork': 'Online only',
+  'toolCard.favorite': 'Add to favorites',
+  'toolCard.unfavorite': 'Remove from favorites',
+
+  'history.title': 'History',
+  'history.description': 'History is stored only in this browser. Click an entry to restore it',
+  'history.enabled': 'Record history for this tool',
+  'history.keep': 'Keep',
+  'history.limitOption': '{count}',
+  'history.empty': 'No history yet',
+  'history.disabled': 'History is turned off for this tool',
+  'history.emptyValue': '(empty)',
+  'history.clear': 'Clear history',
+  'history.cleared': 'History cleared',
+  'history.clearFailed': 'Failed to clear history',
+
+  'palette.title': 'Command palette',
+  'palette.description': 'Search tools or run tool commands',
+  'palette.placeholder': 'Search tools or commands...',
+  'palette.empty': 'No matching tools or commands',
+  'palette.runCommand': 'Run command',
+  'palette.commandFailed': 'Command failed',
+  'palette.hintSelect': '↑↓ Select',
+  'palette.hintOpen': '↵ Open / Run',
+  'palette.hintClose': 'Esc Close',
+};
@@ -0,0 +1,11 @@
+import { defineMessages } from '@/lib/i18n';
+import { zhCN } from './zh-CN';
+import { enUS } from './en-US';
+
+export type MessageKey = keyof typeof zhCN;
+
+/**
+ * 应用界面（布局、页面、公共组件）的翻译函数
+ * 工具内部的文本由各工具自行定义消息目录
+ */
+export const t = defineMessages(zhCN, enUS);
@@ -0,0 +1,78 @@
+/**
+ * 中文消息目录（默认语言）
+ */
+export const zhCN = {
+  'common.backHome': '返回首页',
+  'common.close': '关闭',
+  'common.delete': '删除',
+
+  'header.subtitle': '实用工具集合',
+  'header.openMenu': '打开菜单',
+  'header.search': '搜索',
+  'header.searchPlaceholder': '搜索工具...',
+  'header.offline': '离线',
+  'header.offlineTip': '当前处于离线状态，需要联网的功能暂不可用',
+  'header.commandPalette': '命令面板',
+  'header.commandPaletteTip': '命令面板 (Ctrl+K)',
+  'header.toggleTheme': '切换主题',
+  'header.language': '切换语言',
+
+  'nav.allTools': '全部工具',
+  'nav.favorites': '我的收藏',
+  'nav.recent': '最近使用',
+
+  'sidebar.title': '工具分类',
+  'sidebar.collapse': '收起侧边栏',
+  'sidebar.expand': '展开侧边栏',
+
+  'home.toolList': '工具列表',
+  'home.count': '共找到 {count} 个工具',
+  'home.sortDefault': '默认排序',
+  'home.sortFrequency': '最常使用',
+  'home.emptyTitle': '暂无工具',
+  'home.emptyDescription': '该分类下还没有工具，敬请期待',
+
+  'notFound.title': '页面不存在',
+  'notFound.description': '抱歉，您访问的页面不存在。可能是链接错误或页面已被删除。',
+
+  'toolPage.notFoundTitle': '工具不存在',
+  'toolPage.notFoundDescription': '未找到该工具，请返回首页选择其他工具',
+  'toolPage.share': '分享链接',
+  'toolPage.shareInvalid': '分享链接中的数据无效',
+  'toolPage.shareRestoreFailed': '还原分享内容失败',
+  'toolPage.shareEmpty': '当前没有可分享的内容',
+  'toolPage.shareCopied': '分享链接已复制到剪贴板',
+  'toolPage.shareFailed': '生成分享链接失败',
+  'toolPage.historyInvalid': '历史记录中的数据无效',
+  'toolPage.historyRestored': '已还原历史记录',
+
+  'share.tooLarge': '内容过大（压缩后 {size} KB，上限 {limit} KB），无法生成分享链接',
+  'share.corrupted': '分享链接已损坏，无法还原',
+
+  'toolCard.offlineTip': '离线状态下不可用，需要联网',
+  'toolCard.needsNetwork': '需联网',
+  'toolCard.favorite': '收藏',
+  'toolCard.unfavorite': '取消收藏',
+
+  'history.title': '历史记录',
+  'history.description': '记录仅保存在本地浏览器中，点击即可还原',
+  'history.enabled': '记录此工具的历史',
+  'history.keep': '保留',
+  'history.limitOption': '{count} 条',
+  'history.empty': '暂无历史记录',
+  'history.disabled': '此工具的历史记录已关闭',
+  'history.emptyValue': '（空）',
+  'history.clear': '清空历史记录',
+  'history.cleared': '已清空历史记录',
+  'history.clearFailed': '清空失败',
+
+  'palette.title': '命令面板',
+  'palette.description': '搜索工具或执行工具指令',
+  'palette.placeholder': '搜索工具或指令（支持拼音）...',
+  'palette.empty': '没有匹配的工具或指令',
+  'palette.runCommand': '执行指令',
+  'palette.commandFailed': '指令执行失败',
+  'palette.hintSelect': '↑↓ 选择',
+  'palette.hintOpen': '↵ 打开 / 执行',
+  'palette.hintClose': 'Esc 关闭',
+};
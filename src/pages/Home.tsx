@@ -1,46 +1,147 @@
+import { useMemo, useState } from 'react';
+import type { FC, ReactNode } from 'react';
+import type { LucideProps } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
+import { Star, History } from 'lucide-react';
 import { useToolsContext } from '@/contexts/ToolsContext';
-import { getCategoryById } from '@/tools';
+import { useToolMetadata } from '@/hooks/useToolMetadata';
+import { ToolCard } from '@/components/common/ToolCard';
+import { cn } from '@/lib/utils';
+import type { MatchRange } from '@/lib/fuzzy';
+import { getCategoryById, localizeCategory } from '@/tools';
+import { useI18n } from '@/hooks/useI18n';
+import type { ToolConfig } from '@/tools/types';
+
+type SortMode = 'default' | 'frequency';
+
+interface ToolSectionProps {
+  title: string;
+  icon: FC<LucideProps>;
+  children: ReactNode;
+}
+
+/**
+ * 首页分组区块（收藏、最近使用）
+ */
+const ToolSection = ({ title, icon: Icon, children }: ToolSectionProps) => (
+  <section className="mb-10">
+    <h3 className="mb-4 flex items-center gap-2 text-lg font-semibold">
+      <Icon className="h-5 w-5 text-muted-foreground" />
+      {title}
+    </h3>
+    <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">{children}</div>
+  </section>
+);
 
 /**
  * 首页 - 工具列表
  */
 export const Home = () => {
   const navigate = useNavigate();
-  const { filteredTools, selectedCategory } = useToolsContext();
+  const { filteredTools, searchResults, selectedCategory, searchQuery } =
+    useToolsContext();
+  const { getMetadata, favoriteTools, recentTools, sortByUsage, toggleFavorite } =
+    useToolMetadata();
+  const [sortMode, setSortMode] = useState<SortMode>('default');
+  const { t } = useI18n();
+
+  // 默认按搜索相关度排序（未搜索时为注册顺序）
+  const displayedTools =
+    sortMode === 'frequency' ? sortByUsage(filteredTools) : filteredTools;
+
+  const highlightsById = useMemo(
+    () =>
+      Object.fromEntries(
+        searchResults.map((result) => [result.item.id, result.highlights])
+      ),
+    [searchResults]
+  );
+
+  // 收藏和最近使用仅在未筛选时展示
+  const showPersonalSections = selectedCategory === 'all' && !searchQuery.trim();
+
+  const renderToolCard = (tool: ToolConfig, highlights?: Record<string, MatchRange[]>) => (
+    <ToolCard
+      key={tool.id}
+      tool={tool}
+      highlights={highlights}
+      isFavorite={getMetadata(tool.id).isFavorite}
+      onClick={() => navigate(`/tool/${tool.id}`)}
+      onToggleFavorite={() => toggleFavorite(tool.id)}
+    />
+  );
 
   // 获取当前分类信息
-  const categoryInfo = selectedCategory !== 'all'
+  const category = selectedCategory !== 'all'
     ? getCategoryById(selectedCategory)
     : null;
+  const categoryInfo = category ? localizeCategory(category) : null;
+  const countText = t('home.count', { count: filteredTools.length });
 
   return (
     <main className="flex-1 overflow-auto">
       <div className="p-6">
         <div className="mx-auto max-w-7xl">
+          {/* 收藏 */}
+          {showPersonalSections && favoriteTools.length > 0 && (
+            <ToolSection title={t('nav.favorites')} icon={Star}>
+              {favoriteTools.map((tool) => renderToolCard(tool))}
+            </ToolSection>
+          )}
+
+          {/* 最近使用 */}
+          {showPersonalSections && recentTools.length > 0 && (
+            <ToolSection title={t('nav.recent')} icon={History}>
+              {recentTools.map((tool) => renderToolCard(tool))}
+            </ToolSection>
+          )}
+
           {/* 页面标题 */}
-          <div className="mb-8">
-            <h2 className="text-3xl font-bold tracking-tight">
-              {selectedCategory === 'all' ? '全部工具' : categoryInfo?.name || '工具列表'}
-            </h2>
-            {selectedCategory === 'all' ? (
-              <p className="mt-2 text-muted-foreground">
-                共找到 {filteredTools.length} 个工具
-              </p>
-            ) : categoryInfo ? (
-              <>
+          <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+            <div>
+              <h2 className="text-3xl font-bold tracking-tight">
+                {selectedCategory === 'all' ? t('nav.allTools') : categoryInfo?.name || t('home.toolList')}
+              </h2>
+              {selectedCategory === 'all' ? (
                 <p className="mt-2 text-muted-foreground">
-                  {categoryInfo.description}
+                  {countText}
                 </p>
-                <p className="mt-1 text-sm text-muted-foreground">
-                  共找到 {filteredTools.length} 个工具
+              ) : categoryInfo ? (
+                <>
+                  <p className="mt-2 text-muted-foreground">
+                    {categoryInfo.description}
+                  </p>
+                  <p className="mt-1 text-sm text-muted-foreground">
+                    {countText}
+                  </p>
+                </>
+              ) : (
+                <p className="mt-2 text-muted-foreground">
+                  {countText}
                 </p>
-              </>
-            ) : (
-              <p className="mt-2 text-muted-foreground">
-                共找到 {filteredTools.length} 个工具
-              </p>
-            )}
+              )}
+            </div>
+
+            {/* 排序方式 */}
+            <div className="flex rounded-lg border bg-muted p-1">
+              {([
+                ['default', t('home.sortDefault')],
+                ['frequency', t('home.sortFrequency')],
+              ] as const).map(([mode, label]) => (
+                <button
+                  key={mode}
+                  onClick={() => setSortMode(mode)}
+                  className={cn(
+                    'rounded-md px-3 py-1.5 text-sm font-medium transition-colors',
+                    sortMode === mode
+                      ? 'bg-background text-foreground shadow-sm'
+                      : 'text-muted-foreground hover:text-foreground'
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
           </div>
 
           {/* 工具列表 */}
@@ -49,51 +150,16 @@ export const Home = () => {
               <div className="mx-auto flex h-12 w-12 items-center justify-center rounded-full bg-muted">
                 <span className="text-2xl">🔍</span>
               </div>
-              <h3 className="mt-4 text-lg font-semibold">暂无工具</h3>
+              <h3 className="mt-4 text-lg font-semibold">{t('home.emptyTitle')}</h3>
               <p className="mt-2 text-sm text-muted-foreground">
-                该分类下还没有工具，敬请期待
+                {t('home.emptyDescription')}
               </p>
             </div>
           ) : (
             <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
-              {filteredTools.map((tool) => {
-                const Icon = tool.icon;
-                return (
-                  <button
-                    key={tool.id}
-                    onClick={() => navigate(`/tool/${tool.id}`)}
-                    className="group relative overflow-hidden rounded-lg border bg-card p-6 shadow-sm transition-all hover:shadow-md text-left cursor-pointer"
-                  >
-                    {/* 工具图标 */}
-                    <div className="mb-4 flex h-12 w-12 items-center justify-center rounded-lg bg-primary/10 text-primary transition-colors group-hover:bg-primary group-hover:text-primary-foreground">
-                      <Icon className="h-6 w-6" />
-                    </div>
-
-                    {/* 工具信息 */}
-                    <h3 className="mb-2 text-lg font-semibold">
-                      {tool.name}
-                    </h3>
-                    <p className="mb-4 text-sm text-muted-foreground line-clamp-2">
-                      {tool.description}
-                    </p>
-
-                    {/* 标签 */}
-                    <div className="flex flex-wrap gap-2">
-                      {tool.tags.slice(0, 3).map((tag) => (
-                        <span
-                          key={tag}
-                          className="rounded-full bg-secondary px-2.5 py-0.5 text-xs font-medium text-secondary-foreground"
-                        >
-                          {tag}
-                        </span>
-                      ))}
-                    </div>
-
-                    {/* 悬浮效果 */}
-                    <div className="absolute inset-0 -z-10 bg-gradient-to-br from-primary/5 to-transparent opacity-0 transition-opacity group-hover:opacity-100" />
-                  </button>
-                );
-              })}
+              {displayedTools.map((tool) =>
+                renderToolCard(tool, highlightsById[tool.id])
+              )}
             </div>
           )}
         </div>
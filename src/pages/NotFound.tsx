@@ -1,12 +1,14 @@
 import { useNavigate } from 'react-router-dom';
 import { Home } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { useI18n } from '@/hooks/useI18n';
 
 /**
  * 404 页面
  */
 export const NotFound = () => {
   const navigate = useNavigate();
+  const { t } = useI18n();
 
   return (
     <main className="flex-1 p-6">
@@ -15,13 +17,13 @@ export const NotFound = () => {
           <div className="mx-auto flex h-20 w-20 items-center justify-center rounded-full bg-muted">
             <span className="text-4xl">404</span>
           </div>
-          <h1 className="mt-6 text-4xl font-bold">页面不存在</h1>
+          <h1 className="mt-6 text-4xl font-bold">{t('notFound.title')}</h1>
           <p className="mt-4 text-muted-foreground max-w-md">
-            抱歉，您访问的页面不存在。可能是链接错误或页面已被删除。
+            {t('notFound.description')}
           </p>
           <Button onClick={() => navigate('/')} className="mt-8" size="lg">
             <Home className="h-5 w-5 mr-2" />
-            返回首页
+            {t('common.backHome')}
           </Button>
         </div>
       </div>
@@ -1,7 +1,40 @@
-import { useParams, useNavigate } from 'react-router-dom';
-import { Home } from 'lucide-react';
+import { Suspense, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
+import { Home, Share2 } from 'lucide-react';
+import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
 import { getToolById } from '@/tools';
+import { useI18n } from '@/hooks/useI18n';
+import { useToolMetadata } from '@/hooks/useToolMetadata';
+import { ToolStateContext } from '@/hooks/useToolState';
+import { HistoryDrawer } from '@/components/common/HistoryDrawer';
+import { addHistoryEntry, type HistoryEntry, type ToolHistoryRecord } from '@/lib/history';
+import {
+  buildShareUrl,
+  decodeShareState,
+  encodeShareState,
+  readShareToken,
+} from '@/lib/share';
+
+/**
+ * 工具加载中的骨架屏
+ */
+const ToolSkeleton = () => (
+  <div className="p-6">
+    <div className="mx-auto max-w-7xl space-y-6">
+      <div className="space-y-2">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-4 w-80" />
+      </div>
+      <Skeleton className="h-10 w-full" />
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Skeleton className="h-72 w-full" />
+        <Skeleton className="h-72 w-full" />
+      </div>
+    </div>
+  </div>
+);
 
 /**
  * 工具详情页
@@ -9,8 +42,127 @@ import { getToolById } from '@/tools';
 export const ToolPage = () => {
   const { toolId } = useParams<{ toolId: string }>();
   const navigate = useNavigate();
+  const location = useLocation();
+  const { recordUsage } = useToolMetadata();
+  const { t } = useI18n();
+  const recordedToolRef = useRef<string | null>(null);
+  const latestStateRef = useRef<unknown>(undefined);
+  const [restored, setRestored] = useState<{ token: string; state: unknown } | null>(null);
+  const [historyRestore, setHistoryRestore] = useState<{
+    toolId: string;
+    key: number;
+    state: unknown;
+  } | null>(null);
+  const historyTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const tool = toolId ? getToolById(toolId) : undefined;
+  const shareToken = tool?.deserializeState ? readShareToken(location.hash) : null;
+  const isRestoring = shareToken !== null && restored?.token !== shareToken;
+  const activeHistory = historyRestore?.toolId === tool?.id ? historyRestore : null;
+
+  // 记录工具访问（同一次挂载内只记录一次，避免 StrictMode 重复计数）
+  useEffect(() => {
+    if (!tool || recordedToolRef.current === tool.id) return;
+    recordedToolRef.current = tool.id;
+    recordUsage(tool.id);
+  }, [tool, recordUsage]);
+
+  // 从分享链接还原工具状态
+  useEffect(() => {
+    if (!tool?.deserializeState || shareToken === null) return;
+
+    let cancelled = false;
+    decodeShareState(shareToken)
+      .then((raw) => {
+        const state = tool.deserializeState?.(raw);
+        if (state == null) {
+          throw new Error(t('toolPage.shareInvalid'));
+        }
+        if (!cancelled) setRestored({ token: shareToken, state });
+      })
+      .catch((error) => {
+        toast.error(error instanceof Error ? error.message : t('toolPage.shareRestoreFailed'));
+        if (!cancelled) setRestored({ token: shareToken, state: undefined });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tool, shareToken, t]);
+
+  const reportState = useCallback((state: unknown) => {
+    latestStateRef.current = state;
+  }, []);
+
+  // 写入历史记录（防抖，连续处理只记录最后一次）
+  const recordHistory = useCallback(
+    (record: ToolHistoryRecord) => {
+      if (!tool?.serializeState) return;
+
+      if (historyTimerRef.current) clearTimeout(historyTimerRef.current);
+      historyTimerRef.current = setTimeout(() => {
+        historyTimerRef.current = null;
+        if (latestStateRef.current === undefined) return;
+        addHistoryEntry(tool.id, tool.serializeState!(latestStateRef.current), record).catch(
+          (error) => console.error('Failed to record history:', error)
+        );
+      }, 1000);
+    },
+    [tool]
+  );
+
+  // 切换工具或离开页面时取消未写入的记录，并丢弃上一个工具的状态
+  // 路由切换时页面不会重新挂载，新工具加载完成前分享不能用新工具序列化旧状态
+  useEffect(() => {
+    return () => {
+      if (historyTimerRef.current) clearTimeout(historyTimerRef.current);
+      historyTimerRef.current = null;
+      latestStateRef.current = undefined;
+    };
+  }, [tool]);
+
+  const toolState = useMemo(
+    () => ({
+      initialState: activeHistory
+        ? activeHistory.state
+        : shareToken !== null && restored?.token === shareToken
+          ? restored.state
+          : undefined,
+      reportState,
+      recordHistory,
+    }),
+    [activeHistory, shareToken, restored, reportState, recordHistory]
+  );
+
+  // 从历史记录还原
+  const handleRestoreHistory = (entry: HistoryEntry) => {
+    const state = tool?.deserializeState?.(entry.state);
+    if (!tool || state == null) {
+      toast.error(t('toolPage.historyInvalid'));
+      return;
+    }
+
+    setHistoryRestore((prev) => ({ toolId: tool.id, key: (prev?.key ?? 0) + 1, state }));
+    toast.success(t('toolPage.historyRestored'));
+  };
+
+  // 生成分享链接并复制
+  const handleShare = async () => {
+    if (!tool?.serializeState) return;
+
+    if (latestStateRef.current === undefined) {
+      toast.error(t('toolPage.shareEmpty'));
+      return;
+    }
+
+    try {
+      const token = await encodeShareState(tool.serializeState(latestStateRef.current));
+      await navigator.clipboard.writeText(buildShareUrl(token));
+      toast.success(t('toolPage.shareCopied'));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('toolPage.shareFailed'));
+    }
+  };
 
   if (!tool) {
     return (
@@ -21,13 +173,13 @@ export const ToolPage = () => {
               <div className="mx-auto flex h-12 w-12 items-center justify-center rounded-full bg-muted">
                 <span className="text-2xl">❌</span>
               </div>
-              <h3 className="mt-4 text-lg font-semibold">工具不存在</h3>
+              <h3 className="mt-4 text-lg font-semibold">{t('toolPage.notFoundTitle')}</h3>
               <p className="mt-2 text-sm text-muted-foreground">
-                未找到该工具，请返回首页选择其他工具
+                {t('toolPage.notFoundDescription')}
               </p>
               <Button onClick={() => navigate('/')} className="mt-4">
                 <Home className="h-4 w-4 mr-2" />
-                返回首页
+                {t('common.backHome')}
               </Button>
             </div>
           </div>
@@ -39,8 +191,31 @@ export const ToolPage = () => {
   const ToolComponent = tool.component;
 
   return (
-    <main className="flex-1 overflow-auto">
-      <ToolComponent />
+    <main className="flex flex-1 flex-col overflow-auto">
+      {/* 工具操作栏 */}
+      {tool.serializeState && (
+        <div className="flex shrink-0 items-center justify-end gap-1 border-b px-4 py-1.5">
+          <HistoryDrawer toolId={tool.id} onRestore={handleRestoreHistory} />
+          <Button variant="ghost" size="sm" onClick={handleShare}>
+            <Share2 className="h-4 w-4 mr-2" />
+            {t('toolPage.share')}
+          </Button>
+        </div>
+      )}
+
+      <div className="min-h-0 flex-1">
+        {isRestoring ? (
+          <ToolSkeleton />
+        ) : (
+          <ToolStateContext.Provider value={toolState}>
+            <Suspense fallback={<ToolSkeleton />}>
+              <ToolComponent
+                key={activeHistory ? `history-${activeHistory.key}` : shareToken ?? tool.id}
+              />
+            </Suspense>
+          </ToolStateContext.Provider>
+        )}
+      </div>
     </main>
   );
 };
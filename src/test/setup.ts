@@ -0,0 +1,58 @@
+/**
+ * 测试环境初始化
+ * jsdom 缺少的浏览器 API 在这里补齐，Canvas 使用 vitest-canvas-mock 模拟
+ */
+
+import 'vitest-canvas-mock';
+import { cleanup } from '@testing-library/react';
+import { afterEach, vi } from 'vitest';
+
+// 测试统一使用中文文案，与源码中的断言保持一致
+localStorage.setItem('just-tools-locale', 'zh-CN');
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+  localStorage.setItem('just-tools-locale', 'zh-CN');
+});
+
+// 主题跟随系统时需要 matchMedia
+Object.defineProperty(window, 'matchMedia', {
+  writable: true,
+  value: vi.fn((query: string) => ({
+    matches: false,
+    media: query,
+    onchange: null,
+    addListener: vi.fn(),
+    removeListener: vi.fn(),
+    addEventListener: vi.fn(),
+    removeEventListener: vi.fn(),
+    dispatchEvent: vi.fn(),
+  })),
+});
+
+// Radix 组件和 HexViewer 依赖 ResizeObserver
+class ResizeObserverStub {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+}
+
+globalThis.ResizeObserver ??= ResizeObserverStub;
+
+// jsdom 不做布局，滚动相关方法缺失
+Element.prototype.scrollIntoView ??= vi.fn();
+
+// jsdom 未实现 Blob URL
+URL.createObjectURL ??= vi.fn(() => 'blob:mock');
+URL.revokeObjectURL ??= vi.fn();
+
+// jsdom 的 Blob 未实现 arrayBuffer()，分块读取文件时需要
+Blob.prototype.arrayBuffer ??= function (this: Blob) {
+  return new Promise<ArrayBuffer>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(this);
+  });
+};
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import { decryptAes, encryptAes, getOpensslCommand, hasSaltHeader, resolveAesParams } from './aes';
+import { processDecode, processEncode } from './utils';
+
+function hexToBytes(hex: string): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(hex.match(/../g)!.map((byte) => parseInt(byte, 16)));
+}
+
+function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+const decodeUtf8 = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+/**
+ * 由 OpenSSL 3.0 生成：
+ * echo -n "你好，OpenSSL" | openssl enc -<cipher> -pbkdf2 -iter <n> -md sha256 -pass pass:secret -a -A
+ */
+const OPENSSL_VECTORS = [
+  {
+    params: { mode: 'CBC', keySize: 256, iterations: 100000 },
+    ciphertext: 'U2FsdGVkX1+LuPI+dg+r0t1nvPFh901x3isAAbnpsX83q4u4dtMGTWZepRoy9YEA',
+  },
+  {
+    params: { mode: 'CTR', keySize: 128, iterations: 10000 },
+    ciphertext: 'U2FsdGVkX18wZ3RRc9wIBi+sG0OyZlrZWvE1E9rlcaI=',
+  },
+  {
+    params: { mode: 'CBC', keySize: 192, iterations: 10000 },
+    ciphertext: 'U2FsdGVkX19sW3/6jWihWMTzM7TjHWUq6kOHaVWyGHSq3qSBSxlo6KrEA0PoC2Kc',
+  },
+] as const;
+
+describe('OpenSSL 互通', () => {
+  it.each(OPENSSL_VECTORS)('解密 openssl 输出（$params.mode-$params.keySize）', async (vector) => {
+    const params = resolveAesParams(vector.params);
+    const plaintext = await decryptAes(
+      base64ToBytes(vector.ciphertext),
+      { password: 'secret' },
+      params
+    );
+    expect(decodeUtf8(plaintext)).toBe('你好，OpenSSL');
+  });
+
+  it('相同盐时加密结果与 openssl 一致', async () => {
+    const data = base64ToBytes(OPENSSL_VECTORS[0].ciphertext);
+    const salt = data.slice(8, 16);
+    const encrypted = await encryptAes(
+      utf8('你好，OpenSSL'),
+      { password: 'secret' },
+      resolveAesParams(OPENSSL_VECTORS[0].params),
+      salt
+    );
+    expect(encrypted).toEqual(data);
+  });
+
+  it('原始密钥和 IV 与 openssl enc -K -iv 一致', async () => {
+    // echo -n "hello openssl" | openssl enc -aes-192-ctr -K 0001…17 -iv 0f0e…00
+    const secret = {
+      key: hexToBytes('000102030405060708090a0b0c0d0e0f1011121314151617'),
+      iv: hexToBytes('0f0e0d0c0b0a09080706050403020100'),
+    };
+    const params = resolveAesParams({ mode: 'CTR', keySize: 192 });
+    const encrypted = await encryptAes(utf8('hello openssl'), secret, params);
+    expect(encrypted).toEqual(hexToBytes('42c24d4ca078ea8b77f8dc0336'));
+    expect(decodeUtf8(await decryptAes(encrypted, secret, params))).toBe('hello openssl');
+  });
+
+  it('生成对应的 openssl 命令', () => {
+    expect(getOpensslCommand(resolveAesParams({ mode: 'CBC', keySize: 128 }), true)).toBe(
+      'openssl enc -d -aes-128-cbc -pbkdf2 -iter 100000 -md sha256 -a -A'
+    );
+    expect(getOpensslCommand(resolveAesParams({ mode: 'GCM' }), false)).toBeNull();
+    expect(getOpensslCommand(resolveAesParams({ mode: 'CBC', kdf: 'scrypt' }), false)).toBeNull();
+  });
+});
+
+describe('encryptAes / decryptAes', () => {
+  it.each([
+    { mode: 'GCM', kdf: 'pbkdf2', iterations: 1000 },
+    { mode: 'CBC', kdf: 'scrypt', iterations: 1024 },
+    { mode: 'CTR', kdf: 'argon2id', iterations: 1, memory: 64 },
+  ] as const)('口令模式往返（$mode / $kdf）', async (options) => {
+    const params = resolveAesParams(options);
+    const encrypted = await encryptAes(utf8('机密'), { password: 'pw' }, params);
+    expect(hasSaltHeader(encrypted)).toBe(true);
+    expect(decodeUtf8(await decryptAes(encrypted, { password: 'pw' }, params))).toBe('机密');
+  });
+
+  it('每次加密使用不同的盐', async () => {
+    const params = resolveAesParams({ iterations: 1000 });
+    const a = await encryptAes(utf8('x'), { password: 'pw' }, params);
+    const b = await encryptAes(utf8('x'), { password: 'pw' }, params);
+    expect(a.slice(8, 16)).not.toEqual(b.slice(8, 16));
+  });
+
+  it('原始密钥未指定 IV 时随机生成并放在密文前', async () => {
+    const params = resolveAesParams({ mode: 'GCM', keySize: 128 });
+    const secret = { key: new Uint8Array(16).fill(1) };
+    const encrypted = await encryptAes(utf8('abc'), secret, params);
+    // 12 字节 nonce + 3 字节密文 + 16 字节认证标签
+    expect(encrypted.length).toBe(12 + 3 + 16);
+    expect(decodeUtf8(await decryptAes(encrypted, secret, params))).toBe('abc');
+  });
+
+  it('GCM 密文被篡改时解密失败', async () => {
+    const params = resolveAesParams({ iterations: 1000 });
+    const encrypted = await encryptAes(utf8('abc'), { password: 'pw' }, params);
+    encrypted[encrypted.length - 1] ^= 1;
+    await expect(decryptAes(encrypted, { password: 'pw' }, params)).rejects.toThrow();
+  });
+
+  it('原始密钥长度必须与密钥位数一致', async () => {
+    await expect(
+      encryptAes(utf8('abc'), { key: new Uint8Array(16) }, resolveAesParams({ keySize: 256 }))
+    ).rejects.toThrow('原始密钥长度应为 32 字节，当前为 16 字节');
+  });
+});
+
+describe('resolveAesParams', () => {
+  it('按 KDF 取默认成本参数', () => {
+    expect(resolveAesParams({ kdf: 'scrypt' }).iterations).toBe(131072);
+    expect(resolveAesParams({ kdf: 'argon2id' }).iterations).toBe(2);
+  });
+
+  it('校验参数', () => {
+    expect(() => resolveAesParams({ iterations: 1.5 })).toThrow('迭代次数必须是正整数');
+    expect(() => resolveAesParams({ kdf: 'scrypt', iterations: 1000 })).toThrow('2 的幂');
+  });
+});
+
+describe('aes 算法', () => {
+  it('Hex 原始密钥和指定 IV', async () => {
+    const options = {
+      key: '000102030405060708090a0b0c0d0e0f1011121314151617',
+      keyFormat: 'hex',
+      iv: '0f0e0d0c0b0a09080706050403020100',
+      outputFormat: 'hex',
+      aes: { mode: 'CTR', keySize: 192 },
+    } as const;
+    const encrypted = await processEncode('aes', 'hello openssl', options);
+    expect(encrypted).toEqual({ success: true, output: '42c24d4ca078ea8b77f8dc0336' });
+    expect((await processDecode('aes', encrypted.output, options)).output).toBe('hello openssl');
+  });
+
+  it('解密 openssl 的分行 Base64 输出', async () => {
+    const ciphertext = OPENSSL_VECTORS[0].ciphertext;
+    const wrapped = `${ciphertext.slice(0, 32)}\n${ciphertext.slice(32)}\n`;
+    const result = await processDecode('aes', wrapped, {
+      key: 'secret',
+      aes: OPENSSL_VECTORS[0].params,
+    });
+    expect(result).toMatchObject({ success: true, output: '你好，OpenSSL' });
+    expect(decodeUtf8(result.bytes!)).toBe('你好，OpenSSL');
+  });
+
+  it('兼容旧版本的固定盐密文', async () => {
+    const legacy = 'BwcHBwcHBwcHBwcH6VSguzNMmEAgAbi62snHg/jvFfDcL7/hVG7Bmg==';
+    expect((await processDecode('aes', legacy, { key: 'secret' })).output).toBe('旧版密文');
+  });
+
+  it('参数错误时返回错误信息', async () => {
+    expect(
+      await processEncode('aes', 'x', { key: 'abcd', keyFormat: 'hex' })
+    ).toMatchObject({ success: false, error: '原始密钥长度应为 32 字节，当前为 2 字节' });
+  });
+});
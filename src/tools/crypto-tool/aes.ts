@@ -0,0 +1,285 @@
+/**
+ * AES 加解密
+ * 支持 CBC / CTR / GCM 模式和 128 / 192 / 256 位密钥，
+ * 口令模式下每条消息使用随机盐，输出格式与 `openssl enc -pbkdf2` 相同：
+ * "Salted__" + 8 字节盐 + 密文，密钥和 IV 由 KDF 一次派生
+ */
+
+import { cbc, ctr, gcm } from '@noble/ciphers/aes.js';
+import { argon2idAsync } from '@noble/hashes/argon2.js';
+import { scryptAsync } from '@noble/hashes/scrypt.js';
+import { t } from './locales';
+import type { AesMode, AesParams, KdfAlgorithm } from './types';
+
+/**
+ * 默认参数
+ * GCM 带完整性校验，作为默认模式；需要与 OpenSSL 互通时选择 CBC 或 CTR
+ */
+export const AES_DEFAULTS: AesParams = {
+  mode: 'GCM',
+  keySize: 256,
+  kdf: 'pbkdf2',
+  iterations: 100000,
+  memory: 19456,
+};
+
+/**
+ * 各 KDF 的默认成本参数
+ * scrypt 与 Argon2id 取 OWASP 推荐的最低配置
+ */
+export const KDF_DEFAULT_ITERATIONS: Record<KdfAlgorithm, number> = {
+  pbkdf2: 100000,
+  scrypt: 131072,
+  argon2id: 2,
+};
+
+/** OpenSSL 口令模式的文件头 */
+const SALT_MAGIC = new TextEncoder().encode('Salted__');
+const SALT_LENGTH = 8;
+
+/**
+ * IV 长度，GCM 使用 96 位 nonce
+ */
+export function ivLength(mode: AesMode): number {
+  return mode === 'GCM' ? 12 : 16;
+}
+
+/**
+ * 合并默认参数并校验
+ */
+export function resolveAesParams(params?: Partial<AesParams>): AesParams {
+  const resolved = { ...AES_DEFAULTS, ...params };
+  if (params?.iterations === undefined) {
+    resolved.iterations = KDF_DEFAULT_ITERATIONS[resolved.kdf];
+  }
+
+  const { kdf, iterations, memory } = resolved;
+  if (!Number.isInteger(iterations) || iterations < 1) {
+    throw new Error(t('error.invalidIterations'));
+  }
+  // scrypt 的 N 必须是大于 1 的 2 的幂
+  if (kdf === 'scrypt' && (iterations < 2 || (iterations & (iterations - 1)) !== 0)) {
+    throw new Error(t('error.invalidScryptCost'));
+  }
+  if (kdf === 'argon2id' && (!Number.isInteger(memory) || memory < 8)) {
+    throw new Error(t('error.invalidArgon2Memory'));
+  }
+  return resolved;
+}
+
+/**
+ * 由口令和盐派生密钥与 IV
+ */
+async function deriveKeyAndIv(
+  password: string,
+  salt: Uint8Array<ArrayBuffer>,
+  params: AesParams
+): Promise<{ key: Uint8Array; iv: Uint8Array }> {
+  const keyLength = params.keySize / 8;
+  const length = keyLength + ivLength(params.mode);
+  const passwordBytes = new TextEncoder().encode(password);
+
+  let derived: Uint8Array;
+  switch (params.kdf) {
+    case 'pbkdf2': {
+      const keyMaterial = await crypto.subtle.importKey('raw', passwordBytes, 'PBKDF2', false, [
+        'deriveBits',
+      ]);
+      const bits = await crypto.subtle.deriveBits(
+        { name: 'PBKDF2', salt, iterations: params.iterations, hash: 'SHA-256' },
+        keyMaterial,
+        length * 8
+      );
+      derived = new Uint8Array(bits);
+      break;
+    }
+    case 'scrypt':
+      derived = await scryptAsync(passwordBytes, salt, {
+        N: params.iterations,
+        r: 8,
+        p: 1,
+        dkLen: length,
+      });
+      break;
+    case 'argon2id':
+      derived = await argon2idAsync(passwordBytes, salt, {
+        t: params.iterations,
+        m: params.memory,
+        p: 1,
+        dkLen: length,
+      });
+      break;
+  }
+
+  return { key: derived.slice(0, keyLength), iv: derived.slice(keyLength) };
+}
+
+function createCipher(mode: AesMode, key: Uint8Array, iv: Uint8Array) {
+  switch (mode) {
+    case 'CBC':
+      return cbc(key, iv);
+    case 'CTR':
+      return ctr(key, iv);
+    case 'GCM':
+      return gcm(key, iv);
+  }
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * 加密密钥：口令（经 KDF 派生）或原始密钥
+ */
+export type AesSecret =
+  | { password: string }
+  | {
+      key: Uint8Array;
+      /** 指定时输出仅含密文（与 openssl enc -K -iv 一致），否则随机生成并放在密文前 */
+      iv?: Uint8Array;
+    };
+
+function checkRawKey(key: Uint8Array, params: AesParams): void {
+  if (key.length !== params.keySize / 8) {
+    throw new Error(
+      t('error.invalidAesKeyLength', { expected: params.keySize / 8, actual: key.length })
+    );
+  }
+}
+
+function checkIv(iv: Uint8Array, params: AesParams): void {
+  if (iv.length !== ivLength(params.mode)) {
+    throw new Error(t('error.invalidIvLength', { expected: ivLength(params.mode) }));
+  }
+}
+
+/**
+ * AES 加密
+ * @param plaintext - 明文
+ * @param secret - 口令或原始密钥
+ * @param params - AES 参数
+ * @param salt - 盐，默认随机生成（仅测试时指定）
+ */
+export async function encryptAes(
+  plaintext: Uint8Array,
+  secret: AesSecret,
+  params: AesParams,
+  salt: Uint8Array<ArrayBuffer> = crypto.getRandomValues(new Uint8Array(SALT_LENGTH))
+): Promise<Uint8Array> {
+  if ('password' in secret) {
+    const { key, iv } = await deriveKeyAndIv(secret.password, salt, params);
+    const ciphertext = createCipher(params.mode, key, iv).encrypt(plaintext);
+    return concatBytes(SALT_MAGIC, salt, ciphertext);
+  }
+
+  checkRawKey(secret.key, params);
+  if (secret.iv) {
+    checkIv(secret.iv, params);
+    return createCipher(params.mode, secret.key, secret.iv).encrypt(plaintext);
+  }
+  const iv = crypto.getRandomValues(new Uint8Array(ivLength(params.mode)));
+  return concatBytes(iv, createCipher(params.mode, secret.key, iv).encrypt(plaintext));
+}
+
+/**
+ * 是否为 OpenSSL 口令模式的输出
+ */
+export function hasSaltHeader(data: Uint8Array): boolean {
+  return (
+    data.length >= SALT_MAGIC.length + SALT_LENGTH &&
+    SALT_MAGIC.every((byte, index) => data[index] === byte)
+  );
+}
+
+/**
+ * AES 解密，参数须与加密时一致
+ * @param data - 加密输出
+ * @param secret - 口令或原始密钥
+ * @param params - AES 参数
+ */
+export async function decryptAes(
+  data: Uint8Array,
+  secret: AesSecret,
+  params: AesParams
+): Promise<Uint8Array> {
+  if ('password' in secret) {
+    if (!hasSaltHeader(data)) {
+      throw new Error(t('error.missingSaltHeader'));
+    }
+    const saltEnd = SALT_MAGIC.length + SALT_LENGTH;
+    const salt = data.slice(SALT_MAGIC.length, saltEnd);
+    const { key, iv } = await deriveKeyAndIv(secret.password, salt, params);
+    return createCipher(params.mode, key, iv).decrypt(data.subarray(saltEnd));
+  }
+
+  checkRawKey(secret.key, params);
+  if (secret.iv) {
+    checkIv(secret.iv, params);
+    return createCipher(params.mode, secret.key, secret.iv).decrypt(data);
+  }
+  const length = ivLength(params.mode);
+  return createCipher(params.mode, secret.key, data.subarray(0, length)).decrypt(
+    data.subarray(length)
+  );
+}
+
+/**
+ * 旧版本输出的解密
+ * 早期版本固定使用 AES-256-GCM、盐 "just-tools-salt" 和 100000 次 PBKDF2，
+ * 输出为 12 字节 IV + 密文，保留以便解密历史数据
+ */
+export async function decryptLegacyAes(
+  data: Uint8Array<ArrayBuffer>,
+  password: string
+): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(password),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  const cryptoKey = await crypto.subtle.deriveKey(
+    {
+      name: 'PBKDF2',
+      salt: encoder.encode('just-tools-salt'),
+      iterations: 100000,
+      hash: 'SHA-256',
+    },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['decrypt']
+  );
+
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: data.slice(0, 12) },
+    cryptoKey,
+    data.slice(12)
+  );
+  return new Uint8Array(decrypted);
+}
+
+/**
+ * 生成等价的 OpenSSL 命令，便于在命令行中互通
+ * OpenSSL enc 不支持 GCM 等 AEAD 模式，也没有 scrypt / Argon2id 选项，此时返回 null
+ */
+export function getOpensslCommand(params: AesParams, decrypt: boolean): string | null {
+  if (params.mode === 'GCM' || params.kdf !== 'pbkdf2') return null;
+  const cipher = `aes-${params.keySize}-${params.mode.toLowerCase()}`;
+  return [
+    'openssl enc',
+    decrypt ? '-d' : '',
+    `-${cipher} -pbkdf2 -iter ${params.iterations} -md sha256 -a -A`,
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
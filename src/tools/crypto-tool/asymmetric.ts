@@ -0,0 +1,408 @@
+/**
+ * 非对称加密
+ * 基于 Web Crypto API 的 RSA / ECDSA / Ed25519 / X25519 密钥生成、
+ * PEM（PKCS#8 / SPKI）与 JWK 导入导出、签名验签、RSA 加解密和 X25519 密钥协商
+ */
+
+import { t } from './locales';
+import { bytesToBase64, bytesToHex, toBytes, toText } from './bytes';
+import type {
+  AlgorithmOptions,
+  CryptoData,
+  KeyExportFormat,
+  KeyPair,
+  ProcessResult,
+  VerifyResult,
+} from './types';
+
+/**
+ * 各算法的 Web Crypto 参数
+ */
+export interface AsymmetricSpec {
+  /** 生成和导入密钥的参数 */
+  keyAlgorithm: RsaHashedKeyGenParams | RsaHashedImportParams | EcKeyGenParams | { name: string };
+  /** 签名参数（签名算法） */
+  signParams?: RsaPssParams | EcdsaParams | { name: string };
+  publicUsages: KeyUsage[];
+  privateUsages: KeyUsage[];
+}
+
+const RSA_PUBLIC_EXPONENT = new Uint8Array([1, 0, 1]);
+
+export const asymmetricSpecs = {
+  'rsa-oaep': {
+    keyAlgorithm: {
+      name: 'RSA-OAEP',
+      modulusLength: 2048,
+      publicExponent: RSA_PUBLIC_EXPONENT,
+      hash: 'SHA-256',
+    },
+    publicUsages: ['encrypt'],
+    privateUsages: ['decrypt'],
+  },
+  'rsa-pss': {
+    keyAlgorithm: {
+      name: 'RSA-PSS',
+      modulusLength: 2048,
+      publicExponent: RSA_PUBLIC_EXPONENT,
+      hash: 'SHA-256',
+    },
+    // 盐长度取摘要长度，与 JWS 的 PS256 一致
+    signParams: { name: 'RSA-PSS', saltLength: 32 },
+    publicUsages: ['verify'],
+    privateUsages: ['sign'],
+  },
+  'ecdsa-p256': {
+    keyAlgorithm: { name: 'ECDSA', namedCurve: 'P-256' },
+    signParams: { name: 'ECDSA', hash: 'SHA-256' },
+    publicUsages: ['verify'],
+    privateUsages: ['sign'],
+  },
+  'ecdsa-p384': {
+    keyAlgorithm: { name: 'ECDSA', namedCurve: 'P-384' },
+    signParams: { name: 'ECDSA', hash: 'SHA-384' },
+    publicUsages: ['verify'],
+    privateUsages: ['sign'],
+  },
+  ed25519: {
+    keyAlgorithm: { name: 'Ed25519' },
+    signParams: { name: 'Ed25519' },
+    publicUsages: ['verify'],
+    privateUsages: ['sign'],
+  },
+  x25519: {
+    keyAlgorithm: { name: 'X25519' },
+    publicUsages: [],
+    privateUsages: ['deriveBits'],
+  },
+} satisfies Record<string, AsymmetricSpec>;
+
+export type AsymmetricAlgorithmId = keyof typeof asymmetricSpecs;
+
+// ============================================================================
+// 密钥解析与序列化
+// ============================================================================
+
+/** JWK 中只属于私钥的字段 */
+const PRIVATE_JWK_FIELDS = ['d', 'p', 'q', 'dp', 'dq', 'qi', 'oth'] as const;
+
+/**
+ * 解析后的密钥文本
+ */
+type ParsedKey =
+  | { format: 'jwk'; jwk: JsonWebKey; isPrivate: boolean }
+  | { format: 'pkcs8' | 'spki'; der: Uint8Array<ArrayBuffer>; isPrivate: boolean };
+
+/**
+ * 解析十六进制或 Base64（含 URL 安全变体）文本
+ */
+function decodeBinary(text: string): Uint8Array<ArrayBuffer> {
+  const value = text.replace(/\s/g, '');
+  if (/^([0-9a-fA-F]{2})+$/.test(value)) {
+    return new Uint8Array(value.match(/../g)!.map((byte) => parseInt(byte, 16)));
+  }
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+function encodeOutput(bytes: Uint8Array, outputFormat?: 'hex' | 'base64'): string {
+  return outputFormat === 'base64' ? bytesToBase64(bytes) : bytesToHex(bytes);
+}
+
+/**
+ * DER 转 PEM，正文按 64 字符换行
+ */
+function toPem(der: ArrayBuffer, label: 'PUBLIC KEY' | 'PRIVATE KEY'): string {
+  const body = bytesToBase64(new Uint8Array(der)).match(/.{1,64}/g) ?? [];
+  return [`-----BEGIN ${label}-----`, ...body, `-----END ${label}-----`].join('\n');
+}
+
+/**
+ * 解析 PEM 或 JWK 文本
+ */
+function parseKeyText(text: string): ParsedKey {
+  const value = text.trim();
+
+  if (value.startsWith('{')) {
+    let jwk: JsonWebKey;
+    try {
+      jwk = JSON.parse(value);
+    } catch {
+      throw new Error(t('error.invalidKey'));
+    }
+    return { format: 'jwk', jwk, isPrivate: 'd' in jwk };
+  }
+
+  const match = value.match(/-----BEGIN ([A-Z0-9 ]+)-----([\s\S]*?)-----END \1-----/);
+  if (!match) {
+    throw new Error(t('error.invalidKey'));
+  }
+
+  const label = match[1];
+  if (label !== 'PRIVATE KEY' && label !== 'PUBLIC KEY') {
+    // PKCS#1（RSA PRIVATE KEY）和 SEC1（EC PRIVATE KEY）等格式 Web Crypto 无法导入
+    throw new Error(t('error.unsupportedPem', { label }));
+  }
+
+  let der: Uint8Array<ArrayBuffer>;
+  try {
+    der = decodeBinary(match[2]);
+  } catch {
+    throw new Error(t('error.invalidKey'));
+  }
+  const isPrivate = label === 'PRIVATE KEY';
+  return { format: isPrivate ? 'pkcs8' : 'spki', der, isPrivate };
+}
+
+/**
+ * 去掉 JWK 中会导致导入失败的元数据
+ * 其他工具导出的 JWK 可能带有不同的 alg / key_ops，算法以当前选择为准
+ */
+function normalizeJwk(jwk: JsonWebKey, isPrivate: boolean): JsonWebKey {
+  const normalized: JsonWebKey = { ...jwk };
+  delete normalized.alg;
+  delete normalized.key_ops;
+  delete normalized.use;
+  if (!isPrivate) {
+    for (const field of PRIVATE_JWK_FIELDS) {
+      delete normalized[field];
+    }
+  }
+  return normalized;
+}
+
+async function importParsedKey(
+  spec: AsymmetricSpec,
+  parsed: ParsedKey,
+  usages: KeyUsage[],
+  extractable: boolean
+): Promise<CryptoKey> {
+  try {
+    return parsed.format === 'jwk'
+      ? await crypto.subtle.importKey(
+          'jwk',
+          normalizeJwk(parsed.jwk, parsed.isPrivate),
+          spec.keyAlgorithm,
+          extractable,
+          usages
+        )
+      : await crypto.subtle.importKey(parsed.format, parsed.der, spec.keyAlgorithm, extractable, usages);
+  } catch {
+    throw new Error(t('error.keyAlgorithmMismatch'));
+  }
+}
+
+/**
+ * 导入私钥
+ */
+export async function importPrivateKey(
+  spec: AsymmetricSpec,
+  text: string | undefined,
+  extractable = false
+): Promise<CryptoKey> {
+  if (!text?.trim()) {
+    throw new Error(t('error.privateKeyRequired'));
+  }
+  const parsed = parseKeyText(text);
+  if (!parsed.isPrivate) {
+    throw new Error(t('error.privateKeyExpected'));
+  }
+  return importParsedKey(spec, parsed, spec.privateUsages, extractable);
+}
+
+/**
+ * 导入公钥
+ * 填写的是私钥时自动提取其中的公钥部分
+ */
+export async function importPublicKey(spec: AsymmetricSpec, text: string | undefined): Promise<CryptoKey> {
+  if (!text?.trim()) {
+    throw new Error(t('error.publicKeyRequired'));
+  }
+  let parsed = parseKeyText(text);
+  if (parsed.isPrivate) {
+    const privateKey = await importParsedKey(spec, parsed, spec.privateUsages, true);
+    parsed = { format: 'jwk', jwk: await crypto.subtle.exportKey('jwk', privateKey), isPrivate: false };
+  }
+  return importParsedKey(spec, parsed, spec.publicUsages, true);
+}
+
+/**
+ * 按指定格式导出密钥
+ */
+async function exportKey(key: CryptoKey, format: KeyExportFormat): Promise<string> {
+  const isPrivate = key.type === 'private';
+  if (format === 'jwk') {
+    return JSON.stringify(await crypto.subtle.exportKey('jwk', key), null, 2);
+  }
+  const der = await crypto.subtle.exportKey(isPrivate ? 'pkcs8' : 'spki', key);
+  return toPem(der, isPrivate ? 'PRIVATE KEY' : 'PUBLIC KEY');
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+// ============================================================================
+// 密钥生成与转换
+// ============================================================================
+
+/**
+ * 生成密钥对
+ */
+export async function generateKeyPair(
+  id: AsymmetricAlgorithmId,
+  format: KeyExportFormat
+): Promise<KeyPair> {
+  const spec: AsymmetricSpec = asymmetricSpecs[id];
+  const keyPair = (await crypto.subtle.generateKey(spec.keyAlgorithm, true, [
+    ...spec.publicUsages,
+    ...spec.privateUsages,
+  ])) as CryptoKeyPair;
+
+  return {
+    publicKey: await exportKey(keyPair.publicKey, format),
+    privateKey: await exportKey(keyPair.privateKey, format),
+  };
+}
+
+/**
+ * 在 PEM 与 JWK 之间转换密钥，公钥、私钥均可
+ */
+export async function convertKey(
+  id: AsymmetricAlgorithmId,
+  text: string,
+  format: KeyExportFormat
+): Promise<string> {
+  const spec: AsymmetricSpec = asymmetricSpecs[id];
+  const parsed = parseKeyText(text);
+  const key = parsed.isPrivate
+    ? await importParsedKey(spec, parsed, spec.privateUsages, true)
+    : await importParsedKey(spec, parsed, spec.publicUsages, true);
+  return exportKey(key, format);
+}
+
+// ============================================================================
+// 签名、加解密与密钥协商
+// ============================================================================
+
+/**
+ * 签名，私钥取自 options.privateKey
+ */
+export async function sign(
+  id: AsymmetricAlgorithmId,
+  input: CryptoData,
+  options?: AlgorithmOptions
+): Promise<ProcessResult> {
+  const spec: AsymmetricSpec = asymmetricSpecs[id];
+  try {
+    const key = await importPrivateKey(spec, options?.privateKey);
+    const signature = await crypto.subtle.sign(spec.signParams!, key, toBytes(input));
+    return { success: true, output: encodeOutput(new Uint8Array(signature), options?.outputFormat) };
+  } catch (error) {
+    return { success: false, output: '', error: errorMessage(error, t('error.signFailed')) };
+  }
+}
+
+/**
+ * 验签，公钥取自 options.publicKey
+ * ECDSA 签名为 IEEE P1363 格式（r || s），与 JWS 一致
+ */
+export async function verify(
+  id: AsymmetricAlgorithmId,
+  input: CryptoData,
+  signature: string,
+  options?: AlgorithmOptions
+): Promise<VerifyResult> {
+  const spec: AsymmetricSpec = asymmetricSpecs[id];
+  try {
+    const key = await importPublicKey(spec, options?.publicKey);
+
+    let signatureBytes: Uint8Array<ArrayBuffer>;
+    try {
+      signatureBytes = decodeBinary(signature.trim());
+    } catch {
+      throw new Error(t('error.invalidSignature'));
+    }
+
+    const match = await crypto.subtle.verify(spec.signParams!, key, signatureBytes, toBytes(input));
+    return { success: true, output: '', match };
+  } catch (error) {
+    return {
+      success: false,
+      output: '',
+      match: false,
+      error: errorMessage(error, t('error.verifyFailed')),
+    };
+  }
+}
+
+/**
+ * RSA-OAEP 加密，公钥取自 options.publicKey
+ */
+export async function rsaEncrypt(input: CryptoData, options?: AlgorithmOptions): Promise<ProcessResult> {
+  const spec: AsymmetricSpec = asymmetricSpecs['rsa-oaep'];
+  try {
+    const key = await importPublicKey(spec, options?.publicKey);
+    const data = toBytes(input);
+
+    // OAEP 可加密的最大字节数：模长 - 2 × 摘要长度 - 2
+    const { modulusLength } = key.algorithm as RsaHashedKeyAlgorithm;
+    const maxLength = modulusLength / 8 - 2 * 32 - 2;
+    if (data.length > maxLength) {
+      throw new Error(t('error.rsaPayloadTooLarge', { max: maxLength, actual: data.length }));
+    }
+
+    const encrypted = await crypto.subtle.encrypt({ name: 'RSA-OAEP' }, key, data);
+    return {
+      success: true,
+      output: encodeOutput(new Uint8Array(encrypted), options?.outputFormat ?? 'base64'),
+    };
+  } catch (error) {
+    return { success: false, output: '', error: errorMessage(error, t('error.rsaEncryptFailed')) };
+  }
+}
+
+/**
+ * RSA-OAEP 解密，私钥取自 options.privateKey
+ */
+export async function rsaDecrypt(input: string, options?: AlgorithmOptions): Promise<ProcessResult> {
+  const spec: AsymmetricSpec = asymmetricSpecs['rsa-oaep'];
+  let key: CryptoKey;
+  try {
+    key = await importPrivateKey(spec, options?.privateKey);
+  } catch (error) {
+    return { success: false, output: '', error: errorMessage(error, t('error.invalidKey')) };
+  }
+
+  try {
+    const decrypted = new Uint8Array(
+      await crypto.subtle.decrypt({ name: 'RSA-OAEP' }, key, decodeBinary(input))
+    );
+    return { success: true, output: new TextDecoder().decode(decrypted), bytes: decrypted };
+  } catch {
+    return { success: false, output: '', error: t('error.rsaDecryptFailed') };
+  }
+}
+
+/**
+ * X25519 密钥协商
+ * 输入为对方公钥，私钥取自 options.privateKey，输出 32 字节共享密钥
+ */
+export async function x25519Agree(
+  input: CryptoData,
+  options?: AlgorithmOptions
+): Promise<ProcessResult> {
+  const spec: AsymmetricSpec = asymmetricSpecs.x25519;
+  try {
+    const privateKey = await importPrivateKey(spec, options?.privateKey);
+    const publicKey = await importPublicKey(spec, toText(input));
+    const secret = await crypto.subtle.deriveBits(
+      { name: 'X25519', public: publicKey } as EcdhKeyDeriveParams,
+      privateKey,
+      256
+    );
+    return { success: true, output: encodeOutput(new Uint8Array(secret), options?.outputFormat) };
+  } catch (error) {
+    return { success: false, output: '', error: errorMessage(error, t('error.keyAgreementFailed')) };
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import {
+  HEXDUMP_LIMIT,
+  bytesToBase64,
+  hexDump,
+  isPrintableText,
+  parseInputBytes,
+  renderBytes,
+  toBytes,
+} from './bytes';
+
+describe('parseInputBytes', () => {
+  it('文本按 UTF-8 编码', () => {
+    expect(Array.from(parseInputBytes('中', 'text'))).toEqual([0xe4, 0xb8, 0xad]);
+  });
+
+  it('十六进制允许前缀和分隔符', () => {
+    expect(parseInputBytes('0x89 50:4e-47', 'hex')).toEqual(
+      new Uint8Array([0x89, 0x50, 0x4e, 0x47])
+    );
+    expect(() => parseInputBytes('zz', 'hex')).toThrow('无效的十六进制字符');
+    expect(() => parseInputBytes('abc', 'hex')).toThrow('十六进制字符串长度必须为偶数');
+  });
+
+  it('Base64 兼容换行和 URL 安全字符', () => {
+    expect(parseInputBytes('iVBO\nRw==', 'base64')).toEqual(
+      new Uint8Array([0x89, 0x50, 0x4e, 0x47])
+    );
+    expect(parseInputBytes('-_8', 'base64')).toEqual(new Uint8Array([0xfb, 0xff]));
+    expect(() => parseInputBytes('!!!', 'base64')).toThrow('无效的 Base64 字符串');
+  });
+});
+
+describe('isPrintableText', () => {
+  it('区分文本和二进制', () => {
+    expect(isPrintableText(toBytes('你好\r\n\tworld'))).toBe(true);
+    expect(isPrintableText(new Uint8Array([0x41, 0x00]))).toBe(false);
+    expect(isPrintableText(new Uint8Array([0xff]))).toBe(false);
+  });
+});
+
+describe('hexDump', () => {
+  it('偏移、十六进制和 ASCII 预览', () => {
+    const bytes = toBytes('Hello, binary world!\x00\x7f');
+    expect(hexDump(bytes).split('\n')).toEqual([
+      '00000000  48 65 6c 6c 6f 2c 20 62  69 6e 61 72 79 20 77 6f  |Hello, binary wo|',
+      '00000010  72 6c 64 21 00 7f                                 |rld!..|',
+    ]);
+  });
+
+  it('超出上限时截断', () => {
+    const dump = hexDump(new Uint8Array(HEXDUMP_LIMIT + 1));
+    expect(dump.split('\n')).toHaveLength(HEXDUMP_LIMIT / 16 + 1);
+    expect(dump).toContain(`共 ${HEXDUMP_LIMIT + 1} 字节`);
+  });
+});
+
+describe('renderBytes', () => {
+  it('按视图渲染', () => {
+    const bytes = new Uint8Array([0xde, 0xad, 0xbe, 0xef]);
+    expect(renderBytes(bytes, 'hex')).toBe('deadbeef');
+    expect(renderBytes(bytes, 'base64')).toBe('3q2+7w==');
+    expect(renderBytes(toBytes('文本'), 'text')).toBe('文本');
+  });
+
+  it('大数据的 Base64 与逐字节结果一致', () => {
+    const bytes = Uint8Array.from({ length: 100_000 }, (_, i) => i % 256);
+    let binary = '';
+    bytes.forEach((b) => (binary += String.fromCharCode(b)));
+    expect(bytesToBase64(bytes)).toBe(btoa(binary));
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * 字节数据的输入解析与输出渲染
+ * 算法内部统一处理 Uint8Array，避免非 UTF-8 数据经过 TextDecoder 后被替换为 U+FFFD
+ */
+
+import { t } from './locales';
+import type { CryptoData, InputFormat, OutputView } from './types';
+
+/** 十六进制转储最多展示的字节数，更大的数据请下载查看 */
+export const HEXDUMP_LIMIT = 64 * 1024;
+
+/**
+ * 将算法输入统一转为字节，字符串按 UTF-8 编码
+ */
+export function toBytes(data: CryptoData): Uint8Array<ArrayBuffer> {
+  return typeof data === 'string' ? new TextEncoder().encode(data) : new Uint8Array(data);
+}
+
+/**
+ * 将算法输入统一转为文本，供只处理文本的算法（如 URL 编码）使用
+ */
+export function toText(data: CryptoData): string {
+  return typeof data === 'string' ? data : new TextDecoder().decode(data);
+}
+
+/**
+ * 字节转十六进制（小写，无分隔）
+ */
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * 字节转 Base64
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  // 分块拼接，避免大数据时逐字节拼接字符串过慢
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * 按所选格式解析输入文本
+ * 十六进制允许空白和 ":" "," 等分隔符，Base64 兼容 URL 安全变体和换行
+ */
+export function parseInputBytes(
+  input: string,
+  format: Exclude<InputFormat, 'file'>
+): Uint8Array<ArrayBuffer> {
+  if (format === 'hex') {
+    const cleanHex = input.replace(/^0x/i, '').replace(/[\s,;:-]/g, '');
+    if (!/^[0-9a-fA-F]*$/.test(cleanHex)) {
+      throw new Error(t('error.invalidHexChar'));
+    }
+    if (cleanHex.length % 2 !== 0) {
+      throw new Error(t('error.oddHexLength'));
+    }
+    return Uint8Array.from(cleanHex.match(/../g) ?? [], (byte) => parseInt(byte, 16));
+  }
+
+  if (format === 'base64') {
+    try {
+      const binary = atob(input.replace(/\s/g, '').replace(/-/g, '+').replace(/_/g, '/'));
+      return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+    } catch {
+      throw new Error(t('error.invalidBase64'));
+    }
+  }
+
+  return new TextEncoder().encode(input);
+}
+
+/**
+ * 是否为可直接显示的文本：合法 UTF-8，且除换行、制表符外不含控制字符
+ */
+export function isPrintableText(bytes: Uint8Array): boolean {
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return false;
+  }
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if ((code < 0x20 && code !== 0x09 && code !== 0x0a && code !== 0x0d) || code === 0x7f) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * 生成 xxd 风格的十六进制转储：偏移、16 字节十六进制和 ASCII 预览
+ * 超过 HEXDUMP_LIMIT 的部分省略
+ */
+export function hexDump(bytes: Uint8Array): string {
+  const lines: string[] = [];
+  const length = Math.min(bytes.length, HEXDUMP_LIMIT);
+  for (let offset = 0; offset < length; offset += 16) {
+    const row = bytes.subarray(offset, Math.min(offset + 16, length));
+    const hex = Array.from(row, (b) => b.toString(16).padStart(2, '0'));
+    // 每 8 字节之间多留一个空格，便于数位置
+    const hexColumn = `${hex.slice(0, 8).join(' ')}  ${hex.slice(8).join(' ')}`.padEnd(48);
+    const ascii = Array.from(row, (b) => (b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.'));
+    lines.push(`${offset.toString(16).padStart(8, '0')}  ${hexColumn}  |${ascii.join('')}|`);
+  }
+  if (bytes.length > length) {
+    lines.push(t('hexdump.truncated', { limit: HEXDUMP_LIMIT / 1024, total: bytes.length }));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * 按所选视图渲染字节
+ */
+export function renderBytes(bytes: Uint8Array, view: OutputView): string {
+  switch (view) {
+    case 'hex':
+      return bytesToHex(bytes);
+    case 'hexdump':
+      return hexDump(bytes);
+    case 'base64':
+      return bytesToBase64(bytes);
+    default:
+      return new TextDecoder().decode(bytes);
+  }
+}
+
+/**
+ * 将字节下载为文件
+ */
+export function downloadBytes(bytes: Uint8Array<ArrayBuffer>, fileName: string): void {
+  const blob = new Blob([bytes], { type: 'application/octet-stream' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { adler32, crc32, crc32c, createCrc32, xxh32, xxh64 } from './checksums';
+
+function hex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function utf8(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+describe('CRC', () => {
+  // CRC 目录（reveng）中的标准校验值
+  it('"123456789" 的校验值', () => {
+    expect(hex(crc32(utf8('123456789')))).toBe('cbf43926');
+    expect(hex(crc32c(utf8('123456789')))).toBe('e3069283');
+  });
+
+  it('空输入为 0', () => {
+    expect(hex(crc32(new Uint8Array()))).toBe('00000000');
+  });
+
+  it('与 zlib 结果一致', () => {
+    expect(hex(crc32(new Uint8Array(100_000).fill(0xff)))).toBe('68c6cec4');
+  });
+
+  it('分块计算与一次性计算结果相同', () => {
+    const hasher = createCrc32();
+    hasher.update(utf8('1234'));
+    hasher.update(new Uint8Array());
+    hasher.update(utf8('56789'));
+    expect(hex(hasher.digest())).toBe('cbf43926');
+  });
+});
+
+describe('adler32', () => {
+  it('"Wikipedia" 的校验值', () => {
+    expect(hex(adler32(utf8('Wikipedia')))).toBe('11e60398');
+  });
+
+  it('空输入为 1', () => {
+    expect(hex(adler32(new Uint8Array()))).toBe('00000001');
+  });
+
+  it('跨分块取模时与 zlib 结果一致', () => {
+    expect(hex(adler32(new Uint8Array(100_000).fill(0xff)))).toBe('149a302c');
+  });
+});
+
+describe('xxHash', () => {
+  // 覆盖短输入与按条带处理的长输入（XXH32 ≥ 16 字节，XXH64 ≥ 32 字节）
+  it.each([
+    ['', '02cc5d05', 'ef46db3751d8e999'],
+    ['abc', '32d153ff', '44bc2cf5ad770999'],
+    ['Nobody inspects the spammish repetition', 'e2293b2f', 'fbcea83c8a378bf1'],
+  ])('%j', (input, expected32, expected64) => {
+    expect(hex(xxh32(utf8(input)))).toBe(expected32);
+    expect(hex(xxh64(utf8(input)))).toBe(expected64);
+  });
+
+  it('支持子数组视图', () => {
+    const data = utf8('__abc__').subarray(2, 5);
+    expect(hex(xxh32(data))).toBe('32d153ff');
+    expect(hex(xxh64(data))).toBe('44bc2cf5ad770999');
+  });
+});
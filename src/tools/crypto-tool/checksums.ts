@@ -0,0 +1,268 @@
+/**
+ * 非加密校验和算法
+ * CRC32 / CRC32C / Adler-32 / xxHash 的纯 TypeScript 实现，
+ * 结果按大端字节序输出，与 cksum、xxhsum 等命令行工具一致
+ */
+
+// ============================================================================
+// CRC32 / CRC32C
+// ============================================================================
+
+/**
+ * 生成反射 CRC32 查找表
+ * @param polynomial - 反射后的生成多项式
+ */
+function createCrcTable(polynomial: number): Uint32Array {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? polynomial ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+}
+
+const crcTables = new Map<number, Uint32Array>();
+
+function getCrcTable(polynomial: number): Uint32Array {
+  let table = crcTables.get(polynomial);
+  if (!table) {
+    table = createCrcTable(polynomial);
+    crcTables.set(polynomial, table);
+  }
+  return table;
+}
+
+/**
+ * 在已有寄存器值上继续计算，用于分块处理
+ */
+function crcUpdate(value: number, data: Uint8Array, table: Uint32Array): number {
+  for (let i = 0; i < data.length; i++) {
+    value = table[(value ^ data[i]) & 0xff] ^ (value >>> 8);
+  }
+  return value;
+}
+
+function crc(data: Uint8Array, polynomial: number): number {
+  const value = crcUpdate(0xffffffff, data, getCrcTable(polynomial));
+  return (value ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * 32 位无符号整数转大端字节
+ */
+function uint32ToBytes(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+}
+
+/**
+ * CRC32（IEEE 802.3，zip / gzip / PNG 使用）
+ */
+export function crc32(data: Uint8Array): Uint8Array {
+  return uint32ToBytes(crc(data, 0xedb88320));
+}
+
+/**
+ * 可分块更新的 CRC32，接口与 @noble/hashes 的 create() 一致
+ */
+export function createCrc32(): { update(data: Uint8Array): void; digest(): Uint8Array } {
+  const table = getCrcTable(0xedb88320);
+  let value = 0xffffffff;
+  return {
+    update(data) {
+      value = crcUpdate(value, data, table);
+    },
+    digest() {
+      return uint32ToBytes((value ^ 0xffffffff) >>> 0);
+    },
+  };
+}
+
+/**
+ * CRC32C（Castagnoli，iSCSI / ext4 / SSE4.2 使用）
+ */
+export function crc32c(data: Uint8Array): Uint8Array {
+  return uint32ToBytes(crc(data, 0x82f63b78));
+}
+
+// ============================================================================
+// Adler-32
+// ============================================================================
+
+/**
+ * Adler-32（zlib 使用）
+ */
+export function adler32(data: Uint8Array): Uint8Array {
+  const MOD = 65521;
+  // 每处理 5552 字节取一次模，保证中间结果不超过 2^32
+  const BLOCK = 5552;
+  let a = 1;
+  let b = 0;
+
+  for (let offset = 0; offset < data.length; offset += BLOCK) {
+    const end = Math.min(offset + BLOCK, data.length);
+    for (let i = offset; i < end; i++) {
+      a += data[i];
+      b += a;
+    }
+    a %= MOD;
+    b %= MOD;
+  }
+
+  return uint32ToBytes(((b << 16) | a) >>> 0);
+}
+
+// ============================================================================
+// xxHash
+// ============================================================================
+
+const PRIME32_1 = 0x9e3779b1;
+const PRIME32_2 = 0x85ebca77;
+const PRIME32_3 = 0xc2b2ae3d;
+const PRIME32_4 = 0x27d4eb2f;
+const PRIME32_5 = 0x165667b1;
+
+function rotl32(value: number, shift: number): number {
+  return (value << shift) | (value >>> (32 - shift));
+}
+
+function round32(acc: number, lane: number): number {
+  acc = (acc + Math.imul(lane, PRIME32_2)) >>> 0;
+  return Math.imul(rotl32(acc, 13), PRIME32_1) >>> 0;
+}
+
+/**
+ * XXH32
+ * @param data - 输入数据
+ * @param seed - 种子，默认 0
+ */
+export function xxh32(data: Uint8Array, seed = 0): Uint8Array {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const length = data.length;
+  let i = 0;
+  let hash: number;
+
+  if (length >= 16) {
+    let v1 = (seed + PRIME32_1 + PRIME32_2) >>> 0;
+    let v2 = (seed + PRIME32_2) >>> 0;
+    let v3 = seed >>> 0;
+    let v4 = (seed - PRIME32_1) >>> 0;
+
+    for (; i <= length - 16; i += 16) {
+      v1 = round32(v1, view.getUint32(i, true));
+      v2 = round32(v2, view.getUint32(i + 4, true));
+      v3 = round32(v3, view.getUint32(i + 8, true));
+      v4 = round32(v4, view.getUint32(i + 12, true));
+    }
+
+    hash = (rotl32(v1, 1) + rotl32(v2, 7) + rotl32(v3, 12) + rotl32(v4, 18)) >>> 0;
+  } else {
+    hash = (seed + PRIME32_5) >>> 0;
+  }
+
+  hash = (hash + length) >>> 0;
+
+  for (; i <= length - 4; i += 4) {
+    hash = (hash + Math.imul(view.getUint32(i, true), PRIME32_3)) >>> 0;
+    hash = Math.imul(rotl32(hash, 17), PRIME32_4) >>> 0;
+  }
+  for (; i < length; i++) {
+    hash = (hash + Math.imul(data[i], PRIME32_5)) >>> 0;
+    hash = Math.imul(rotl32(hash, 11), PRIME32_1) >>> 0;
+  }
+
+  // 雪崩
+  hash ^= hash >>> 15;
+  hash = Math.imul(hash, PRIME32_2);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, PRIME32_3);
+  hash ^= hash >>> 16;
+
+  return uint32ToBytes(hash >>> 0);
+}
+
+const MASK64 = 0xffffffffffffffffn;
+const PRIME64_1 = 0x9e3779b185ebca87n;
+const PRIME64_2 = 0xc2b2ae3d27d4eb4fn;
+const PRIME64_3 = 0x165667b19e3779f9n;
+const PRIME64_4 = 0x85ebca77c2b2ae63n;
+const PRIME64_5 = 0x27d4eb2f165667c5n;
+
+function rotl64(value: bigint, shift: bigint): bigint {
+  return ((value << shift) | (value >> (64n - shift))) & MASK64;
+}
+
+function round64(acc: bigint, lane: bigint): bigint {
+  acc = (acc + lane * PRIME64_2) & MASK64;
+  return (rotl64(acc, 31n) * PRIME64_1) & MASK64;
+}
+
+function mergeRound64(acc: bigint, value: bigint): bigint {
+  acc ^= round64(0n, value);
+  return (acc * PRIME64_1 + PRIME64_4) & MASK64;
+}
+
+/**
+ * XXH64
+ * @param data - 输入数据
+ * @param seed - 种子，默认 0
+ */
+export function xxh64(data: Uint8Array, seed = 0n): Uint8Array {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const length = data.length;
+  let i = 0;
+  let hash: bigint;
+
+  if (length >= 32) {
+    let v1 = (seed + PRIME64_1 + PRIME64_2) & MASK64;
+    let v2 = (seed + PRIME64_2) & MASK64;
+    let v3 = seed & MASK64;
+    let v4 = (seed - PRIME64_1) & MASK64;
+
+    for (; i <= length - 32; i += 32) {
+      v1 = round64(v1, view.getBigUint64(i, true));
+      v2 = round64(v2, view.getBigUint64(i + 8, true));
+      v3 = round64(v3, view.getBigUint64(i + 16, true));
+      v4 = round64(v4, view.getBigUint64(i + 24, true));
+    }
+
+    hash = (rotl64(v1, 1n) + rotl64(v2, 7n) + rotl64(v3, 12n) + rotl64(v4, 18n)) & MASK64;
+    hash = mergeRound64(hash, v1);
+    hash = mergeRound64(hash, v2);
+    hash = mergeRound64(hash, v3);
+    hash = mergeRound64(hash, v4);
+  } else {
+    hash = (seed + PRIME64_5) & MASK64;
+  }
+
+  hash = (hash + BigInt(length)) & MASK64;
+
+  for (; i <= length - 8; i += 8) {
+    hash ^= round64(0n, view.getBigUint64(i, true));
+    hash = (rotl64(hash, 27n) * PRIME64_1 + PRIME64_4) & MASK64;
+  }
+  if (i <= length - 4) {
+    hash ^= (BigInt(view.getUint32(i, true)) * PRIME64_1) & MASK64;
+    hash = (rotl64(hash, 23n) * PRIME64_2 + PRIME64_3) & MASK64;
+    i += 4;
+  }
+  for (; i < length; i++) {
+    hash ^= (BigInt(data[i]) * PRIME64_5) & MASK64;
+    hash = (rotl64(hash, 11n) * PRIME64_1) & MASK64;
+  }
+
+  // 雪崩
+  hash ^= hash >> 33n;
+  hash = (hash * PRIME64_2) & MASK64;
+  hash ^= hash >> 29n;
+  hash = (hash * PRIME64_3) & MASK64;
+  hash ^= hash >> 32n;
+
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setBigUint64(0, hash);
+  return bytes;
+}
@@ -0,0 +1,201 @@
+/**
+ * AES 参数设置
+ * 模式、密钥长度、KDF 及其成本参数，原始密钥模式下可指定 IV
+ */
+
+import { Copy, Terminal } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { cn } from '@/lib/utils';
+import { getOpensslCommand, KDF_DEFAULT_ITERATIONS } from '../aes';
+import type { AesKeySize, AesMode, AesParams, KdfAlgorithm, OperationDirection } from '../types';
+
+interface AesOptionsProps {
+  params: AesParams;
+  onChange: (params: AesParams) => void;
+  /** 是否使用原始密钥（否则为口令） */
+  rawKey: boolean;
+  iv: string;
+  onIvChange: (iv: string) => void;
+  direction: OperationDirection;
+}
+
+const modeOptions: { value: AesMode; label: string }[] = [
+  { value: 'GCM', label: 'GCM' },
+  { value: 'CBC', label: 'CBC' },
+  { value: 'CTR', label: 'CTR' },
+];
+
+const keySizeOptions: { value: AesKeySize; label: string }[] = [
+  { value: 128, label: '128' },
+  { value: 192, label: '192' },
+  { value: 256, label: '256' },
+];
+
+const kdfOptions: { value: KdfAlgorithm; label: string; costLabel: string }[] = [
+  { value: 'pbkdf2', label: 'PBKDF2', costLabel: '迭代次数' },
+  { value: 'scrypt', label: 'scrypt', costLabel: '成本 N' },
+  { value: 'argon2id', label: 'Argon2id', costLabel: '迭代次数 t' },
+];
+
+/**
+ * 分段选择器
+ */
+function Segmented<T extends string | number>({
+  options,
+  value,
+  onChange,
+}: {
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="flex rounded-md border bg-muted p-0.5">
+      {options.map((option) => (
+        <button
+          key={option.value}
+          onClick={() => onChange(option.value)}
+          className={cn(
+            'flex-1 rounded px-2 py-1 text-xs font-medium transition-colors',
+            value === option.value
+              ? 'bg-background text-foreground shadow-sm'
+              : 'text-muted-foreground hover:text-foreground'
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export const AesOptions = ({
+  params,
+  onChange,
+  rawKey,
+  iv,
+  onIvChange,
+  direction,
+}: AesOptionsProps) => {
+  const update = (patch: Partial<AesParams>): void => onChange({ ...params, ...patch });
+  const kdf = kdfOptions.find((option) => option.value === params.kdf) ?? kdfOptions[0];
+  const opensslCommand = rawKey ? null : getOpensslCommand(params, direction === 'decode');
+
+  const handleCopyCommand = async (command: string): Promise<void> => {
+    try {
+      await navigator.clipboard.writeText(command);
+      toast.success('已复制到剪贴板');
+    } catch {
+      toast.error('复制失败');
+    }
+  };
+
+  return (
+    <div className="shrink-0 space-y-2 rounded-md border bg-muted/30 p-2.5">
+      <div className="grid gap-2 sm:grid-cols-2">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">模式</Label>
+          <Segmented options={modeOptions} value={params.mode} onChange={(mode) => update({ mode })} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">密钥长度（位）</Label>
+          <Segmented
+            options={keySizeOptions}
+            value={params.keySize}
+            onChange={(keySize) => update({ keySize })}
+          />
+        </div>
+      </div>
+
+      {rawKey ? (
+        <div className="space-y-1">
+          <Label htmlFor="aes-iv" className="text-xs text-muted-foreground">
+            IV（Hex，可选）
+          </Label>
+          <Input
+            id="aes-iv"
+            placeholder={
+              direction === 'decode'
+                ? '留空时从密文开头读取'
+                : '留空时随机生成并放在密文开头'
+            }
+            value={iv}
+            onChange={(e) => onIvChange(e.target.value)}
+            className="h-8 font-mono text-sm"
+          />
+        </div>
+      ) : (
+        <div className="grid gap-2 sm:grid-cols-2">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">密钥派生（KDF）</Label>
+            <Segmented
+              options={kdfOptions}
+              value={params.kdf}
+              onChange={(value) =>
+                update({ kdf: value, iterations: KDF_DEFAULT_ITERATIONS[value] })
+              }
+            />
+          </div>
+          <div className="flex gap-2">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="aes-iterations" className="text-xs text-muted-foreground">
+                {kdf.costLabel}
+              </Label>
+              <Input
+                id="aes-iterations"
+                type="number"
+                min={1}
+                value={params.iterations}
+                onChange={(e) => update({ iterations: Number(e.target.value) })}
+                className="h-8 font-mono text-sm"
+              />
+            </div>
+            {params.kdf === 'argon2id' && (
+              <div className="flex-1 space-y-1">
+                <Label htmlFor="aes-memory" className="text-xs text-muted-foreground">
+                  内存（KiB）
+                </Label>
+                <Input
+                  id="aes-memory"
+                  type="number"
+                  min={8}
+                  value={params.memory}
+                  onChange={(e) => update({ memory: Number(e.target.value) })}
+                  className="h-8 font-mono text-sm"
+                />
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* OpenSSL 互通提示 */}
+      {!rawKey &&
+        (opensslCommand ? (
+          <div className="flex items-center gap-2 rounded bg-background px-2 py-1.5">
+            <Terminal className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+            <code className="min-w-0 flex-1 truncate font-mono text-xs" title={opensslCommand}>
+              {opensslCommand}
+            </code>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleCopyCommand(opensslCommand)}
+              className="h-6 shrink-0 px-1.5"
+            >
+              <Copy className="h-3 w-3" />
+            </Button>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            {params.mode === 'GCM'
+              ? 'OpenSSL enc 不支持 GCM，需要与 OpenSSL 互通时请选择 CBC 或 CTR'
+              : 'OpenSSL enc 仅支持 PBKDF2，scrypt / Argon2id 的输出只能在本工具中解密'}
+          </p>
+        ))}
+    </div>
+  );
+};
@@ -0,0 +1,378 @@
+/**
+ * 文件哈希面板
+ * 在 Worker 中分块计算多个文件的摘要，并可按 SHA256SUMS 等校验文件逐项比对
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  CheckCircle2,
+  Copy,
+  FileCheck,
+  FileQuestion,
+  Trash2,
+  Upload,
+  XCircle,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+import { t } from '../locales';
+import {
+  baseName,
+  checkEntry,
+  fileHashAlgorithms,
+  formatFileSize,
+  parseChecksumFile,
+} from '../file-hash';
+import type {
+  ChecksumEntry,
+  ChecksumStatus,
+  FileDigests,
+  FileHashAlgorithm,
+  FileHashResponse,
+} from '../types';
+
+/**
+ * 单个文件的计算任务
+ */
+interface FileJob {
+  id: number;
+  file: File;
+  /** 已处理字节数 */
+  loaded: number;
+  status: 'hashing' | 'done' | 'error';
+  /** 提交计算时选择的算法 */
+  algorithms: FileHashAlgorithm[];
+  digests?: FileDigests;
+}
+
+const statusStyles: Record<ChecksumStatus | 'pending', { label: string; className: string }> = {
+  match: { label: '一致', className: 'bg-green-500/10 text-green-600' },
+  mismatch: { label: '不一致', className: 'bg-destructive/10 text-destructive' },
+  missing: { label: '未提供文件', className: 'bg-muted text-muted-foreground' },
+  pending: { label: '计算中', className: 'bg-blue-500/10 text-blue-600' },
+};
+
+export const FileHashPanel = () => {
+  const [selectedAlgorithms, setSelectedAlgorithms] = useState<FileHashAlgorithm[]>(
+    fileHashAlgorithms.map((algorithm) => algorithm.id)
+  );
+  const [jobs, setJobs] = useState<FileJob[]>([]);
+  const [checksumEntries, setChecksumEntries] = useState<ChecksumEntry[]>([]);
+  const [checksumFileName, setChecksumFileName] = useState('');
+  const [isDragging, setIsDragging] = useState(false);
+  const workerRef = useRef<Worker | null>(null);
+  const nextIdRef = useRef(0);
+
+  // 卸载时终止 Worker，未完成的计算随之取消
+  useEffect(() => {
+    return () => workerRef.current?.terminate();
+  }, []);
+
+  const handleMessage = useCallback((event: MessageEvent<FileHashResponse>) => {
+    const message = event.data;
+    if (message.type === 'error') {
+      toast.error(t('error.fileReadFailed'), { description: message.error || undefined });
+    }
+    setJobs((prev) =>
+      prev.map((job) => {
+        if (job.id !== message.id) return job;
+        switch (message.type) {
+          case 'progress':
+            return { ...job, loaded: message.loaded };
+          case 'done':
+            return { ...job, loaded: job.file.size, status: 'done', digests: message.digests };
+          case 'error':
+            return { ...job, status: 'error' };
+        }
+      })
+    );
+  }, []);
+
+  const getWorker = useCallback((): Worker => {
+    if (!workerRef.current) {
+      workerRef.current = new Worker(new URL('../file-hash.worker.ts', import.meta.url), {
+        type: 'module',
+      });
+      workerRef.current.onmessage = handleMessage;
+    }
+    return workerRef.current;
+  }, [handleMessage]);
+
+  /**
+   * 提交计算任务，返回新任务
+   */
+  const enqueue = useCallback(
+    (file: File, algorithms: FileHashAlgorithm[]): FileJob => {
+      const id = nextIdRef.current++;
+      getWorker().postMessage({ id, file, algorithms });
+      return { id, file, loaded: 0, status: 'hashing', algorithms };
+    },
+    [getWorker]
+  );
+
+  const handleFiles = useCallback(
+    async (fileList: FileList | null) => {
+      const files = Array.from(fileList ?? []);
+      if (files.length === 0) return;
+
+      // 文件名形如 SHA256SUMS、*.sha256、*.md5 时作为校验文件解析
+      const isChecksumFile = (file: File) =>
+        /(SUMS|\.(md5|sha1|sha256|sfv))$/i.test(file.name) && file.size < 1024 * 1024;
+      const checksumFiles = files.filter(isChecksumFile);
+      const dataFiles = files.filter((file) => !isChecksumFile(file));
+
+      let algorithms = selectedAlgorithms;
+      if (checksumFiles.length > 0) {
+        const entries = (await Promise.all(checksumFiles.map((file) => file.text()))).flatMap(
+          (text) => parseChecksumFile(text)
+        );
+        if (entries.length === 0) {
+          toast.error('未识别到校验记录');
+        } else {
+          setChecksumEntries(entries);
+          setChecksumFileName(checksumFiles.map((file) => file.name).join(', '));
+          // 校验需要的算法必须参与计算
+          algorithms = [...new Set([...selectedAlgorithms, ...entries.map((e) => e.algorithm)])];
+          setSelectedAlgorithms(algorithms);
+          // 已计算或正在计算的文件缺少所需算法时重新计算，旧任务的结果按 id 被忽略
+          const requeued = new Map<number, FileJob>();
+          for (const job of jobs) {
+            if (
+              job.status !== 'error' &&
+              algorithms.some((algorithm) => !job.algorithms.includes(algorithm))
+            ) {
+              requeued.set(job.id, enqueue(job.file, algorithms));
+            }
+          }
+          setJobs((prev) => prev.map((job) => requeued.get(job.id) ?? job));
+        }
+      }
+
+      if (dataFiles.length > 0) {
+        if (algorithms.length === 0) {
+          toast.error('请至少选择一种算法');
+          return;
+        }
+        const newJobs = dataFiles.map((file) => enqueue(file, algorithms));
+        setJobs((prev) => [...prev, ...newJobs]);
+      }
+    },
+    [selectedAlgorithms, jobs, enqueue]
+  );
+
+  const toggleAlgorithm = (algorithm: FileHashAlgorithm, checked: boolean): void => {
+    setSelectedAlgorithms((prev) =>
+      checked ? [...prev, algorithm] : prev.filter((item) => item !== algorithm)
+    );
+  };
+
+  const handleClear = (): void => {
+    // 终止 Worker 以取消正在进行的计算
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setJobs([]);
+    setChecksumEntries([]);
+    setChecksumFileName('');
+  };
+
+  const handleCopy = async (value: string): Promise<void> => {
+    try {
+      await navigator.clipboard.writeText(value);
+      toast.success('已复制到剪贴板');
+    } catch {
+      toast.error('复制失败');
+    }
+  };
+
+  // 文件名 → 摘要，供校验使用
+  const digestsByName = useMemo(() => {
+    const map = new Map<string, FileDigests>();
+    for (const job of jobs) {
+      if (job.digests) map.set(job.file.name, job.digests);
+    }
+    return map;
+  }, [jobs]);
+
+  const getEntryStatus = (entry: ChecksumEntry): ChecksumStatus | 'pending' => {
+    const status = checkEntry(entry, digestsByName);
+    if (status !== 'missing') return status;
+    const hashing = jobs.some(
+      (job) => job.status === 'hashing' && job.file.name === baseName(entry.fileName)
+    );
+    return hashing ? 'pending' : 'missing';
+  };
+
+  const entryStatuses = checksumEntries.map(getEntryStatus);
+  const matchedCount = entryStatuses.filter((status) => status === 'match').length;
+  const mismatchedCount = entryStatuses.filter((status) => status === 'mismatch').length;
+
+  return (
+    <div className="flex flex-col gap-3">
+      {/* 算法选择 */}
+      <div className="flex flex-wrap items-center gap-4 rounded-md border bg-muted/30 p-2.5">
+        <span className="text-xs text-muted-foreground">算法:</span>
+        {fileHashAlgorithms.map((algorithm) => (
+          <div key={algorithm.id} className="flex items-center gap-1.5">
+            <Checkbox
+              id={`file-hash-${algorithm.id}`}
+              checked={selectedAlgorithms.includes(algorithm.id)}
+              onCheckedChange={(checked) => toggleAlgorithm(algorithm.id, checked === true)}
+            />
+            <Label htmlFor={`file-hash-${algorithm.id}`} className="cursor-pointer text-xs">
+              {algorithm.name}
+            </Label>
+          </div>
+        ))}
+        {(jobs.length > 0 || checksumEntries.length > 0) && (
+          <Button variant="outline" size="sm" onClick={handleClear} className="ml-auto h-7 text-xs">
+            <Trash2 className="mr-1 h-3.5 w-3.5" />
+            清空
+          </Button>
+        )}
+      </div>
+
+      {/* 上传区域 */}
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+        }}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          handleFiles(e.dataTransfer.files);
+        }}
+        onClick={() => document.getElementById('file-hash-upload')?.click()}
+        className={cn(
+          'flex cursor-pointer flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed px-4 py-8 text-center transition-all',
+          isDragging
+            ? 'border-primary bg-primary/10'
+            : 'border-muted-foreground/25 hover:border-muted-foreground/50'
+        )}
+      >
+        <Upload className="h-8 w-8 text-muted-foreground/50" />
+        <p className="text-sm font-medium">拖拽文件 或 点击选择（可多选）</p>
+        <p className="text-xs text-muted-foreground">
+          分块读取，支持 GB 级大文件；同时拖入 SHA256SUMS、*.md5 等校验文件即可自动比对
+        </p>
+        <input
+          id="file-hash-upload"
+          type="file"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            handleFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {/* 文件结果 */}
+      {jobs.map((job) => (
+        <div key={job.id} className="space-y-2 rounded-md border p-3">
+          <div className="flex items-center gap-2">
+            <span className="truncate text-sm font-medium">{job.file.name}</span>
+            <span className="shrink-0 text-xs text-muted-foreground">
+              {formatFileSize(job.file.size)}
+            </span>
+            {job.status === 'error' && (
+              <Badge variant="destructive" className="ml-auto">
+                {t('error.fileReadFailed')}
+              </Badge>
+            )}
+          </div>
+
+          {job.status === 'hashing' && (
+            <div className="flex items-center gap-2">
+              <Progress
+                value={job.file.size ? (job.loaded / job.file.size) * 100 : 0}
+                className="h-1.5"
+              />
+              <span className="w-10 shrink-0 text-right text-xs text-muted-foreground">
+                {job.file.size ? Math.floor((job.loaded / job.file.size) * 100) : 0}%
+              </span>
+            </div>
+          )}
+
+          {job.digests && (
+            <div className="space-y-1">
+              {fileHashAlgorithms
+                .filter((algorithm) => job.digests?.[algorithm.id])
+                .map((algorithm) => {
+                  const digest = job.digests![algorithm.id]!;
+                  return (
+                    <div key={algorithm.id} className="flex items-center gap-2 text-xs">
+                      <span className="w-16 shrink-0 text-muted-foreground">{algorithm.name}</span>
+                      <code className="min-w-0 flex-1 break-all font-mono">{digest}</code>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleCopy(digest)}
+                        className="h-6 shrink-0 px-1.5"
+                      >
+                        <Copy className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  );
+                })}
+            </div>
+          )}
+        </div>
+      ))}
+
+      {/* 校验结果 */}
+      {checksumEntries.length > 0 && (
+        <div className="space-y-2 rounded-md border p-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <FileCheck className="h-4 w-4 text-muted-foreground" />
+            <span className="text-sm font-medium">校验文件</span>
+            <span className="truncate text-xs text-muted-foreground">{checksumFileName}</span>
+            <span className="ml-auto text-xs text-muted-foreground">
+              {matchedCount}/{checksumEntries.length} 一致
+              {mismatchedCount > 0 && `，${mismatchedCount} 不一致`}
+            </span>
+          </div>
+          <div className="space-y-1">
+            {checksumEntries.map((entry, index) => {
+              const status = entryStatuses[index];
+              const StatusIcon =
+                status === 'match' ? CheckCircle2 : status === 'mismatch' ? XCircle : FileQuestion;
+              return (
+                <div key={index} className="flex items-center gap-2 text-xs">
+                  <StatusIcon
+                    className={cn(
+                      'h-3.5 w-3.5 shrink-0',
+                      status === 'match' && 'text-green-600',
+                      status === 'mismatch' && 'text-destructive',
+                      (status === 'missing' || status === 'pending') && 'text-muted-foreground'
+                    )}
+                  />
+                  <span className="min-w-0 flex-1 truncate" title={entry.fileName}>
+                    {entry.fileName}
+                  </span>
+                  <span className="shrink-0 text-muted-foreground">
+                    {fileHashAlgorithms.find((algorithm) => algorithm.id === entry.algorithm)?.name}
+                  </span>
+                  <span
+                    className={cn('shrink-0 rounded-full px-1.5 py-0.5', statusStyles[status].className)}
+                  >
+                    {statusStyles[status].label}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
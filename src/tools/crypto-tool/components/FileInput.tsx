@@ -0,0 +1,84 @@
+/**
+ * 文件输入
+ * 读取整个文件作为算法输入的原始字节，适合加密、签名或编码图片等二进制文件
+ */
+
+import { useState } from 'react';
+import { FileIcon, Upload, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { t } from '../locales';
+import { formatFileSize } from '../file-hash';
+import type { InputFile } from '../types';
+
+interface FileInputProps {
+  file: InputFile | null;
+  onChange: (file: InputFile | null) => void;
+}
+
+export const FileInput = ({ file, onChange }: FileInputProps) => {
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleFiles = async (files: FileList | null): Promise<void> => {
+    const selected = files?.[0];
+    if (!selected) return;
+    try {
+      onChange({ name: selected.name, bytes: new Uint8Array(await selected.arrayBuffer()) });
+    } catch {
+      toast.error(t('error.fileReadFailed'));
+    }
+  };
+
+  if (file) {
+    return (
+      <div className="flex min-h-0 flex-1 flex-col items-center justify-center gap-2 rounded-md border bg-background p-4 text-center">
+        <FileIcon className="h-8 w-8 text-muted-foreground/50" />
+        <p className="max-w-full truncate text-sm font-medium">{file.name}</p>
+        <p className="text-xs text-muted-foreground">{formatFileSize(file.bytes.length)}</p>
+        <Button variant="outline" size="sm" onClick={() => onChange(null)} className="h-7 text-xs">
+          <X className="mr-1 h-3.5 w-3.5" />
+          移除文件
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={(e) => {
+        e.preventDefault();
+        setIsDragging(false);
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsDragging(false);
+        handleFiles(e.dataTransfer.files);
+      }}
+      onClick={() => document.getElementById('crypto-file-input')?.click()}
+      className={cn(
+        'flex min-h-0 flex-1 cursor-pointer flex-col items-center justify-center gap-2 rounded-md border-2 border-dashed p-4 text-center transition-all',
+        isDragging
+          ? 'border-primary bg-primary/10'
+          : 'border-muted-foreground/25 hover:border-muted-foreground/50'
+      )}
+    >
+      <Upload className="h-8 w-8 text-muted-foreground/50" />
+      <p className="text-sm font-medium">拖拽文件 或 点击选择</p>
+      <p className="text-xs text-muted-foreground">按原始字节处理，不做文本转换</p>
+      <input
+        id="crypto-file-input"
+        type="file"
+        className="hidden"
+        onChange={(e) => {
+          handleFiles(e.target.files);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+/**
+ * 自动识别面板
+ * 逐层尝试所有已注册的解码器，列出最可能的解码链
+ */
+
+import { useRef, useState } from 'react';
+import { ChevronRight, Copy, Download, Loader2, Wand2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { bytesToBase64, downloadBytes, hexDump, isPrintableText } from '../bytes';
+import { detectEncoding, MAGIC_DEFAULT_DEPTH, MAGIC_MAX_DEPTH } from '../magic';
+import type { MagicResult } from '../types';
+
+/** 最多展示的解码链数量 */
+const RESULT_LIMIT = 10;
+
+/** 每条结果预览的字符数 / 字节数 */
+const PREVIEW_LENGTH = 400;
+const PREVIEW_BYTES = 128;
+
+/**
+ * 结果预览：文本取开头若干字符，二进制显示开头的十六进制转储
+ */
+function formatPreview(bytes: Uint8Array): string {
+  if (!isPrintableText(bytes)) {
+    return hexDump(bytes.subarray(0, PREVIEW_BYTES));
+  }
+  // UTF-8 每个字符最多 4 字节，多取一些再按字符截断
+  const text = new TextDecoder().decode(bytes.subarray(0, PREVIEW_LENGTH * 4));
+  return text.length > PREVIEW_LENGTH || bytes.length > PREVIEW_LENGTH * 4
+    ? `${text.slice(0, PREVIEW_LENGTH)}…`
+    : text;
+}
+
+export const MagicPanel = () => {
+  const [input, setInput] = useState('');
+  const [depth, setDepth] = useState(MAGIC_DEFAULT_DEPTH);
+  const [results, setResults] = useState<MagicResult[] | null>(null);
+  const [isDetecting, setIsDetecting] = useState(false);
+  // 只采用最后一次识别的结果
+  const requestRef = useRef(0);
+
+  const handleDetect = async (): Promise<void> => {
+    if (!input.trim()) {
+      toast.error('请输入要识别的内容');
+      return;
+    }
+    const request = ++requestRef.current;
+    setIsDetecting(true);
+    try {
+      const detected = await detectEncoding(input, depth);
+      if (request === requestRef.current) setResults(detected.slice(0, RESULT_LIMIT));
+    } finally {
+      if (request === requestRef.current) setIsDetecting(false);
+    }
+  };
+
+  const handleCopy = async (result: MagicResult): Promise<void> => {
+    const isText = isPrintableText(result.bytes);
+    try {
+      await navigator.clipboard.writeText(
+        isText ? new TextDecoder().decode(result.bytes) : bytesToBase64(result.bytes)
+      );
+      toast.success(isText ? '已复制到剪贴板' : '二进制结果已按 Base64 复制');
+    } catch {
+      toast.error('复制失败');
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-col gap-1.5">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <label htmlFor="magic-input" className="text-sm font-medium">
+            待识别内容
+          </label>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground">最大层数</span>
+            <div className="flex rounded-md border bg-muted p-0.5">
+              {Array.from({ length: MAGIC_MAX_DEPTH }, (_, i) => i + 1).map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setDepth(value)}
+                  className={cn(
+                    'rounded px-2 py-0.5 text-xs font-medium transition-colors',
+                    depth === value
+                      ? 'bg-background text-foreground shadow-sm'
+                      : 'text-muted-foreground hover:text-foreground'
+                  )}
+                >
+                  {value}
+                </button>
+              ))}
+            </div>
+            <Button size="sm" onClick={handleDetect} disabled={isDetecting} className="h-7 text-xs">
+              {isDetecting ? (
+                <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />
+              ) : (
+                <Wand2 className="mr-1 h-3.5 w-3.5" />
+              )}
+              识别
+            </Button>
+          </div>
+        </div>
+        <textarea
+          id="magic-input"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+              e.preventDefault();
+              handleDetect();
+            }
+          }}
+          placeholder="粘贴未知编码的内容，如 Base64、URL 编码、Hex 或多层嵌套的数据（Ctrl+Enter 识别）..."
+          className={cn(
+            'h-32 resize-y rounded-md border bg-background p-2.5 font-mono text-sm',
+            'focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2'
+          )}
+          spellCheck={false}
+        />
+      </div>
+
+      {results?.length === 0 && (
+        <p className="rounded-md border border-dashed p-4 text-center text-sm text-muted-foreground">
+          未识别出可解码的编码
+        </p>
+      )}
+
+      {results?.map((result, index) => (
+        <div key={index} className="space-y-2 rounded-md border p-3">
+          <div className="flex flex-wrap items-center gap-1.5">
+            <span className="mr-1 text-xs text-muted-foreground">#{index + 1}</span>
+            {result.steps.map((step, stepIndex) => (
+              <span key={stepIndex} className="flex items-center gap-1.5">
+                {stepIndex > 0 && <ChevronRight className="h-3 w-3 text-muted-foreground" />}
+                <Badge variant="secondary">{step.name}</Badge>
+              </span>
+            ))}
+            {result.contentType && (
+              <Badge variant="outline" className="text-green-600">
+                {result.contentType}
+              </Badge>
+            )}
+            <span className="ml-auto flex items-center gap-1">
+              <span className="text-xs text-muted-foreground">
+                得分 {result.score} · 可打印 {Math.round(result.printableRatio * 100)}% ·{' '}
+                {result.bytes.length} 字节
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleCopy(result)}
+                className="h-6 px-1.5"
+                title="复制"
+              >
+                <Copy className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => downloadBytes(new Uint8Array(result.bytes), 'decoded.bin')}
+                className="h-6 px-1.5"
+                title="下载"
+              >
+                <Download className="h-3 w-3" />
+              </Button>
+            </span>
+          </div>
+          <pre className="max-h-40 overflow-auto whitespace-pre-wrap break-all rounded bg-muted/50 p-2 font-mono text-xs">
+            {formatPreview(result.bytes)}
+          </pre>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -1,11 +1,41 @@
+import { lazy } from 'react';
 import type { ToolConfig } from '@/tools/types';
 import { Lock } from 'lucide-react';
-import { CryptoTool } from './index';
+import type { AesParams, CryptoShareState } from './types';
 
-export const toolConfig: ToolConfig = {
+/**
+ * 校验分享链接中的 AES 参数，只保留合法的项，其余由组件取默认值
+ */
+function parseAesParams(data: Partial<Record<keyof AesParams, unknown>>): Partial<AesParams> {
+  const params: Partial<AesParams> = {};
+  if (data.mode === 'CBC' || data.mode === 'CTR' || data.mode === 'GCM') {
+    params.mode = data.mode;
+  }
+  if (data.keySize === 128 || data.keySize === 192 || data.keySize === 256) {
+    params.keySize = data.keySize;
+  }
+  if (data.kdf === 'pbkdf2' || data.kdf === 'scrypt' || data.kdf === 'argon2id') {
+    params.kdf = data.kdf;
+  }
+  if (Number.isInteger(data.iterations) && (data.iterations as number) > 0) {
+    params.iterations = data.iterations as number;
+  }
+  if (Number.isInteger(data.memory) && (data.memory as number) > 0) {
+    params.memory = data.memory as number;
+  }
+  return params;
+}
+
+export const toolConfig: ToolConfig<CryptoShareState> = {
   id: 'crypto-tool',
   name: '加密解密',
-  description: '支持 MD5、SHA、Base64、AES 等多种加密编码算法',
+  description: '支持 MD5、SHA、HMAC、Base64、Base58、AES、RSA 等多种加密编码算法',
+  locales: {
+    'en-US': {
+      name: 'Encrypt & Decrypt',
+      description: 'MD5, SHA, HMAC, Base64, Base58, AES, RSA and other hash, encoding and cipher algorithms',
+    },
+  },
   category: 'crypto',
   icon: Lock,
   tags: [
@@ -17,18 +47,83 @@ export const toolConfig: ToolConfig = {
     'SHA',
     'SHA256',
     'SHA512',
+    'HMAC',
+    '签名',
+    '消息认证',
+    '文件哈希',
+    '文件校验',
+    'SHA256SUMS',
+    'CRC32',
     'Base64',
+    'Base64URL',
+    'Base32',
+    'Base58',
+    'Base58Check',
+    'Ascii85',
+    'Base85',
+    'Z85',
+    'Quoted-Printable',
+    'Punycode',
+    'IDNA',
+    '国际化域名',
+    'UUEncode',
+    'Unicode转义',
     'AES',
+    'OpenSSL',
+    'PBKDF2',
+    'scrypt',
+    'Argon2',
+    'RSA',
+    'ECDSA',
+    'Ed25519',
+    'X25519',
+    '非对称加密',
+    '公钥',
+    '私钥',
+    '密钥对',
+    'PEM',
+    'JWK',
     'URL编码',
     'HTML编码',
     'Hex',
     '十六进制',
+    'hexdump',
+    '二进制',
+    '自动识别',
+    'magic',
+    'CyberChef',
     'encrypt',
     'decrypt',
     'encode',
     'decode',
   ],
-  component: CryptoTool,
+  component: lazy(() =>
+    import('./index').then((m) => ({ default: m.CryptoTool }))
+  ),
   requiresBackend: false,
   version: '1.0.0',
+  serializeState: (state) => JSON.stringify(state),
+  deserializeState: (raw) => {
+    try {
+      const data = JSON.parse(raw);
+      if (typeof data?.algorithm !== 'string' || typeof data.input !== 'string') {
+        return null;
+      }
+      return {
+        algorithm: data.algorithm,
+        direction:
+          data.direction === 'decode' || data.direction === 'verify' ? data.direction : 'encode',
+        input: data.input,
+        ...((data.inputFormat === 'hex' || data.inputFormat === 'base64') && {
+          inputFormat: data.inputFormat,
+        }),
+        outputFormat: data.outputFormat === 'base64' ? 'base64' : 'hex',
+        keyFormat:
+          data.keyFormat === 'hex' || data.keyFormat === 'base64' ? data.keyFormat : 'text',
+        ...(data.aes && { aes: parseAesParams(data.aes) }),
+      };
+    } catch {
+      return null;
+    }
+  },
 };
@@ -0,0 +1,227 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ascii85Decode,
+  ascii85Encode,
+  base32Decode,
+  base32Encode,
+  base58CheckDecode,
+  base58CheckEncode,
+  base58Decode,
+  base58Encode,
+  base64UrlDecode,
+  base64UrlEncode,
+  domainToAscii,
+  domainToUnicode,
+  escapeUnicode,
+  punycodeDecode,
+  punycodeEncode,
+  quotedPrintableDecode,
+  quotedPrintableEncode,
+  unescapeUnicode,
+  uudecode,
+  uuencode,
+  z85Decode,
+  z85Encode,
+} from './encodings';
+import { processDecode, processEncode } from './utils';
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+const text = (data: Uint8Array) => new TextDecoder().decode(data);
+const fromHex = (hex: string) => Uint8Array.from(hex.match(/../g)!, (byte) => parseInt(byte, 16));
+
+describe('Base64URL', () => {
+  it('编码不带填充，解码兼容填充', () => {
+    expect(base64UrlEncode(new Uint8Array([251, 255, 191, 0]))).toBe('-_-_AA');
+    expect(base64UrlDecode('-_-_AA==')).toEqual(new Uint8Array([251, 255, 191, 0]));
+    expect(base64UrlDecode('+/+/')).toEqual(new Uint8Array([251, 255, 191]));
+    expect(base64UrlDecode('YQ')).toEqual(new Uint8Array([97]));
+    expect(() => base64UrlDecode('a')).toThrow('无效的 Base64 字符串');
+  });
+});
+
+describe('Base32', () => {
+  it('RFC 4648 测试向量', () => {
+    const vectors: [string, string][] = [
+      ['', ''],
+      ['f', 'MY======'],
+      ['fo', 'MZXQ===='],
+      ['foo', 'MZXW6==='],
+      ['foob', 'MZXW6YQ='],
+      ['fooba', 'MZXW6YTB'],
+      ['foobar', 'MZXW6YTBOI======'],
+    ];
+    for (const [plain, encoded] of vectors) {
+      expect(base32Encode(bytes(plain))).toBe(encoded);
+      expect(text(base32Decode(encoded))).toBe(plain);
+    }
+  });
+
+  it('解码忽略大小写、空白和缺失的填充', () => {
+    expect(text(base32Decode('mzxw 6ytb oi'))).toBe('foobar');
+    expect(() => base32Decode('MZXW1')).toThrow('无效的 Base32 字符串');
+  });
+});
+
+describe('Base58', () => {
+  it('编码与解码', () => {
+    expect(base58Encode(bytes('Hello World!'))).toBe('2NEpo7TZRRrLZSi2U');
+    expect(text(base58Decode('2NEpo7TZRRrLZSi2U'))).toBe('Hello World!');
+  });
+
+  it('前导零字节编码为 1', () => {
+    expect(base58Encode(new Uint8Array([0, 0, 1]))).toBe('112');
+    expect(base58Decode('112')).toEqual(new Uint8Array([0, 0, 1]));
+    expect(() => base58Decode('0OIl')).toThrow('无效的 Base58 字符串');
+  });
+
+  it('Base58Check 比特币地址', () => {
+    const payload = fromHex('00010966776006953d5567439e5e39f86a0d273bee');
+    const address = '16UwLL9Risc3QfPqBUvKofHmBQ7wMtjvM';
+    expect(base58CheckEncode(payload)).toBe(address);
+    expect(base58CheckDecode(address)).toEqual(payload);
+    expect(() => base58CheckDecode('16UwLL9Risc3QfPqBUvKofHmBQ7wMtjvN')).toThrow(
+      'Base58Check 校验和不匹配'
+    );
+  });
+});
+
+describe('Ascii85', () => {
+  it('与 Python base64.a85encode(adobe=True) 一致', () => {
+    expect(ascii85Encode(bytes('Hello, World!'))).toBe('<~87cURD_*#4DfTZ)+T~>');
+    expect(ascii85Encode(bytes('\0\0\0\0abc'))).toBe('<~z@:E^~>');
+  });
+
+  it('解码允许省略 <~ ~> 和包含换行', () => {
+    expect(text(ascii85Decode('87cURD_*#4\nDfTZ)+T'))).toBe('Hello, World!');
+    expect(text(ascii85Decode('<~z@:E^~>'))).toBe('\0\0\0\0abc');
+    expect(() => ascii85Decode('<~s8W-"~>')).toThrow('无效的 Ascii85 字符串');
+  });
+
+  it('任意字节往返', () => {
+    const data = Uint8Array.from({ length: 23 }, (_, i) => (i * 37 + 255) % 256);
+    expect(ascii85Decode(ascii85Encode(data))).toEqual(data);
+  });
+});
+
+describe('Z85', () => {
+  it('ZeroMQ 规范示例', () => {
+    const data = fromHex('864fd26fb559f75b');
+    expect(z85Encode(data)).toBe('HelloWorld');
+    expect(z85Decode('HelloWorld')).toEqual(data);
+  });
+
+  it('长度校验', () => {
+    expect(() => z85Encode(bytes('abc'))).toThrow('4 字节的倍数');
+    expect(() => z85Decode('Hello')).not.toThrow();
+    expect(() => z85Decode('Hell')).toThrow('无效的 Z85 字符串');
+  });
+});
+
+describe('Quoted-Printable', () => {
+  it('UTF-8 字节编码为 =XX，行尾空白也编码', () => {
+    expect(quotedPrintableEncode(bytes('Grüße = café \r\n'))).toBe(
+      'Gr=C3=BC=C3=9Fe =3D caf=C3=A9=20\n'
+    );
+    expect(text(quotedPrintableDecode('Gr=C3=BC=C3=9Fe =3D caf=C3=A9=20\n'))).toBe(
+      'Grüße = café \n'
+    );
+  });
+
+  it('超长行软换行，解码时去除', () => {
+    const line = 'a'.repeat(100);
+    const encoded = quotedPrintableEncode(bytes(line));
+    expect(encoded.split('\n').map((part) => part.length)).toEqual([76, 25]);
+    expect(text(quotedPrintableDecode(encoded))).toBe(line);
+    expect(() => quotedPrintableDecode('=ZZ')).toThrow('无效的 Quoted-Printable');
+  });
+});
+
+describe('UUEncode', () => {
+  it('编码带 begin / end 行', () => {
+    expect(uuencode(bytes('Cat'))).toBe('begin 644 data\n#0V%T\n`\nend');
+    expect(text(uudecode('begin 644 cat.txt\n#0V%T\n`\nend\n'))).toBe('Cat');
+  });
+
+  it('多行往返', () => {
+    const data = Uint8Array.from({ length: 100 }, (_, i) => i);
+    const encoded = uuencode(data);
+    expect(encoded.split('\n')).toHaveLength(6);
+    expect(uudecode(encoded)).toEqual(data);
+    expect(() => uudecode('M0V%T')).toThrow('无效的 UUEncode 数据行');
+  });
+});
+
+describe('Punycode / IDNA', () => {
+  it('RFC 3492 标签编码', () => {
+    expect(punycodeEncode('bücher')).toBe('bcher-kva');
+    expect(punycodeEncode('例え')).toBe('r8jz45g');
+    expect(punycodeDecode('bcher-kva')).toBe('bücher');
+    expect(punycodeDecode('r8jz45g')).toBe('例え');
+    expect(() => punycodeDecode('a-!')).toThrow('无效的 Punycode 字符串');
+  });
+
+  it('Punycode 分隔符的位置', () => {
+    // 没有 "-"：全部是编码部分
+    expect(punycodeDecode('ihqwcrb4cv8a8dqg056pqjye')).toBe('他们为什么不说中文');
+    // 末尾的 "-" 之前全是基本码点
+    expect(punycodeDecode('abc-')).toBe('abc');
+    expect(punycodeDecode(punycodeEncode('a-b-cü'))).toBe('a-b-cü');
+    // 开头的 "-" 不会由编码器产生
+    expect(() => punycodeDecode('-abc')).toThrow('无效的 Punycode 字符串');
+    expect(() => punycodeDecode('-')).toThrow('无效的 Punycode 字符串');
+  });
+
+  it('域名按标签转换，支持中文句号', () => {
+    expect(domainToAscii('München.de')).toBe('xn--mnchen-3ya.de');
+    expect(domainToAscii('例え。テスト')).toBe('xn--r8jz45g.xn--zckzah');
+    expect(domainToUnicode('xn--mnchen-3ya.de')).toBe('münchen.de');
+  });
+});
+
+describe('Unicode 转义', () => {
+  it('只转义非 ASCII 字符', () => {
+    expect(escapeUnicode('a中😀', 'js')).toBe('a\\u4E2D\\uD83D\\uDE00');
+    expect(escapeUnicode('a中😀', 'html')).toBe('a&#x4E2D;&#x1F600;');
+    expect(escapeUnicode('a中', 'percent')).toBe('a%u4E2D');
+  });
+
+  it('解码支持多种写法', () => {
+    expect(unescapeUnicode('\\u4e2d\\u{1F600}\\n', 'js')).toBe('中😀\\n');
+    expect(unescapeUnicode('&#x4E2D;&#20013;&amp;', 'html')).toBe('中中&amp;');
+    expect(unescapeUnicode('%u4E2D%20', 'percent')).toBe('中%20');
+  });
+});
+
+describe('算法注册', () => {
+  it.each([
+    'base64url',
+    'base32',
+    'base58',
+    'ascii85',
+    'quoted-printable',
+    'punycode',
+    'uuencode',
+    'unicode-escape',
+    'html-hex',
+    'percent-u',
+  ])('%s 往返', async (algorithm) => {
+    const input = algorithm === 'punycode' ? 'bücher.例え.com' : 'Hello, 世界!\n😀';
+    const encoded = await processEncode(algorithm, input);
+    expect(encoded.success).toBe(true);
+    expect((await processDecode(algorithm, encoded.output)).output).toBe(input);
+  });
+
+  it('Base58Check 处理原始字节', async () => {
+    const payload = fromHex('00010966776006953d5567439e5e39f86a0d273bee');
+    const encoded = await processEncode('base58check', payload);
+    expect(encoded.output).toBe('16UwLL9Risc3QfPqBUvKofHmBQ7wMtjvM');
+    expect((await processDecode('base58check', encoded.output)).bytes).toEqual(payload);
+  });
+
+  it('Z85 长度不足时返回错误', async () => {
+    expect(await processEncode('z85', 'abc')).toMatchObject({ success: false });
+    expect((await processDecode('z85', (await processEncode('z85', 'abcd')).output)).output).toBe(
+      'abcd'
+    );
+  });
+});
@@ -0,0 +1,663 @@
+/**
+ * 二进制到文本编码
+ * Base64URL / Base32 / Base58(Check) / Ascii85 / Z85 / Quoted-Printable / UUEncode、
+ * Punycode（IDNA）以及 Unicode 转义的纯 TypeScript 实现，解码失败时抛出错误
+ */
+
+import { sha256 } from '@noble/hashes/sha2.js';
+import { t } from './locales';
+
+// ============================================================================
+// Base64URL
+// ============================================================================
+
+/**
+ * Base64URL 编码（RFC 4648 §5），不带填充
+ */
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Base64URL 解码，兼容填充和标准 Base64 字符
+ */
+export function base64UrlDecode(text: string): Uint8Array<ArrayBuffer> {
+  const value = text.replace(/\s/g, '').replace(/-/g, '+').replace(/_/g, '/');
+  try {
+    return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+  } catch {
+    throw new Error(t('error.invalidBase64'));
+  }
+}
+
+// ============================================================================
+// Base32
+// ============================================================================
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Base32 编码（RFC 4648），带填充
+ */
+export function base32Encode(bytes: Uint8Array): string {
+  let output = '';
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+  return output.padEnd(Math.ceil(output.length / 8) * 8, '=');
+}
+
+/**
+ * Base32 解码，忽略大小写、空白和填充
+ */
+export function base32Decode(text: string): Uint8Array {
+  const value = text.replace(/[\s=]/g, '').toUpperCase();
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of value) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index < 0) {
+      throw new Error(t('error.invalidBase32'));
+    }
+    buffer = ((buffer << 5) | index) & 0xfff;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+// ============================================================================
+// Base58 / Base58Check
+// ============================================================================
+
+/** 比特币字母表，去除了 0 O I l */
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/**
+ * Base58 编码，前导零字节编码为 "1"
+ */
+export function base58Encode(bytes: Uint8Array): string {
+  let zeros = 0;
+  while (zeros < bytes.length && bytes[zeros] === 0) zeros++;
+
+  // 逐字节做 256 进制到 58 进制的转换，digits 为小端序
+  const digits: number[] = [];
+  for (let i = zeros; i < bytes.length; i++) {
+    let carry = bytes[i];
+    for (let j = 0; j < digits.length; j++) {
+      carry += digits[j] << 8;
+      digits[j] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  }
+
+  return '1'.repeat(zeros) + digits.reverse().map((digit) => BASE58_ALPHABET[digit]).join('');
+}
+
+/**
+ * Base58 解码
+ */
+export function base58Decode(text: string): Uint8Array {
+  const value = text.trim();
+  let zeros = 0;
+  while (zeros < value.length && value[zeros] === '1') zeros++;
+
+  const bytes: number[] = [];
+  for (let i = zeros; i < value.length; i++) {
+    let carry = BASE58_ALPHABET.indexOf(value[i]);
+    if (carry < 0) {
+      throw new Error(t('error.invalidBase58'));
+    }
+    for (let j = 0; j < bytes.length; j++) {
+      carry += bytes[j] * 58;
+      bytes[j] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  return new Uint8Array([...new Array(zeros).fill(0), ...bytes.reverse()]);
+}
+
+function base58Checksum(payload: Uint8Array): Uint8Array {
+  return sha256(sha256(payload)).subarray(0, 4);
+}
+
+/**
+ * Base58Check 编码：载荷后附加双 SHA-256 的前 4 字节
+ * @param payload - 版本字节和数据
+ */
+export function base58CheckEncode(payload: Uint8Array): string {
+  const data = new Uint8Array(payload.length + 4);
+  data.set(payload);
+  data.set(base58Checksum(payload), payload.length);
+  return base58Encode(data);
+}
+
+/**
+ * Base58Check 解码并校验，返回版本字节和数据
+ */
+export function base58CheckDecode(text: string): Uint8Array {
+  const data = base58Decode(text);
+  if (data.length < 4) {
+    throw new Error(t('error.invalidBase58Checksum'));
+  }
+  const payload = data.subarray(0, data.length - 4);
+  const checksum = base58Checksum(payload);
+  if (!checksum.every((byte, index) => data[payload.length + index] === byte)) {
+    throw new Error(t('error.invalidBase58Checksum'));
+  }
+  return payload;
+}
+
+// ============================================================================
+// Ascii85 / Z85
+// ============================================================================
+
+const Z85_ALPHABET =
+  '0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ.-:+=^!/*?&<>()[]{}@%$#';
+
+/**
+ * 将 4 字节分组（大端）转换为 5 位 85 进制数字
+ */
+function toBase85Digits(bytes: Uint8Array, offset: number): number[] {
+  let value =
+    ((bytes[offset] ?? 0) * 0x1000000 +
+      ((bytes[offset + 1] ?? 0) << 16) +
+      ((bytes[offset + 2] ?? 0) << 8) +
+      (bytes[offset + 3] ?? 0)) >>>
+    0;
+  const digits = new Array<number>(5);
+  for (let i = 4; i >= 0; i--) {
+    digits[i] = value % 85;
+    value = Math.floor(value / 85);
+  }
+  return digits;
+}
+
+/**
+ * 将 5 位 85 进制数字转换为 4 字节（大端），溢出时返回 null
+ */
+function fromBase85Digits(digits: number[]): number[] | null {
+  const value = digits.reduce((sum, digit) => sum * 85 + digit, 0);
+  if (value > 0xffffffff) return null;
+  return [value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+/**
+ * Ascii85 编码（Adobe 变体），全零分组缩写为 "z"，以 <~ ~> 包裹
+ */
+export function ascii85Encode(bytes: Uint8Array): string {
+  let output = '';
+  for (let i = 0; i < bytes.length; i += 4) {
+    const length = Math.min(4, bytes.length - i);
+    const digits = toBase85Digits(bytes, i);
+    if (length === 4 && digits.every((digit) => digit === 0)) {
+      output += 'z';
+    } else {
+      // 末尾不足 4 字节时补零编码，只保留 length + 1 个字符
+      output += String.fromCharCode(...digits.slice(0, length + 1).map((digit) => digit + 33));
+    }
+  }
+  return `<~${output}~>`;
+}
+
+/**
+ * Ascii85 解码，<~ ~> 可省略，忽略空白
+ */
+export function ascii85Decode(text: string): Uint8Array {
+  let value = text.replace(/\s/g, '');
+  if (value.startsWith('<~')) value = value.slice(2);
+  if (value.endsWith('~>')) value = value.slice(0, -2);
+
+  const bytes: number[] = [];
+  let group: number[] = [];
+  for (const char of value) {
+    if (char === 'z' && group.length === 0) {
+      bytes.push(0, 0, 0, 0);
+      continue;
+    }
+    const digit = char.charCodeAt(0) - 33;
+    if (digit < 0 || digit >= 85) {
+      throw new Error(t('error.invalidAscii85'));
+    }
+    group.push(digit);
+    if (group.length === 5) {
+      const decoded = fromBase85Digits(group);
+      if (!decoded) throw new Error(t('error.invalidAscii85'));
+      bytes.push(...decoded);
+      group = [];
+    }
+  }
+
+  if (group.length === 1) {
+    throw new Error(t('error.invalidAscii85'));
+  }
+  if (group.length > 0) {
+    // 末尾分组用最大值 "u" 补齐，解码后截取 length - 1 字节
+    const length = group.length;
+    const decoded = fromBase85Digits([...group, ...new Array(5 - length).fill(84)]);
+    if (!decoded) throw new Error(t('error.invalidAscii85'));
+    bytes.push(...decoded.slice(0, length - 1));
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Z85 编码（ZeroMQ RFC 32），数据长度须为 4 的倍数
+ */
+export function z85Encode(bytes: Uint8Array): string {
+  if (bytes.length % 4 !== 0) {
+    throw new Error(t('error.invalidZ85Length'));
+  }
+  let output = '';
+  for (let i = 0; i < bytes.length; i += 4) {
+    output += toBase85Digits(bytes, i)
+      .map((digit) => Z85_ALPHABET[digit])
+      .join('');
+  }
+  return output;
+}
+
+/**
+ * Z85 解码，长度须为 5 的倍数
+ */
+export function z85Decode(text: string): Uint8Array {
+  const value = text.replace(/\s/g, '');
+  if (value.length % 5 !== 0) {
+    throw new Error(t('error.invalidZ85'));
+  }
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i += 5) {
+    const digits = Array.from(value.slice(i, i + 5), (char) => Z85_ALPHABET.indexOf(char));
+    const decoded = digits.includes(-1) ? null : fromBase85Digits(digits);
+    if (!decoded) throw new Error(t('error.invalidZ85'));
+    bytes.push(...decoded);
+  }
+  return new Uint8Array(bytes);
+}
+
+// ============================================================================
+// Quoted-Printable
+// ============================================================================
+
+/** 编码后每行的最大长度（不含换行） */
+const QP_LINE_LENGTH = 76;
+
+/**
+ * Quoted-Printable 编码（RFC 2045）
+ * 保留原有换行（CRLF 统一为 LF），超长行以 "=" 软换行
+ */
+export function quotedPrintableEncode(bytes: Uint8Array): string {
+  const lines: Uint8Array[] = [];
+  let start = 0;
+  for (let i = 0; i <= bytes.length; i++) {
+    if (i < bytes.length && bytes[i] !== 0x0a) continue;
+    const end = i < bytes.length && i > start && bytes[i - 1] === 0x0d ? i - 1 : i;
+    lines.push(bytes.subarray(start, end));
+    start = i + 1;
+  }
+
+  return lines
+    .map((line) => {
+      let output = '';
+      let current = '';
+      line.forEach((byte, index) => {
+        const isLast = index === line.length - 1;
+        // 行尾的空格和制表符必须编码，否则可能被传输过程去除
+        const literal =
+          (byte >= 33 && byte <= 126 && byte !== 61) || ((byte === 32 || byte === 9) && !isLast);
+        const token = literal
+          ? String.fromCharCode(byte)
+          : `=${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+        // 软换行本身占一个字符
+        if (current.length + token.length > (isLast ? QP_LINE_LENGTH : QP_LINE_LENGTH - 1)) {
+          output += `${current}=\n`;
+          current = '';
+        }
+        current += token;
+      });
+      return output + current;
+    })
+    .join('\n');
+}
+
+/**
+ * Quoted-Printable 解码，去除软换行后按 UTF-8 还原
+ */
+export function quotedPrintableDecode(text: string): Uint8Array {
+  const value = text.replace(/[ \t]+(?=\r?\n|$)/g, '').replace(/=\r?\n/g, '');
+  const encoder = new TextEncoder();
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '=') {
+      const hex = value.slice(i + 1, i + 3);
+      if (!/^[0-9A-Fa-f]{2}$/.test(hex)) {
+        throw new Error(t('error.invalidQuotedPrintable'));
+      }
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(...encoder.encode(char));
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+// ============================================================================
+// UUEncode
+// ============================================================================
+
+/** 每行编码的字节数 */
+const UU_LINE_BYTES = 45;
+
+function uuChar(value: number): string {
+  // 0 用 "`" 表示，避免行尾空格被截断
+  return value === 0 ? '`' : String.fromCharCode(value + 32);
+}
+
+/**
+ * UUEncode 编码，输出带 begin / end 行
+ * @param fileName - begin 行中的文件名
+ */
+export function uuencode(bytes: Uint8Array, fileName = 'data'): string {
+  const lines = [`begin 644 ${fileName}`];
+  for (let i = 0; i < bytes.length; i += UU_LINE_BYTES) {
+    const chunk = bytes.subarray(i, i + UU_LINE_BYTES);
+    let line = uuChar(chunk.length);
+    for (let j = 0; j < chunk.length; j += 3) {
+      const [a, b = 0, c = 0] = chunk.subarray(j, j + 3);
+      line +=
+        uuChar(a >> 2) +
+        uuChar(((a << 4) | (b >> 4)) & 63) +
+        uuChar(((b << 2) | (c >> 6)) & 63) +
+        uuChar(c & 63);
+    }
+    lines.push(line);
+  }
+  lines.push('`', 'end');
+  return lines.join('\n');
+}
+
+/**
+ * UUEncode 解码，begin / end 行可省略
+ */
+export function uudecode(text: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trimEnd();
+    if (!line || line.startsWith('begin ')) continue;
+    if (line === 'end') break;
+
+    const value = (char: string | undefined) => ((char ?? ' ').charCodeAt(0) - 32) & 63;
+    const length = value(line[0]);
+    if (length === 0) break;
+    if (line.length < 1 + Math.ceil(length / 3) * 4 || /[^\x20-\x60]/.test(line)) {
+      throw new Error(t('error.invalidUuencode'));
+    }
+
+    const lineBytes: number[] = [];
+    for (let i = 1; lineBytes.length < length; i += 4) {
+      const [a, b, c, d] = [line[i], line[i + 1], line[i + 2], line[i + 3]].map(value);
+      lineBytes.push(((a << 2) | (b >> 4)) & 0xff, ((b << 4) | (c >> 2)) & 0xff, ((c << 6) | d) & 0xff);
+    }
+    bytes.push(...lineBytes.slice(0, length));
+  }
+  return new Uint8Array(bytes);
+}
+
+// ============================================================================
+// Punycode / IDNA
+// ============================================================================
+
+const PUNYCODE = {
+  base: 36,
+  tMin: 1,
+  tMax: 26,
+  skew: 38,
+  damp: 700,
+  initialBias: 72,
+  initialN: 128,
+} as const;
+
+/**
+ * 偏移量自适应（RFC 3492 §6.1）
+ */
+function adaptBias(delta: number, numPoints: number, firstTime: boolean): number {
+  const { base, tMin, tMax, skew, damp } = PUNYCODE;
+  let value = firstTime ? Math.floor(delta / damp) : delta >> 1;
+  value += Math.floor(value / numPoints);
+  let k = 0;
+  while (value > ((base - tMin) * tMax) >> 1) {
+    value = Math.floor(value / (base - tMin));
+    k += base;
+  }
+  return k + Math.floor(((base - tMin + 1) * value) / (value + skew));
+}
+
+function threshold(k: number, bias: number): number {
+  const { tMin, tMax } = PUNYCODE;
+  return k <= bias ? tMin : k >= bias + tMax ? tMax : k - bias;
+}
+
+function encodeDigit(digit: number): string {
+  // 0-25 → a-z，26-35 → 0-9
+  return String.fromCharCode(digit < 26 ? 97 + digit : 22 + digit);
+}
+
+function decodeDigit(char: string): number {
+  const code = char.charCodeAt(0);
+  if (code >= 48 && code <= 57) return code - 22;
+  if (code >= 65 && code <= 90) return code - 65;
+  if (code >= 97 && code <= 122) return code - 97;
+  return PUNYCODE.base;
+}
+
+/**
+ * Punycode 编码（RFC 3492），不含 "xn--" 前缀
+ */
+export function punycodeEncode(input: string): string {
+  const { base, initialBias, initialN } = PUNYCODE;
+  const codePoints = Array.from(input, (char) => char.codePointAt(0)!);
+
+  let output = codePoints
+    .filter((codePoint) => codePoint < 0x80)
+    .map((codePoint) => String.fromCharCode(codePoint))
+    .join('');
+  const basicLength = output.length;
+  if (basicLength > 0) output += '-';
+
+  let n: number = initialN;
+  let delta = 0;
+  let bias: number = initialBias;
+  let handled = basicLength;
+
+  while (handled < codePoints.length) {
+    const m = Math.min(...codePoints.filter((codePoint) => codePoint >= n));
+    delta += (m - n) * (handled + 1);
+    n = m;
+
+    for (const codePoint of codePoints) {
+      if (codePoint < n) delta++;
+      if (codePoint !== n) continue;
+
+      let q = delta;
+      for (let k = base; ; k += base) {
+        const limit = threshold(k, bias);
+        if (q < limit) break;
+        output += encodeDigit(limit + ((q - limit) % (base - limit)));
+        q = Math.floor((q - limit) / (base - limit));
+      }
+      output += encodeDigit(q);
+      bias = adaptBias(delta, handled + 1, handled === basicLength);
+      delta = 0;
+      handled++;
+    }
+
+    delta++;
+    n++;
+  }
+
+  return output;
+}
+
+/**
+ * Punycode 解码（RFC 3492），输入不含 "xn--" 前缀
+ */
+export function punycodeDecode(input: string): string {
+  const { base, initialBias, initialN } = PUNYCODE;
+  // 最后一个 "-" 之前是基本码点；没有 "-" 时全部是编码部分
+  // 编码器只在有基本码点时才输出 "-"，开头的 "-" 视为无效输入（与 RFC 3492 参考实现一致）
+  const delimiter = input.lastIndexOf('-');
+  if (delimiter === 0) {
+    throw new Error(t('error.invalidPunycode'));
+  }
+  const basicLength = Math.max(delimiter, 0);
+
+  const output: number[] = [];
+  for (let i = 0; i < basicLength; i++) {
+    if (input.charCodeAt(i) >= 0x80) {
+      throw new Error(t('error.invalidPunycode'));
+    }
+    output.push(input.charCodeAt(i));
+  }
+
+  let n: number = initialN;
+  let bias: number = initialBias;
+  let i = 0;
+  for (let index = delimiter === -1 ? 0 : delimiter + 1; index < input.length; ) {
+    const oldI = i;
+    let w = 1;
+    for (let k = base; ; k += base) {
+      if (index >= input.length) {
+        throw new Error(t('error.invalidPunycode'));
+      }
+      const digit = decodeDigit(input[index++]);
+      if (digit >= base) {
+        throw new Error(t('error.invalidPunycode'));
+      }
+      i += digit * w;
+      const limit = threshold(k, bias);
+      if (digit < limit) break;
+      w *= base - limit;
+    }
+
+    bias = adaptBias(i - oldI, output.length + 1, oldI === 0);
+    n += Math.floor(i / (output.length + 1));
+    i %= output.length + 1;
+    if (n > 0x10ffff) {
+      throw new Error(t('error.invalidPunycode'));
+    }
+    output.splice(i, 0, n);
+    i++;
+  }
+
+  return String.fromCodePoint(...output);
+}
+
+/** 域名分隔符，包括全角和中文句号 */
+const DOMAIN_SEPARATORS = /[.。．｡]/;
+
+/**
+ * 国际化域名转为 ASCII（xn-- 形式）
+ * 仅做小写和 NFC 规范化，不包含 UTS #46 的完整映射表
+ */
+export function domainToAscii(domain: string): string {
+  return domain
+    .trim()
+    .split(DOMAIN_SEPARATORS)
+    .map((label) => {
+      const normalized = label.normalize('NFC').toLowerCase();
+      return /[\u0080-\uffff]/.test(normalized) ? `xn--${punycodeEncode(normalized)}` : normalized;
+    })
+    .join('.');
+}
+
+/**
+ * xn-- 形式的域名还原为 Unicode
+ */
+export function domainToUnicode(domain: string): string {
+  return domain
+    .trim()
+    .split('.')
+    .map((label) => (/^xn--/i.test(label) ? punycodeDecode(label.slice(4).toLowerCase()) : label))
+    .join('.');
+}
+
+// ============================================================================
+// Unicode 转义
+// ============================================================================
+
+/**
+ * Unicode 转义格式
+ * - js: \uXXXX（UTF-16 代码单元，解码也接受 \u{XXXXX}）
+ * - html: &#xXXXX;（码点，解码也接受十进制 &#NNNN;）
+ * - percent: %uXXXX（JavaScript escape() 的格式）
+ */
+export type UnicodeEscapeFormat = 'js' | 'html' | 'percent';
+
+function hex4(code: number): string {
+  return code.toString(16).toUpperCase().padStart(4, '0');
+}
+
+/**
+ * 将非 ASCII 字符转义，ASCII 字符保持不变
+ */
+export function escapeUnicode(text: string, format: UnicodeEscapeFormat): string {
+  if (format === 'html') {
+    return Array.from(text, (char) => {
+      const codePoint = char.codePointAt(0)!;
+      return codePoint < 0x80 ? char : `&#x${codePoint.toString(16).toUpperCase()};`;
+    }).join('');
+  }
+
+  const prefix = format === 'js' ? '\\u' : '%u';
+  return text.replace(/[\u0080-\uffff]/g, (char) => prefix + hex4(char.charCodeAt(0)));
+}
+
+/**
+ * 还原转义的 Unicode 字符，其他内容保持不变
+ */
+export function unescapeUnicode(text: string, format: UnicodeEscapeFormat): string {
+  const fromCodePoint = (match: string, codePoint: number): string =>
+    codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match;
+
+  switch (format) {
+    case 'js':
+      return text.replace(/\\u\{([0-9a-fA-F]{1,6})\}|\\u([0-9a-fA-F]{4})/g, (match, braced, unit) =>
+        braced ? fromCodePoint(match, parseInt(braced, 16)) : String.fromCharCode(parseInt(unit, 16))
+      );
+    case 'html':
+      return text.replace(/&#[xX]([0-9a-fA-F]{1,6});|&#(\d{1,7});/g, (match, hex, decimal) =>
+        fromCodePoint(match, hex ? parseInt(hex, 16) : parseInt(decimal, 10))
+      );
+    case 'percent':
+      return text.replace(/%u([0-9a-fA-F]{4})/g, (_match, unit) =>
+        String.fromCharCode(parseInt(unit, 16))
+      );
+  }
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it, vi } from 'vitest';
+import { checkEntry, formatFileSize, hashBlob, parseChecksumFile } from './file-hash';
+
+describe('hashBlob', () => {
+  it('计算多个算法的摘要', async () => {
+    expect(await hashBlob(new Blob(['abc']), ['md5', 'sha1', 'sha256', 'crc32'])).toEqual({
+      md5: '900150983cd24fb0d6963f7d28e17f72',
+      sha1: 'a9993e364706816aba3e25717850c26c9cd0d89d',
+      sha256: 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+      crc32: '352441c2',
+    });
+  });
+
+  it('分块结果与整体计算一致并报告进度', async () => {
+    const onProgress = vi.fn();
+    const blob = new Blob(['123456789']);
+    expect(await hashBlob(blob, ['crc32', 'md5'], onProgress, 4)).toEqual({
+      crc32: 'cbf43926',
+      md5: '25f9e794323b453885f5181f1b624d0b',
+    });
+    expect(onProgress.mock.calls.map(([loaded]) => loaded)).toEqual([4, 8, 9]);
+  });
+
+  it('空文件', async () => {
+    expect(await hashBlob(new Blob([]), ['sha256'])).toEqual({
+      sha256: 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855',
+    });
+  });
+});
+
+describe('parseChecksumFile', () => {
+  it('解析 GNU 格式并按长度推断算法', () => {
+    const text = [
+      '# 注释',
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad  ubuntu.iso',
+      '900150983CD24FB0D6963F7D28E17F72 *./dist/app.bin',
+      '',
+      'not a checksum line',
+      'abcd  too-short-for-any-algorithm',
+    ].join('\r\n');
+
+    expect(parseChecksumFile(text)).toEqual([
+      {
+        fileName: 'ubuntu.iso',
+        digest: 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+        algorithm: 'sha256',
+      },
+      { fileName: './dist/app.bin', digest: '900150983cd24fb0d6963f7d28e17f72', algorithm: 'md5' },
+    ]);
+  });
+
+  it('解析 BSD 格式', () => {
+    expect(
+      parseChecksumFile('SHA1 (my file.txt) = a9993e364706816aba3e25717850c26c9cd0d89d')
+    ).toEqual([
+      { fileName: 'my file.txt', digest: 'a9993e364706816aba3e25717850c26c9cd0d89d', algorithm: 'sha1' },
+    ]);
+  });
+});
+
+describe('checkEntry', () => {
+  const files = new Map([['app.bin', { md5: '900150983cd24fb0d6963f7d28e17f72' }]]);
+
+  it('按文件名（忽略目录）比对', () => {
+    expect(
+      checkEntry(
+        { fileName: './dist/app.bin', digest: '900150983cd24fb0d6963f7d28e17f72', algorithm: 'md5' },
+        files
+      )
+    ).toBe('match');
+    expect(
+      checkEntry({ fileName: 'app.bin', digest: '0'.repeat(32), algorithm: 'md5' }, files)
+    ).toBe('mismatch');
+  });
+
+  it('缺少文件或对应算法的摘要', () => {
+    expect(checkEntry({ fileName: 'other.bin', digest: '0'.repeat(32), algorithm: 'md5' }, files)).toBe(
+      'missing'
+    );
+    expect(checkEntry({ fileName: 'app.bin', digest: '0'.repeat(8), algorithm: 'crc32' }, files)).toBe(
+      'missing'
+    );
+  });
+});
+
+describe('formatFileSize', () => {
+  it.each([
+    [0, '0 B'],
+    [1536, '1.5 KB'],
+    [4.7 * 1024 ** 3, '4.7 GB'],
+  ])('%d → %s', (bytes, expected) => {
+    expect(formatFileSize(bytes)).toBe(expected);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * 文件哈希
+ * 按块读取文件并增量计算摘要，大文件（如数 GB 的 ISO）无需整体载入内存；
+ * 同时解析 SHA256SUMS 等校验文件并逐项比对
+ */
+
+import { sha256 } from '@noble/hashes/sha2.js';
+import { md5, sha1 } from '@noble/hashes/legacy.js';
+import { createCrc32 } from './checksums';
+import type {
+  ChecksumEntry,
+  ChecksumStatus,
+  FileDigests,
+  FileHashAlgorithm,
+} from './types';
+
+/**
+ * 支持的算法及摘要长度（十六进制字符数）
+ */
+export const fileHashAlgorithms: { id: FileHashAlgorithm; name: string; length: number }[] = [
+  { id: 'md5', name: 'MD5', length: 32 },
+  { id: 'sha1', name: 'SHA-1', length: 40 },
+  { id: 'sha256', name: 'SHA-256', length: 64 },
+  { id: 'crc32', name: 'CRC32', length: 8 },
+];
+
+/** 每次读取的块大小 */
+export const CHUNK_SIZE = 4 * 1024 * 1024;
+
+interface IncrementalHasher {
+  update(data: Uint8Array): void;
+  digest(): Uint8Array;
+}
+
+function createHasher(algorithm: FileHashAlgorithm): IncrementalHasher {
+  switch (algorithm) {
+    case 'md5':
+      return md5.create();
+    case 'sha1':
+      return sha1.create();
+    case 'sha256':
+      return sha256.create();
+    case 'crc32':
+      return createCrc32();
+  }
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * 分块计算文件摘要
+ * @param blob - 文件或 Blob
+ * @param algorithms - 需要计算的算法
+ * @param onProgress - 每处理完一块回调已处理的字节数
+ * @param chunkSize - 块大小
+ */
+export async function hashBlob(
+  blob: Blob,
+  algorithms: FileHashAlgorithm[],
+  onProgress?: (loaded: number) => void,
+  chunkSize = CHUNK_SIZE
+): Promise<FileDigests> {
+  const hashers = algorithms.map((algorithm) => [algorithm, createHasher(algorithm)] as const);
+
+  for (let offset = 0; offset < blob.size; offset += chunkSize) {
+    const chunk = new Uint8Array(await blob.slice(offset, offset + chunkSize).arrayBuffer());
+    for (const [, hasher] of hashers) {
+      hasher.update(chunk);
+    }
+    onProgress?.(Math.min(offset + chunkSize, blob.size));
+  }
+
+  const digests: FileDigests = {};
+  for (const [algorithm, hasher] of hashers) {
+    digests[algorithm] = toHex(hasher.digest());
+  }
+  return digests;
+}
+
+/** BSD 风格标签（如 shasum --tag 输出）与算法的对应关系 */
+const BSD_TAGS: Record<string, FileHashAlgorithm> = {
+  MD5: 'md5',
+  SHA1: 'sha1',
+  SHA256: 'sha256',
+  CRC32: 'crc32',
+};
+
+/**
+ * 按摘要长度推断算法
+ */
+function algorithmByLength(digest: string): FileHashAlgorithm | undefined {
+  return fileHashAlgorithms.find((algorithm) => algorithm.length === digest.length)?.id;
+}
+
+/**
+ * 解析校验文件
+ * 支持 GNU coreutils 格式（"<摘要>  <文件名>"，二进制模式为 "<摘要> *<文件名>"）
+ * 和 BSD 格式（"SHA256 (<文件名>) = <摘要>"），无法识别的行会被忽略
+ */
+export function parseChecksumFile(text: string): ChecksumEntry[] {
+  const entries: ChecksumEntry[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const bsd = line.match(/^([A-Z0-9-]+) \((.+)\) = ([0-9a-fA-F]+)$/);
+    if (bsd) {
+      const algorithm = BSD_TAGS[bsd[1].replace('-', '')];
+      if (algorithm) {
+        entries.push({ fileName: bsd[2], digest: bsd[3].toLowerCase(), algorithm });
+      }
+      continue;
+    }
+
+    const gnu = line.match(/^([0-9a-fA-F]+) [ *](.+)$/);
+    if (gnu) {
+      const algorithm = algorithmByLength(gnu[1]);
+      if (algorithm) {
+        entries.push({ fileName: gnu[2], digest: gnu[1].toLowerCase(), algorithm });
+      }
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * 取路径中的文件名部分，校验文件常带 "./" 或子目录前缀
+ */
+export function baseName(path: string): string {
+  return path.split(/[\\/]/).pop() ?? path;
+}
+
+/**
+ * 将校验记录与已计算的文件摘要比对
+ * @param entry - 校验记录
+ * @param files - 文件名 → 摘要
+ */
+export function checkEntry(
+  entry: ChecksumEntry,
+  files: Map<string, FileDigests>
+): ChecksumStatus {
+  const digests = files.get(entry.fileName) ?? files.get(baseName(entry.fileName));
+  const actual = digests?.[entry.algorithm];
+  if (!actual) return 'missing';
+  return actual === entry.digest ? 'match' : 'mismatch';
+}
+
+/**
+ * 格式化文件大小
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1);
+  return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`;
+}
@@ -0,0 +1,29 @@
+/**
+ * 文件哈希 Worker
+ * 在后台线程中逐个处理文件，避免大文件计算阻塞界面
+ */
+
+import { hashBlob } from './file-hash';
+import type { FileHashRequest, FileHashResponse } from './types';
+
+function post(message: FileHashResponse): void {
+  self.postMessage(message);
+}
+
+// 任务按接收顺序串行执行，多个文件同时读取只会互相争抢 I/O
+let queue = Promise.resolve();
+
+self.onmessage = (event: MessageEvent<FileHashRequest>) => {
+  const { id, file, algorithms } = event.data;
+
+  queue = queue.then(async () => {
+    try {
+      const digests = await hashBlob(file, algorithms, (loaded) =>
+        post({ type: 'progress', id, loaded })
+      );
+      post({ type: 'done', id, digests });
+    } catch (error) {
+      post({ type: 'error', id, error: error instanceof Error ? error.message : '' });
+    }
+  });
+};
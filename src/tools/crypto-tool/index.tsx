@@ -1,5 +1,15 @@
-import type { AlgorithmCategory, OperationDirection } from './types';
-import { useState, useCallback, useEffect } from 'react';
+import type {
+  AesParams,
+  AlgorithmCategory,
+  CryptoData,
+  CryptoShareState,
+  InputFile,
+  InputFormat,
+  KeyFormat,
+  OperationDirection,
+  OutputView,
+} from './types';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import {
   Copy,
   Check,
@@ -11,12 +21,21 @@ import {
   Eye,
   EyeOff,
   Info,
+  KeyRound,
+  FileUp,
+  Type,
+  ShieldCheck,
+  ShieldX,
+  FileKey,
+  Download,
+  Wand2,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { cn } from '@/lib/utils';
+import { useToolState } from '@/hooks/useToolState';
 import { toast } from 'sonner';
 import {
   algorithms,
@@ -24,17 +43,64 @@ import {
   getAlgorithmsByCategory,
   processEncode,
   processDecode,
+  processVerify,
 } from './utils';
+import { AES_DEFAULTS } from './aes';
+import {
+  bytesToBase64,
+  bytesToHex,
+  downloadBytes,
+  isPrintableText,
+  parseInputBytes,
+  renderBytes,
+} from './bytes';
+import { formatFileSize } from './file-hash';
+import { AesOptions } from './components/AesOptions';
+import { FileHashPanel } from './components/FileHashPanel';
+import { FileInput } from './components/FileInput';
+import { KeyPairPanel } from './components/KeyPairPanel';
+import { MagicPanel } from './components/MagicPanel';
 
 /**
  * 分类图标映射
  */
 const categoryIcons: Record<AlgorithmCategory, React.ComponentType<{ className?: string }>> = {
   hash: Hash,
+  mac: KeyRound,
   encoding: FileCode,
   cipher: Lock,
+  asymmetric: FileKey,
 };
 
+/**
+ * 密钥格式选项
+ */
+const keyFormatOptions: { value: KeyFormat; label: string }[] = [
+  { value: 'text', label: '文本' },
+  { value: 'hex', label: 'Hex' },
+  { value: 'base64', label: 'Base64' },
+];
+
+/**
+ * 输入格式选项
+ */
+const inputFormatOptions: { value: InputFormat; label: string }[] = [
+  { value: 'text', label: '文本' },
+  { value: 'hex', label: 'Hex' },
+  { value: 'base64', label: 'Base64' },
+  { value: 'file', label: '文件' },
+];
+
+/**
+ * 字节输出的展示选项
+ */
+const outputViewOptions: { value: OutputView; label: string }[] = [
+  { value: 'text', label: '文本' },
+  { value: 'hex', label: 'Hex' },
+  { value: 'hexdump', label: '转储' },
+  { value: 'base64', label: 'Base64' },
+];
+
 /**
  * 自定义滚动条样式类
  */
@@ -51,26 +117,98 @@ const scrollbarStyles = cn(
  */
 export const CryptoTool = () => {
   // 状态管理
-  const [selectedAlgorithm, setSelectedAlgorithm] = useState('base64');
-  const [direction, setDirection] = useState<OperationDirection>('encode');
-  const [input, setInput] = useState('');
+  const { initialState, reportState, recordHistory } = useToolState<CryptoShareState>();
+  // 分享链接中的算法可能已不存在，此时回退到默认算法
+  const initialAlgorithm =
+    initialState && algorithms[initialState.algorithm] ? initialState : undefined;
+  const [selectedAlgorithm, setSelectedAlgorithm] = useState(initialAlgorithm?.algorithm ?? 'base64');
+  const [direction, setDirection] = useState<OperationDirection>(initialAlgorithm?.direction ?? 'encode');
+  const [input, setInput] = useState(initialState?.input ?? '');
+  const [inputFormat, setInputFormat] = useState<InputFormat>(initialState?.inputFormat ?? 'text');
+  const [file, setFile] = useState<InputFile | null>(null);
   const [output, setOutput] = useState('');
+  // 解码 / 解密得到的原始字节，按 outputView 渲染；auto 时文本直接显示，二进制显示转储
+  const [outputBytes, setOutputBytes] = useState<Uint8Array | null>(null);
+  const [outputView, setOutputView] = useState<OutputView | 'auto'>('auto');
   const [key, setKey] = useState('');
+  const [keyFormat, setKeyFormat] = useState<KeyFormat>(initialState?.keyFormat ?? 'text');
+  const [signature, setSignature] = useState('');
+  const [verified, setVerified] = useState<boolean | null>(null);
+  const [aesParams, setAesParams] = useState<AesParams>({
+    ...AES_DEFAULTS,
+    ...initialState?.aes,
+  });
+  const [iv, setIv] = useState('');
+  const [publicKey, setPublicKey] = useState('');
+  const [privateKey, setPrivateKey] = useState('');
   const [showKey, setShowKey] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
-  const [outputFormat, setOutputFormat] = useState<'hex' | 'base64'>('hex');
+  const [outputFormat, setOutputFormat] = useState<'hex' | 'base64'>(initialState?.outputFormat ?? 'hex');
   const [autoProcess, setAutoProcess] = useState(true);
+  const [inputMode, setInputMode] = useState<'text' | 'file' | 'magic'>('text');
+  // 每次处理的序号，只有最新一次的结果会写入状态
+  const processIdRef = useRef(0);
+
+  // 上报可分享的状态（密钥不参与分享）
+  useEffect(() => {
+    reportState({
+      algorithm: selectedAlgorithm,
+      direction,
+      input,
+      ...((inputFormat === 'hex' || inputFormat === 'base64') && { inputFormat }),
+      outputFormat,
+      keyFormat,
+      ...(selectedAlgorithm === 'aes' && { aes: aesParams }),
+    });
+  }, [
+    selectedAlgorithm,
+    direction,
+    input,
+    inputFormat,
+    outputFormat,
+    keyFormat,
+    aesParams,
+    reportState,
+  ]);
 
   // 获取当前算法信息
   const currentAlgorithm = algorithms[selectedAlgorithm];
+  const hasDigestOutput =
+    currentAlgorithm.category === 'hash' || currentAlgorithm.category === 'mac';
+  const isAes = currentAlgorithm.id === 'aes';
+  const isAsymmetric = currentAlgorithm.category === 'asymmetric';
+  // 口令模式下 scrypt / Argon2id 每次派生需要数秒，不随输入实时处理
+  const usesCostlyKdf = isAes && keyFormat === 'text' && aesParams.kdf !== 'pbkdf2';
+  const canAutoProcess = autoProcess && !usesCostlyKdf;
+  // 解码方向的输入是编码文本，X25519 的输入是公钥，二者都只接受文本
+  const effectiveInputFormat: InputFormat =
+    direction === 'decode' || currentAlgorithm.id === 'x25519' ? 'text' : inputFormat;
+  const outputIsText = useMemo(
+    () => (outputBytes ? isPrintableText(outputBytes) : true),
+    [outputBytes]
+  );
+  const resolvedOutputView: OutputView =
+    outputView !== 'auto' ? outputView : outputIsText ? 'text' : 'hexdump';
+  const displayedOutput = useMemo(
+    () => (outputBytes ? renderBytes(outputBytes, resolvedOutputView) : output),
+    [output, outputBytes, resolvedOutputView]
+  );
 
   // 处理函数
   const handleProcess = useCallback(async (): Promise<void> => {
-    if (!input.trim()) {
+    // 新的处理开始后，之前尚未完成的处理结果作废
+    const processId = ++processIdRef.current;
+    const isStale = () => processId !== processIdRef.current;
+
+    const hasInput = effectiveInputFormat === 'file' ? file !== null : input.trim() !== '';
+    if (!hasInput || (direction === 'verify' && !signature.trim())) {
       setOutput('');
+      setOutputBytes(null);
       setError(null);
+      setVerified(null);
+      setIsProcessing(false);
       return;
     }
 
@@ -80,46 +218,123 @@ export const CryptoTool = () => {
     try {
       const options = {
         key: key || undefined,
+        keyFormat,
         outputFormat,
+        iv: iv || undefined,
+        aes: aesParams,
+        publicKey: publicKey || undefined,
+        privateKey: privateKey || undefined,
       };
 
+      // 文本原样传入，其他格式先解析为字节
+      const data: CryptoData =
+        effectiveInputFormat === 'file'
+          ? file!.bytes
+          : effectiveInputFormat === 'text'
+            ? input
+            : parseInputBytes(input, effectiveInputFormat);
+
       const result =
-        direction === 'encode'
-          ? await processEncode(selectedAlgorithm, input, options)
-          : await processDecode(selectedAlgorithm, input, options);
+        direction === 'verify'
+          ? await processVerify(selectedAlgorithm, data, signature, options)
+          : direction === 'encode'
+            ? await processEncode(selectedAlgorithm, data, options)
+            : await processDecode(selectedAlgorithm, input, options);
+      if (isStale()) return;
 
       if (result.success) {
+        const match = 'match' in result && typeof result.match === 'boolean' ? result.match : null;
         setOutput(result.output);
+        setOutputBytes(result.bytes ?? null);
+        setVerified(match);
         setError(null);
+        const category = algorithms[selectedAlgorithm].category;
+        recordHistory({
+          input: effectiveInputFormat === 'file' ? `[文件] ${file!.name}` : input,
+          // 二进制结果以 Base64 记录，避免乱码
+          output:
+            result.bytes && !isPrintableText(result.bytes)
+              ? bytesToBase64(result.bytes)
+              : result.output,
+          options: {
+            algorithm: algorithms[selectedAlgorithm].name,
+            direction: { encode: '编码', decode: '解码', verify: '验证' }[direction],
+            ...(effectiveInputFormat !== 'text' && { inputFormat: effectiveInputFormat }),
+            ...((category === 'hash' || category === 'mac') && { outputFormat }),
+            ...(selectedAlgorithm === 'aes' && {
+              mode: `AES-${aesParams.keySize}-${aesParams.mode}`,
+            }),
+            ...(match !== null && { match: match ? '匹配' : '不匹配' }),
+          },
+        });
       } else {
         setOutput('');
+        setOutputBytes(null);
+        setVerified(null);
         setError(result.error || '处理失败');
       }
     } catch (err) {
+      if (isStale()) return;
       setOutput('');
+      setOutputBytes(null);
+      setVerified(null);
       setError(err instanceof Error ? err.message : '处理失败');
     } finally {
-      setIsProcessing(false);
+      if (!isStale()) setIsProcessing(false);
     }
-  }, [input, selectedAlgorithm, direction, key, outputFormat]);
+  }, [
+    input,
+    effectiveInputFormat,
+    file,
+    selectedAlgorithm,
+    direction,
+    key,
+    keyFormat,
+    signature,
+    outputFormat,
+    iv,
+    aesParams,
+    publicKey,
+    privateKey,
+    recordHistory,
+  ]);
 
   // 自动处理（输入变化时）
   useEffect(() => {
-    if (autoProcess) {
+    if (canAutoProcess) {
       const timer = setTimeout(() => {
         handleProcess();
       }, 300);
       return () => clearTimeout(timer);
     }
-  }, [input, selectedAlgorithm, direction, key, outputFormat, autoProcess, handleProcess]);
+  }, [
+    input,
+    effectiveInputFormat,
+    file,
+    selectedAlgorithm,
+    direction,
+    key,
+    keyFormat,
+    signature,
+    outputFormat,
+    iv,
+    aesParams,
+    publicKey,
+    privateKey,
+    canAutoProcess,
+    handleProcess,
+  ]);
 
   // 切换算法时重置状态
   const handleAlgorithmChange = (algorithmId: string): void => {
     setSelectedAlgorithm(algorithmId);
     const algo = algorithms[algorithmId];
 
-    // 如果新算法不支持解码，切换到编码模式
-    if (!algo.supportsDecode && direction === 'decode') {
+    // 如果新算法不支持解码或校验，切换到编码模式
+    if (
+      (!algo.supportsDecode && direction === 'decode') ||
+      (!algo.verify && direction === 'verify')
+    ) {
       setDirection('encode');
     }
 
@@ -128,7 +343,16 @@ export const CryptoTool = () => {
       setKey('');
     }
 
+    // 不同非对称算法的密钥不通用
+    if (algorithmId !== selectedAlgorithm) {
+      setPublicKey('');
+      setPrivateKey('');
+    }
+
     setOutput('');
+    setOutputBytes(null);
+    setOutputView('auto');
+    setVerified(null);
     setError(null);
   };
 
@@ -139,25 +363,44 @@ export const CryptoTool = () => {
       return;
     }
     const temp = input;
-    setInput(output);
+    if (outputBytes && !outputIsText) {
+      // 二进制结果以十六进制作为下一步的输入
+      setInput(bytesToHex(outputBytes));
+      setInputFormat('hex');
+    } else {
+      setInput(output);
+      if (direction === 'decode') setInputFormat('text');
+    }
     setOutput(temp);
+    setOutputBytes(null);
     setDirection((prev) => (prev === 'encode' ? 'decode' : 'encode'));
   };
 
   // 清空
   const handleClear = (): void => {
+    // 丢弃尚未完成的处理结果
+    processIdRef.current++;
+    setIsProcessing(false);
     setInput('');
+    setFile(null);
     setOutput('');
+    setOutputBytes(null);
+    setOutputView('auto');
     setError(null);
+    setVerified(null);
     setKey('');
+    setSignature('');
+    setIv('');
+    setPublicKey('');
+    setPrivateKey('');
   };
 
   // 复制结果
   const handleCopy = async (): Promise<void> => {
-    if (!output) return;
+    if (!displayedOutput) return;
 
     try {
-      await navigator.clipboard.writeText(output);
+      await navigator.clipboard.writeText(displayedOutput);
       setCopied(true);
       toast.success('已复制到剪贴板');
       setTimeout(() => setCopied(false), 2000);
@@ -169,310 +412,553 @@ export const CryptoTool = () => {
   return (
     <div className="flex h-full flex-col">
       {/* 头部 - 固定 */}
-      <div className="shrink-0 border-b p-4">
-        <h1 className="text-xl font-semibold">加密解密工具</h1>
-        <p className="mt-1 text-sm text-muted-foreground">
-          支持多种哈希、编码和加密算法
-        </p>
+      <div className="flex shrink-0 items-start justify-between gap-3 border-b p-4">
+        <div>
+          <h1 className="text-xl font-semibold">加密解密工具</h1>
+          <p className="mt-1 text-sm text-muted-foreground">
+            支持多种哈希、编码和加密算法
+          </p>
+        </div>
+        {/* 文本 / 文件哈希 / 自动识别模式切换 */}
+        <div className="flex shrink-0 rounded-md border bg-muted p-0.5">
+          {(
+            [
+              { value: 'text', label: '文本', icon: Type },
+              { value: 'file', label: '文件哈希', icon: FileUp },
+              { value: 'magic', label: '自动识别', icon: Wand2 },
+            ] as const
+          ).map(({ value, label, icon: Icon }) => (
+            <button
+              key={value}
+              onClick={() => setInputMode(value)}
+              className={cn(
+                'flex items-center gap-1 rounded px-2.5 py-1 text-xs font-medium transition-colors',
+                inputMode === value
+                  ? 'bg-background text-foreground shadow-sm'
+                  : 'text-muted-foreground hover:text-foreground'
+              )}
+            >
+              <Icon className="h-3.5 w-3.5" />
+              {label}
+            </button>
+          ))}
+        </div>
       </div>
 
-      {/* 主内容区 - 自适应填充 */}
-      <div className="flex min-h-0 flex-1 flex-col gap-1 overflow-auto p-4 lg:flex-row lg:overflow-hidden">
-        {/* 左侧：算法选择器 */}
-        <div
-          className={cn(
-            'shrink-0 space-y-3 lg:w-64 lg:overflow-y-auto lg:pr-2',
-            scrollbarStyles
-          )}
-        >
-          {/* 算法分类 - 移动端横向滚动，桌面端垂直 */}
-          {algorithmCategories.map((category) => {
-            const CategoryIcon = categoryIcons[category.id];
-            const categoryAlgorithms = getAlgorithmsByCategory(category.id);
-
-            return (
-              <div key={category.id} className="space-y-1.5">
-                <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
-                  <CategoryIcon className="h-3.5 w-3.5" />
-                  <span>{category.name}</span>
-                </div>
-                {/* 移动端横向滚动，桌面端网格 */}
-                <div className="flex gap-1.5 overflow-x-auto pb-1 lg:grid lg:grid-cols-1 lg:overflow-x-visible lg:pb-0">
-                  {categoryAlgorithms.map((algo) => (
+      {inputMode === 'file' ? (
+        <div className={cn('min-h-0 flex-1 overflow-y-auto p-4', scrollbarStyles)}>
+          <FileHashPanel />
+        </div>
+      ) : inputMode === 'magic' ? (
+        <div className={cn('min-h-0 flex-1 overflow-y-auto p-4', scrollbarStyles)}>
+          <MagicPanel />
+        </div>
+      ) : (
+        <>
+          {/* 主内容区 - 自适应填充 */}
+          <div className="flex min-h-0 flex-1 flex-col gap-1 overflow-auto p-4 lg:flex-row lg:overflow-hidden">
+            {/* 左侧：算法选择器 */}
+            <div
+              className={cn(
+                'shrink-0 space-y-3 lg:w-64 lg:overflow-y-auto lg:pr-2',
+                scrollbarStyles
+              )}
+            >
+              {/* 算法分类 - 移动端横向滚动，桌面端垂直 */}
+              {algorithmCategories.map((category) => {
+                const CategoryIcon = categoryIcons[category.id];
+                const categoryAlgorithms = getAlgorithmsByCategory(category.id);
+
+                return (
+                  <div key={category.id} className="space-y-1.5">
+                    <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+                      <CategoryIcon className="h-3.5 w-3.5" />
+                      <span>{category.name}</span>
+                    </div>
+                    {/* 移动端横向滚动，桌面端网格 */}
+                    <div className="flex gap-1.5 overflow-x-auto pb-1 lg:grid lg:grid-cols-1 lg:overflow-x-visible lg:pb-0">
+                      {categoryAlgorithms.map((algo) => (
+                        <button
+                          key={algo.id}
+                          onClick={() => handleAlgorithmChange(algo.id)}
+                          className={cn(
+                            'shrink-0 rounded-md border px-2.5 py-2 text-left transition-all hover:bg-accent lg:w-full',
+                            selectedAlgorithm === algo.id
+                              ? 'border-primary bg-primary/5'
+                              : 'border-border'
+                          )}
+                        >
+                          <span className="whitespace-nowrap text-sm font-medium">{algo.name}</span>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+
+              {/* 输出格式选择（哈希、消息认证、加密和签名） */}
+              {(hasDigestOutput || ((isAes || isAsymmetric) && direction === 'encode')) && (
+                <div className="space-y-1.5">
+                  <Label className="text-xs text-muted-foreground">输出格式</Label>
+                  <div className="flex rounded-md border bg-muted p-0.5">
+                    <button
+                      onClick={() => setOutputFormat('hex')}
+                      className={cn(
+                        'flex-1 rounded px-2 py-1 text-xs font-medium transition-colors',
+                        outputFormat === 'hex'
+                          ? 'bg-background text-foreground shadow-sm'
+                          : 'text-muted-foreground hover:text-foreground'
+                      )}
+                    >
+                      Hex
+                    </button>
                     <button
-                      key={algo.id}
-                      onClick={() => handleAlgorithmChange(algo.id)}
+                      onClick={() => setOutputFormat('base64')}
                       className={cn(
-                        'shrink-0 rounded-md border px-2.5 py-2 text-left transition-all hover:bg-accent lg:w-full',
-                        selectedAlgorithm === algo.id
-                          ? 'border-primary bg-primary/5'
-                          : 'border-border'
+                        'flex-1 rounded px-2 py-1 text-xs font-medium transition-colors',
+                        outputFormat === 'base64'
+                          ? 'bg-background text-foreground shadow-sm'
+                          : 'text-muted-foreground hover:text-foreground'
                       )}
                     >
-                      <span className="whitespace-nowrap text-sm font-medium">{algo.name}</span>
+                      Base64
                     </button>
-                  ))}
+                  </div>
                 </div>
+              )}
+
+              {/* 自动处理开关 */}
+              <div className="flex items-center justify-between rounded-md border px-2.5 py-2">
+                <Label htmlFor="auto-process" className="text-xs cursor-pointer">
+                  实时处理
+                </Label>
+                <Switch
+                  id="auto-process"
+                  checked={autoProcess}
+                  onCheckedChange={setAutoProcess}
+                />
               </div>
-            );
-          })}
-
-          {/* 输出格式选择（仅哈希算法） */}
-          {currentAlgorithm.category === 'hash' && (
-            <div className="space-y-1.5">
-              <Label className="text-xs text-muted-foreground">输出格式</Label>
-              <div className="flex rounded-md border bg-muted p-0.5">
-                <button
-                  onClick={() => setOutputFormat('hex')}
-                  className={cn(
-                    'flex-1 rounded px-2 py-1 text-xs font-medium transition-colors',
-                    outputFormat === 'hex'
-                      ? 'bg-background text-foreground shadow-sm'
-                      : 'text-muted-foreground hover:text-foreground'
-                  )}
-                >
-                  Hex
-                </button>
-                <button
-                  onClick={() => setOutputFormat('base64')}
-                  className={cn(
-                    'flex-1 rounded px-2 py-1 text-xs font-medium transition-colors',
-                    outputFormat === 'base64'
-                      ? 'bg-background text-foreground shadow-sm'
-                      : 'text-muted-foreground hover:text-foreground'
-                  )}
-                >
-                  Base64
-                </button>
-              </div>
+              {autoProcess && usesCostlyKdf && (
+                <p className="text-xs text-muted-foreground">
+                  scrypt / Argon2id 派生较慢，需点击"处理"手动执行
+                </p>
+              )}
             </div>
-          )}
-
-          {/* 自动处理开关 */}
-          <div className="flex items-center justify-between rounded-md border px-2.5 py-2">
-            <Label htmlFor="auto-process" className="text-xs cursor-pointer">
-              实时处理
-            </Label>
-            <Switch
-              id="auto-process"
-              checked={autoProcess}
-              onCheckedChange={setAutoProcess}
-            />
-          </div>
-        </div>
 
-        {/* 右侧：输入输出区域 */}
-        <div
-          className={cn(
-            'flex   min-h-0 flex-1 flex-col gap-3 lg:overflow-y-auto',
-            scrollbarStyles
-          )}
-        >
-          {/* 方向控制栏 */}
-          <div className="flex shrink-0 flex-wrap items-center gap-3 rounded-md border bg-muted/30 p-2.5">
-            <div className="flex items-center gap-2">
-              <span className="text-xs text-muted-foreground">模式:</span>
-              <div className="flex rounded-md border bg-background p-0.5">
-                <button
-                  onClick={() => setDirection('encode')}
-                  className={cn(
-                    'rounded px-2.5 py-1 text-xs font-medium transition-colors',
-                    direction === 'encode'
-                      ? 'bg-primary text-primary-foreground'
-                      : 'text-muted-foreground hover:text-foreground'
-                  )}
-                >
-                  {currentAlgorithm.category === 'hash' ? '计算' : '编码/加密'}
-                </button>
-                {currentAlgorithm.supportsDecode && (
-                  <button
-                    onClick={() => setDirection('decode')}
-                    className={cn(
-                      'rounded px-2.5 py-1 text-xs font-medium transition-colors',
-                      direction === 'decode'
-                        ? 'bg-primary text-primary-foreground'
-                        : 'text-muted-foreground hover:text-foreground'
+            {/* 右侧：输入输出区域 */}
+            <div
+              className={cn(
+                'flex   min-h-0 flex-1 flex-col gap-3 lg:overflow-y-auto',
+                scrollbarStyles
+              )}
+            >
+              {/* 方向控制栏 */}
+              <div className="flex shrink-0 flex-wrap items-center gap-3 rounded-md border bg-muted/30 p-2.5">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground">模式:</span>
+                  <div className="flex rounded-md border bg-background p-0.5">
+                    <button
+                      onClick={() => setDirection('encode')}
+                      className={cn(
+                        'rounded px-2.5 py-1 text-xs font-medium transition-colors',
+                        direction === 'encode'
+                          ? 'bg-primary text-primary-foreground'
+                          : 'text-muted-foreground hover:text-foreground'
+                      )}
+                    >
+                      {hasDigestOutput ? '计算' : (currentAlgorithm.encodeLabel ?? '编码/加密')}
+                    </button>
+                    {currentAlgorithm.verify && (
+                      <button
+                        onClick={() => setDirection('verify')}
+                        className={cn(
+                          'rounded px-2.5 py-1 text-xs font-medium transition-colors',
+                          direction === 'verify'
+                            ? 'bg-primary text-primary-foreground'
+                            : 'text-muted-foreground hover:text-foreground'
+                        )}
+                      >
+                        验证
+                      </button>
                     )}
+                    {currentAlgorithm.supportsDecode && (
+                      <button
+                        onClick={() => setDirection('decode')}
+                        className={cn(
+                          'rounded px-2.5 py-1 text-xs font-medium transition-colors',
+                          direction === 'decode'
+                            ? 'bg-primary text-primary-foreground'
+                            : 'text-muted-foreground hover:text-foreground'
+                        )}
+                      >
+                        {currentAlgorithm.decodeLabel ?? '解码/解密'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {/* 交换按钮 */}
+                {currentAlgorithm.supportsDecode && output && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleSwap}
+                    className="h-7 gap-1 px-2 text-xs"
                   >
-                    解码/解密
-                  </button>
+                    <ArrowRightLeft className="h-3.5 w-3.5" />
+                    交换
+                  </Button>
                 )}
+
+                {/* 操作按钮 */}
+                <div className="ml-auto flex items-center gap-2">
+                  {!canAutoProcess && (
+                    <Button
+                      size="sm"
+                      onClick={handleProcess}
+                      disabled={isProcessing}
+                      className="h-7 text-xs"
+                    >
+                      {isProcessing ? '处理中...' : '处理'}
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleClear}
+                    className="h-7 text-xs"
+                  >
+                    <Trash2 className="mr-1 h-3.5 w-3.5" />
+                    清空
+                  </Button>
+                </div>
               </div>
-            </div>
 
-            {/* 交换按钮 */}
-            {currentAlgorithm.supportsDecode && output && (
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={handleSwap}
-                className="h-7 gap-1 px-2 text-xs"
-              >
-                <ArrowRightLeft className="h-3.5 w-3.5" />
-                交换
-              </Button>
-            )}
-
-            {/* 操作按钮 */}
-            <div className="ml-auto flex items-center gap-2">
-              {!autoProcess && (
-                <Button
-                  size="sm"
-                  onClick={handleProcess}
-                  disabled={isProcessing}
-                  className="h-7 text-xs"
-                >
-                  {isProcessing ? '处理中...' : '处理'}
-                </Button>
+              {/* 密钥输入（如果需要） */}
+              {currentAlgorithm.requiresKey && (
+                <div className="shrink-0 space-y-1.5">
+                  <Label htmlFor="key" className="flex items-center gap-1.5 text-xs">
+                    <Lock className="h-3.5 w-3.5" />
+                    密钥
+                  </Label>
+                  <div className="flex gap-2">
+                    <div className="relative flex-1">
+                      <Input
+                        id="key"
+                        type={showKey ? 'text' : 'password'}
+                        placeholder={currentAlgorithm.keyPlaceholder || '输入密钥...'}
+                        value={key}
+                        onChange={(e) => setKey(e.target.value)}
+                        className="h-8 pr-8 font-mono text-sm"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setShowKey(!showKey)}
+                        className="absolute right-2.5 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                      >
+                        {showKey ? (
+                          <EyeOff className="h-3.5 w-3.5" />
+                        ) : (
+                          <Eye className="h-3.5 w-3.5" />
+                        )}
+                      </button>
+                    </div>
+                    {/* 密钥格式（消息认证和 AES） */}
+                    {(currentAlgorithm.category === 'mac' || isAes) && (
+                      <div className="flex shrink-0 rounded-md border bg-muted p-0.5">
+                        {keyFormatOptions.map((option) => (
+                          <button
+                            key={option.value}
+                            onClick={() => setKeyFormat(option.value)}
+                            className={cn(
+                              'rounded px-2 py-1 text-xs font-medium transition-colors',
+                              keyFormat === option.value
+                                ? 'bg-background text-foreground shadow-sm'
+                                : 'text-muted-foreground hover:text-foreground'
+                            )}
+                          >
+                            {isAes && option.value === 'text' ? '口令' : option.label}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </div>
               )}
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={handleClear}
-                className="h-7 text-xs"
-              >
-                <Trash2 className="mr-1 h-3.5 w-3.5" />
-                清空
-              </Button>
-            </div>
-          </div>
 
-          {/* 密钥输入（如果需要） */}
-          {currentAlgorithm.requiresKey && (
-            <div className="shrink-0 space-y-1.5">
-              <Label htmlFor="key" className="flex items-center gap-1.5 text-xs">
-                <Lock className="h-3.5 w-3.5" />
-                密钥
-              </Label>
-              <div className="relative">
-                <Input
-                  id="key"
-                  type={showKey ? 'text' : 'password'}
-                  placeholder={currentAlgorithm.keyPlaceholder || '输入密钥...'}
-                  value={key}
-                  onChange={(e) => setKey(e.target.value)}
-                  className="h-8 pr-8 font-mono text-sm"
+              {/* AES 参数 */}
+              {isAes && (
+                <AesOptions
+                  params={aesParams}
+                  onChange={setAesParams}
+                  rawKey={keyFormat !== 'text'}
+                  iv={iv}
+                  onIvChange={setIv}
+                  direction={direction}
                 />
-                <button
-                  type="button"
-                  onClick={() => setShowKey(!showKey)}
-                  className="absolute right-2.5 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
-                >
-                  {showKey ? (
-                    <EyeOff className="h-3.5 w-3.5" />
+              )}
+
+              {/* 公钥 / 私钥 */}
+              {isAsymmetric && (
+                <KeyPairPanel
+                  algorithm={currentAlgorithm}
+                  direction={direction}
+                  publicKey={publicKey}
+                  privateKey={privateKey}
+                  onPublicKeyChange={setPublicKey}
+                  onPrivateKeyChange={setPrivateKey}
+                />
+              )}
+
+              {/* 签名输入（验证模式） */}
+              {direction === 'verify' && (
+                <div className="shrink-0 space-y-1.5">
+                  <Label htmlFor="signature" className="flex items-center gap-1.5 text-xs">
+                    <ShieldCheck className="h-3.5 w-3.5" />
+                    待校验签名
+                  </Label>
+                  <Input
+                    id="signature"
+                    placeholder={
+                      isAsymmetric ? '十六进制或 Base64' : '十六进制或 Base64，可带 sha256= 等前缀'
+                    }
+                    value={signature}
+                    onChange={(e) => setSignature(e.target.value)}
+                    className={cn(
+                      'h-8 font-mono text-sm',
+                      verified === true && 'border-green-500',
+                      verified === false && 'border-destructive'
+                    )}
+                  />
+                </div>
+              )}
+
+              {/* 输入输出区域 - 自适应高度 */}
+              <div className="grid min-h-0 flex-1 gap-3 grid-cols-1 md:grid-cols-2 ">
+                {/* 输入区 */}
+                <div className="ml-1 flex min-h-32 flex-col gap-1.5 md:min-h-40">
+                  <div className="flex shrink-0 items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor="input" className="text-xs">
+                        {direction === 'decode'
+                          ? '密文/编码'
+                          : currentAlgorithm.id === 'x25519'
+                            ? '对方公钥'
+                            : '原文'}
+                      </Label>
+                      {/* 输入格式（解码方向和 X25519 只接受文本） */}
+                      {direction !== 'decode' && currentAlgorithm.id !== 'x25519' && (
+                        <div className="flex rounded-md border bg-muted p-0.5">
+                          {inputFormatOptions.map((option) => (
+                            <button
+                              key={option.value}
+                              onClick={() => setInputFormat(option.value)}
+                              className={cn(
+                                'rounded px-1.5 py-0.5 text-xs font-medium transition-colors',
+                                inputFormat === option.value
+                                  ? 'bg-background text-foreground shadow-sm'
+                                  : 'text-muted-foreground hover:text-foreground'
+                              )}
+                            >
+                              {option.label}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <span className="text-xs text-muted-foreground">
+                      {effectiveInputFormat === 'file'
+                        ? file && formatFileSize(file.bytes.length)
+                        : `${input.length} 字符`}
+                    </span>
+                  </div>
+                  {effectiveInputFormat === 'file' ? (
+                    <FileInput file={file} onChange={setFile} />
                   ) : (
-                    <Eye className="h-3.5 w-3.5" />
+                    <textarea
+                      id="input"
+                      value={input}
+                      onChange={(e) => setInput(e.target.value)}
+                      placeholder={
+                        direction === 'decode'
+                          ? '输入要解码/解密的内容...'
+                          : effectiveInputFormat === 'hex'
+                            ? '输入十六进制字节，如 89 50 4e 47...'
+                            : effectiveInputFormat === 'base64'
+                              ? '输入 Base64 编码的字节...'
+                              : '输入要处理的内容...'
+                      }
+                      className={cn(
+                        'min-h-0 flex-1 resize-none rounded-md border bg-background p-2.5 font-mono text-sm',
+                        'focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2',
+                        error && 'border-destructive focus:ring-destructive'
+                      )}
+                      spellCheck={false}
+                    />
                   )}
-                </button>
-              </div>
-            </div>
-          )}
-
-          {/* 输入输出区域 - 自适应高度 */}
-          <div className="grid min-h-0 flex-1 gap-3 grid-cols-1 md:grid-cols-2 ">
-            {/* 输入区 */}
-            <div className="ml-1 flex min-h-32 flex-col gap-1.5 md:min-h-40">
-              <div className="flex shrink-0 items-center justify-between">
-                <Label htmlFor="input" className="text-xs">
-                  {direction === 'encode' ? '原文' : '密文/编码'}
-                </Label>
-                <span className="text-xs text-muted-foreground">
-                  {input.length} 字符
-                </span>
+                </div>
+
+                {/* 输出区 */}
+                <div className="flex min-h-32 flex-col gap-1.5 md:min-h-40 ">
+                  <div className="flex shrink-0 items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor="output" className="text-xs">
+                        {direction === 'decode'
+                          ? '原文'
+                          : currentAlgorithm.category === 'hash'
+                            ? '哈希值'
+                            : currentAlgorithm.verify
+                              ? '签名'
+                              : '结果'}
+                      </Label>
+                      {/* 字节结果的展示方式 */}
+                      {outputBytes && (
+                        <div className="flex rounded-md border bg-muted p-0.5">
+                          {outputViewOptions.map((option) => (
+                            <button
+                              key={option.value}
+                              onClick={() => setOutputView(option.value)}
+                              className={cn(
+                                'rounded px-1.5 py-0.5 text-xs font-medium transition-colors',
+                                resolvedOutputView === option.value
+                                  ? 'bg-background text-foreground shadow-sm'
+                                  : 'text-muted-foreground hover:text-foreground'
+                              )}
+                            >
+                              {option.label}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1.5">
+                      <span className="text-xs text-muted-foreground">
+                        {outputBytes
+                          ? `${outputBytes.length} 字节`
+                          : `${output.length} 字符`}
+                      </span>
+                      {outputBytes && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => downloadBytes(new Uint8Array(outputBytes), 'output.bin')}
+                          className="h-6 px-1.5 text-xs"
+                        >
+                          <Download className="mr-0.5 h-3 w-3" />
+                          下载
+                        </Button>
+                      )}
+                      {displayedOutput && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={handleCopy}
+                          className="h-6 px-1.5 text-xs"
+                        >
+                          {copied ? (
+                            <>
+                              <Check className="mr-0.5 h-3 w-3 text-green-500" />
+                              已复制
+                            </>
+                          ) : (
+                            <>
+                              <Copy className="mr-0.5 h-3 w-3" />
+                              复制
+                            </>
+                          )}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  <textarea
+                    id="output"
+                    value={displayedOutput}
+                    readOnly
+                    placeholder={
+                      isProcessing
+                        ? '处理中...'
+                        : error
+                          ? ''
+                          : '处理结果将显示在这里...'
+                    }
+                    className={cn(
+                      'min-h-0 flex-1 resize-none rounded-md border bg-muted/50 p-2.5 font-mono text-sm',
+                      'focus:outline-none',
+                      resolvedOutputView === 'hexdump' && outputBytes && 'whitespace-pre text-xs'
+                    )}
+                    spellCheck={false}
+                  />
+                </div>
               </div>
-              <textarea
-                id="input"
-                value={input}
-                onChange={(e) => setInput(e.target.value)}
-                placeholder={
-                  direction === 'encode'
-                    ? '输入要处理的内容...'
-                    : '输入要解码/解密的内容...'
-                }
-                className={cn(
-                  'min-h-0 flex-1 resize-none rounded-md border bg-background p-2.5 font-mono text-sm',
-                  'focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2',
-                  error && 'border-destructive focus:ring-destructive'
-                )}
-                spellCheck={false}
-              />
-            </div>
 
-            {/* 输出区 */}
-            <div className="flex min-h-32 flex-col gap-1.5 md:min-h-40 ">
-              <div className="flex shrink-0 items-center justify-between">
-                <Label htmlFor="output" className="text-xs">
-                  {direction === 'encode'
-                    ? currentAlgorithm.category === 'hash'
-                      ? '哈希值'
-                      : '结果'
-                    : '原文'}
-                </Label>
-                <div className="flex items-center gap-1.5">
+              {/* 校验结果 */}
+              {direction === 'verify' && verified !== null && !error && (
+                <div
+                  className={cn(
+                    'flex shrink-0 items-center gap-2 rounded-md p-2.5',
+                    verified ? 'bg-green-500/10 text-green-600' : 'bg-destructive/10 text-destructive'
+                  )}
+                >
+                  {verified ? (
+                    <ShieldCheck className="h-3.5 w-3.5 shrink-0" />
+                  ) : (
+                    <ShieldX className="h-3.5 w-3.5 shrink-0" />
+                  )}
+                  <p className="text-xs">
+                    {verified
+                      ? '签名匹配'
+                      : output
+                        ? '签名不匹配，输出框中为按当前密钥计算的签名'
+                        : '签名不匹配'}
+                  </p>
+                </div>
+              )}
+
+              {/* 错误提示 */}
+              {error && (
+                <div className="flex shrink-0 items-start gap-2 rounded-md bg-destructive/10 p-2.5 text-destructive">
+                  <Info className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                  <p className="text-xs">{error}</p>
+                </div>
+              )}
+
+              {/* 算法说明 - 仅在桌面端显示 */}
+              <div className="hidden shrink-0 rounded-md border bg-muted/30 p-2.5 md:block">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-medium">{currentAlgorithm.name}</span>
                   <span className="text-xs text-muted-foreground">
-                    {output.length} 字符
+                    {currentAlgorithm.description}
                   </span>
-                  {output && (
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={handleCopy}
-                      className="h-6 px-1.5 text-xs"
-                    >
-                      {copied ? (
-                        <>
-                          <Check className="mr-0.5 h-3 w-3 text-green-500" />
-                          已复制
-                        </>
-                      ) : (
-                        <>
-                          <Copy className="mr-0.5 h-3 w-3" />
-                          复制
-                        </>
+                  <div className="ml-auto flex shrink-0 gap-1.5">
+                    <span
+                      className={cn(
+                        'rounded-full px-1.5 py-0.5 text-xs',
+                        currentAlgorithm.supportsDecode
+                          ? 'bg-green-500/10 text-green-600'
+                          : 'bg-amber-500/10 text-amber-600'
                       )}
-                    </Button>
-                  )}
+                    >
+                      {currentAlgorithm.supportsDecode ? '可逆' : '不可逆'}
+                    </span>
+                    {currentAlgorithm.requiresKey && (
+                      <span className="rounded-full bg-blue-500/10 px-1.5 py-0.5 text-xs text-blue-600">
+                        需密钥
+                      </span>
+                    )}
+                  </div>
                 </div>
               </div>
-              <textarea
-                id="output"
-                value={output}
-                readOnly
-                placeholder={
-                  isProcessing
-                    ? '处理中...'
-                    : error
-                      ? ''
-                      : '处理结果将显示在这里...'
-                }
-                className={cn(
-                  'min-h-0 flex-1 resize-none rounded-md border bg-muted/50 p-2.5 font-mono text-sm',
-                  'focus:outline-none'
-                )}
-                spellCheck={false}
-              />
             </div>
+        
           </div>
-
-          {/* 错误提示 */}
-          {error && (
-            <div className="flex shrink-0 items-start gap-2 rounded-md bg-destructive/10 p-2.5 text-destructive">
-              <Info className="mt-0.5 h-3.5 w-3.5 shrink-0" />
-              <p className="text-xs">{error}</p>
-            </div>
-          )}
-
-          {/* 算法说明 - 仅在桌面端显示 */}
-          <div className="hidden shrink-0 rounded-md border bg-muted/30 p-2.5 md:block">
-            <div className="flex items-center gap-2">
-              <span className="text-xs font-medium">{currentAlgorithm.name}</span>
-              <span className="text-xs text-muted-foreground">
-                {currentAlgorithm.description}
-              </span>
-              <div className="ml-auto flex shrink-0 gap-1.5">
+          {/* 输出描述 - 移动端显示在输出下方 */}
+          <div className="mt-1.5 rounded-md border bg-muted/30 p-2 md:hidden">
+            <div className="flex flex-col gap-1 text-xs">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{currentAlgorithm.name}</span>
                 <span
                   className={cn(
-                    'rounded-full px-1.5 py-0.5 text-xs',
+                    'rounded-full px-1.5 py-0.5',
                     currentAlgorithm.supportsDecode
                       ? 'bg-green-500/10 text-green-600'
                       : 'bg-amber-500/10 text-amber-600'
@@ -481,40 +967,16 @@ export const CryptoTool = () => {
                   {currentAlgorithm.supportsDecode ? '可逆' : '不可逆'}
                 </span>
                 {currentAlgorithm.requiresKey && (
-                  <span className="rounded-full bg-blue-500/10 px-1.5 py-0.5 text-xs text-blue-600">
+                  <span className="rounded-full bg-blue-500/10 px-1.5 py-0.5 text-blue-600">
                     需密钥
                   </span>
                 )}
               </div>
+              <span className="text-muted-foreground">{currentAlgorithm.description}</span>
             </div>
           </div>
-        </div>
-        
-      </div>
-      {/* 输出描述 - 移动端显示在输出下方 */}
-      <div className="mt-1.5 rounded-md border bg-muted/30 p-2 md:hidden">
-        <div className="flex flex-col gap-1 text-xs">
-          <div className="flex items-center gap-2">
-            <span className="font-medium">{currentAlgorithm.name}</span>
-            <span
-              className={cn(
-                'rounded-full px-1.5 py-0.5',
-                currentAlgorithm.supportsDecode
-                  ? 'bg-green-500/10 text-green-600'
-                  : 'bg-amber-500/10 text-amber-600'
-              )}
-            >
-              {currentAlgorithm.supportsDecode ? '可逆' : '不可逆'}
-            </span>
-            {currentAlgorithm.requiresKey && (
-              <span className="rounded-full bg-blue-500/10 px-1.5 py-0.5 text-blue-600">
-                需密钥
-              </span>
-            )}
-          </div>
-          <span className="text-muted-foreground">{currentAlgorithm.description}</span>
-        </div>
-      </div>
+        </>
+      )}
       {/* 底部提示 - 固定 */}
       <div className="shrink-0 border-t px-4 py-2">
         <p className="text-xs text-muted-foreground">
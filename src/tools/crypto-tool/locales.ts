@@ -0,0 +1,109 @@
+import { defineMessages } from '@/lib/i18n';
+
+/**
+ * 加密解密工具的消息目录
+ */
+export const t = defineMessages(
+  {
+    'error.hashFailed': '哈希计算失败',
+    'error.base64EncodeFailed': 'Base64 编码失败',
+    'error.invalidBase64': '无效的 Base64 字符串',
+    'error.invalidUrlEncoding': '无效的 URL 编码字符串',
+    'error.hexEncodeFailed': 'Hex 编码失败',
+    'error.invalidHexChar': '无效的十六进制字符',
+    'error.oddHexLength': '十六进制字符串长度必须为偶数',
+    'error.keyRequired': '请输入密钥',
+    'error.aesEncryptFailed': 'AES 加密失败',
+    'error.aesDecryptFailed': '解密失败，请检查密钥和密文是否正确',
+    'error.unknownAlgorithm': '未知的算法',
+    'error.inputRequired': '请输入内容',
+    'error.decodeUnsupported': '该算法不支持解码',
+    'error.invalidHexKey': '密钥不是有效的十六进制',
+    'error.invalidBase64Key': '密钥不是有效的 Base64',
+    'error.hmacFailed': 'HMAC 计算失败',
+    'error.signatureRequired': '请输入要校验的签名',
+    'error.invalidSignature': '签名格式无效，应为十六进制或 Base64',
+    'error.verifyUnsupported': '该算法不支持校验',
+    'error.fileReadFailed': '文件读取失败',
+    'error.invalidIterations': '迭代次数必须是正整数',
+    'error.invalidScryptCost': 'scrypt 的成本参数 N 必须是大于 1 的 2 的幂',
+    'error.invalidArgon2Memory': 'Argon2id 的内存成本至少为 8 KiB',
+    'error.invalidAesKeyLength': '原始密钥长度应为 {expected} 字节，当前为 {actual} 字节',
+    'error.invalidIv': 'IV 不是有效的十六进制',
+    'error.invalidIvLength': 'IV 长度应为 {expected} 字节',
+    'error.missingSaltHeader': '密文缺少 "Salted__" 头，不是口令模式的输出',
+    'error.invalidKey': '无法识别的密钥，请使用 PEM（PKCS#8 / SPKI）或 JWK 格式',
+    'error.unsupportedPem': '不支持 {label} 格式，请转换为 PKCS#8（openssl pkcs8 -topk8 -nocrypt）或 SPKI',
+    'error.keyAlgorithmMismatch': '密钥导入失败，请确认密钥与所选算法一致',
+    'error.publicKeyRequired': '请输入公钥',
+    'error.privateKeyRequired': '请输入私钥',
+    'error.privateKeyExpected': '此处需要私钥，当前填写的是公钥',
+    'error.signFailed': '签名失败',
+    'error.verifyFailed': '验签失败',
+    'error.rsaPayloadTooLarge': 'RSA-OAEP 最多加密 {max} 字节，当前为 {actual} 字节，较长数据请使用 AES',
+    'error.rsaEncryptFailed': 'RSA 加密失败',
+    'error.rsaDecryptFailed': '解密失败，请检查私钥和密文是否匹配',
+    'error.keyAgreementFailed': '密钥协商失败',
+    'error.invalidBase32': '无效的 Base32 字符串',
+    'error.invalidBase58': '无效的 Base58 字符串',
+    'error.invalidBase58Checksum': 'Base58Check 校验和不匹配',
+    'error.invalidAscii85': '无效的 Ascii85 字符串',
+    'error.invalidZ85': '无效的 Z85 字符串，长度须为 5 的倍数',
+    'error.invalidZ85Length': 'Z85 编码的数据长度须为 4 字节的倍数',
+    'error.invalidQuotedPrintable': '无效的 Quoted-Printable 转义序列',
+    'error.invalidPunycode': '无效的 Punycode 字符串',
+    'error.invalidUuencode': '无效的 UUEncode 数据行',
+    'hexdump.truncated': '…（仅显示前 {limit} KiB，共 {total} 字节，完整内容请下载）',
+  },
+  {
+    'error.hashFailed': 'Failed to compute hash',
+    'error.base64EncodeFailed': 'Base64 encoding failed',
+    'error.invalidBase64': 'Invalid Base64 string',
+    'error.invalidUrlEncoding': 'Invalid URL-encoded string',
+    'error.hexEncodeFailed': 'Hex encoding failed',
+    'error.invalidHexChar': 'Invalid hexadecimal character',
+    'error.oddHexLength': 'Hex string length must be even',
+    'error.keyRequired': 'Please enter a key',
+    'error.aesEncryptFailed': 'AES encryption failed',
+    'error.aesDecryptFailed': 'Decryption failed. Check the key and ciphertext',
+    'error.unknownAlgorithm': 'Unknown algorithm',
+    'error.inputRequired': 'Please enter some input',
+    'error.decodeUnsupported': 'This algorithm does not support decoding',
+    'error.invalidHexKey': 'The key is not valid hexadecimal',
+    'error.invalidBase64Key': 'The key is not valid Base64',
+    'error.hmacFailed': 'Failed to compute HMAC',
+    'error.signatureRequired': 'Please enter the signature to verify',
+    'error.invalidSignature': 'Invalid signature. Use hexadecimal or Base64',
+    'error.verifyUnsupported': 'This algorithm does not support verification',
+    'error.fileReadFailed': 'Failed to read file',
+    'error.invalidIterations': 'Iterations must be a positive integer',
+    'error.invalidScryptCost': 'The scrypt cost N must be a power of 2 greater than 1',
+    'error.invalidArgon2Memory': 'Argon2id memory cost must be at least 8 KiB',
+    'error.invalidAesKeyLength': 'The raw key must be {expected} bytes, got {actual}',
+    'error.invalidIv': 'The IV is not valid hexadecimal',
+    'error.invalidIvLength': 'The IV must be {expected} bytes',
+    'error.missingSaltHeader': 'The ciphertext has no "Salted__" header and was not produced in passphrase mode',
+    'error.invalidKey': 'Unrecognized key. Use PEM (PKCS#8 / SPKI) or JWK',
+    'error.unsupportedPem': '{label} is not supported. Convert it to PKCS#8 (openssl pkcs8 -topk8 -nocrypt) or SPKI',
+    'error.keyAlgorithmMismatch': 'Failed to import the key. Make sure it matches the selected algorithm',
+    'error.publicKeyRequired': 'Please enter a public key',
+    'error.privateKeyRequired': 'Please enter a private key',
+    'error.privateKeyExpected': 'A private key is required here, but a public key was given',
+    'error.signFailed': 'Signing failed',
+    'error.verifyFailed': 'Verification failed',
+    'error.rsaPayloadTooLarge': 'RSA-OAEP can encrypt at most {max} bytes, got {actual}. Use AES for longer data',
+    'error.rsaEncryptFailed': 'RSA encryption failed',
+    'error.rsaDecryptFailed': 'Decryption failed. Check that the private key matches the ciphertext',
+    'error.keyAgreementFailed': 'Key agreement failed',
+    'error.invalidBase32': 'Invalid Base32 string',
+    'error.invalidBase58': 'Invalid Base58 string',
+    'error.invalidBase58Checksum': 'Base58Check checksum mismatch',
+    'error.invalidAscii85': 'Invalid Ascii85 string',
+    'error.invalidZ85': 'Invalid Z85 string. The length must be a multiple of 5',
+    'error.invalidZ85Length': 'Z85 input must be a multiple of 4 bytes',
+    'error.invalidQuotedPrintable': 'Invalid Quoted-Printable escape sequence',
+    'error.invalidPunycode': 'Invalid Punycode string',
+    'error.invalidUuencode': 'Invalid UUEncode data line',
+    'hexdump.truncated': '… (showing the first {limit} KiB of {total} bytes, download for the full content)',
+  }
+);
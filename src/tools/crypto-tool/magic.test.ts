@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeContent, detectEncoding } from './magic';
+import { bytesToBase64 } from './bytes';
+import { processEncode } from './utils';
+
+const text = (data: Uint8Array) => new TextDecoder().decode(data);
+
+async function gzip(data: string): Promise<Uint8Array> {
+  const stream = new ReadableStream<BufferSource>({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode(data));
+      controller.close();
+    },
+  }).pipeThrough(new CompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+describe('内容评分', () => {
+  it('JSON 和自然语言得分高于编码后的文本', () => {
+    const json = analyzeContent(new TextEncoder().encode('{"user":"alice","roles":["admin"]}'));
+    const sentence = analyzeContent(new TextEncoder().encode('The quick brown fox jumps'));
+    const encoded = analyzeContent(new TextEncoder().encode('VGhlIHF1aWNrIGJyb3duIGZveCBqdW1wcw=='));
+    expect(json.contentType).toBe('JSON');
+    expect(json.score).toBeGreaterThan(sentence.score);
+    expect(sentence.score).toBeGreaterThan(encoded.score);
+  });
+
+  it('识别文件头，随机字节得分低', () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d]);
+    expect(analyzeContent(png)).toMatchObject({ contentType: 'PNG', score: 80 });
+    const random = analyzeContent(new Uint8Array([0x00, 0xff, 0x13, 0x88, 0x02, 0xc3]));
+    expect(random.contentType).toBeUndefined();
+    expect(random.score).toBeLessThan(30);
+  });
+});
+
+describe('自动识别', () => {
+  it('单层 Base64', async () => {
+    const [best] = await detectEncoding('SGVsbG8sIFdvcmxkIQ==');
+    expect(best.steps.map((step) => step.id)).toEqual(['base64']);
+    expect(text(best.bytes)).toBe('Hello, World!');
+  });
+
+  it('多层嵌套：URL → Base64 → gzip → JSON', async () => {
+    const json = '{"token":"abc","exp":1700000000}';
+    const input = encodeURIComponent(bytesToBase64(await gzip(json)));
+    const [best] = await detectEncoding(input);
+    expect(best.steps.map((step) => step.id)).toEqual(['url', 'base64', 'gunzip']);
+    expect(best.contentType).toBe('JSON');
+    expect(text(best.bytes)).toBe(json);
+  });
+
+  it('受层数限制', async () => {
+    const json = '{"a":1}';
+    const input = encodeURIComponent(bytesToBase64(await gzip(json)));
+    const results = await detectEncoding(input, 2);
+    expect(results.every((result) => result.steps.length <= 2)).toBe(true);
+    expect(results[0].contentType).toBe('gzip');
+  });
+
+  it('注册的编码器输出都能被识别', async () => {
+    const message = 'Magic decode für viele Kodierungen';
+    for (const algorithm of ['hex', 'base32', 'base58', 'ascii85', 'quoted-printable', 'url']) {
+      const encoded = await processEncode(algorithm, message);
+      const results = await detectEncoding(encoded.output);
+      expect(results[0].steps[0].id, algorithm).toBe(algorithm);
+      expect(text(results[0].bytes)).toBe(message);
+    }
+  });
+
+  it('无法解码时返回空列表', async () => {
+    expect(await detectEncoding('你好，世界')).toEqual([]);
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * 编码自动识别（类似 CyberChef 的 Magic）
+ * 用注册表中的解码器逐层尝试，按可打印字符占比和内容结构为每条解码链打分
+ */
+
+import { algorithms } from './utils';
+import { bytesToBase64, isPrintableText } from './bytes';
+import type { MagicResult, MagicStep } from './types';
+
+/** 默认的最大解码层数 */
+export const MAGIC_DEFAULT_DEPTH = 3;
+
+/** 允许设置的最大解码层数 */
+export const MAGIC_MAX_DEPTH = 5;
+
+/** 最多产生的解码结果数，避免多层组合爆炸 */
+const MAX_NODES = 500;
+
+/** 解压输出的上限，防止压缩炸弹占满内存 */
+const MAX_DECOMPRESSED_SIZE = 16 * 1024 * 1024;
+
+/**
+ * 常见文件头
+ */
+const SIGNATURES: { type: string; bytes: number[]; offset?: number }[] = [
+  { type: 'PNG', bytes: [0x89, 0x50, 0x4e, 0x47] },
+  { type: 'JPEG', bytes: [0xff, 0xd8, 0xff] },
+  { type: 'GIF', bytes: [0x47, 0x49, 0x46, 0x38] },
+  { type: 'WebP', bytes: [0x57, 0x45, 0x42, 0x50], offset: 8 },
+  { type: 'PDF', bytes: [0x25, 0x50, 0x44, 0x46] },
+  { type: 'ZIP', bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { type: 'gzip', bytes: [0x1f, 0x8b, 0x08] },
+];
+
+/**
+ * 作用于字节的解压层，按文件头判断是否尝试
+ */
+const DECOMPRESSORS: (MagicStep & {
+  format: CompressionFormat;
+  matches: (bytes: Uint8Array) => boolean;
+})[] = [
+  {
+    id: 'gunzip',
+    name: 'Gunzip',
+    format: 'gzip',
+    matches: (bytes) => bytes[0] === 0x1f && bytes[1] === 0x8b,
+  },
+  {
+    id: 'zlib',
+    name: 'Zlib Inflate',
+    format: 'deflate',
+    // CMF 低 4 位为 8（deflate），且 CMF * 256 + FLG 是 31 的倍数
+    matches: (bytes) =>
+      bytes.length > 2 && (bytes[0] & 0x0f) === 8 && ((bytes[0] << 8) | bytes[1]) % 31 === 0,
+  },
+];
+
+interface MagicNode {
+  steps: MagicStep[];
+  bytes: Uint8Array;
+  /** 可打印时的文本，非文本数据只能继续尝试解压 */
+  text: string | null;
+}
+
+/**
+ * 对输入逐层尝试解码，返回按得分从高到低排列的解码链
+ * 相同的中间结果只保留最先（层数最少）得到的那条链
+ */
+export async function detectEncoding(
+  input: string,
+  maxDepth: number = MAGIC_DEFAULT_DEPTH
+): Promise<MagicResult[]> {
+  const text = input.trim();
+  const root = createNode([], new TextEncoder().encode(text));
+  const seen = new Set([contentKey(root.bytes)]);
+  const results: MagicResult[] = [];
+
+  let queue = [root];
+  for (let depth = 0; depth < maxDepth && queue.length > 0; depth++) {
+    const next: MagicNode[] = [];
+    for (const node of queue) {
+      for (const child of await expand(node)) {
+        const key = contentKey(child.bytes);
+        if (seen.has(key) || results.length >= MAX_NODES) continue;
+        seen.add(key);
+        results.push({ steps: child.steps, bytes: child.bytes, ...analyzeContent(child.bytes) });
+        next.push(child);
+      }
+    }
+    queue = next;
+  }
+
+  return results.sort((a, b) => b.score - a.score || a.steps.length - b.steps.length);
+}
+
+/**
+ * 评估一段数据像“解码完成的内容”的程度
+ * 基础分来自可打印字符占比，再按 JSON / XML / URL 结构、文件头和自然语言特征加分
+ */
+export function analyzeContent(
+  bytes: Uint8Array
+): Pick<MagicResult, 'score' | 'printableRatio' | 'contentType'> {
+  let text: string | null = null;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    // 非 UTF-8，按字节统计
+  }
+  const printableRatio = text !== null ? textPrintableRatio(text) : bytePrintableRatio(bytes);
+
+  const signature = SIGNATURES.find(({ bytes: magic, offset = 0 }) =>
+    magic.every((byte, i) => bytes[offset + i] === byte)
+  );
+  if (signature) {
+    return { score: 80, printableRatio, contentType: signature.type };
+  }
+
+  let score = printableRatio * 60;
+  let contentType: string | undefined;
+  if (text !== null) {
+    const trimmed = text.trim();
+    if (/^[[{]/.test(trimmed) && isJson(trimmed)) {
+      score += 35;
+      contentType = 'JSON';
+    } else if (/^<[!?a-zA-Z][^>]*>/.test(trimmed) && /(<\/[a-zA-Z][\w:-]*>|\/>)$/.test(trimmed)) {
+      score += 25;
+      contentType = 'XML / HTML';
+    } else if (/^[a-z][a-z0-9+.-]*:\/\/\S+$/i.test(trimmed)) {
+      score += 25;
+      contentType = 'URL';
+    }
+    score += languageScore(trimmed);
+  }
+  return { score: Math.round(Math.min(score, 100)), printableRatio, contentType };
+}
+
+/**
+ * 用所有可能适用的解码器展开一个节点
+ */
+async function expand(node: MagicNode): Promise<MagicNode[]> {
+  const children: MagicNode[] = [];
+
+  if (node.text !== null) {
+    const text = node.text.trim();
+    // 需要密钥的加密算法无法盲解，只尝试编码类
+    for (const algorithm of Object.values(algorithms)) {
+      if (algorithm.category !== 'encoding' || !algorithm.decode) continue;
+      if (algorithm.detect && !algorithm.detect(text)) continue;
+      const result = await algorithm.decode(text);
+      if (!result.success || result.output === text) continue;
+      const bytes = result.bytes ?? new TextEncoder().encode(result.output);
+      if (bytes.length > 0) {
+        children.push(createNode([...node.steps, algorithm], bytes));
+      }
+    }
+  }
+
+  for (const decompressor of DECOMPRESSORS) {
+    if (!decompressor.matches(node.bytes)) continue;
+    try {
+      const bytes = await decompress(node.bytes, decompressor.format);
+      children.push(createNode([...node.steps, decompressor], bytes));
+    } catch {
+      // 文件头碰巧匹配但数据无效
+    }
+  }
+
+  return children;
+}
+
+function createNode(steps: MagicStep[], bytes: Uint8Array): MagicNode {
+  return {
+    steps: steps.map(({ id, name }) => ({ id, name })),
+    bytes,
+    text: isPrintableText(bytes) ? new TextDecoder().decode(bytes) : null,
+  };
+}
+
+/**
+ * 用 DecompressionStream 解压，超过上限时中止
+ */
+async function decompress(bytes: Uint8Array, format: CompressionFormat): Promise<Uint8Array> {
+  const reader = new ReadableStream<BufferSource>({
+    start(controller) {
+      controller.enqueue(new Uint8Array(bytes));
+      controller.close();
+    },
+  })
+    .pipeThrough(new DecompressionStream(format))
+    .getReader();
+
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > MAX_DECOMPRESSED_SIZE) {
+      await reader.cancel();
+      throw new Error('decompressed data too large');
+    }
+    chunks.push(value);
+  }
+
+  const output = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+}
+
+function contentKey(bytes: Uint8Array): string {
+  return bytesToBase64(bytes);
+}
+
+function isJson(text: string): boolean {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 文本中可打印字符的占比（换行、制表符算可打印，U+FFFD 不算）
+ */
+function textPrintableRatio(text: string): number {
+  if (text.length === 0) return 0;
+  let printable = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    const isControl =
+      (code < 0x20 && code !== 0x09 && code !== 0x0a && code !== 0x0d) || code === 0x7f;
+    if (!isControl && code !== 0xfffd) {
+      printable++;
+    }
+  }
+  return printable / text.length;
+}
+
+/**
+ * 非 UTF-8 数据中可打印 ASCII 字节的占比
+ */
+function bytePrintableRatio(bytes: Uint8Array): number {
+  if (bytes.length === 0) return 0;
+  let printable = 0;
+  for (const byte of bytes) {
+    if (byte === 0x09 || byte === 0x0a || byte === 0x0d || (byte >= 0x20 && byte < 0x7f)) {
+      printable++;
+    }
+  }
+  return printable / bytes.length;
+}
+
+/**
+ * 自然语言特征得分（0 - 15）
+ * 编码后的数据几乎不含空格、字符分布更均匀，据此区分“还没解完”的中间结果
+ */
+function languageScore(text: string): number {
+  if (text.length === 0) return 0;
+  const counts = new Map<string, number>();
+  let spaces = 0;
+  let cjk = 0;
+  for (const char of text) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+    if (char === ' ') spaces++;
+    if (/[\u3040-\u30ff\u4e00-\u9fff\uac00-\ud7af]/.test(char)) cjk++;
+  }
+  const length = [...text].length;
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / length;
+    entropy -= p * Math.log2(p);
+  }
+
+  const spaceRatio = spaces / length;
+  const wordBonus = (spaceRatio >= 0.05 && spaceRatio <= 0.35) || cjk / length > 0.3 ? 10 : 0;
+  return wordBonus + Math.min(5, Math.max(0, 5 - entropy) * 2);
+}
@@ -6,7 +6,7 @@
 /**
  * 算法分类
  */
-export type AlgorithmCategory = 'hash' | 'encoding' | 'cipher';
+export type AlgorithmCategory = 'hash' | 'mac' | 'encoding' | 'cipher' | 'asymmetric';
 
 /**
  * 算法分类信息
@@ -19,17 +19,95 @@ export interface AlgorithmCategoryInfo {
 
 /**
  * 算法操作方向
+ * verify 仅用于支持校验的算法（如 HMAC），比较计算结果与给定签名
  */
-export type OperationDirection = 'encode' | 'decode';
+export type OperationDirection = 'encode' | 'decode' | 'verify';
+
+/**
+ * 算法的数据输入：字符串按 UTF-8 编码处理，Uint8Array 为原始字节
+ */
+export type CryptoData = string | Uint8Array;
+
+/**
+ * 输入数据的解析方式：UTF-8 文本、十六进制、Base64 或本地文件
+ */
+export type InputFormat = 'text' | 'hex' | 'base64' | 'file';
+
+/**
+ * 作为输入的本地文件
+ */
+export interface InputFile {
+  name: string;
+  bytes: Uint8Array<ArrayBuffer>;
+}
+
+/**
+ * 字节输出的展示方式：UTF-8 文本、连续十六进制、十六进制转储或 Base64
+ */
+export type OutputView = 'text' | 'hex' | 'hexdump' | 'base64';
+
+/**
+ * 密钥格式
+ */
+export type KeyFormat = 'text' | 'hex' | 'base64';
+
+/**
+ * 非对称密钥的文本格式：PEM（私钥 PKCS#8、公钥 SPKI）或 JWK
+ */
+export type KeyExportFormat = 'pem' | 'jwk';
+
+/**
+ * 密钥对（按 KeyExportFormat 序列化后的文本）
+ */
+export interface KeyPair {
+  publicKey: string;
+  privateKey: string;
+}
+
+/**
+ * AES 工作模式
+ */
+export type AesMode = 'CBC' | 'CTR' | 'GCM';
+
+/**
+ * AES 密钥长度（位）
+ */
+export type AesKeySize = 128 | 192 | 256;
+
+/**
+ * 口令派生密钥所用的 KDF
+ */
+export type KdfAlgorithm = 'pbkdf2' | 'scrypt' | 'argon2id';
+
+/**
+ * AES 参数
+ */
+export interface AesParams {
+  mode: AesMode;
+  keySize: AesKeySize;
+  kdf: KdfAlgorithm;
+  /** PBKDF2 的迭代次数 / scrypt 的成本参数 N / Argon2id 的时间成本 t */
+  iterations: number;
+  /** Argon2id 的内存成本（KiB） */
+  memory: number;
+}
 
 /**
  * 算法配置选项（用于需要额外参数的算法，如 AES）
  */
 export interface AlgorithmOptions {
-  /** 密钥（对称加密用） */
+  /** 密钥（对称加密、HMAC 用） */
   key?: string;
-  /** 初始化向量（某些加密模式用） */
+  /** 密钥格式，默认按文本（UTF-8）处理；AES 中文本视为口令，Hex / Base64 视为原始密钥 */
+  keyFormat?: KeyFormat;
+  /** 初始化向量（十六进制，仅 AES 原始密钥模式用，不填则随机生成并放在密文前） */
   iv?: string;
+  /** AES 参数，未指定的项使用默认值 */
+  aes?: Partial<AesParams>;
+  /** 公钥（非对称算法用，PEM 或 JWK） */
+  publicKey?: string;
+  /** 私钥（非对称算法用，PEM 或 JWK） */
+  privateKey?: string;
   /** 输出格式 */
   outputFormat?: 'hex' | 'base64';
   /** 字符编码 */
@@ -43,6 +121,42 @@ export interface ProcessResult {
   success: boolean;
   output: string;
   error?: string;
+  /** 解码 / 解密得到的原始字节，此时 output 为其 UTF-8 文本 */
+  bytes?: Uint8Array;
+}
+
+/**
+ * 签名校验结果
+ */
+export interface VerifyResult extends ProcessResult {
+  /** 计算结果与给定签名是否一致 */
+  match: boolean;
+}
+
+/**
+ * 自动识别中的一层解码
+ */
+export interface MagicStep {
+  /** 算法 ID，解压层为 gunzip / zlib */
+  id: string;
+  /** 显示名称 */
+  name: string;
+}
+
+/**
+ * 自动识别得到的一条解码链
+ */
+export interface MagicResult {
+  /** 依次执行的解码步骤 */
+  steps: MagicStep[];
+  /** 最后一层解码得到的字节 */
+  bytes: Uint8Array;
+  /** 可信度得分（0 - 100） */
+  score: number;
+  /** 可打印字符占比（0 - 1） */
+  printableRatio: number;
+  /** 识别出的内容类型，如 JSON、PNG */
+  contentType?: string;
 }
 
 /**
@@ -64,10 +178,26 @@ export interface Algorithm {
   requiresKey: boolean;
   /** 密钥提示文字 */
   keyPlaceholder?: string;
-  /** 编码/加密函数 */
-  encode: (input: string, options?: AlgorithmOptions) => ProcessResult;
+  /** 编码方向的操作名称，默认为“编码/加密” */
+  encodeLabel?: string;
+  /** 解码方向的操作名称，默认为“解码/解密” */
+  decodeLabel?: string;
+  /** 编码/加密函数，基于 Web Crypto API 的算法可返回 Promise */
+  encode: (input: CryptoData, options?: AlgorithmOptions) => ProcessResult | Promise<ProcessResult>;
   /** 解码/解密函数（可选） */
-  decode?: (input: string, options?: AlgorithmOptions) => ProcessResult;
+  decode?: (input: string, options?: AlgorithmOptions) => ProcessResult | Promise<ProcessResult>;
+  /** 自动识别时的快速预判（可选），返回 false 则跳过该算法，未提供时总会尝试解码 */
+  detect?: (input: string) => boolean;
+  /** 校验函数（可选），output 为计算出的签名 */
+  verify?: (
+    input: CryptoData,
+    signature: string,
+    options?: AlgorithmOptions
+  ) => VerifyResult | Promise<VerifyResult>;
+  /** 生成密钥对（可选，非对称算法用） */
+  generateKeyPair?: (format: KeyExportFormat) => Promise<KeyPair>;
+  /** 转换密钥格式（可选，非对称算法用），失败时抛出错误 */
+  convertKey?: (key: string, format: KeyExportFormat) => Promise<string>;
 }
 
 /**
@@ -96,3 +226,68 @@ export interface CryptoToolState {
   /** 输出格式 */
   outputFormat: 'hex' | 'base64';
 }
+
+/**
+ * 可分享的工具状态（不含密钥）
+ */
+export interface CryptoShareState {
+  /** 算法 ID */
+  algorithm: string;
+  /** 操作方向 */
+  direction: OperationDirection;
+  /** 输入文本 */
+  input: string;
+  /** 输入文本的解析方式（文件不参与分享） */
+  inputFormat?: Exclude<InputFormat, 'file'>;
+  /** 输出格式 */
+  outputFormat: 'hex' | 'base64';
+  /** 密钥格式（密钥本身不参与分享） */
+  keyFormat?: KeyFormat;
+  /** AES 参数 */
+  aes?: Partial<AesParams>;
+}
+
+/**
+ * 文件哈希支持的算法
+ */
+export type FileHashAlgorithm = 'md5' | 'sha1' | 'sha256' | 'crc32';
+
+/**
+ * 单个文件的哈希结果（算法 ID → 十六进制摘要）
+ */
+export type FileDigests = Partial<Record<FileHashAlgorithm, string>>;
+
+/**
+ * 校验文件（如 SHA256SUMS）中的一条记录
+ */
+export interface ChecksumEntry {
+  /** 文件名 */
+  fileName: string;
+  /** 期望的十六进制摘要（小写） */
+  digest: string;
+  /** 摘要对应的算法，按 BSD 标签或摘要长度推断 */
+  algorithm: FileHashAlgorithm;
+}
+
+/**
+ * 校验状态：一致 / 不一致 / 未提供对应文件
+ */
+export type ChecksumStatus = 'match' | 'mismatch' | 'missing';
+
+/**
+ * 发送给文件哈希 Worker 的任务
+ */
+export interface FileHashRequest {
+  /** 任务 ID，用于对应进度和结果 */
+  id: number;
+  file: File;
+  algorithms: FileHashAlgorithm[];
+}
+
+/**
+ * 文件哈希 Worker 返回的消息
+ */
+export type FileHashResponse =
+  | { type: 'progress'; id: number; loaded: number }
+  | { type: 'done'; id: number; digests: FileDigests }
+  | { type: 'error'; id: number; error: string };
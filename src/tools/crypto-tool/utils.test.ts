@@ -0,0 +1,390 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { algorithms, processDecode, processEncode, processVerify } from './utils';
+
+/** RFC 1321 附录 A.5 测试向量 */
+const MD5_VECTORS: [string, string][] = [
+  ['', 'd41d8cd98f00b204e9800998ecf8427e'],
+  ['a', '0cc175b9c0f1b6a831c399e269772661'],
+  ['abc', '900150983cd24fb0d6963f7d28e17f72'],
+  ['message digest', 'f96b697d7cb7938d525a2f31aaf161d0'],
+  ['abcdefghijklmnopqrstuvwxyz', 'c3fcd3d76192e4007dfb496cca67e13b'],
+  [
+    'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789',
+    'd174ab98d277d9f5a5611c2c9f419d9f',
+  ],
+  [
+    '12345678901234567890123456789012345678901234567890123456789012345678901234567890',
+    '57edf4a22be3c955ac49da2e2107b67a',
+  ],
+];
+
+/** FIPS 180 示例（"abc" 与 448 位消息）及 UTF-8 输入 */
+const SHA_VECTORS: { input: string; sha1: string; sha256: string; sha512: string }[] = [
+  {
+    input: 'abc',
+    sha1: 'a9993e364706816aba3e25717850c26c9cd0d89d',
+    sha256: 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+    sha512:
+      'ddaf35a193617abacc417349ae20413112e6fa4e89a97ea20a9eeee64b55d39a2192992a274fc1a836ba3c23a3feebbd454d4423643ce80e2a9ac94fa54ca49f',
+  },
+  {
+    input: 'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq',
+    sha1: '84983e441c3bd26ebaae4aa1f95129e5e54670f1',
+    sha256: '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1',
+    sha512:
+      '204a8fc6dda82f0a0ced7beb8e08a41657c16ef468b228a8279be331a703c33596fd15c13b1b07f9aa1d3bea57789ca031ad85c7a71dd70354ec631238ca3445',
+  },
+  {
+    input: '中文',
+    sha1: '7be2d2d20c106eee0836c9bc2b939890a78e8fb3',
+    sha256: '72726d8818f693066ceb69afa364218b692e62ea92b385782363780f47529c21',
+    sha512:
+      '8b88efc2ebbcbdad5ac2d65af05bec57bda25e71fd5fb25bbd892057a2755fbd05d8d8491cb2946febd5b0f124ffdfbaecf7e34946353c4f1b5ab29545895468',
+  },
+];
+
+/** 扩展哈希算法的已发布测试向量（"abc" 与空字符串） */
+const EXTENDED_HASH_VECTORS: [string, string, string][] = [
+  ['sha224', 'abc', '23097d223405d8228642a477bda255b32aadbce4bda0b3f7e36c9da7'],
+  [
+    'sha384',
+    'abc',
+    'cb00753f45a35e8bb5a03d699ac65007272c32ab0eded1631a8b605a43ff5bed8086072ba1e7cc2358baeca134c825a7',
+  ],
+  ['sha512-256', 'abc', '53048e2681941ef99b2e29b76b4c7dabe4c2d0c634fc6d46e0e2f13107e7af23'],
+  ['sha3-256', 'abc', '3a985da74fe225b2045c172d6bd390bd855f086e3e9d525b46bfe24511431532'],
+  ['sha3-256', '', 'a7ffc6f8bf1ed76651c14756a061d662f580ff4de43b49fa82d80a4b80f8434a'],
+  [
+    'sha3-512',
+    'abc',
+    'b751850b1a57168a5693cd924b6b096e08f621827444f70d884f5d0240d2712e10e116e9192af3c91a7ec57647e3934057340b4cf408d5a56592f8274eec53f0',
+  ],
+  ['keccak256', '', 'c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470'],
+  ['keccak256', 'abc', '4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45'],
+  [
+    'blake2b',
+    'abc',
+    'ba80a53f981c4d0d6a2797b69f12f6e94c212f14685ac4b74b12bb6fdbffa2d17d87c5392aab792dc252d5de4533cc9518d38aa8dbf1925ab92386edd4009923',
+  ],
+  ['blake2s', 'abc', '508c5e8c327c14e2e1a72ba34eeb452f37458b209ed63a294d999b4c86675982'],
+  ['blake3', '', 'af1349b9f5f9a1a6a0404dea36dcc9499bcb25c9adc112b7cc9a93cae41f3262'],
+  ['ripemd160', '', '9c1185a5c5e9fc54612808977ee8f548b2258d31'],
+  ['ripemd160', 'abc', '8eb208f7e05d987a9b044a8e98c6b087f15a0bfc'],
+  ['crc32', '123456789', 'cbf43926'],
+  ['crc32c', '123456789', 'e3069283'],
+  ['adler32', 'Wikipedia', '11e60398'],
+  ['xxh32', 'abc', '32d153ff'],
+  ['xxh64', 'abc', '44bc2cf5ad770999'],
+];
+
+/** RFC 2202（MD5 / SHA-1）与 RFC 4231（SHA-256 / SHA-512）测试用例 2 */
+const HMAC_VECTORS: [string, string][] = [
+  ['hmac-md5', '750c783e6ab0b503eaa86e310a5db738'],
+  ['hmac-sha1', 'effcdf6ae5eb2fa2d27416d5f184df9c259a7c79'],
+  ['hmac-sha256', '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843'],
+  [
+    'hmac-sha512',
+    '164b7a7bfcf819e2e395fbe73b56e0a387bd64222e831fd610270cd7ea2505549758bf75c05a994a6d034f65f8f0e6fdcaeab1a34d4a6b4b636e070a38bce737',
+  ],
+];
+
+/** RFC 4648 第 10 节测试向量 */
+const BASE64_VECTORS: [string, string][] = [
+  ['', ''],
+  ['f', 'Zg=='],
+  ['fo', 'Zm8='],
+  ['foo', 'Zm9v'],
+  ['foob', 'Zm9vYg=='],
+  ['fooba', 'Zm9vYmE='],
+  ['foobar', 'Zm9vYmFy'],
+];
+
+describe('md5', () => {
+  it.each(MD5_VECTORS)('md5(%j)', async (input, expected) => {
+    expect(await algorithms.md5.encode(input)).toEqual({ success: true, output: expected });
+  });
+
+  it('按 UTF-8 编码处理中文', async () => {
+    expect(await algorithms.md5.encode('中文')).toMatchObject({
+      output: 'a7bac2239fcdcb3a067903d8077c4a07',
+    });
+  });
+});
+
+describe('sha', () => {
+  it.each(SHA_VECTORS)('sha($input)', async ({ input, sha1, sha256, sha512 }) => {
+    expect((await processEncode('sha1', input)).output).toBe(sha1);
+    expect((await processEncode('sha256', input)).output).toBe(sha256);
+    expect((await processEncode('sha512', input)).output).toBe(sha512);
+  });
+
+  it('支持 Base64 输出', async () => {
+    const result = await processEncode('sha256', 'abc', { outputFormat: 'base64' });
+    expect(result.output).toBe('ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=');
+  });
+});
+
+describe('扩展哈希', () => {
+  it.each(EXTENDED_HASH_VECTORS)('%s(%j)', async (id, input, expected) => {
+    expect(await algorithms[id].encode(input)).toEqual({ success: true, output: expected });
+  });
+
+  it.each(Object.values(algorithms).filter((algorithm) => algorithm.category === 'hash'))(
+    '$name 的 Base64 输出与 Hex 为同一摘要',
+    async (algorithm) => {
+      const hex = (await algorithm.encode('abc', { outputFormat: 'hex' })).output;
+      const base64 = (await algorithm.encode('abc', { outputFormat: 'base64' })).output;
+      const decoded = Array.from(atob(base64), (c) => c.charCodeAt(0).toString(16).padStart(2, '0'));
+      expect(decoded.join('')).toBe(hex);
+    }
+  );
+});
+
+describe('hmac', () => {
+  it.each(HMAC_VECTORS)('%s', async (id, expected) => {
+    expect(
+      await processEncode(id, 'what do ya want for nothing?', { key: 'Jefe' })
+    ).toEqual({ success: true, output: expected });
+  });
+
+  it('支持十六进制和 Base64 密钥', async () => {
+    // RFC 4231 测试用例 1：20 字节 0x0b 密钥
+    const expected = 'b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7';
+    const hexKey = '0b'.repeat(20);
+    expect(
+      (await processEncode('hmac-sha256', 'Hi There', { key: hexKey, keyFormat: 'hex' })).output
+    ).toBe(expected);
+    expect(
+      (
+        await processEncode('hmac-sha256', 'Hi There', {
+          key: btoa('\x0b'.repeat(20)),
+          keyFormat: 'base64',
+        })
+      ).output
+    ).toBe(expected);
+  });
+
+  it('拒绝无效的十六进制密钥', async () => {
+    expect(
+      await processEncode('hmac-sha256', 'x', { key: 'xyz', keyFormat: 'hex' })
+    ).toMatchObject({ success: false, error: '密钥不是有效的十六进制' });
+  });
+
+  it('缺少密钥时报错', async () => {
+    expect((await processEncode('hmac-sha256', 'x')).error).toBe('请输入密钥');
+  });
+});
+
+describe('processVerify', () => {
+  const signature = '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843';
+  const message = 'what do ya want for nothing?';
+
+  it.each([
+    signature,
+    signature.toUpperCase(),
+    `sha256=${signature}`,
+    'W9zBRr9gdU5qBCQmCJV1x1oAPwidJzmDnexYuWTsOEM=',
+    'W9zBRr9gdU5qBCQmCJV1x1oAPwidJzmDnexYuWTsOEM',
+  ])('签名 %s 匹配', async (value) => {
+    expect(await processVerify('hmac-sha256', message, value, { key: 'Jefe' })).toEqual({
+      success: true,
+      output: signature,
+      match: true,
+    });
+  });
+
+  it('密钥错误时不匹配', async () => {
+    const result = await processVerify('hmac-sha256', message, signature, { key: 'jefe' });
+    expect(result).toMatchObject({ success: true, match: false });
+    expect(result.output).not.toBe(signature);
+  });
+
+  it('签名长度不同时不匹配', async () => {
+    expect(
+      await processVerify('hmac-sha256', message, signature.slice(0, 40), { key: 'Jefe' })
+    ).toMatchObject({ success: true, match: false });
+  });
+
+  it('拒绝无法解析的签名', async () => {
+    expect(
+      await processVerify('hmac-sha256', message, '不是签名', { key: 'Jefe' })
+    ).toMatchObject({ success: false, match: false, error: '签名格式无效，应为十六进制或 Base64' });
+  });
+
+  it('缺少签名时报错', async () => {
+    expect((await processVerify('hmac-sha256', message, ' ', { key: 'Jefe' })).error).toBe(
+      '请输入要校验的签名'
+    );
+  });
+
+  it('不支持校验的算法', async () => {
+    expect((await processVerify('sha256', message, signature)).error).toBe('该算法不支持校验');
+  });
+});
+
+describe('base64', () => {
+  it.each(BASE64_VECTORS)('encode(%j)', async (input, expected) => {
+    expect((await algorithms.base64.encode(input)).output).toBe(expected);
+  });
+
+  it.each(BASE64_VECTORS.filter(([input]) => input))('decode(%j)', async (expected, encoded) => {
+    expect((await processDecode('base64', encoded)).output).toBe(expected);
+  });
+
+  it('往返保留 Unicode', async () => {
+    const encoded = await processEncode('base64', '你好，🌍');
+    expect(encoded.output).toBe('5L2g5aW977yM8J+MjQ==');
+    expect((await processDecode('base64', encoded.output)).output).toBe('你好，🌍');
+  });
+
+  it('拒绝非法字符', async () => {
+    expect((await processDecode('base64', '不是 base64')).success).toBe(false);
+  });
+});
+
+describe('hex', () => {
+  it('编码为空格分隔的小写十六进制', async () => {
+    expect((await processEncode('hex', 'Hi!')).output).toBe('48 69 21');
+  });
+
+  it.each(['48 69 21', '486921', '48:69:21', '48-69-21', '48,69;21'])(
+    'decode(%j) 忽略分隔符',
+    async (input) => {
+      expect(await processDecode('hex', input)).toEqual({
+        success: true,
+        output: 'Hi!',
+        bytes: new Uint8Array([0x48, 0x69, 0x21]),
+      });
+    }
+  );
+
+  it('解码 UTF-8 字节', async () => {
+    expect((await processDecode('hex', 'e4 b8 ad e6 96 87')).output).toBe('中文');
+  });
+
+  it('拒绝非十六进制字符', async () => {
+    expect(await processDecode('hex', '4g')).toMatchObject({
+      success: false,
+      error: '无效的十六进制字符',
+    });
+  });
+
+  it('拒绝奇数长度', async () => {
+    expect(await processDecode('hex', 'abc')).toMatchObject({
+      success: false,
+      error: '十六进制字符串长度必须为偶数',
+    });
+  });
+});
+
+describe('url / html', () => {
+  it('URL 编码往返', async () => {
+    const encoded = await processEncode('url', 'a b&c=中');
+    expect(encoded.output).toBe('a%20b%26c%3D%E4%B8%AD');
+    expect((await processDecode('url', encoded.output)).output).toBe('a b&c=中');
+  });
+
+  it('URL 编码按字节处理非 UTF-8 数据', async () => {
+    const bytes = new Uint8Array([0xff, 0x00, 0x41]);
+    const encoded = await processEncode('url', bytes);
+    expect(encoded.output).toBe('%FF%00A');
+    expect((await processDecode('url', encoded.output)).bytes).toEqual(bytes);
+    expect((await processDecode('url', '100%')).error).toBe('无效的 URL 编码字符串');
+  });
+
+  it('HTML 实体往返', async () => {
+    const encoded = await processEncode('html', `<a href="x">'&'</a>`);
+    expect(encoded.output).toBe('&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;');
+    expect((await processDecode('html', encoded.output)).output).toBe(`<a href="x">'&'</a>`);
+  });
+});
+
+describe('aes', () => {
+  it('使用相同密钥可以解密', async () => {
+    const encrypted = await processEncode('aes', '机密内容', { key: 'secret' });
+    expect(encrypted.success).toBe(true);
+    expect((await processDecode('aes', encrypted.output, { key: 'secret' })).output).toBe(
+      '机密内容'
+    );
+  });
+
+  it('密钥错误时解密失败', async () => {
+    const encrypted = await processEncode('aes', '机密内容', { key: 'secret' });
+    expect((await processDecode('aes', encrypted.output, { key: 'wrong' })).success).toBe(false);
+  });
+
+  it('缺少密钥时报错', async () => {
+    expect(await processEncode('aes', 'x')).toMatchObject({ success: false, error: '请输入密钥' });
+  });
+});
+
+describe('二进制数据', () => {
+  /** 不是合法 UTF-8 的字节，经过 TextDecoder 会变成替换字符 */
+  const binary = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff, 0xfe, 0x80]);
+
+  it.each(['base64', 'hex', 'base32', 'base58', 'ascii85', 'uuencode'])(
+    '%s 解码返回原始字节',
+    async (id) => {
+      const encoded = await processEncode(id, binary);
+      const decoded = await processDecode(id, encoded.output);
+      expect(decoded.bytes).toEqual(binary);
+      expect(decoded.output).toContain('\uFFFD');
+    }
+  );
+
+  it('AES 加解密二进制数据', async () => {
+    const encrypted = await processEncode('aes', binary, { key: 'secret' });
+    expect((await processDecode('aes', encrypted.output, { key: 'secret' })).bytes).toEqual(
+      binary
+    );
+  });
+
+  it('哈希按原始字节计算', async () => {
+    // printf '\x89PNG\x00\xff\xfe\x80' | md5sum
+    expect((await processEncode('md5', binary)).output).toBe('20dad0158f3a4d72dc2c5eda27f34468');
+    expect((await processEncode('sha256', new Uint8Array(0))).error).toBe('请输入内容');
+  });
+});
+
+describe('processEncode / processDecode', () => {
+  it('拒绝未知算法', async () => {
+    expect((await processEncode('rot13', 'x')).error).toBe('未知的算法');
+  });
+
+  it('拒绝空输入', async () => {
+    expect((await processEncode('base64', '  ')).error).toBe('请输入内容');
+  });
+
+  it('哈希算法不支持解码', async () => {
+    expect((await processDecode('md5', 'x')).error).toBe('该算法不支持解码');
+  });
+});
+
+describe('算法注册', () => {
+  afterEach(() => {
+    delete algorithms.reverse;
+  });
+
+  it('异步算法的 encode 直接返回结果', async () => {
+    expect(await algorithms.sha256.encode('abc')).toEqual({
+      success: true,
+      output: 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+    });
+  });
+
+  it('新注册的异步算法无需修改分发函数', async () => {
+    algorithms.reverse = {
+      id: 'reverse',
+      name: 'Reverse',
+      description: '',
+      category: 'encoding',
+      supportsDecode: true,
+      requiresKey: false,
+      encode: async (input) => ({ success: true, output: [...input].reverse().join('') }),
+      decode: async (input) => ({ success: true, output: [...input].reverse().join('') }),
+    };
+
+    expect((await processEncode('reverse', 'abc')).output).toBe('cba');
+    expect((await processDecode('reverse', 'cba')).output).toBe('abc');
+  });
+});
@@ -9,21 +9,65 @@ import type {
   AlgorithmCategoryInfo,
   AlgorithmOptions,
   AlgorithmRegistry,
+  AesParams,
+  CryptoData,
+  KeyFormat,
   ProcessResult,
+  VerifyResult,
 } from './types';
+import { sha224, sha512_256 } from '@noble/hashes/sha2.js';
+import { keccak_256, sha3_256, sha3_512 } from '@noble/hashes/sha3.js';
+import { blake2b, blake2s } from '@noble/hashes/blake2.js';
+import { blake3 } from '@noble/hashes/blake3.js';
+import { md5 as nobleMd5, ripemd160 } from '@noble/hashes/legacy.js';
+import { hmac } from '@noble/hashes/hmac.js';
+import { t } from './locales';
+import { adler32, crc32, crc32c, xxh32, xxh64 } from './checksums';
+import {
+  decryptAes,
+  decryptLegacyAes,
+  encryptAes,
+  hasSaltHeader,
+  resolveAesParams,
+  type AesSecret,
+} from './aes';
+import {
+  convertKey,
+  generateKeyPair,
+  rsaDecrypt,
+  rsaEncrypt,
+  sign,
+  verify,
+  x25519Agree,
+} from './asymmetric';
+import {
+  ascii85Decode,
+  ascii85Encode,
+  base32Decode,
+  base32Encode,
+  base58CheckDecode,
+  base58CheckEncode,
+  base58Decode,
+  base58Encode,
+  base64UrlDecode,
+  base64UrlEncode,
+  domainToAscii,
+  domainToUnicode,
+  escapeUnicode,
+  quotedPrintableDecode,
+  quotedPrintableEncode,
+  unescapeUnicode,
+  uudecode,
+  uuencode,
+  z85Decode,
+  z85Encode,
+} from './encodings';
+import { parseInputBytes, toBytes, toText } from './bytes';
 
 // ============================================================================
 // 辅助函数
 // ============================================================================
 
-/**
- * 字符串转 ArrayBuffer
- */
-function stringToArrayBuffer(str: string): ArrayBuffer {
-  const encoder = new TextEncoder();
-  return encoder.encode(str).buffer;
-}
-
 /**
  * ArrayBuffer 转十六进制字符串
  */
@@ -68,33 +112,6 @@ function base64ToArrayBuffer(base64: string): ArrayBuffer {
   return bytes.buffer;
 }
 
-/**
- * 生成密钥（用于 AES）
- */
-async function deriveKey(password: string): Promise<CryptoKey> {
-  const encoder = new TextEncoder();
-  const keyMaterial = await crypto.subtle.importKey(
-    'raw',
-    encoder.encode(password),
-    'PBKDF2',
-    false,
-    ['deriveKey']
-  );
-
-  return crypto.subtle.deriveKey(
-    {
-      name: 'PBKDF2',
-      salt: encoder.encode('just-tools-salt'),
-      iterations: 100000,
-      hash: 'SHA-256',
-    },
-    keyMaterial,
-    { name: 'AES-GCM', length: 256 },
-    false,
-    ['encrypt', 'decrypt']
-  );
-}
-
 // ============================================================================
 // 哈希算法
 // ============================================================================
@@ -103,19 +120,42 @@ async function deriveKey(password: string): Promise<CryptoKey> {
  * 计算哈希值
  */
 async function computeHash(
-  input: string,
-  algorithm: 'MD5' | 'SHA-1' | 'SHA-256' | 'SHA-512',
+  input: CryptoData,
+  algorithm: 'MD5' | 'SHA-1' | 'SHA-256' | 'SHA-384' | 'SHA-512',
   outputFormat: 'hex' | 'base64' = 'hex'
 ): Promise<ProcessResult> {
   try {
-    if (algorithm === 'MD5') {
-      // MD5 不在 Web Crypto API 中，使用纯 JS 实现
-      const hash = md5(input);
-      return { success: true, output: hash };
-    }
+    const hashBuffer =
+      algorithm === 'MD5'
+        ? // MD5 不在 Web Crypto API 中，使用纯 JS 实现
+          hexToArrayBuffer(md5(toBytes(input)))
+        : await crypto.subtle.digest(algorithm, toBytes(input));
+    const output =
+      outputFormat === 'hex'
+        ? arrayBufferToHex(hashBuffer)
+        : arrayBufferToBase64(hashBuffer);
 
-    const buffer = stringToArrayBuffer(input);
-    const hashBuffer = await crypto.subtle.digest(algorithm, buffer);
+    return { success: true, output };
+  } catch (error) {
+    return {
+      success: false,
+      output: '',
+      error: error instanceof Error ? error.message : t('error.hashFailed'),
+    };
+  }
+}
+
+/**
+ * 计算纯 JS 实现的哈希值（Web Crypto API 不支持的算法）
+ * @param digest - 接收 UTF-8 字节、返回摘要字节的哈希函数
+ */
+function computeDigest(
+  input: CryptoData,
+  digest: (data: Uint8Array) => Uint8Array,
+  outputFormat: 'hex' | 'base64' = 'hex'
+): ProcessResult {
+  try {
+    const hashBuffer = digest(toBytes(input)).slice().buffer;
     const output =
       outputFormat === 'hex'
         ? arrayBufferToHex(hashBuffer)
@@ -126,7 +166,7 @@ async function computeHash(
     return {
       success: false,
       output: '',
-      error: error instanceof Error ? error.message : '哈希计算失败',
+      error: error instanceof Error ? error.message : t('error.hashFailed'),
     };
   }
 }
@@ -134,7 +174,7 @@ async function computeHash(
 /**
  * MD5 纯 JavaScript 实现
  */
-function md5(string: string): string {
+function md5(bytes: Uint8Array): string {
   function rotateLeft(value: number, shift: number): number {
     return (value << shift) | (value >>> (32 - shift));
   }
@@ -210,9 +250,9 @@ function md5(string: string): string {
     return addUnsigned(rotateLeft(a, s), b);
   }
 
-  function convertToWordArray(str: string): number[] {
+  function convertToWordArray(bytes: Uint8Array): number[] {
     let lWordCount: number;
-    const lMessageLength = str.length;
+    const lMessageLength = bytes.length;
     const lNumberOfWordsTemp1 = lMessageLength + 8;
     const lNumberOfWordsTemp2 =
       (lNumberOfWordsTemp1 - (lNumberOfWordsTemp1 % 64)) / 64;
@@ -224,7 +264,7 @@ function md5(string: string): string {
       lWordCount = (lByteCount - (lByteCount % 4)) / 4;
       lBytePosition = (lByteCount % 4) * 8;
       lWordArray[lWordCount] =
-        lWordArray[lWordCount] | (str.charCodeAt(lByteCount) << lBytePosition);
+        lWordArray[lWordCount] | (bytes[lByteCount] << lBytePosition);
       lByteCount++;
     }
     lWordCount = (lByteCount - (lByteCount % 4)) / 4;
@@ -244,7 +284,7 @@ function md5(string: string): string {
     return hex;
   }
 
-  const x = convertToWordArray(string);
+  const x = convertToWordArray(bytes);
   let a = 0x67452301;
   let b = 0xefcdab89;
   let c = 0x98badcfe;
@@ -348,88 +388,229 @@ function md5(string: string): string {
 }
 
 // ============================================================================
-// 编码算法
+// 消息认证码 (HMAC)
 // ============================================================================
 
+export type HmacHash = 'MD5' | 'SHA-1' | 'SHA-256' | 'SHA-512';
+
 /**
- * Base64 编码
+ * 按格式解析密钥
+ */
+function parseKey(key: string, keyFormat: KeyFormat = 'text'): Uint8Array<ArrayBuffer> {
+  if (keyFormat === 'hex') {
+    const cleanHex = key.replace(/[\s:]/g, '');
+    if (!/^([0-9a-fA-F]{2})+$/.test(cleanHex)) {
+      throw new Error(t('error.invalidHexKey'));
+    }
+    return new Uint8Array(hexToArrayBuffer(cleanHex));
+  }
+
+  if (keyFormat === 'base64') {
+    try {
+      return new Uint8Array(base64ToArrayBuffer(key.trim()));
+    } catch {
+      throw new Error(t('error.invalidBase64Key'));
+    }
+  }
+
+  return new TextEncoder().encode(key);
+}
+
+/**
+ * 用原始密钥字节计算 HMAC（其他工具如 TOTP 也复用）
+ * Web Crypto API 不支持 MD5，HMAC-MD5 使用纯 JS 实现
+ */
+export async function hmacRaw(
+  keyBytes: Uint8Array<ArrayBuffer>,
+  data: Uint8Array<ArrayBuffer>,
+  hash: HmacHash
+): Promise<Uint8Array> {
+  if (hash === 'MD5') {
+    return hmac(nobleMd5, keyBytes, data);
+  }
+
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    keyBytes,
+    { name: 'HMAC', hash },
+    false,
+    ['sign']
+  );
+  return new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, data));
+}
+
+/**
+ * 计算 HMAC 原始字节
  */
-function base64Encode(input: string): ProcessResult {
+async function hmacDigest(
+  input: CryptoData,
+  hash: HmacHash,
+  options?: AlgorithmOptions
+): Promise<Uint8Array> {
+  return hmacRaw(parseKey(options?.key ?? '', options?.keyFormat), toBytes(input), hash);
+}
+
+/**
+ * 计算 HMAC
+ */
+async function computeHmac(
+  input: CryptoData,
+  hash: HmacHash,
+  options?: AlgorithmOptions
+): Promise<ProcessResult> {
   try {
-    // 使用 TextEncoder 处理 Unicode
-    const encoder = new TextEncoder();
-    const bytes = encoder.encode(input);
-    let binary = '';
-    bytes.forEach((b) => (binary += String.fromCharCode(b)));
-    const output = btoa(binary);
+    const hashBuffer = (await hmacDigest(input, hash, options)).slice().buffer;
+    const output =
+      options?.outputFormat === 'base64'
+        ? arrayBufferToBase64(hashBuffer)
+        : arrayBufferToHex(hashBuffer);
+
     return { success: true, output };
   } catch (error) {
     return {
       success: false,
       output: '',
-      error: error instanceof Error ? error.message : 'Base64 编码失败',
+      error: error instanceof Error ? error.message : t('error.hmacFailed'),
     };
   }
 }
 
 /**
- * Base64 解码
+ * 解析待校验的签名
+ * 支持十六进制和 Base64（含 URL 安全变体），
+ * 并去掉 Webhook 常见的前缀（如 GitHub 的 "sha256="、Slack 的 "v0="、Stripe 的 "v1="）
+ * @param signature - 签名字符串
+ * @param length - 摘要字节数，用于区分十六进制和 Base64
  */
-function base64Decode(input: string): ProcessResult {
+function parseSignature(signature: string, length: number): Uint8Array | null {
+  const value = signature.trim().replace(/^[a-z0-9-]+=(?=[^=])/i, '');
+
+  if (value.length === length * 2 && /^[0-9a-fA-F]+$/.test(value)) {
+    return new Uint8Array(hexToArrayBuffer(value));
+  }
+
+  try {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    return new Uint8Array(base64ToArrayBuffer(base64));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 常量时间比较，耗时与两者相同前缀的长度无关，避免时序攻击
+ */
+export function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
+/**
+ * 校验 HMAC 签名
+ */
+async function verifyHmac(
+  input: CryptoData,
+  signature: string,
+  hash: HmacHash,
+  options?: AlgorithmOptions
+): Promise<VerifyResult> {
   try {
-    const binary = atob(input.trim());
-    const bytes = new Uint8Array(binary.length);
-    for (let i = 0; i < binary.length; i++) {
-      bytes[i] = binary.charCodeAt(i);
+    const digest = await hmacDigest(input, hash, options);
+    const expected = parseSignature(signature, digest.length);
+    if (!expected) {
+      return { success: false, output: '', match: false, error: t('error.invalidSignature') };
     }
-    const decoder = new TextDecoder();
-    const output = decoder.decode(bytes);
-    return { success: true, output };
+
+    const hashBuffer = digest.slice().buffer;
+    const output =
+      options?.outputFormat === 'base64'
+        ? arrayBufferToBase64(hashBuffer)
+        : arrayBufferToHex(hashBuffer);
+
+    return { success: true, output, match: constantTimeEqual(digest, expected) };
   } catch (error) {
     return {
       success: false,
       output: '',
-      error: '无效的 Base64 字符串',
+      match: false,
+      error: error instanceof Error ? error.message : t('error.hmacFailed'),
     };
   }
 }
 
+// ============================================================================
+// 编码算法
+// ============================================================================
+
 /**
- * URL 编码
+ * Base64 编码
  */
-function urlEncode(input: string): ProcessResult {
+function base64Encode(input: CryptoData): ProcessResult {
   try {
-    const output = encodeURIComponent(input);
+    const bytes = toBytes(input);
+    let binary = '';
+    bytes.forEach((b) => (binary += String.fromCharCode(b)));
+    const output = btoa(binary);
     return { success: true, output };
   } catch (error) {
     return {
       success: false,
       output: '',
-      error: error instanceof Error ? error.message : 'URL 编码失败',
+      error: error instanceof Error ? error.message : t('error.base64EncodeFailed'),
     };
   }
 }
 
+/**
+ * Base64 解码
+ */
+function base64Decode(input: string): ProcessResult {
+  return decodeBytes(input, (text) => parseInputBytes(text, 'base64'));
+}
+
+/**
+ * URL 编码
+ */
+function urlEncode(input: CryptoData): ProcessResult {
+  // 按字节编码，保留与 encodeURIComponent 相同的字符，非 UTF-8 数据也能无损编码
+  const output = Array.from(toBytes(input), (b) => {
+    const char = String.fromCharCode(b);
+    return /[A-Za-z0-9\-_.!~*'()]/.test(char)
+      ? char
+      : `%${b.toString(16).toUpperCase().padStart(2, '0')}`;
+  }).join('');
+  return { success: true, output };
+}
+
 /**
  * URL 解码
  */
 function urlDecode(input: string): ProcessResult {
-  try {
-    const output = decodeURIComponent(input.trim());
-    return { success: true, output };
-  } catch (error) {
-    return {
-      success: false,
-      output: '',
-      error: '无效的 URL 编码字符串',
-    };
-  }
+  return decodeBytes(input, (text) => {
+    const encoder = new TextEncoder();
+    const bytes: number[] = [];
+    // 奇数位置为 %XX 转义，其余为原样保留的字符
+    text.split(/(%[0-9a-fA-F]{2})/).forEach((part, index) => {
+      if (index % 2 === 1) {
+        bytes.push(parseInt(part.slice(1), 16));
+      } else if (part.includes('%')) {
+        throw new Error(t('error.invalidUrlEncoding'));
+      } else {
+        bytes.push(...encoder.encode(part));
+      }
+    });
+    return new Uint8Array(bytes);
+  });
 }
 
 /**
  * HTML 实体编码
  */
-function htmlEncode(input: string): ProcessResult {
+function htmlEncode(input: CryptoData): ProcessResult {
   const map: Record<string, string> = {
     '&': '&amp;',
     '<': '&lt;',
@@ -437,7 +618,7 @@ function htmlEncode(input: string): ProcessResult {
     '"': '&quot;',
     "'": '&#39;',
   };
-  const output = input.replace(/[&<>"']/g, (char) => map[char]);
+  const output = toText(input).replace(/[&<>"']/g, (char) => map[char]);
   return { success: true, output };
 }
 
@@ -464,11 +645,9 @@ function htmlDecode(input: string): ProcessResult {
 /**
  * 十六进制编码
  */
-function hexEncode(input: string): ProcessResult {
+function hexEncode(input: CryptoData): ProcessResult {
   try {
-    const encoder = new TextEncoder();
-    const bytes = encoder.encode(input);
-    const output = Array.from(bytes)
+    const output = Array.from(toBytes(input))
       .map((b) => b.toString(16).padStart(2, '0'))
       .join(' ');
     return { success: true, output };
@@ -476,7 +655,7 @@ function hexEncode(input: string): ProcessResult {
     return {
       success: false,
       output: '',
-      error: error instanceof Error ? error.message : 'Hex 编码失败',
+      error: error instanceof Error ? error.message : t('error.hexEncodeFailed'),
     };
   }
 }
@@ -485,74 +664,114 @@ function hexEncode(input: string): ProcessResult {
  * 十六进制解码
  */
 function hexDecode(input: string): ProcessResult {
+  // 允许空格和其他分隔符
+  return decodeBytes(input, (text) => parseInputBytes(text, 'hex'));
+}
+
+/**
+ * 对输入的字节编码
+ */
+function encodeBytes(input: CryptoData, encode: (bytes: Uint8Array) => string): ProcessResult {
   try {
-    // 移除空格和其他分隔符
-    const cleanHex = input.replace(/[\s,;:-]/g, '');
-    if (!/^[0-9a-fA-F]*$/.test(cleanHex)) {
-      return { success: false, output: '', error: '无效的十六进制字符' };
-    }
-    if (cleanHex.length % 2 !== 0) {
-      return { success: false, output: '', error: '十六进制字符串长度必须为偶数' };
-    }
-    const bytes = new Uint8Array(cleanHex.length / 2);
-    for (let i = 0; i < bytes.length; i++) {
-      bytes[i] = parseInt(cleanHex.substr(i * 2, 2), 16);
-    }
-    const decoder = new TextDecoder();
-    const output = decoder.decode(bytes);
-    return { success: true, output };
+    return { success: true, output: encode(toBytes(input)) };
   } catch (error) {
-    return {
-      success: false,
-      output: '',
-      error: '十六进制解码失败',
-    };
+    return { success: false, output: '', error: errorMessage(error) };
   }
 }
 
+/**
+ * 解码为字节，同时按 UTF-8 转为文本
+ */
+function decodeBytes(input: string, decode: (text: string) => Uint8Array): ProcessResult {
+  try {
+    const bytes = decode(input.trim());
+    return { success: true, output: new TextDecoder().decode(bytes), bytes };
+  } catch (error) {
+    return { success: false, output: '', error: errorMessage(error) };
+  }
+}
+
+/**
+ * 文本到文本的转换
+ */
+function transformText(input: CryptoData, transform: (text: string) => string): ProcessResult {
+  try {
+    return { success: true, output: transform(toText(input)) };
+  } catch (error) {
+    return { success: false, output: '', error: errorMessage(error) };
+  }
+}
+
+/**
+ * 是否可能是 Base58：字母表内且不过长（解码为大数运算，长输入耗时明显）
+ */
+function isBase58Candidate(input: string): boolean {
+  return input.length <= 1024 && /^[1-9A-HJ-NP-Za-km-z]+$/.test(input);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
 // ============================================================================
 // 对称加密 (AES)
 // ============================================================================
 
+/**
+ * 解析 AES 的密钥选项：文本为口令，Hex / Base64 为原始密钥
+ */
+function getAesSecret(options: AlgorithmOptions): AesSecret {
+  const keyFormat = options.keyFormat ?? 'text';
+  if (keyFormat === 'text') {
+    return { password: options.key ?? '' };
+  }
+
+  const key = parseKey(options.key ?? '', keyFormat);
+  const iv = options.iv?.replace(/[\s:]/g, '');
+  if (!iv) return { key };
+  if (!/^([0-9a-fA-F]{2})+$/.test(iv)) {
+    throw new Error(t('error.invalidIv'));
+  }
+  return { key, iv: new Uint8Array(hexToArrayBuffer(iv)) };
+}
+
+/**
+ * 解析密文，自动识别十六进制和 Base64（允许换行，兼容 openssl -a 的分行输出）
+ */
+function parseCiphertext(input: string): Uint8Array<ArrayBuffer> {
+  const value = input.replace(/\s/g, '');
+  if (/^([0-9a-fA-F]{2})+$/.test(value)) {
+    return new Uint8Array(hexToArrayBuffer(value));
+  }
+  return new Uint8Array(base64ToArrayBuffer(value));
+}
+
 /**
  * AES 加密
  */
 async function aesEncrypt(
-  input: string,
+  input: CryptoData,
   options?: AlgorithmOptions
 ): Promise<ProcessResult> {
   try {
-    const key = options?.key;
-    if (!key) {
-      return { success: false, output: '', error: '请输入密钥' };
+    if (!options?.key) {
+      return { success: false, output: '', error: t('error.keyRequired') };
     }
 
-    const cryptoKey = await deriveKey(key);
-    const iv = crypto.getRandomValues(new Uint8Array(12));
-    const encoder = new TextEncoder();
-
-    const encrypted = await crypto.subtle.encrypt(
-      { name: 'AES-GCM', iv },
-      cryptoKey,
-      encoder.encode(input)
-    );
-
-    // 合并 IV 和密文
-    const combined = new Uint8Array(iv.length + encrypted.byteLength);
-    combined.set(iv);
-    combined.set(new Uint8Array(encrypted), iv.length);
+    const params = resolveAesParams(options.aes);
+    const encrypted = await encryptAes(toBytes(input), getAesSecret(options), params);
 
     const output =
-      options?.outputFormat === 'hex'
-        ? arrayBufferToHex(combined.buffer)
-        : arrayBufferToBase64(combined.buffer);
+      options.outputFormat === 'hex'
+        ? arrayBufferToHex(encrypted.slice().buffer)
+        : arrayBufferToBase64(encrypted.slice().buffer);
 
     return { success: true, output };
   } catch (error) {
     return {
       success: false,
       output: '',
-      error: error instanceof Error ? error.message : 'AES 加密失败',
+      error: error instanceof Error ? error.message : t('error.aesEncryptFailed'),
     };
   }
 }
@@ -564,44 +783,36 @@ async function aesDecrypt(
   input: string,
   options?: AlgorithmOptions
 ): Promise<ProcessResult> {
-  try {
-    const key = options?.key;
-    if (!key) {
-      return { success: false, output: '', error: '请输入密钥' };
-    }
-
-    // 解析输入（自动检测格式）
-    let combined: ArrayBuffer;
-    try {
-      // 尝试 Base64
-      combined = base64ToArrayBuffer(input.trim());
-    } catch {
-      // 尝试 Hex
-      combined = hexToArrayBuffer(input.trim());
-    }
-
-    const combinedArray = new Uint8Array(combined);
-    const iv = combinedArray.slice(0, 12);
-    const encrypted = combinedArray.slice(12);
-
-    const cryptoKey = await deriveKey(key);
-    const decrypted = await crypto.subtle.decrypt(
-      { name: 'AES-GCM', iv },
-      cryptoKey,
-      encrypted
-    );
-
-    const decoder = new TextDecoder();
-    const output = decoder.decode(decrypted);
+  if (!options?.key) {
+    return { success: false, output: '', error: t('error.keyRequired') };
+  }
 
-    return { success: true, output };
+  let params: AesParams;
+  let secret: AesSecret;
+  let data: Uint8Array<ArrayBuffer>;
+  try {
+    params = resolveAesParams(options.aes);
+    secret = getAesSecret(options);
+    data = parseCiphertext(input);
   } catch (error) {
     return {
       success: false,
       output: '',
-      error: '解密失败，请检查密钥和密文是否正确',
+      error: error instanceof Error ? error.message : t('error.aesDecryptFailed'),
     };
   }
+
+  try {
+    // 没有 "Salted__" 头的口令密文来自旧版本
+    const decrypted =
+      'password' in secret && !hasSaltHeader(data)
+        ? await decryptLegacyAes(data, secret.password)
+        : await decryptAes(data, secret, params);
+
+    return { success: true, output: new TextDecoder().decode(decrypted), bytes: decrypted };
+  } catch {
+    return { success: false, output: '', error: t('error.aesDecryptFailed') };
+  }
 }
 
 // ============================================================================
@@ -617,6 +828,11 @@ export const algorithmCategories: AlgorithmCategoryInfo[] = [
     name: '哈希算法',
     description: '单向散列，不可逆',
   },
+  {
+    id: 'mac',
+    name: '消息认证',
+    description: '基于密钥的哈希，用于校验消息来源',
+  },
   {
     id: 'encoding',
     name: '编码转换',
@@ -627,6 +843,11 @@ export const algorithmCategories: AlgorithmCategoryInfo[] = [
     name: '对称加密',
     description: '需要密钥的可逆加密',
   },
+  {
+    id: 'asymmetric',
+    name: '非对称加密',
+    description: '公钥 / 私钥签名、加密与密钥协商',
+  },
 ];
 
 /**
@@ -642,10 +863,7 @@ export const algorithms: AlgorithmRegistry = {
     category: 'hash',
     supportsDecode: false,
     requiresKey: false,
-    encode: (input) => {
-      const result = md5(input);
-      return { success: true, output: result };
-    },
+    encode: (input, options) => computeHash(input, 'MD5', options?.outputFormat || 'hex'),
   },
   sha1: {
     id: 'sha1',
@@ -654,14 +872,16 @@ export const algorithms: AlgorithmRegistry = {
     category: 'hash',
     supportsDecode: false,
     requiresKey: false,
-    encode: (input, options) => {
-      // 包装异步函数为同步返回
-      computeHash(input, 'SHA-1', options?.outputFormat || 'hex').then(() => {
-        // result processed async
-      });
-      // 由于需要同步返回，这里使用特殊处理
-      return { success: true, output: '', error: 'async' };
-    },
+    encode: (input, options) => computeHash(input, 'SHA-1', options?.outputFormat || 'hex'),
+  },
+  sha224: {
+    id: 'sha224',
+    name: 'SHA-224',
+    description: '224 位哈希值，SHA-256 的截断版本',
+    category: 'hash',
+    supportsDecode: false,
+    requiresKey: false,
+    encode: (input, options) => computeDigest(input, sha224, options?.outputFormat),
   },
   sha256: {
     id: 'sha256',
@@ -670,7 +890,16 @@ export const algorithms: AlgorithmRegistry = {
     category: 'hash',
     supportsDecode: false,
     requiresKey: false,
-    encode: () => ({ success: true, output: '', error: 'async' }),
+    encode: (input, options) => computeHash(input, 'SHA-256', options?.outputFormat || 'hex'),
+  },
+  sha384: {
+    id: 'sha384',
+    name: 'SHA-384',
+    description: '384 位哈希值，TLS 证书常用',
+    category: 'hash',
+    supportsDecode: false,
+    requiresKey: false,
+    encode: (input, options) => computeHash(input, 'SHA-384', options?.outputFormat || 'hex'),
   },
   sha512: {
     id: 'sha512',
@@ -679,7 +908,172 @@ export const algorithms: AlgorithmRegistry = {
     category: 'hash',
     supportsDecode: false,
     requiresKey: false,
-    encode: () => ({ success: true, output: '', error: 'async' }),
+    encode: (input, options) => computeHash(input, 'SHA-512', options?.outputFormat || 'hex'),
+  },
+  'sha512-256': {
+    id: 'sha512-256',
+    name: 'SHA-512/256',
+    description: '基于 SHA-512 截断的 256 位哈希值，64 位平台上比 SHA-256 更快',
+    category: 'hash',
+    supportsDecode: false,
+    requiresKey: false,
+    encode: (input, options) => computeDigest(input, sha512_256, options?.outputFormat),
+  },
+  'sha3-256': {
+    id: 'sha3-256',
+    name: 'SHA3-256',
+    description: 'SHA-3 标准（FIPS 202）256 位哈希值',
+    category: 'hash',
+    supportsDecode: false,
+    requiresKey: false,
+    encode: (input, options) => computeDigest(input, sha3_256, options?.outputFormat),
+  },
+  'sha3-512': {
+    id: 'sha3-512',
+    name: 'SHA3-512',
+    description: 'SHA-3 标准（FIPS 202）512 位哈希值',
+    category: 'hash',
+    supportsDecode: false,
+    requiresKey: false,
+    encode: (input, options) => computeDigest(input, sha3_512, options?.outputFormat),
+  },
+  keccak256: {
+    id: 'keccak256',
+    name: 'Keccak-256',
+    description: '以太坊使用的 Keccak 哈希（与 SHA3-256 填充不同）',
+    category: 'hash',
+    supportsDecode: false,
+    requiresKey: false,
+    encode: (input, options) => computeDigest(input, keccak_256, options?.outputFormat),
+  },
+  blake2b: {
+    id: 'blake2b',
+    name: 'BLAKE2b',
+    description: '512 位哈希值，速度快于 MD5 且安全',
+    category: 'hash',
+    supportsDecode: false,
+    requiresKey: false,
+    encode: (input, options) => computeDigest(input, blake2b, options?.outputFormat),
+  },
+  blake2s: {
+    id: 'blake2s',
+    name: 'BLAKE2s',
+    description: '256 位哈希值，适合 32 位平台',
+    category: 'hash',
+    supportsDecode: false,
+    requiresKey: false,
+    encode: (input, options) => computeDigest(input, blake2s, options?.outputFormat),
+  },
+  blake3: {
+    id: 'blake3',
+    name: 'BLAKE3',
+    description: '256 位哈希值，支持并行计算，速度极快',
+    category: 'hash',
+    supportsDecode: false,
+    requiresKey: false,
+    encode: (input, options) => computeDigest(input, blake3, options?.outputFormat),
+  },
+  ripemd160: {
+    id: 'ripemd160',
+    name: 'RIPEMD-160',
+    description: '160 位哈希值，比特币地址使用',
+    category: 'hash',
+    supportsDecode: false,
+    requiresKey: false,
+    encode: (input, options) => computeDigest(input, ripemd160, options?.outputFormat),
+  },
+
+  // 校验和（非加密，仅用于检测数据损坏）
+  crc32: {
+    id: 'crc32',
+    name: 'CRC32',
+    description: '32 位循环冗余校验，用于 ZIP、PNG 等文件校验',
+    category: 'hash',
+    supportsDecode: false,
+    requiresKey: false,
+    encode: (input, options) => computeDigest(input, crc32, options?.outputFormat),
+  },
+  crc32c: {
+    id: 'crc32c',
+    name: 'CRC32C',
+    description: 'Castagnoli 多项式的 CRC32，用于 iSCSI、ext4 等',
+    category: 'hash',
+    supportsDecode: false,
+    requiresKey: false,
+    encode: (input, options) => computeDigest(input, crc32c, options?.outputFormat),
+  },
+  adler32: {
+    id: 'adler32',
+    name: 'Adler-32',
+    description: 'zlib 使用的 32 位校验和',
+    category: 'hash',
+    supportsDecode: false,
+    requiresKey: false,
+    encode: (input, options) => computeDigest(input, adler32, options?.outputFormat),
+  },
+  xxh32: {
+    id: 'xxh32',
+    name: 'xxHash32',
+    description: '32 位非加密哈希，速度极快',
+    category: 'hash',
+    supportsDecode: false,
+    requiresKey: false,
+    encode: (input, options) => computeDigest(input, xxh32, options?.outputFormat),
+  },
+  xxh64: {
+    id: 'xxh64',
+    name: 'xxHash64',
+    description: '64 位非加密哈希，速度极快',
+    category: 'hash',
+    supportsDecode: false,
+    requiresKey: false,
+    encode: (input, options) => computeDigest(input, xxh64, options?.outputFormat),
+  },
+
+  // 消息认证码
+  'hmac-md5': {
+    id: 'hmac-md5',
+    name: 'HMAC-MD5',
+    description: '基于 MD5 的 HMAC，仅用于兼容旧系统',
+    category: 'mac',
+    supportsDecode: false,
+    requiresKey: true,
+    keyPlaceholder: '输入 HMAC 密钥...',
+    encode: (input, options) => computeHmac(input, 'MD5', options),
+    verify: (input, signature, options) => verifyHmac(input, signature, 'MD5', options),
+  },
+  'hmac-sha1': {
+    id: 'hmac-sha1',
+    name: 'HMAC-SHA-1',
+    description: '基于 SHA-1 的 HMAC，常见于旧版 Webhook 签名',
+    category: 'mac',
+    supportsDecode: false,
+    requiresKey: true,
+    keyPlaceholder: '输入 HMAC 密钥...',
+    encode: (input, options) => computeHmac(input, 'SHA-1', options),
+    verify: (input, signature, options) => verifyHmac(input, signature, 'SHA-1', options),
+  },
+  'hmac-sha256': {
+    id: 'hmac-sha256',
+    name: 'HMAC-SHA-256',
+    description: '基于 SHA-256 的 HMAC，GitHub、Stripe 等 Webhook 签名使用',
+    category: 'mac',
+    supportsDecode: false,
+    requiresKey: true,
+    keyPlaceholder: '输入 HMAC 密钥...',
+    encode: (input, options) => computeHmac(input, 'SHA-256', options),
+    verify: (input, signature, options) => verifyHmac(input, signature, 'SHA-256', options),
+  },
+  'hmac-sha512': {
+    id: 'hmac-sha512',
+    name: 'HMAC-SHA-512',
+    description: '基于 SHA-512 的 HMAC',
+    category: 'mac',
+    supportsDecode: false,
+    requiresKey: true,
+    keyPlaceholder: '输入 HMAC 密钥...',
+    encode: (input, options) => computeHmac(input, 'SHA-512', options),
+    verify: (input, signature, options) => verifyHmac(input, signature, 'SHA-512', options),
   },
 
   // 编码算法
@@ -692,6 +1086,7 @@ export const algorithms: AlgorithmRegistry = {
     requiresKey: false,
     encode: (input) => base64Encode(input),
     decode: (input) => base64Decode(input),
+    detect: (input) => /^[A-Za-z0-9+/\s]+={0,2}$/.test(input),
   },
   url: {
     id: 'url',
@@ -702,6 +1097,7 @@ export const algorithms: AlgorithmRegistry = {
     requiresKey: false,
     encode: (input) => urlEncode(input),
     decode: (input) => urlDecode(input),
+    detect: (input) => /%[0-9a-fA-F]{2}/.test(input),
   },
   html: {
     id: 'html',
@@ -712,6 +1108,7 @@ export const algorithms: AlgorithmRegistry = {
     requiresKey: false,
     encode: (input) => htmlEncode(input),
     decode: (input) => htmlDecode(input),
+    detect: (input) => /&(amp|lt|gt|quot|#39|#x27|apos);/.test(input),
   },
   hex: {
     id: 'hex',
@@ -722,19 +1119,232 @@ export const algorithms: AlgorithmRegistry = {
     requiresKey: false,
     encode: (input) => hexEncode(input),
     decode: (input) => hexDecode(input),
+    detect: (input) => /^(0x)?([0-9a-fA-F]{2}[\s,;:-]*)+$/.test(input),
+  },
+  base64url: {
+    id: 'base64url',
+    name: 'Base64URL',
+    description: 'URL 安全的 Base64（RFC 4648 §5），不带填充',
+    category: 'encoding',
+    supportsDecode: true,
+    requiresKey: false,
+    encode: (input) => encodeBytes(input, base64UrlEncode),
+    decode: (input) => decodeBytes(input, base64UrlDecode),
+    detect: (input) => /^[A-Za-z0-9\-_\s]+={0,2}$/.test(input),
+  },
+  base32: {
+    id: 'base32',
+    name: 'Base32',
+    description: 'RFC 4648 Base32，TOTP 密钥常用，解码忽略大小写和填充',
+    category: 'encoding',
+    supportsDecode: true,
+    requiresKey: false,
+    encode: (input) => encodeBytes(input, base32Encode),
+    decode: (input) => decodeBytes(input, base32Decode),
+    detect: (input) => /^[A-Za-z2-7\s]+=*$/.test(input),
+  },
+  base58: {
+    id: 'base58',
+    name: 'Base58',
+    description: '比特币字母表的 Base58，去除了易混淆的 0 O I l',
+    category: 'encoding',
+    supportsDecode: true,
+    requiresKey: false,
+    encode: (input) => encodeBytes(input, base58Encode),
+    decode: (input) => decodeBytes(input, base58Decode),
+    detect: (input) => isBase58Candidate(input),
+  },
+  base58check: {
+    id: 'base58check',
+    name: 'Base58Check',
+    description: '带双 SHA-256 校验和的 Base58，比特币地址即版本字节加公钥哈希的 Base58Check',
+    category: 'encoding',
+    supportsDecode: true,
+    requiresKey: false,
+    encode: (input) => encodeBytes(input, base58CheckEncode),
+    decode: (input) => decodeBytes(input, base58CheckDecode),
+    detect: (input) => isBase58Candidate(input),
+  },
+  ascii85: {
+    id: 'ascii85',
+    name: 'Ascii85',
+    description: 'Adobe 变体的 Base85，以 <~ ~> 包裹',
+    category: 'encoding',
+    supportsDecode: true,
+    requiresKey: false,
+    encode: (input) => encodeBytes(input, ascii85Encode),
+    decode: (input) => decodeBytes(input, ascii85Decode),
+    detect: (input) => /^(<~)?[!-uz\s]+(~>)?$/.test(input),
+  },
+  z85: {
+    id: 'z85',
+    name: 'Z85',
+    description: 'ZeroMQ 的 Base85，数据长度须为 4 的倍数',
+    category: 'encoding',
+    supportsDecode: true,
+    requiresKey: false,
+    encode: (input) => encodeBytes(input, z85Encode),
+    decode: (input) => decodeBytes(input, z85Decode),
+    detect: (input) => /^[0-9A-Za-z.\-:+=^!/*?&<>()[\]{}@%$#]+$/.test(input),
+  },
+  'quoted-printable': {
+    id: 'quoted-printable',
+    name: 'Quoted-Printable',
+    description: '邮件正文常用的 RFC 2045 编码，超过 76 列自动软换行',
+    category: 'encoding',
+    supportsDecode: true,
+    requiresKey: false,
+    encode: (input) => encodeBytes(input, quotedPrintableEncode),
+    decode: (input) => decodeBytes(input, quotedPrintableDecode),
+    detect: (input) => /=([0-9A-F]{2}|\r?\n)/.test(input),
+  },
+  punycode: {
+    id: 'punycode',
+    name: 'Punycode / IDNA',
+    description: '国际化域名与 xn-- 形式互转',
+    category: 'encoding',
+    supportsDecode: true,
+    requiresKey: false,
+    encode: (input) => transformText(input, domainToAscii),
+    decode: (input) => transformText(input, domainToUnicode),
+    detect: (input) => /xn--/i.test(input),
+  },
+  uuencode: {
+    id: 'uuencode',
+    name: 'UUEncode',
+    description: 'Unix-to-Unix 编码，输出带 begin / end 行',
+    category: 'encoding',
+    supportsDecode: true,
+    requiresKey: false,
+    encode: (input) => encodeBytes(input, (bytes) => uuencode(bytes)),
+    decode: (input) => decodeBytes(input, uudecode),
+    detect: (input) => /^begin [0-7]{3} /m.test(input),
+  },
+  'unicode-escape': {
+    id: 'unicode-escape',
+    name: 'Unicode \\uXXXX',
+    description: 'JavaScript / JSON 风格的 Unicode 转义，解码也支持 \\u{XXXXX}',
+    category: 'encoding',
+    supportsDecode: true,
+    requiresKey: false,
+    encode: (input) => transformText(input, (text) => escapeUnicode(text, 'js')),
+    decode: (input) => transformText(input, (text) => unescapeUnicode(text, 'js')),
+    detect: (input) => /\\u(\{[0-9a-fA-F]+\}|[0-9a-fA-F]{4})/.test(input),
+  },
+  'html-hex': {
+    id: 'html-hex',
+    name: 'HTML &#x...;',
+    description: 'HTML 十六进制字符引用，解码也支持十进制 &#NNNN;',
+    category: 'encoding',
+    supportsDecode: true,
+    requiresKey: false,
+    encode: (input) => transformText(input, (text) => escapeUnicode(text, 'html')),
+    decode: (input) => transformText(input, (text) => unescapeUnicode(text, 'html')),
+    detect: (input) => /&#(x[0-9a-fA-F]+|\d+);/.test(input),
+  },
+  'percent-u': {
+    id: 'percent-u',
+    name: '%uXXXX',
+    description: 'JavaScript escape() 使用的非标准 %u 转义',
+    category: 'encoding',
+    supportsDecode: true,
+    requiresKey: false,
+    encode: (input) => transformText(input, (text) => escapeUnicode(text, 'percent')),
+    decode: (input) => transformText(input, (text) => unescapeUnicode(text, 'percent')),
+    detect: (input) => /%u[0-9a-fA-F]{4}/.test(input),
   },
 
   // 对称加密
   aes: {
     id: 'aes',
-    name: 'AES-256-GCM',
-    description: '高级加密标准，256 位密钥',
+    name: 'AES',
+    description: '高级加密标准，支持 CBC / CTR / GCM 模式，口令模式兼容 openssl enc -pbkdf2',
     category: 'cipher',
     supportsDecode: true,
     requiresKey: true,
-    keyPlaceholder: '输入加密密钥...',
-    encode: () => ({ success: true, output: '', error: 'async' }),
-    decode: () => ({ success: true, output: '', error: 'async' }),
+    keyPlaceholder: '输入口令，或以 Hex / Base64 输入原始密钥...',
+    encode: (input, options) => aesEncrypt(input, options),
+    decode: (input, options) => aesDecrypt(input, options),
+  },
+
+  // 非对称加密
+  'rsa-oaep': {
+    id: 'rsa-oaep',
+    name: 'RSA-OAEP',
+    description: 'RSA 2048 位公钥加密（SHA-256），仅适合加密短数据',
+    category: 'asymmetric',
+    supportsDecode: true,
+    requiresKey: false,
+    encodeLabel: '加密',
+    decodeLabel: '解密',
+    encode: (input, options) => rsaEncrypt(input, options),
+    decode: (input, options) => rsaDecrypt(input, options),
+    generateKeyPair: (format) => generateKeyPair('rsa-oaep', format),
+    convertKey: (key, format) => convertKey('rsa-oaep', key, format),
+  },
+  'rsa-pss': {
+    id: 'rsa-pss',
+    name: 'RSA-PSS',
+    description: 'RSA 2048 位签名（SHA-256），与 JWS 的 PS256 一致',
+    category: 'asymmetric',
+    supportsDecode: false,
+    requiresKey: false,
+    encodeLabel: '签名',
+    encode: (input, options) => sign('rsa-pss', input, options),
+    verify: (input, signature, options) => verify('rsa-pss', input, signature, options),
+    generateKeyPair: (format) => generateKeyPair('rsa-pss', format),
+    convertKey: (key, format) => convertKey('rsa-pss', key, format),
+  },
+  'ecdsa-p256': {
+    id: 'ecdsa-p256',
+    name: 'ECDSA P-256',
+    description: 'NIST P-256 曲线签名（SHA-256），签名为 r || s 格式',
+    category: 'asymmetric',
+    supportsDecode: false,
+    requiresKey: false,
+    encodeLabel: '签名',
+    encode: (input, options) => sign('ecdsa-p256', input, options),
+    verify: (input, signature, options) => verify('ecdsa-p256', input, signature, options),
+    generateKeyPair: (format) => generateKeyPair('ecdsa-p256', format),
+    convertKey: (key, format) => convertKey('ecdsa-p256', key, format),
+  },
+  'ecdsa-p384': {
+    id: 'ecdsa-p384',
+    name: 'ECDSA P-384',
+    description: 'NIST P-384 曲线签名（SHA-384），签名为 r || s 格式',
+    category: 'asymmetric',
+    supportsDecode: false,
+    requiresKey: false,
+    encodeLabel: '签名',
+    encode: (input, options) => sign('ecdsa-p384', input, options),
+    verify: (input, signature, options) => verify('ecdsa-p384', input, signature, options),
+    generateKeyPair: (format) => generateKeyPair('ecdsa-p384', format),
+    convertKey: (key, format) => convertKey('ecdsa-p384', key, format),
+  },
+  ed25519: {
+    id: 'ed25519',
+    name: 'Ed25519',
+    description: 'Edwards 曲线签名，密钥和签名短小、速度快',
+    category: 'asymmetric',
+    supportsDecode: false,
+    requiresKey: false,
+    encodeLabel: '签名',
+    encode: (input, options) => sign('ed25519', input, options),
+    verify: (input, signature, options) => verify('ed25519', input, signature, options),
+    generateKeyPair: (format) => generateKeyPair('ed25519', format),
+    convertKey: (key, format) => convertKey('ed25519', key, format),
+  },
+  x25519: {
+    id: 'x25519',
+    name: 'X25519',
+    description: 'Curve25519 密钥协商，输入对方公钥，用自己的私钥计算共享密钥',
+    category: 'asymmetric',
+    supportsDecode: false,
+    requiresKey: false,
+    encodeLabel: '协商',
+    encode: (input, options) => x25519Agree(input, options),
+    generateKeyPair: (format) => generateKeyPair('x25519', format),
+    convertKey: (key, format) => convertKey('x25519', key, format),
   },
 };
 
@@ -742,42 +1352,35 @@ export const algorithms: AlgorithmRegistry = {
 // 统一处理函数
 // ============================================================================
 
+/**
+ * 输入是否为空，文本输入忽略空白
+ */
+function isEmptyInput(input: CryptoData): boolean {
+  return typeof input === 'string' ? !input.trim() : input.length === 0;
+}
+
 /**
  * 统一的加密/编码处理函数
  */
 export async function processEncode(
   algorithmId: string,
-  input: string,
+  input: CryptoData,
   options?: AlgorithmOptions
 ): Promise<ProcessResult> {
   const algorithm = algorithms[algorithmId];
   if (!algorithm) {
-    return { success: false, output: '', error: '未知的算法' };
+    return { success: false, output: '', error: t('error.unknownAlgorithm') };
   }
 
-  if (!input.trim()) {
-    return { success: false, output: '', error: '请输入内容' };
+  if (isEmptyInput(input)) {
+    return { success: false, output: '', error: t('error.inputRequired') };
   }
 
   // 处理需要密钥的算法
   if (algorithm.requiresKey && !options?.key) {
-    return { success: false, output: '', error: '请输入密钥' };
-  }
-
-  // 处理异步算法
-  if (algorithmId.startsWith('sha')) {
-    const hashName = algorithmId.toUpperCase().replace('SHA', 'SHA-') as
-      | 'SHA-1'
-      | 'SHA-256'
-      | 'SHA-512';
-    return computeHash(input, hashName, options?.outputFormat || 'hex');
+    return { success: false, output: '', error: t('error.keyRequired') };
   }
 
-  if (algorithmId === 'aes') {
-    return aesEncrypt(input, options);
-  }
-
-  // 同步算法
   return algorithm.encode(input, options);
 }
 
@@ -791,26 +1394,55 @@ export async function processDecode(
 ): Promise<ProcessResult> {
   const algorithm = algorithms[algorithmId];
   if (!algorithm) {
-    return { success: false, output: '', error: '未知的算法' };
+    return { success: false, output: '', error: t('error.unknownAlgorithm') };
   }
 
-  if (!algorithm.supportsDecode) {
-    return { success: false, output: '', error: '该算法不支持解码' };
+  if (!algorithm.supportsDecode || !algorithm.decode) {
+    return { success: false, output: '', error: t('error.decodeUnsupported') };
   }
 
   if (!input.trim()) {
-    return { success: false, output: '', error: '请输入内容' };
+    return { success: false, output: '', error: t('error.inputRequired') };
+  }
+
+  if (algorithm.requiresKey && !options?.key) {
+    return { success: false, output: '', error: t('error.keyRequired') };
+  }
+
+  return algorithm.decode(input, options);
+}
+
+/**
+ * 统一的签名校验函数
+ */
+export async function processVerify(
+  algorithmId: string,
+  input: CryptoData,
+  signature: string,
+  options?: AlgorithmOptions
+): Promise<VerifyResult> {
+  const algorithm = algorithms[algorithmId];
+  if (!algorithm) {
+    return { success: false, output: '', match: false, error: t('error.unknownAlgorithm') };
+  }
+
+  if (!algorithm.verify) {
+    return { success: false, output: '', match: false, error: t('error.verifyUnsupported') };
+  }
+
+  if (isEmptyInput(input)) {
+    return { success: false, output: '', match: false, error: t('error.inputRequired') };
   }
 
   if (algorithm.requiresKey && !options?.key) {
-    return { success: false, output: '', error: '请输入密钥' };
+    return { success: false, output: '', match: false, error: t('error.keyRequired') };
   }
 
-  if (algorithmId === 'aes') {
-    return aesDecrypt(input, options);
+  if (!signature.trim()) {
+    return { success: false, output: '', match: false, error: t('error.signatureRequired') };
   }
 
-  return algorithm.decode!(input, options);
+  return algorithm.verify(input, signature, options);
 }
 
 /**
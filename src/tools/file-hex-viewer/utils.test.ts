@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import {
+  byteToASCII,
+  byteToBinary,
+  byteToHex,
+  byteToOctal,
+  detectEncoding,
+  detectGhostCharacters,
+  detectMagicNumber,
+  formatOffset,
+  hasBOM,
+} from './utils';
+
+function bytes(...values: number[]): ArrayBuffer {
+  return new Uint8Array(values).buffer;
+}
+
+function text(value: string): ArrayBuffer {
+  return new TextEncoder().encode(value).buffer as ArrayBuffer;
+}
+
+describe('detectMagicNumber', () => {
+  it.each([
+    ['PNG', [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]],
+    ['JPEG', [0xff, 0xd8, 0xff, 0xe0]],
+    ['GIF', [...'GIF89a'].map((c) => c.charCodeAt(0))],
+    ['PDF', [...'%PDF-1.7'].map((c) => c.charCodeAt(0))],
+    ['ZIP', [0x50, 0x4b, 0x03, 0x04]],
+    ['GZIP', [0x1f, 0x8b, 0x08]],
+    ['ELF', [0x7f, 0x45, 0x4c, 0x46, 0x02]],
+    ['EXE', [0x4d, 0x5a, 0x90, 0x00]],
+  ])('识别 %s', (format, signature) => {
+    expect(detectMagicNumber(bytes(...signature))?.format).toBe(format);
+  });
+
+  it('未知格式返回 null', () => {
+    expect(detectMagicNumber(text('hello'))).toBeNull();
+  });
+
+  it('数据短于签名时不匹配', () => {
+    expect(detectMagicNumber(bytes(0x89, 0x50))).toBeNull();
+    expect(detectMagicNumber(bytes())).toBeNull();
+  });
+});
+
+describe('detectEncoding / hasBOM', () => {
+  it.each([
+    ['UTF-8 (with BOM)', [0xef, 0xbb, 0xbf, 0x41]],
+    ['UTF-16 BE (with BOM)', [0xfe, 0xff, 0x00, 0x41]],
+    ['UTF-16 LE (with BOM)', [0xff, 0xfe, 0x41, 0x00]],
+  ])('识别 %s', (encoding, data) => {
+    expect(detectEncoding(bytes(...data))).toBe(encoding);
+    expect(hasBOM(bytes(...data))).toBe(true);
+  });
+
+  it('ASCII 文本', () => {
+    expect(detectEncoding(text('plain ascii text'))).toBe('ASCII/UTF-8');
+    expect(hasBOM(text('plain ascii text'))).toBe(false);
+  });
+
+  it('高位字节占多数时视为二进制', () => {
+    expect(detectEncoding(bytes(0x80, 0x81, 0x82, 0x83, 0x41))).toBe('Binary');
+  });
+});
+
+describe('detectGhostCharacters', () => {
+  it('找出零宽字符的位置', () => {
+    const result = detectGhostCharacters(text('a\u200bb\u200bc\u200d'));
+    expect(result.map((ghost) => [ghost.char, ghost.position])).toEqual([
+      ['ZERO_WIDTH_SPACE', 1],
+      ['ZERO_WIDTH_SPACE', 3],
+      ['ZERO_WIDTH_JOINER', 5],
+    ]);
+  });
+
+  it('普通文本没有幽灵字符', () => {
+    expect(detectGhostCharacters(text('clean'))).toEqual([]);
+  });
+});
+
+describe('字节格式化', () => {
+  it('转换进制', () => {
+    expect(byteToHex(10)).toBe('0A');
+    expect(byteToBinary(5)).toBe('00000101');
+    expect(byteToOctal(8)).toBe('010');
+  });
+
+  it('不可打印字节显示为占位符', () => {
+    expect(byteToASCII(0x41)).toBe('A');
+    expect(byteToASCII(0x00)).toBe('·');
+    expect(byteToASCII(0x7f)).toBe('·');
+  });
+
+  it('偏移量补齐为 8 位', () => {
+    expect(formatOffset(255)).toBe('000000FF');
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { formatFileSize, validateImageFile } from './utils';
+
+describe('formatFileSize', () => {
+  it.each([
+    [0, '0 B'],
+    [2048, '2.00 KB'],
+    [3 * 1024 ** 3, '3.00 GB'],
+  ])('%d → %s', (bytes, expected) => {
+    expect(formatFileSize(bytes)).toBe(expected);
+  });
+});
+
+describe('validateImageFile', () => {
+  it('接受任意图片类型', () => {
+    expect(validateImageFile(new File(['x'], 'a.tiff', { type: 'image/tiff' }))).toEqual({ valid: true });
+  });
+
+  it('拒绝非图片文件', () => {
+    expect(validateImageFile(new File(['x'], 'a.txt', { type: 'text/plain' })).valid).toBe(false);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { formatFileSize, validateImageFile } from './utils';
+
+function file(type: string, size = 1): File {
+  return new File([new Uint8Array(size)], 'image', { type });
+}
+
+describe('formatFileSize', () => {
+  it.each([
+    [0, '0 B'],
+    [1023, '1023.00 B'],
+    [1024, '1.00 KB'],
+    [1.5 * 1024 * 1024, '1.50 MB'],
+  ])('%d → %s', (bytes, expected) => {
+    expect(formatFileSize(bytes)).toBe(expected);
+  });
+});
+
+describe('validateImageFile', () => {
+  it.each(['image/png', 'image/jpeg', 'image/webp', 'image/gif', 'image/bmp', 'image/x-icon'])(
+    '接受 %s',
+    (type) => {
+      expect(validateImageFile(file(type))).toEqual({ valid: true });
+    }
+  );
+
+  it('拒绝不支持的格式', () => {
+    expect(validateImageFile(file('image/tiff'))).toEqual({ valid: false, error: '不支持的图片格式' });
+  });
+
+  it('拒绝超过 10MB 的文件', () => {
+    expect(validateImageFile(file('image/png', 10 * 1024 * 1024 + 1)).error).toBe('文件大小不能超过 10MB');
+  });
+});
@@ -1,15 +1,23 @@
+import { lazy } from 'react';
 import type { ToolConfig } from '@/tools/types';
 import { Image as ImageIcon } from 'lucide-react';
-import { ImageResizer } from './index';
 
 export const toolConfig: ToolConfig = {
   id: 'image-resizer',
   name: '图片分辨率缩放',
   description: '纯前端调整图片尺寸，支持自定义分辨率、压缩质量及格式转换。',
+  locales: {
+    'en-US': {
+      name: 'Image Resizer',
+      description: 'Resize images in the browser with custom resolution, quality and output format',
+    },
+  },
   category: 'media',
   icon: ImageIcon,
   tags: ['图片', 'image', 'resize', '缩放', '分辨率', '压缩'],
-  component: ImageResizer,
+  component: lazy(() =>
+    import('./index').then((m) => ({ default: m.ImageResizer }))
+  ),
   requiresBackend: false,
   version: '1.0.0',
-};
\ No newline at end of file
+};
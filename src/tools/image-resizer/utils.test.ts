@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { formatFileSize, resizeImage } from './utils';
+
+describe('formatFileSize', () => {
+  it.each([
+    [0, '0 B'],
+    [1536, '1.5 KB'],
+    [1024 * 1024, '1 MB'],
+  ])('%d → %s', (bytes, expected) => {
+    expect(formatFileSize(bytes)).toBe(expected);
+  });
+});
+
+describe('resizeImage', () => {
+  it('按目标尺寸绘制并导出 Blob', async () => {
+    const img = new Image(400, 300);
+    const result = await resizeImage(img, { width: 200, height: 150, format: 'image/png', quality: 0.9 });
+    expect(result.blob).toBeInstanceOf(Blob);
+    expect(result.url).toBeTruthy();
+  });
+});
@@ -0,0 +1,46 @@
+import { Suspense } from 'react';
+import { render, waitFor } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TooltipProvider } from '@/components/ui/tooltip';
+import { allTools, categories } from './index';
+
+describe('工具注册表', () => {
+  it('工具 ID 唯一', () => {
+    const ids = allTools.map((tool) => tool.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('工具分类均已定义', () => {
+    const categoryIds = new Set(categories.map((category) => category.id));
+    for (const tool of allTools) {
+      expect(categoryIds, tool.id).toContain(tool.category);
+    }
+  });
+});
+
+describe('工具挂载', () => {
+  beforeEach(() => {
+    // 依赖后端的工具在测试中统一返回请求失败
+    vi.stubGlobal('fetch', vi.fn(() => Promise.reject(new Error('offline'))));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it.each(allTools.map((tool) => [tool.id, tool] as const))('%s', async (_id, tool) => {
+    const ToolComponent = tool.component;
+    const { container } = render(
+      <MemoryRouter>
+        <TooltipProvider>
+          <Suspense fallback={null}>
+            <ToolComponent />
+          </Suspense>
+        </TooltipProvider>
+      </MemoryRouter>
+    );
+
+    await waitFor(() => expect(container.textContent).not.toBe(''));
+  });
+});
@@ -3,6 +3,8 @@ import type {
   ToolCategory,
   CategoryInfo,
 } from './types';
+import { search, type SearchField, type SearchResult } from '@/lib/search';
+import { getLocale, localize, type Locale } from '@/lib/i18n';
 import {
   Type,
   Globe,
@@ -24,10 +26,16 @@ import { toolConfig as systemInspectorConfig } from './system-inspector/config';
 import { toolConfig as fileHexViewerConfig } from './file-hex-viewer/config';
 import { toolConfig as timestampConverterConfig } from './timestamp-converter/config';
 import { toolConfig as imageResizerConfig } from './image-resizer/config';
+import { toolConfig as pythonPlaygroundConfig } from './python-playground/config';
+import { toolConfig as pipelineConfig } from './pipeline/config';
+import { toolConfig as jwtToolConfig } from './jwt-tool/config';
+import { toolConfig as passwordGeneratorConfig } from './password-generator/config';
+import { toolConfig as otpToolConfig } from './otp-tool/config';
 
 /**
  * 工具注册表
  * 新增工具时在此数组中添加工具配置
+ * 构建时会校验 src/tools 下每个含 config.ts 的目录都已在此注册（见 vite.config.ts）
  */
 export const allTools: ToolConfig[] = [
   jsonFormatterConfig,
@@ -40,6 +48,11 @@ export const allTools: ToolConfig[] = [
   fileHexViewerConfig,
   timestampConverterConfig,
   imageResizerConfig,
+  pythonPlaygroundConfig,
+  pipelineConfig,
+  jwtToolConfig,
+  passwordGeneratorConfig,
+  otpToolConfig,
 ];
 
 /**
@@ -50,42 +63,63 @@ export const categories: CategoryInfo[] = [
     id: 'development', // 把开发工具放前面，因为这是你的核心受众
     name: '开发运维',
     description: 'JSON/XML、Cron、正则表达式测试',
+    locales: {
+      'en-US': { name: 'Development', description: 'JSON/XML, cron, regex testing' },
+    },
     icon: Code2,
   },
   {
     id: 'network',
     name: '网络工具',
     description: 'IP 查询、Ping 检测、Whois 查询',
+    locales: {
+      'en-US': { name: 'Network', description: 'IP lookup, ping, whois' },
+    },
     icon: Globe,
   },
   {
     id: 'text',
     name: '文本处理',
     description: '字数统计、文本去重、差异对比',
+    locales: {
+      'en-US': { name: 'Text', description: 'Word count, deduplication, diff' },
+    },
     icon: Type,
   },
   {
     id: 'crypto',
     name: '加密解密',
     description: 'MD5、SHA、Base64、AES 加密',
+    locales: {
+      'en-US': { name: 'Crypto', description: 'MD5, SHA, Base64, AES' },
+    },
     icon: Lock,
   },
   {
     id: 'media', // ✨ 新增建议
     name: '图片媒体',
     description: '二维码生成、图片压缩、格式转换',
+    locales: {
+      'en-US': { name: 'Images & Media', description: 'QR codes, image compression, format conversion' },
+    },
     icon: Image,
   },
   {
     id: 'conversion',
     name: '单位换算',
     description: '进制转换、颜色转换、时间戳转换',
+    locales: {
+      'en-US': { name: 'Conversion', description: 'Number bases, colors, timestamps' },
+    },
     icon: RefreshCw,
   },
   {
     id: 'utilities',
     name: '日常工具',
     description: '生成随机密码、计算器、调色板',
+    locales: {
+      'en-US': { name: 'Utilities', description: 'Password generator, calculator, palettes' },
+    },
     icon: Wrench,
   },
 ];
@@ -109,24 +143,77 @@ export function getToolsByCategory(category: ToolCategory): ToolConfig[] {
   return allTools.filter((tool) => tool.category === category);
 }
 
+/**
+ * 获取工具在指定语言下的名称和描述
+ * @param tool - 工具配置
+ * @param locale - 目标语言，默认为当前语言
+ */
+export function localizeTool(
+  tool: ToolConfig,
+  locale: Locale = getLocale()
+): { name: string; description: string } {
+  return localize({ name: tool.name, description: tool.description }, tool.locales, locale);
+}
+
+/**
+ * 获取分类在指定语言下的名称和描述
+ * @param category - 分类信息
+ * @param locale - 目标语言，默认为当前语言
+ */
+export function localizeCategory(
+  category: CategoryInfo,
+  locale: Locale = getLocale()
+): { name: string; description: string } {
+  return localize(
+    { name: category.name, description: category.description },
+    category.locales,
+    locale
+  );
+}
+
+/**
+ * 工具搜索结果
+ * highlights 的键为 name、description 或 tag:<标签>，区间基于当前语言的名称和描述
+ */
+export type ToolSearchResult = SearchResult<ToolConfig>;
+
+/**
+ * 工具搜索字段，权重：名称 > 标签 > 描述
+ * 非中文界面下同时搜索中文名称，保证拼音搜索可用
+ */
+function getToolSearchFields(tool: ToolConfig, locale: Locale): SearchField[] {
+  const { name, description } = localizeTool(tool, locale);
+  return [
+    { key: 'name', text: name, weight: 3 },
+    ...(name !== tool.name ? [{ key: 'name:default', text: tool.name, weight: 3 }] : []),
+    ...tool.tags.map((tag) => ({ key: `tag:${tag}`, text: tag, weight: 2 })),
+    { key: 'description', text: description, weight: 1 },
+  ];
+}
+
+/**
+ * 按相关度搜索工具
+ * 支持拼音、首字母和拼写容错，结果附带高亮区间
+ * @param query - 搜索关键词
+ * @param tools - 搜索范围，默认为全部工具
+ * @param locale - 界面语言，默认为当前语言
+ * @returns 按相关度排序的搜索结果
+ */
+export function rankTools(
+  query: string,
+  tools: ToolConfig[] = allTools,
+  locale: Locale = getLocale()
+): ToolSearchResult[] {
+  return search(tools, query, (tool) => getToolSearchFields(tool, locale));
+}
+
 /**
  * 搜索工具
  * @param query - 搜索关键词
- * @returns 匹配的工具列表
+ * @returns 按相关度排序的工具列表
  */
 export function searchTools(query: string): ToolConfig[] {
-  if (!query.trim()) {
-    return allTools;
-  }
-
-  const lowerQuery = query.toLowerCase();
-
-  return allTools.filter(
-    (tool) =>
-      tool.name.toLowerCase().includes(lowerQuery) ||
-      tool.description.toLowerCase().includes(lowerQuery) ||
-      tool.tags.some((tag) => tag.toLowerCase().includes(lowerQuery))
-  );
+  return rankTools(query).map((result) => result.item);
 }
 
 /**
@@ -1,15 +1,23 @@
+import { lazy } from 'react';
 import type { ToolConfig } from '@/tools/types';
 import { Globe } from 'lucide-react';
-import { IpLookupTool } from './index';
 
 export const toolConfig: ToolConfig = {
   id: 'ip-lookup',
   name: 'IP 归属地查询',
   description: '查询 IP 地址的地理位置、运营商、ISP 等详细信息',
+  locales: {
+    'en-US': {
+      name: 'IP Lookup',
+      description: 'Look up the location, carrier and ISP of an IP address',
+    },
+  },
   category: 'network',
   icon: Globe,
   tags: ['ip', 'address', 'geo', 'location', '归属地', '网络'],
-  component: IpLookupTool,
-  requiresBackend: false, // 纯前端模式
+  component: lazy(() =>
+    import('./index').then((m) => ({ default: m.IpLookupTool }))
+  ),
+  requiresBackend: true, // 直接请求第三方 IP 接口，离线时不可用
   version: '1.0.0',
-};
\ No newline at end of file
+};
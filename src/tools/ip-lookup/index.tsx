@@ -4,7 +4,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { toast } from 'sonner';
-import { MapPin, Network, Server, Globe2, Copy, ShieldCheck, RotateCw, Map, Settings, Save } from 'lucide-react';
+import { MapPin, Network, Server, Globe2, Copy, ShieldCheck, RotateCw, Map, Settings, Save, WifiOff } from 'lucide-react';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
 import { validateIp, formatCoordinates } from './utils';
 
 // 地图提供商类型
@@ -133,6 +134,7 @@ export const IpLookupTool = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [currentProvider, setCurrentProvider] = useState<string>('');
   const [showMap, setShowMap] = useState(true);
+  const isOnline = useOnlineStatus();
 
   // 地图相关状态
   const [mapProvider, setMapProvider] = useState<MapProvider>('osm');
@@ -329,16 +331,24 @@ export const IpLookupTool = () => {
               />
             </div>
             <div className="flex gap-2 w-full md:w-auto">
-              <Button onClick={handleSearch} disabled={isLoading} className="flex-1 md:flex-none">
+              <Button onClick={handleSearch} disabled={isLoading || !isOnline} className="flex-1 md:flex-none">
                 {isLoading && <RotateCw className="mr-2 h-4 w-4 animate-spin" />}
                 {isLoading ? '查询中...' : '查询'}
               </Button>
-              <Button variant="outline" onClick={handleMyIp} disabled={isLoading} className="flex-1 md:flex-none">
+              <Button variant="outline" onClick={handleMyIp} disabled={isLoading || !isOnline} className="flex-1 md:flex-none">
                 本机 IP
               </Button>
             </div>
           </div>
 
+          {/* 离线提示 */}
+          {!isOnline && (
+            <div className="flex items-center justify-center gap-2 rounded-md border border-dashed p-3 text-sm text-muted-foreground">
+              <WifiOff className="h-4 w-4" />
+              当前处于离线状态，IP 查询需要联网，恢复连接后即可使用
+            </div>
+          )}
+
           {/* 加载状态显示当前尝试的源 */}
           {isLoading && currentProvider && (
             <div className="text-sm text-muted-foreground text-center animate-pulse">
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { formatCoordinates, validateIp } from './utils';
+
+describe('validateIp', () => {
+  it.each(['8.8.8.8', '0.0.0.0', '255.255.255.255', ' 192.168.1.1 ', '2001:0db8:85a3:0000:0000:8a2e:0370:7334'])(
+    '接受 %j',
+    (ip) => {
+      expect(validateIp(ip)).toBe(true);
+    }
+  );
+
+  it.each(['', '256.1.1.1', '1.2.3', '1.2.3.4.5', 'example.com', '2001:db8::g'])('拒绝 %j', (ip) => {
+    expect(validateIp(ip)).toBe(false);
+  });
+});
+
+describe('formatCoordinates', () => {
+  it('保留 4 位小数', () => {
+    expect(formatCoordinates(39.9042, 116.407396)).toBe('39.9042, 116.4074');
+  });
+
+  it('缺少坐标时显示未知', () => {
+    expect(formatCoordinates(undefined, 116)).toBe('未知');
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * JSON 对比结果 - 差异列表和 RFC 6902 JSON Patch
+ */
+
+import { memo, useState, useCallback, useMemo } from 'react';
+import { Copy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+import { t } from '../locales';
+import { previewValue, toJsonPath } from '../tree';
+import type { IndentSize } from '../utils';
+import type { DiffEntry, DiffKind, DiffResult } from '../types';
+
+interface DiffViewProps {
+  result: DiffResult;
+  indent: IndentSize;
+}
+
+type DiffTab = 'entries' | 'patch';
+
+/** 差异过多时只渲染前面一部分 */
+const ENTRY_LIMIT = 1000;
+
+const PREVIEW_LENGTH = 120;
+
+const kindStyles: Record<DiffKind, { label: string; sign: string; className: string }> = {
+  added: { label: '新增', sign: '+', className: 'bg-green-500/10 text-green-600' },
+  removed: { label: '删除', sign: '-', className: 'bg-red-500/10 text-red-600' },
+  changed: { label: '修改', sign: '~', className: 'bg-amber-500/10 text-amber-600' },
+};
+
+const kinds: DiffKind[] = ['added', 'removed', 'changed'];
+
+/**
+ * 差异的值预览：修改显示新旧值，新增显示新值，删除显示旧值
+ */
+const DiffValue = ({ entry }: { entry: DiffEntry }) => {
+  if (entry.kind === 'changed') {
+    return (
+      <span className="min-w-0 truncate">
+        <span className="text-red-600 line-through">
+          {previewValue(entry.oldValue, PREVIEW_LENGTH)}
+        </span>
+        <span className="mx-1.5 text-muted-foreground">→</span>
+        <span className="text-green-600">{previewValue(entry.newValue, PREVIEW_LENGTH)}</span>
+      </span>
+    );
+  }
+  const value = entry.kind === 'added' ? entry.newValue : entry.oldValue;
+  return (
+    <span
+      className={cn(
+        'min-w-0 truncate',
+        entry.kind === 'added' ? 'text-green-600' : 'text-red-600'
+      )}
+    >
+      {previewValue(value, PREVIEW_LENGTH)}
+    </span>
+  );
+};
+
+export const DiffView = memo(({ result, indent }: DiffViewProps) => {
+  const [tab, setTab] = useState<DiffTab>('entries');
+  const [hidden, setHidden] = useState<Set<DiffKind>>(new Set());
+
+  const counts = useMemo(() => {
+    const byKind: Record<DiffKind, number> = { added: 0, removed: 0, changed: 0 };
+    for (const entry of result.entries) byKind[entry.kind]++;
+    return byKind;
+  }, [result]);
+
+  const visibleEntries = useMemo(
+    () => result.entries.filter((entry) => !hidden.has(entry.kind)),
+    [result, hidden]
+  );
+
+  const patchText = useMemo(() => JSON.stringify(result.patch, null, indent), [result, indent]);
+
+  const toggleKind = useCallback((kind: DiffKind) => {
+    setHidden((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(kind)) next.add(kind);
+      return next;
+    });
+  }, []);
+
+  const handleCopyPatch = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(patchText);
+      toast.success(t('toast.patchCopied'));
+    } catch {
+      toast.error(t('toast.copyFailed'));
+    }
+  }, [patchText]);
+
+  const handleCopyPath = useCallback(async (path: string) => {
+    try {
+      await navigator.clipboard.writeText(path);
+      toast.success(t('toast.pathCopied', { path }));
+    } catch {
+      toast.error(t('toast.copyFailed'));
+    }
+  }, []);
+
+  if (result.entries.length === 0) {
+    return (
+      <div className="rounded-md border border-dashed p-6 text-center text-sm text-muted-foreground">
+        两个 JSON 在语义上相同（已忽略键顺序和空白）
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <label className="text-sm font-medium">差异</label>
+          <div className="flex rounded-md border bg-muted p-0.5">
+            {(
+              [
+                { value: 'entries', label: '差异列表' },
+                { value: 'patch', label: 'JSON Patch' },
+              ] as const
+            ).map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setTab(option.value)}
+                className={cn(
+                  'rounded px-2 py-0.5 text-xs font-medium transition-colors',
+                  tab === option.value
+                    ? 'bg-background text-foreground shadow-sm'
+                    : 'text-muted-foreground hover:text-foreground'
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {tab === 'entries' ? (
+          <div className="flex items-center gap-1.5">
+            {kinds.map((kind) => (
+              <button
+                key={kind}
+                onClick={() => toggleKind(kind)}
+                className={cn(
+                  'rounded px-2 py-0.5 text-xs font-medium transition-opacity',
+                  kindStyles[kind].className,
+                  hidden.has(kind) && 'opacity-40'
+                )}
+                title={hidden.has(kind) ? '显示' : '隐藏'}
+              >
+                {kindStyles[kind].label} {counts[kind]}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <Button variant="ghost" size="sm" onClick={handleCopyPatch} className="h-7 px-2">
+            <Copy className="mr-1 h-3.5 w-3.5" />
+            复制
+          </Button>
+        )}
+      </div>
+
+      {tab === 'entries' ? (
+        <div className="max-h-80 overflow-auto rounded-md border bg-muted/30 font-mono text-xs">
+          {visibleEntries.slice(0, ENTRY_LIMIT).map((entry, index) => {
+            const path = toJsonPath(entry.path);
+            return (
+              <div
+                key={index}
+                className="flex items-center gap-2 border-b px-2 py-1 last:border-b-0"
+              >
+                <span
+                  className={cn(
+                    'w-4 shrink-0 rounded text-center font-bold',
+                    kindStyles[entry.kind].className
+                  )}
+                  title={kindStyles[entry.kind].label}
+                >
+                  {kindStyles[entry.kind].sign}
+                </span>
+                <button
+                  onClick={() => handleCopyPath(path)}
+                  className="shrink-0 text-sky-600 hover:underline"
+                  title="复制路径"
+                >
+                  {path}
+                </button>
+                <DiffValue entry={entry} />
+              </div>
+            );
+          })}
+          {visibleEntries.length > ENTRY_LIMIT && (
+            <div className="px-2 py-1 font-sans text-muted-foreground">
+              仅显示前 {ENTRY_LIMIT} 项，共 {visibleEntries.length} 项
+            </div>
+          )}
+        </div>
+      ) : (
+        <pre className="max-h-80 overflow-auto rounded-md border bg-muted/50 p-3 font-mono text-sm">
+          {patchText}
+        </pre>
+      )}
+    </div>
+  );
+});
+
+DiffView.displayName = 'DiffView';
@@ -0,0 +1,336 @@
+/**
+ * JSON 树形视图 - 可折叠、可搜索，使用虚拟滚动支持大文档
+ */
+
+import React, {
+  memo,
+  useState,
+  useCallback,
+  useRef,
+  useMemo,
+  useEffect,
+  useDeferredValue,
+} from 'react';
+import { ChevronRight, ChevronsDownUp, ChevronsUpDown, Copy, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+import { flattenTree, previewValue, searchTree, toJsAccessor, toJsonPath } from '../tree';
+import type { JsonValueType, PathFormat, TreeExpansion, TreeRow } from '../types';
+
+interface JsonTreeViewProps {
+  data: unknown;
+}
+
+const ROW_HEIGHT = 24;
+const OVERSCAN = 10;
+const INDENT_WIDTH = 16;
+
+/** 默认展开的层数 */
+const DEFAULT_DEPTH = 2;
+
+const typeStyles: Record<JsonValueType, { label: string; className: string }> = {
+  object: { label: 'obj', className: 'bg-amber-500/10 text-amber-600' },
+  array: { label: 'arr', className: 'bg-amber-500/10 text-amber-600' },
+  string: { label: 'str', className: 'bg-green-500/10 text-green-600' },
+  number: { label: 'num', className: 'bg-blue-500/10 text-blue-600' },
+  boolean: { label: 'bool', className: 'bg-purple-500/10 text-purple-600' },
+  null: { label: 'null', className: 'bg-muted text-muted-foreground' },
+};
+
+const valueStyles: Record<JsonValueType, string> = {
+  object: 'text-muted-foreground',
+  array: 'text-muted-foreground',
+  string: 'text-green-600',
+  number: 'text-blue-600',
+  boolean: 'text-purple-600',
+  null: 'text-muted-foreground',
+};
+
+const pathFormatOptions: { value: PathFormat; label: string }[] = [
+  { value: 'jsonpath', label: 'JSONPath' },
+  { value: 'js', label: 'JS' },
+];
+
+/**
+ * 按格式生成节点路径
+ */
+function formatPath(row: TreeRow, format: PathFormat): string {
+  return format === 'jsonpath' ? toJsonPath(row.path) : toJsAccessor(row.path);
+}
+
+export const JsonTreeView = memo(({ data }: JsonTreeViewProps) => {
+  const [expansion, setExpansion] = useState<TreeExpansion>({
+    depth: DEFAULT_DEPTH,
+    toggled: new Set(),
+  });
+  const [query, setQuery] = useState('');
+  const [pathFormat, setPathFormat] = useState<PathFormat>('jsonpath');
+  const [selected, setSelected] = useState<TreeRow | null>(null);
+
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [containerHeight, setContainerHeight] = useState(320);
+
+  // 大文档搜索较慢，输入时先保持旧结果，避免卡顿
+  const deferredQuery = useDeferredValue(query);
+
+  // 初始化时和容器尺寸变化时更新高度
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+
+    const updateHeight = () => {
+      const height = container.clientHeight;
+      if (height > 0) {
+        setContainerHeight(height);
+      }
+    };
+
+    updateHeight();
+
+    const resizeObserver = new ResizeObserver(updateHeight);
+    resizeObserver.observe(container);
+
+    return () => resizeObserver.disconnect();
+  }, []);
+
+  const search = useMemo(
+    () => (deferredQuery.trim() ? searchTree(data, deferredQuery) : null),
+    [data, deferredQuery]
+  );
+
+  const rows = useMemo(() => flattenTree(data, expansion, search), [data, expansion, search]);
+  const totalHeight = rows.length * ROW_HEIGHT;
+
+  // 计算可见行范围
+  const visibleRange = useMemo(() => {
+    const startRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+    const endRow = Math.min(
+      rows.length,
+      Math.ceil((scrollTop + containerHeight) / ROW_HEIGHT) + OVERSCAN
+    );
+    return { startRow, endRow };
+  }, [scrollTop, rows.length, containerHeight]);
+
+  const handleScroll = useCallback((e: React.UIEvent<HTMLDivElement>) => {
+    setScrollTop(e.currentTarget.scrollTop);
+  }, []);
+
+  const handleToggle = useCallback((id: string) => {
+    setExpansion((prev) => {
+      const toggled = new Set(prev.toggled);
+      if (!toggled.delete(id)) toggled.add(id);
+      return { ...prev, toggled };
+    });
+  }, []);
+
+  const handleCopy = useCallback(async (text: string, message: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success(message);
+    } catch {
+      toast.error('复制失败');
+    }
+  }, []);
+
+  // 点击节点时选中并复制路径
+  const handleSelect = useCallback(
+    (row: TreeRow) => {
+      setSelected(row);
+      const path = formatPath(row, pathFormat);
+      handleCopy(path, `已复制 ${path}`);
+    },
+    [pathFormat, handleCopy]
+  );
+
+  // 渲染一行
+  const renderRow = useCallback(
+    (row: TreeRow, index: number) => {
+      const isContainer = row.type === 'object' || row.type === 'array';
+
+      return (
+        <div
+          key={row.id}
+          onClick={() => handleSelect(row)}
+          className={cn(
+            'flex cursor-pointer items-center gap-1 whitespace-nowrap pr-2 font-mono text-xs hover:bg-muted/50',
+            row.match && 'bg-yellow-500/15',
+            selected?.id === row.id && 'bg-primary/10'
+          )}
+          style={{
+            position: 'absolute',
+            top: index * ROW_HEIGHT,
+            left: 0,
+            right: 0,
+            height: ROW_HEIGHT,
+            paddingLeft: row.depth * INDENT_WIDTH + 4,
+          }}
+        >
+          {row.childCount > 0 ? (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                handleToggle(row.id);
+              }}
+              className="flex h-4 w-4 shrink-0 items-center justify-center rounded text-muted-foreground hover:bg-muted hover:text-foreground"
+              title={row.expanded ? '折叠' : '展开'}
+            >
+              <ChevronRight
+                className={cn('h-3.5 w-3.5 transition-transform', row.expanded && 'rotate-90')}
+              />
+            </button>
+          ) : (
+            <span className="w-4 shrink-0" />
+          )}
+
+          {row.key !== null && (
+            <>
+              <span
+                className={typeof row.key === 'number' ? 'text-muted-foreground' : 'text-sky-600'}
+              >
+                {typeof row.key === 'number' ? row.key : JSON.stringify(row.key)}
+              </span>
+              <span className="text-muted-foreground">:</span>
+            </>
+          )}
+
+          {isContainer ? (
+            <span className="text-muted-foreground">
+              {row.type === 'array' ? '[' : '{'}
+              {!row.expanded && row.childCount > 0 && '…'}
+              {row.type === 'array' ? ']' : '}'}
+            </span>
+          ) : (
+            <span className={cn('min-w-0 truncate', valueStyles[row.type])}>
+              {previewValue(row.value)}
+            </span>
+          )}
+
+          <span
+            className={cn(
+              'ml-1 shrink-0 rounded px-1 font-sans text-[10px] leading-4',
+              typeStyles[row.type].className
+            )}
+          >
+            {typeStyles[row.type].label}
+          </span>
+          {isContainer && (
+            <span className="shrink-0 font-sans text-[10px] text-muted-foreground">
+              {row.type === 'array' ? `${row.childCount} 项` : `${row.childCount} 个键`}
+            </span>
+          )}
+        </div>
+      );
+    },
+    [selected, handleSelect, handleToggle]
+  );
+
+  // 生成可见行
+  const visibleRows = useMemo(() => {
+    const items: React.ReactElement[] = [];
+    for (let index = visibleRange.startRow; index < visibleRange.endRow; index++) {
+      items.push(renderRow(rows[index], index));
+    }
+    return items;
+  }, [visibleRange, rows, renderRow]);
+
+  const selectedPath = selected ? formatPath(selected, pathFormat) : '';
+
+  return (
+    <div className="flex h-80 flex-col overflow-hidden rounded-md border bg-muted/30">
+      {/* 工具栏 */}
+      <div className="flex shrink-0 flex-wrap items-center gap-1.5 border-b bg-background/50 p-1.5">
+        <div className="relative min-w-32 flex-1">
+          <Search className="absolute left-2 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="搜索键名或值..."
+            className="h-7 pl-7 text-xs"
+          />
+        </div>
+        <div className="flex rounded-md border bg-muted p-0.5">
+          {pathFormatOptions.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setPathFormat(option.value)}
+              className={cn(
+                'rounded px-2 py-0.5 text-xs font-medium transition-colors',
+                pathFormat === option.value
+                  ? 'bg-background text-foreground shadow-sm'
+                  : 'text-muted-foreground hover:text-foreground'
+              )}
+              title="点击节点时复制的路径格式"
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setExpansion({ depth: Infinity, toggled: new Set() })}
+          className="h-7 w-7 p-0"
+          title="全部展开"
+        >
+          <ChevronsUpDown className="h-3.5 w-3.5" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setExpansion({ depth: 1, toggled: new Set() })}
+          className="h-7 w-7 p-0"
+          title="全部折叠"
+        >
+          <ChevronsDownUp className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+
+      {/* 虚拟滚动容器 */}
+      <div
+        ref={scrollContainerRef}
+        onScroll={handleScroll}
+        className="min-h-0 flex-1 overflow-auto"
+      >
+        <div style={{ height: totalHeight, position: 'relative' }}>
+          {visibleRows}
+        </div>
+      </div>
+
+      {/* 状态栏 */}
+      <div className="flex shrink-0 items-center gap-2 border-t px-2 py-1 text-xs text-muted-foreground">
+        {selected ? (
+          <>
+            <span className="min-w-0 flex-1 truncate font-mono text-foreground" title={selectedPath}>
+              {selectedPath}
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                handleCopy(JSON.stringify(selected.value, null, 2), '已复制节点的值')
+              }
+              className="h-5 shrink-0 gap-1 px-1.5 text-xs"
+            >
+              <Copy className="h-3 w-3" />
+              复制值
+            </Button>
+          </>
+        ) : (
+          <span className="flex-1">点击节点复制路径</span>
+        )}
+        <span className="shrink-0">
+          {search
+            ? search.matches.size === 0
+              ? '没有匹配的节点'
+              : `${search.matches.size}${search.truncated ? '+' : ''} 个匹配`
+            : `${rows.length.toLocaleString()} 行`}
+        </span>
+      </div>
+    </div>
+  );
+});
+
+JsonTreeView.displayName = 'JsonTreeView';
@@ -0,0 +1,218 @@
+/**
+ * JSON 查询面板 - 对已解析的数据执行 JSONPath / JMESPath / jq 查询，输入时实时更新结果
+ */
+
+import { memo, useState, useCallback, useMemo, useDeferredValue } from 'react';
+import { AlertCircle, Copy, Save, Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+import { t } from '../locales';
+import { deleteSavedQuery, evaluateQuery, loadSavedQueries, saveQuery } from '../query';
+import type { IndentSize } from '../utils';
+import type { QueryLanguage, SavedQuery } from '../types';
+
+interface QueryPanelProps {
+  data: unknown;
+  indent: IndentSize;
+  language: QueryLanguage;
+  expression: string;
+  onLanguageChange: (language: QueryLanguage) => void;
+  onExpressionChange: (expression: string) => void;
+}
+
+/** 结果过长时只渲染前面一部分，复制时仍为完整内容 */
+const MAX_PREVIEW_LENGTH = 100_000;
+
+const languageOptions: { value: QueryLanguage; label: string; placeholder: string }[] = [
+  { value: 'jsonpath', label: 'JSONPath', placeholder: '$.items[?(@.active)].id' },
+  { value: 'jmespath', label: 'JMESPath', placeholder: 'items[?active].id' },
+  { value: 'jq', label: 'jq', placeholder: '.items[] | select(.active) | .id' },
+];
+
+const languageLabels = Object.fromEntries(
+  languageOptions.map((option) => [option.value, option.label])
+) as Record<QueryLanguage, string>;
+
+export const QueryPanel = memo(
+  ({
+    data,
+    indent,
+    language,
+    expression,
+    onLanguageChange,
+    onExpressionChange,
+  }: QueryPanelProps) => {
+    const [savedQueries, setSavedQueries] = useState<SavedQuery[]>(loadSavedQueries);
+    const [queryName, setQueryName] = useState('');
+
+    // 大文档查询较慢，输入时先保持旧结果
+    const deferredExpression = useDeferredValue(expression);
+
+    const result = useMemo(
+      () =>
+        deferredExpression.trim()
+          ? evaluateQuery(data, language, deferredExpression, indent)
+          : null,
+      [data, language, deferredExpression, indent]
+    );
+
+    const handleCopy = useCallback(async () => {
+      if (!result?.output) return;
+      try {
+        await navigator.clipboard.writeText(result.output);
+        toast.success(t('toast.resultCopied'));
+      } catch {
+        toast.error(t('toast.copyFailed'));
+      }
+    }, [result]);
+
+    const handleSave = useCallback(() => {
+      try {
+        setSavedQueries(saveQuery(queryName, language, expression));
+        setQueryName('');
+        toast.success(t('toast.querySaved'));
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : t('error.saveFailed'));
+      }
+    }, [queryName, language, expression]);
+
+    const handleLoad = useCallback(
+      (query: SavedQuery) => {
+        onLanguageChange(query.language);
+        onExpressionChange(query.expression);
+      },
+      [onLanguageChange, onExpressionChange]
+    );
+
+    const placeholder = languageOptions.find((option) => option.value === language)?.placeholder;
+    const position = result?.error?.position;
+
+    return (
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <label className="text-sm font-medium">查询</label>
+            <div className="flex rounded-md border bg-muted p-0.5">
+              {languageOptions.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => onLanguageChange(option.value)}
+                  className={cn(
+                    'rounded px-2 py-0.5 text-xs font-medium transition-colors',
+                    language === option.value
+                      ? 'bg-background text-foreground shadow-sm'
+                      : 'text-muted-foreground hover:text-foreground'
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          {result?.success && (
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-muted-foreground">
+                {language === 'jmespath' ? '结果' : `${result.count} 个结果`}
+              </span>
+              <Button variant="ghost" size="sm" onClick={handleCopy} className="h-7 px-2">
+                <Copy className="mr-1 h-3.5 w-3.5" />
+                复制
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <div className="relative">
+          <Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={expression}
+            onChange={(e) => onExpressionChange(e.target.value)}
+            placeholder={placeholder}
+            className={cn('pl-8 font-mono', result?.error && 'border-destructive')}
+            spellCheck={false}
+          />
+        </div>
+
+        {/* 错误提示，语法错误标出位置 */}
+        {result?.error && (
+          <div className="flex items-start gap-2 rounded-md bg-destructive/10 p-3 text-destructive">
+            <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+            <div className="min-w-0 text-sm">
+              <p className="font-medium">
+                {position !== undefined ? `语法错误（位置 ${position}）` : '查询失败'}
+              </p>
+              <p className="mt-1 text-destructive/80">{result.error.message}</p>
+              {position !== undefined && (
+                <pre className="mt-2 overflow-x-auto font-mono text-xs">
+                  <span className="text-muted-foreground">
+                    {deferredExpression.slice(0, position)}
+                  </span>
+                  <span className="bg-destructive px-0.5 text-destructive-foreground">
+                    {deferredExpression[position] ?? ' '}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {deferredExpression.slice(position + 1)}
+                  </span>
+                </pre>
+              )}
+            </div>
+          </div>
+        )}
+
+        {result?.success && (
+          <pre className="max-h-64 overflow-auto rounded-md border bg-muted/50 p-3 font-mono text-sm">
+            {result.output.length > MAX_PREVIEW_LENGTH
+              ? `${result.output.slice(0, MAX_PREVIEW_LENGTH)}\n…（结果过长，复制可获取完整内容）`
+              : result.output || '（无输出）'}
+          </pre>
+        )}
+
+        {/* 保存的查询 */}
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            value={queryName}
+            onChange={(e) => setQueryName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder="查询名称"
+            className="h-8 w-40 text-sm"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleSave}
+            disabled={!expression.trim()}
+            className="h-8"
+          >
+            <Save className="mr-1 h-3.5 w-3.5" />
+            保存查询
+          </Button>
+          {savedQueries.map((query) => (
+            <div
+              key={query.id}
+              className="flex items-center rounded-full border bg-muted/50 text-xs"
+            >
+              <button
+                onClick={() => handleLoad(query)}
+                className="py-1 pl-2.5 pr-1 hover:text-primary"
+                title={`${languageLabels[query.language]}: ${query.expression}`}
+              >
+                {query.name}
+              </button>
+              <button
+                onClick={() => setSavedQueries(deleteSavedQuery(query.id))}
+                className="rounded-full p-1 text-muted-foreground hover:text-destructive"
+                title="删除"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+);
+
+QueryPanel.displayName = 'QueryPanel';
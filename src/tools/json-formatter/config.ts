@@ -1,21 +1,104 @@
+import { lazy } from 'react';
 import type { ToolConfig } from '@/tools/types';
 import { Braces } from 'lucide-react';
-import { JSONFormatter } from './index';
+import { QUERY_LANGUAGES } from './query/shared';
+import type { JSONFormatterState, Mode } from './types';
 
-export const toolConfig: ToolConfig = {
+const MODES: Mode[] = ['format', 'minify', 'diff'];
+
+export const toolConfig: ToolConfig<JSONFormatterState> = {
   id: 'json-formatter',
   name: 'JSON 格式化',
-  description: '格式化、压缩和验证 JSON 数据，支持语法错误检测，智能提取 JSON 内容',
+  description:
+    '格式化、压缩和验证 JSON 数据，支持语法错误检测、智能提取 JSON 内容、树形浏览、JSONPath / JMESPath / jq 查询和结构对比',
+  locales: {
+    'en-US': {
+      name: 'JSON Formatter',
+      description:
+        'Format, minify and validate JSON with syntax error detection, smart extraction, a tree view, JSONPath / JMESPath / jq queries and structural diff',
+    },
+  },
   category: 'development',
   icon: Braces,
-  tags: ['json', '格式化', 'format', '压缩', 'minify', '验证', 'validate'],
-  component: JSONFormatter,
+  tags: [
+    'json',
+    '格式化',
+    'format',
+    '压缩',
+    'minify',
+    '验证',
+    'validate',
+    '树形',
+    'tree',
+    'JSONPath',
+    'JMESPath',
+    'jq',
+    '查询',
+    'query',
+    '对比',
+    'diff',
+    'JSON Patch',
+  ],
+  component: lazy(() =>
+    import('./index').then((m) => ({ default: m.JSONFormatter }))
+  ),
   requiresBackend: false,
-  version: '1.1.0',
+  version: '1.4.0',
   examples: [
     {
       input: '{"name":"test","value":123}',
       output: '{\n  "name": "test",\n  "value": 123\n}',
     },
   ],
+  commands: [
+    {
+      id: 'format-clipboard',
+      title: '格式化剪贴板',
+      locales: { 'en-US': { title: 'Format clipboard' } },
+      keywords: ['format', 'clipboard', 'beautify'],
+      run: async () => {
+        const { formatJSON } = await import('./utils');
+        const result = formatJSON(await navigator.clipboard.readText());
+        if (!result.success) {
+          throw new Error(result.error?.message || '格式化失败');
+        }
+        await navigator.clipboard.writeText(result.output);
+        return '已将格式化后的 JSON 写入剪贴板';
+      },
+    },
+    {
+      id: 'minify-clipboard',
+      title: '压缩剪贴板',
+      locales: { 'en-US': { title: 'Minify clipboard' } },
+      keywords: ['minify', 'clipboard', 'compress'],
+      run: async () => {
+        const { minifyJSON } = await import('./utils');
+        const result = minifyJSON(await navigator.clipboard.readText());
+        if (!result.success) {
+          throw new Error(result.error?.message || '压缩失败');
+        }
+        await navigator.clipboard.writeText(result.output);
+        return '已将压缩后的 JSON 写入剪贴板';
+      },
+    },
+  ],
+  serializeState: (state) => JSON.stringify(state),
+  deserializeState: (raw) => {
+    try {
+      const data = JSON.parse(raw);
+      if (typeof data?.input !== 'string') return null;
+      return {
+        input: data.input,
+        mode: MODES.includes(data.mode) ? data.mode : 'format',
+        indent: data.indent === 4 ? 4 : 2,
+        view: data.view === 'tree' ? 'tree' : 'text',
+        queryLanguage: QUERY_LANGUAGES.includes(data.queryLanguage) ? data.queryLanguage : 'jq',
+        query: typeof data.query === 'string' ? data.query : '',
+        compareInput: typeof data.compareInput === 'string' ? data.compareInput : '',
+        arrayKey: typeof data.arrayKey === 'string' ? data.arrayKey : '',
+      };
+    } catch {
+      return null;
+    }
+  },
 };
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { diffJSON, toJsonPointer } from './diff';
+import type { JsonPatchOperation } from './types';
+
+/**
+ * 按 RFC 6902 依次应用补丁，用于验证生成的补丁
+ */
+function applyPatch(document: unknown, patch: JsonPatchOperation[]): unknown {
+  let root = structuredClone(document);
+
+  const resolve = (pointer: string) => {
+    const segments = pointer
+      .split('/')
+      .slice(1)
+      .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+    const last = segments.pop()!;
+    let parent = root as Record<string, unknown>;
+    for (const segment of segments) parent = parent[segment] as Record<string, unknown>;
+    return { parent, last };
+  };
+
+  const remove = (pointer: string) => {
+    const { parent, last } = resolve(pointer);
+    const value = parent[last];
+    if (Array.isArray(parent)) parent.splice(Number(last), 1);
+    else delete parent[last];
+    return value;
+  };
+
+  const add = (pointer: string, value: unknown) => {
+    if (pointer === '') {
+      root = value;
+      return;
+    }
+    const { parent, last } = resolve(pointer);
+    if (Array.isArray(parent)) parent.splice(last === '-' ? parent.length : Number(last), 0, value);
+    else parent[last] = value;
+  };
+
+  for (const operation of patch) {
+    switch (operation.op) {
+      case 'add':
+        add(operation.path, structuredClone(operation.value));
+        break;
+      case 'remove':
+        remove(operation.path);
+        break;
+      case 'replace':
+        if (operation.path !== '') remove(operation.path);
+        add(operation.path, structuredClone(operation.value));
+        break;
+      case 'move':
+        add(operation.path, remove(operation.from!));
+        break;
+    }
+  }
+  return root;
+}
+
+describe('toJsonPointer', () => {
+  it('转义 ~ 和 /', () => {
+    expect(toJsonPointer([])).toBe('');
+    expect(toJsonPointer(['a/b', 'c~d', 0])).toBe('/a~1b/c~0d/0');
+  });
+});
+
+describe('diffJSON', () => {
+  it('忽略键顺序', () => {
+    expect(diffJSON({ a: 1, b: { c: [1, 2] } }, { b: { c: [1, 2] }, a: 1 }).entries).toEqual([]);
+  });
+
+  it('报告新增、删除和修改的路径', () => {
+    const { entries } = diffJSON(
+      { name: 'a', env: 'dev', nested: { count: 1 } },
+      { name: 'a', nested: { count: 2 }, region: 'cn' }
+    );
+    expect(entries).toEqual([
+      { kind: 'removed', path: ['env'], oldValue: 'dev' },
+      { kind: 'changed', path: ['nested', 'count'], oldValue: 1, newValue: 2 },
+      { kind: 'added', path: ['region'], newValue: 'cn' },
+    ]);
+  });
+
+  it('类型不同时整体替换', () => {
+    const { entries, patch } = diffJSON({ a: [1] }, { a: { 0: 1 } });
+    expect(entries).toEqual([{ kind: 'changed', path: ['a'], oldValue: [1], newValue: { 0: 1 } }]);
+    expect(patch).toEqual([{ op: 'replace', path: '/a', value: { 0: 1 } }]);
+    expect(diffJSON(1, 'x').patch).toEqual([{ op: 'replace', path: '', value: 'x' }]);
+  });
+
+  it('数组默认按下标比较', () => {
+    const { entries } = diffJSON([1, 2, 3], [1, 5]);
+    expect(entries).toEqual([
+      { kind: 'changed', path: [1], oldValue: 2, newValue: 5 },
+      { kind: 'removed', path: [2], oldValue: 3 },
+    ]);
+  });
+
+  it('数组按键匹配时忽略顺序', () => {
+    const left = { users: [{ id: 1, name: 'a' }, { id: 2, name: 'b' }, { id: 3, name: 'c' }] };
+    const right = { users: [{ id: 3, name: 'c' }, { id: 4, name: 'd' }, { id: 1, name: 'A' }] };
+
+    const { entries } = diffJSON(left, right, { arrayKey: 'id' });
+    expect(entries).toEqual([
+      { kind: 'removed', path: ['users', 1], oldValue: { id: 2, name: 'b' } },
+      { kind: 'added', path: ['users', 1], newValue: { id: 4, name: 'd' } },
+      { kind: 'changed', path: ['users', 2, 'name'], oldValue: 'a', newValue: 'A' },
+    ]);
+
+    // 按下标比较时每个元素都有差异
+    expect(diffJSON(left, right).entries.length).toBeGreaterThan(3);
+  });
+
+  it('键缺失或重复时退回按下标比较', () => {
+    const left = [{ id: 1 }, { id: 1 }];
+    const right = [{ id: 1 }, { id: 2 }];
+    expect(diffJSON(left, right, { arrayKey: 'id' }).entries).toEqual([
+      { kind: 'changed', path: [1, 'id'], oldValue: 1, newValue: 2 },
+    ]);
+    expect(diffJSON([1, 2], [2, 1], { arrayKey: 'id' }).entries).toHaveLength(2);
+  });
+
+  it('应用补丁后得到新文档', () => {
+    const cases: [unknown, unknown, string?][] = [
+      [{ a: 1, 'x/y': { '~': 1 } }, { a: 2, 'x/y': { '~': 2 }, b: [1] }],
+      [[1, 2, 3, 4], [1, 5]],
+      [[1], [1, 2, 3]],
+      [
+        { items: [{ k: 'a', v: 1 }, { k: 'b', v: 2 }, { k: 'c', v: 3 }, { k: 'd', v: 4 }] },
+        { items: [{ k: 'e', v: 5 }, { k: 'c', v: 30 }, { k: 'a', v: 1 }, { k: 'f', v: 6 }] },
+        'k',
+      ],
+      [
+        [{ id: 1, tags: [{ id: 'x' }, { id: 'y' }] }, { id: 2, tags: [] }],
+        [{ id: 2, tags: [{ id: 'z' }] }, { id: 1, tags: [{ id: 'y' }, { id: 'x', on: true }] }],
+        'id',
+      ],
+    ];
+    for (const [left, right, arrayKey] of cases) {
+      const { patch } = diffJSON(left, right, { arrayKey });
+      expect(applyPatch(left, patch)).toEqual(right);
+    }
+  });
+});
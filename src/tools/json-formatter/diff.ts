@@ -0,0 +1,159 @@
+/**
+ * JSON 结构对比
+ * 忽略对象键的顺序和格式，逐个路径比较值，并生成 RFC 6902 JSON Patch
+ */
+
+import { deepEqual, isObject } from './query/shared';
+import type { DiffEntry, DiffResult, JsonPatchOperation, PathSegment } from './types';
+
+export interface DiffOptions {
+  /**
+   * 数组元素按该键匹配（如 id），不填时按下标匹配
+   * 只有两侧数组的元素都是含该键的对象、且键值唯一时才生效
+   */
+  arrayKey?: string;
+}
+
+/**
+ * 转义 JSON Pointer 中的一段（RFC 6901）
+ */
+function escapePointer(segment: PathSegment): string {
+  return String(segment).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * 生成 JSON Pointer，如 /items/3/first~1name
+ */
+export function toJsonPointer(path: PathSegment[]): string {
+  return path.map((segment) => `/${escapePointer(segment)}`).join('');
+}
+
+/**
+ * 取数组元素用于匹配的键值，无法按键匹配时返回 null
+ */
+function keyValues(array: unknown[], key: string): string[] | null {
+  const values: string[] = [];
+  const seen = new Set<string>();
+  for (const item of array) {
+    if (!isObject(item) || !Object.hasOwn(item, key)) return null;
+    const value = item[key];
+    if (value !== null && typeof value === 'object') return null;
+    // 带上类型，避免 1 和 "1" 被视为同一个键
+    const id = JSON.stringify(value);
+    if (seen.has(id)) return null;
+    seen.add(id);
+    values.push(id);
+  }
+  return values;
+}
+
+/**
+ * 对比两个已解析的 JSON 值
+ */
+export function diffJSON(left: unknown, right: unknown, options: DiffOptions = {}): DiffResult {
+  const arrayKey = options.arrayKey?.trim();
+  const entries: DiffEntry[] = [];
+  const patch: JsonPatchOperation[] = [];
+
+  // 补丁按生成顺序应用，每个操作的路径都是应用到该步时值所在的位置
+  const walk = (a: unknown, b: unknown, path: PathSegment[]) => {
+    if (Array.isArray(a) && Array.isArray(b)) {
+      const leftKeys = arrayKey ? keyValues(a, arrayKey) : null;
+      const rightKeys = leftKeys && arrayKey ? keyValues(b, arrayKey) : null;
+      if (leftKeys && rightKeys) {
+        walkKeyedArray(a, b, leftKeys, rightKeys, path);
+      } else {
+        walkArray(a, b, path);
+      }
+      return;
+    }
+
+    if (isObject(a) && isObject(b)) {
+      for (const key of Object.keys(a)) {
+        if (!Object.hasOwn(b, key)) {
+          entries.push({ kind: 'removed', path: [...path, key], oldValue: a[key] });
+          patch.push({ op: 'remove', path: toJsonPointer([...path, key]) });
+        }
+      }
+      for (const key of Object.keys(b)) {
+        if (Object.hasOwn(a, key)) {
+          walk(a[key], b[key], [...path, key]);
+        } else {
+          entries.push({ kind: 'added', path: [...path, key], newValue: b[key] });
+          patch.push({ op: 'add', path: toJsonPointer([...path, key]), value: b[key] });
+        }
+      }
+      return;
+    }
+
+    if (!deepEqual(a, b)) {
+      entries.push({ kind: 'changed', path, oldValue: a, newValue: b });
+      patch.push({ op: 'replace', path: toJsonPointer(path), value: b });
+    }
+  };
+
+  // 按下标匹配：先比较共同部分，再从末尾删除或追加
+  const walkArray = (a: unknown[], b: unknown[], path: PathSegment[]) => {
+    const common = Math.min(a.length, b.length);
+    for (let i = 0; i < common; i++) walk(a[i], b[i], [...path, i]);
+    for (let i = a.length - 1; i >= common; i--) {
+      entries.push({ kind: 'removed', path: [...path, i], oldValue: a[i] });
+      patch.push({ op: 'remove', path: toJsonPointer([...path, i]) });
+    }
+    for (let i = common; i < b.length; i++) {
+      entries.push({ kind: 'added', path: [...path, i], newValue: b[i] });
+      patch.push({ op: 'add', path: toJsonPointer([...path, i]), value: b[i] });
+    }
+  };
+
+  // 按键匹配：顺序变化不算差异，但补丁中用 move 调整顺序以得到完全相同的文档
+  const walkKeyedArray = (
+    a: unknown[],
+    b: unknown[],
+    leftKeys: string[],
+    rightKeys: string[],
+    path: PathSegment[]
+  ) => {
+    const rightIndex = new Map(rightKeys.map((key, index) => [key, index]));
+    const leftIndex = new Map(leftKeys.map((key, index) => [key, index]));
+
+    // 1. 从后往前删除新文档中没有的元素，下标不受影响
+    for (let i = a.length - 1; i >= 0; i--) {
+      if (!rightIndex.has(leftKeys[i])) {
+        entries.push({ kind: 'removed', path: [...path, i], oldValue: a[i] });
+        patch.push({ op: 'remove', path: toJsonPointer([...path, i]) });
+      }
+    }
+
+    // 2. 剩余元素按在新文档中的顺序排列
+    const order = leftKeys.filter((key) => rightIndex.has(key));
+    const target = [...order].sort((x, y) => rightIndex.get(x)! - rightIndex.get(y)!);
+    target.forEach((key, i) => {
+      const from = order.indexOf(key, i);
+      if (from === i) return;
+      patch.push({
+        op: 'move',
+        from: toJsonPointer([...path, from]),
+        path: toJsonPointer([...path, i]),
+      });
+      order.splice(from, 1);
+      order.splice(i, 0, key);
+    });
+
+    // 3. 按新文档下标从小到大插入新增元素，插入时前面的元素都已就位
+    rightKeys.forEach((key, j) => {
+      if (leftIndex.has(key)) return;
+      entries.push({ kind: 'added', path: [...path, j], newValue: b[j] });
+      patch.push({ op: 'add', path: toJsonPointer([...path, j]), value: b[j] });
+    });
+
+    // 4. 此时数组顺序与新文档一致，按新下标比较匹配的元素
+    rightKeys.forEach((key, j) => {
+      const i = leftIndex.get(key);
+      if (i !== undefined) walk(a[i], b[j], [...path, j]);
+    });
+  };
+
+  walk(left, right, []);
+  return { entries, patch };
+}
@@ -1,52 +1,158 @@
-import { useState, useCallback } from 'react';
-import { Copy, Check, AlertCircle, Trash2 } from 'lucide-react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { Copy, Check, AlertCircle, Trash2, FileText, ListTree } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { cn } from '@/lib/utils';
+import { useToolState } from '@/hooks/useToolState';
+import { JsonTreeView } from './components/JsonTreeView';
+import { QueryPanel } from './components/QueryPanel';
+import { DiffView } from './components/DiffView';
+import { diffJSON } from './diff';
+import { t } from './locales';
 import {
-  formatJSON,
-  minifyJSON,
+  parseJSON,
+  renderJSON,
   highlightError,
   type IndentSize,
   type FormatResult,
 } from './utils';
+import type { JSONFormatterState, Mode, OutputView, QueryLanguage } from './types';
 
-type Mode = 'format' | 'minify';
+/**
+ * 按模式输出已解析的数据
+ */
+function renderOutput(data: unknown, mode: Mode, indent: IndentSize): string {
+  return mode === 'minify' ? JSON.stringify(data) : renderJSON(data, indent);
+}
+
+/**
+ * 解析对比的两份输入，都成功时返回数据
+ */
+function parsePair(left: string, right: string): { left: unknown; right: unknown } | null {
+  const leftResult = parseJSON(left);
+  const rightResult = parseJSON(right);
+  return leftResult.success && rightResult.success
+    ? { left: leftResult.data, right: rightResult.data }
+    : null;
+}
+
+const modeOptions: { value: Mode; label: string }[] = [
+  { value: 'format', label: '格式化' },
+  { value: 'minify', label: '压缩' },
+  { value: 'diff', label: '对比' },
+];
 
 /**
  * JSON 格式化工具组件
  */
 export const JSONFormatter = () => {
-  const [input, setInput] = useState('');
-  const [output, setOutput] = useState('');
-  const [mode, setMode] = useState<Mode>('format');
-  const [indent, setIndent] = useState<IndentSize>(2);
+  const { initialState, reportState, recordHistory } = useToolState<JSONFormatterState>();
+  const [input, setInput] = useState(initialState?.input ?? '');
+  const [mode, setMode] = useState<Mode>(initialState?.mode ?? 'format');
+  const [indent, setIndent] = useState<IndentSize>(initialState?.indent ?? 2);
+  const [view, setView] = useState<OutputView>(initialState?.view ?? 'text');
+  const [queryLanguage, setQueryLanguage] = useState<QueryLanguage>(
+    initialState?.queryLanguage ?? 'jq'
+  );
+  const [query, setQuery] = useState(initialState?.query ?? '');
+  const [compareInput, setCompareInput] = useState(initialState?.compareInput ?? '');
+  const [arrayKey, setArrayKey] = useState(initialState?.arrayKey ?? '');
   const [error, setError] = useState<FormatResult['error'] | null>(null);
+  const [compareError, setCompareError] = useState<FormatResult['error'] | null>(null);
   const [copied, setCopied] = useState(false);
 
+  // 从分享链接还原时直接展示处理结果
+  // 解析结果单独保存（JSON 本身可能是 null），供树形视图使用
+  const [parsed, setParsed] = useState<{ data: unknown } | null>(() => {
+    if (!initialState?.input.trim()) return null;
+    const result = parseJSON(initialState.input);
+    return result.success ? { data: result.data } : null;
+  });
+  const [output, setOutput] = useState(() =>
+    parsed && initialState && initialState.mode !== 'diff'
+      ? renderOutput(parsed.data, initialState.mode, initialState.indent)
+      : ''
+  );
+  // 对比模式下两份已解析的数据，数组匹配键变化时重新计算差异
+  const [diffSources, setDiffSources] = useState(() =>
+    initialState?.mode === 'diff' ? parsePair(initialState.input, initialState.compareInput) : null
+  );
+  const diffResult = useMemo(
+    () => (diffSources ? diffJSON(diffSources.left, diffSources.right, { arrayKey }) : null),
+    [diffSources, arrayKey]
+  );
+
+  // 上报可分享的状态
+  useEffect(() => {
+    reportState({ input, mode, indent, view, queryLanguage, query, compareInput, arrayKey });
+  }, [input, mode, indent, view, queryLanguage, query, compareInput, arrayKey, reportState]);
+
+  // 对比两份 JSON
+  const handleCompare = useCallback(() => {
+    const check = (source: string) => {
+      if (!source.trim()) return { message: t('error.inputRequired') };
+      const result = parseJSON(source);
+      return result.success ? null : result.error || { message: t('error.parseFailed') };
+    };
+    const leftError = check(input);
+    const rightError = check(compareInput);
+    setError(leftError);
+    setCompareError(rightError);
+    if (leftError || rightError) {
+      setDiffSources(null);
+      return;
+    }
+
+    const sources = parsePair(input, compareInput)!;
+    setDiffSources(sources);
+    const { patch } = diffJSON(sources.left, sources.right, { arrayKey });
+    recordHistory({
+      input,
+      output: JSON.stringify(patch, null, indent),
+      options: arrayKey.trim() ? { mode: '对比', arrayKey: arrayKey.trim() } : { mode: '对比' },
+    });
+  }, [input, compareInput, arrayKey, indent, recordHistory]);
+
   // 处理 JSON
   const handleProcess = useCallback(() => {
+    if (mode === 'diff') {
+      handleCompare();
+      return;
+    }
     if (!input.trim()) {
       setError({ message: '请输入 JSON 内容' });
       setOutput('');
       return;
     }
 
-    const result = mode === 'format' ? formatJSON(input, indent) : minifyJSON(input);
+    const result = parseJSON(input);
 
     if (result.success) {
-      setOutput(result.output);
+      const rendered = renderOutput(result.data, mode, indent);
+      setOutput(rendered);
+      setParsed({ data: result.data });
       setError(null);
+      recordHistory({
+        input,
+        output: rendered,
+        options: mode === 'format' ? { mode: '格式化', indent: `${indent} 空格` } : { mode: '压缩' },
+      });
     } else {
       setOutput('');
+      setParsed(null);
       setError(result.error || { message: '处理失败' });
     }
-  }, [input, mode, indent]);
+  }, [input, mode, indent, recordHistory, handleCompare]);
 
   // 清空
   const handleClear = useCallback(() => {
     setInput('');
     setOutput('');
+    setParsed(null);
     setError(null);
+    setCompareInput('');
+    setCompareError(null);
+    setDiffSources(null);
   }, []);
 
   // 复制结果
@@ -63,13 +169,16 @@ export const JSONFormatter = () => {
   }, [output]);
 
   // 渲染错误高亮
-  const renderErrorHighlight = () => {
-    if (!error || !input) return null;
+  const renderErrorHighlight = (
+    source: string,
+    sourceError: NonNullable<FormatResult['error']>
+  ) => {
+    if (!source) return null;
 
     const { before, error: errorPart, after } = highlightError(
-      input,
-      error.position,
-      error.line
+      source,
+      sourceError.position,
+      sourceError.line
     );
 
     if (!errorPart) return null;
@@ -83,6 +192,28 @@ export const JSONFormatter = () => {
     );
   };
 
+  // 渲染错误提示
+  const renderError = (source: string, sourceError: NonNullable<FormatResult['error']>) => (
+    <div className="space-y-1">
+      <div className="flex items-start gap-2 rounded-md bg-destructive/10 p-3 text-destructive">
+        <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+        <div className="text-sm">
+          <p className="font-medium">JSON 语法错误</p>
+          <p className="mt-1 text-destructive/80">{sourceError.message}</p>
+          {(sourceError.line || sourceError.position !== undefined) && (
+            <p className="mt-1 text-xs text-destructive/60">
+              {sourceError.line && `行 ${sourceError.line}`}
+              {sourceError.line && sourceError.column && ', '}
+              {sourceError.column && `列 ${sourceError.column}`}
+              {sourceError.position !== undefined && ` (位置 ${sourceError.position})`}
+            </p>
+          )}
+        </div>
+      </div>
+      {renderErrorHighlight(source, sourceError)}
+    </div>
+  );
+
   return (
     <div className="container mx-auto ">
       <div className="rounded-lg ">
@@ -90,7 +221,7 @@ export const JSONFormatter = () => {
         <div className="border-b p-4">
           <h1 className="text-xl font-semibold">JSON 格式化</h1>
           <p className="mt-1 text-sm text-muted-foreground">
-            格式化、压缩和验证 JSON 数据
+            格式化、压缩、验证和对比 JSON 数据
           </p>
         </div>
 
@@ -100,33 +231,25 @@ export const JSONFormatter = () => {
           <div className="flex items-center gap-2">
             <span className="text-sm text-muted-foreground">模式:</span>
             <div className="flex rounded-lg border bg-muted p-1">
-              <button
-                onClick={() => setMode('format')}
-                className={cn(
-                  'rounded-md px-3 py-1.5 text-sm font-medium transition-colors',
-                  mode === 'format'
-                    ? 'bg-background text-foreground shadow-sm'
-                    : 'text-muted-foreground hover:text-foreground'
-                )}
-              >
-                格式化
-              </button>
-              <button
-                onClick={() => setMode('minify')}
-                className={cn(
-                  'rounded-md px-3 py-1.5 text-sm font-medium transition-colors',
-                  mode === 'minify'
-                    ? 'bg-background text-foreground shadow-sm'
-                    : 'text-muted-foreground hover:text-foreground'
-                )}
-              >
-                压缩
-              </button>
+              {modeOptions.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => setMode(option.value)}
+                  className={cn(
+                    'rounded-md px-3 py-1.5 text-sm font-medium transition-colors',
+                    mode === option.value
+                      ? 'bg-background text-foreground shadow-sm'
+                      : 'text-muted-foreground hover:text-foreground'
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
             </div>
           </div>
 
-          {/* 缩进选择（仅格式化模式） */}
-          {mode === 'format' && (
+          {/* 缩进选择（格式化模式；对比模式下用于 JSON Patch） */}
+          {mode !== 'minify' && (
             <div className="flex items-center gap-2">
               <span className="text-sm text-muted-foreground">缩进:</span>
               <div className="flex rounded-lg border bg-muted p-1">
@@ -156,10 +279,24 @@ export const JSONFormatter = () => {
             </div>
           )}
 
+          {/* 数组匹配键（仅对比模式） */}
+          {mode === 'diff' && (
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">数组匹配键:</span>
+              <Input
+                value={arrayKey}
+                onChange={(e) => setArrayKey(e.target.value)}
+                placeholder="如 id，留空按下标"
+                className="h-9 w-36 font-mono"
+                title="数组元素都是含该键的对象时按键匹配，忽略顺序"
+              />
+            </div>
+          )}
+
           {/* 操作按钮 */}
           <div className="flex items-center gap-2 ml-auto">
             <Button onClick={handleProcess}>
-              {mode === 'format' ? '格式化' : '压缩'}
+              {modeOptions.find((option) => option.value === mode)?.label}
             </Button>
             <Button variant="outline" onClick={handleClear}>
               <Trash2 className="h-4 w-4 mr-1" />
@@ -173,7 +310,7 @@ export const JSONFormatter = () => {
           {/* 输入区 */}
           <div className="space-y-2">
             <div className="flex items-center justify-between">
-              <label className="text-sm font-medium">输入</label>
+              <label className="text-sm font-medium">{mode === 'diff' ? '原始 JSON' : '输入'}</label>
               <span className="text-xs text-muted-foreground">
                 {input.length} 字符
               </span>
@@ -194,75 +331,138 @@ export const JSONFormatter = () => {
             />
 
             {/* 错误提示 */}
-            {error && (
-              <div className="space-y-1">
-                <div className="flex items-start gap-2 rounded-md bg-destructive/10 p-3 text-destructive">
-                  <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
-                  <div className="text-sm">
-                    <p className="font-medium">JSON 语法错误</p>
-                    <p className="mt-1 text-destructive/80">{error.message}</p>
-                    {(error.line || error.position !== undefined) && (
-                      <p className="mt-1 text-xs text-destructive/60">
-                        {error.line && `行 ${error.line}`}
-                        {error.line && error.column && ', '}
-                        {error.column && `列 ${error.column}`}
-                        {error.position !== undefined && ` (位置 ${error.position})`}
-                      </p>
-                    )}
-                  </div>
-                </div>
-                {renderErrorHighlight()}
-              </div>
-            )}
+            {error && renderError(input, error)}
           </div>
 
-          {/* 输出区 */}
-          <div className="space-y-2">
-            <div className="flex items-center justify-between">
-              <label className="text-sm font-medium">输出</label>
-              <div className="flex items-center gap-2">
+          {mode === 'diff' ? (
+            /* 对比输入区 */
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium">新 JSON</label>
                 <span className="text-xs text-muted-foreground">
-                  {output.length} 字符
+                  {compareInput.length} 字符
                 </span>
-                {output && (
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={handleCopy}
-                    className="h-7 px-2"
-                  >
-                    {copied ? (
-                      <>
-                        <Check className="h-3.5 w-3.5 mr-1 text-green-500" />
-                        已复制
-                      </>
-                    ) : (
-                      <>
-                        <Copy className="h-3.5 w-3.5 mr-1" />
-                        复制
-                      </>
-                    )}
-                  </Button>
-                )}
               </div>
+              <textarea
+                value={compareInput}
+                onChange={(e) => {
+                  setCompareInput(e.target.value);
+                  setCompareError(null);
+                }}
+                placeholder='{"key": "new value"}'
+                className={cn(
+                  'h-80 w-full resize-none rounded-md border bg-background p-3 font-mono text-sm',
+                  'focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2',
+                  compareError && 'border-destructive focus:ring-destructive'
+                )}
+                spellCheck={false}
+              />
+              {compareError && renderError(compareInput, compareError)}
             </div>
-            <textarea
-              value={output}
-              readOnly
-              placeholder="处理结果将显示在这里..."
-              className={cn(
-                'h-80 w-full resize-none rounded-md border bg-muted/50 p-3 font-mono text-sm',
-                'focus:outline-none'
+          ) : (
+            /* 输出区 */
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <label className="text-sm font-medium">输出</label>
+                  <div className="flex rounded-md border bg-muted p-0.5">
+                    {(
+                      [
+                        { value: 'text', label: '文本', icon: FileText },
+                        { value: 'tree', label: '树形', icon: ListTree },
+                      ] as const
+                    ).map(({ value, label, icon: Icon }) => (
+                      <button
+                        key={value}
+                        onClick={() => setView(value)}
+                        className={cn(
+                          'flex items-center gap-1 rounded px-2 py-0.5 text-xs font-medium transition-colors',
+                          view === value
+                            ? 'bg-background text-foreground shadow-sm'
+                            : 'text-muted-foreground hover:text-foreground'
+                        )}
+                      >
+                        <Icon className="h-3.5 w-3.5" />
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground">
+                    {output.length} 字符
+                  </span>
+                  {output && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleCopy}
+                      className="h-7 px-2"
+                    >
+                      {copied ? (
+                        <>
+                          <Check className="h-3.5 w-3.5 mr-1 text-green-500" />
+                          已复制
+                        </>
+                      ) : (
+                        <>
+                          <Copy className="h-3.5 w-3.5 mr-1" />
+                          复制
+                        </>
+                      )}
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {view === 'text' ? (
+                <textarea
+                  value={output}
+                  readOnly
+                  placeholder="处理结果将显示在这里..."
+                  className={cn(
+                    'h-80 w-full resize-none rounded-md border bg-muted/50 p-3 font-mono text-sm',
+                    'focus:outline-none'
+                  )}
+                  spellCheck={false}
+                />
+              ) : parsed ? (
+                <JsonTreeView data={parsed.data} />
+              ) : (
+                <div className="flex h-80 items-center justify-center rounded-md border border-dashed text-sm text-muted-foreground">
+                  处理后在这里以树形浏览，点击节点复制路径
+                </div>
               )}
-              spellCheck={false}
-            />
-          </div>
+            </div>
+          )}
         </div>
 
+        {mode === 'diff'
+          ? diffResult && (
+              /* 对比结果 */
+              <div className="border-t p-4">
+                <DiffView result={diffResult} indent={indent} />
+              </div>
+            )
+          : parsed && (
+              /* 查询 */
+              <div className="border-t p-4">
+                <QueryPanel
+                  data={parsed.data}
+                  indent={indent}
+                  language={queryLanguage}
+                  expression={query}
+                  onLanguageChange={setQueryLanguage}
+                  onExpressionChange={setQuery}
+                />
+              </div>
+            )}
+
         {/* 底部提示 */}
         <div className="border-t p-4">
           <p className="text-xs text-muted-foreground">
-            提示: 输入 JSON 后点击"{mode === 'format' ? '格式化' : '压缩'}"按钮处理，支持自动检测语法错误并高亮显示错误位置。
+            {mode === 'diff'
+              ? '提示: 分别输入两份 JSON 后点击"对比"，忽略键顺序和空白，列出新增、删除和修改的路径，并可导出为 RFC 6902 JSON Patch。'
+              : `提示: 输入 JSON 后点击"${mode === 'format' ? '格式化' : '压缩'}"按钮处理，支持自动检测语法错误并高亮显示错误位置；处理成功后可用 JSONPath、JMESPath 或 jq 查询数据。`}
           </p>
         </div>
       </div>
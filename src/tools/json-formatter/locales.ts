@@ -0,0 +1,162 @@
+import { defineMessages } from '@/lib/i18n';
+
+/**
+ * JSON 格式化工具的消息目录
+ */
+export const t = defineMessages(
+  {
+    'error.invalidUnicodeEscape': '无效的 \\u 转义',
+    'error.invalidEscape': '无效的转义字符 \\{char}',
+    'error.unterminatedString': '字符串缺少结束引号',
+    'error.invalidNumber': '无效的数字',
+    'error.unexpectedChar': '无法识别的字符 "{char}"',
+    'error.incomplete': '表达式不完整',
+    'error.expected': '此处应为 {expected}',
+    'error.unexpectedToken': '此处不应出现 {token}',
+    'error.expectedKey': '此处应为键名',
+    'error.jsonPathRoot': 'JSONPath 必须以 $ 开头',
+    'error.jsonPathExpectedMember': '此处应为成员名或 *',
+    'error.jsonPathExpectedSelector': '此处应为名称、下标、切片、* 或过滤表达式',
+    'error.jsonPathExpectedIndex': '此处应为下标',
+    'error.jsonPathIntegerIndex': '下标必须是整数',
+    'error.jsonPathLiteralComparison': '字面量需要与路径比较，缺少比较运算符',
+    'error.jsonPathExpectedOperand': '此处应为 @ 路径、$ 路径、字面量或 length()',
+    'error.unterminatedLiteral': '字面量缺少结束反引号',
+    'error.invalidJsonLiteral': '反引号内不是合法的 JSON',
+    'error.integerOnly': '此处只允许整数',
+    'error.quotedFunctionName': '函数名不能加引号',
+    'error.notCallable': '只能调用函数名',
+    'error.zeroSliceStep': '切片步长不能为 0',
+    'error.exprefOutsideFunction': '&表达式只能作为函数参数',
+    'error.unknownFunction': '未知函数 {name}()',
+    'error.argumentCount': '函数 {name}() 需要 {count} 个参数，实际为 {actual} 个',
+    'error.argumentCountAtLeast': '函数 {name}() 需要至少 {count} 个参数，实际为 {actual} 个',
+    'error.argumentType': '函数 {name}() 的第 {index} 个参数应为 {expected}，实际为 {actual}',
+    'error.itemType': '函数 {name}() 的数组元素应全部为 {expected}',
+    'error.interpolationUnsupported': '暂不支持字符串插值 \\(...)',
+    'error.variableUnsupported': '暂不支持变量',
+    'error.bindingUnsupported': '暂不支持变量绑定（as $x）',
+    'error.unsupported': '暂不支持 {name}',
+    'error.tooManySteps': '计算量过大，已停止',
+    'error.cannotIterate': '无法遍历 {type}',
+    'error.cannotIndex': '无法用 {key} 索引 {target}',
+    'error.sliceBounds': '切片的起止位置必须是数字',
+    'error.cannotSlice': '无法对 {type} 切片',
+    'error.invalidOperands': '{left} 和 {right} 不能执行 {operator} 运算',
+    'error.divisionByZero': '除数不能为 0',
+    'error.objectKeyType': '对象的键必须是字符串，实际为 {type}',
+    'error.cannotNegate': '{type} 不能取负',
+    'error.undefinedFunction': '{name} 未定义',
+    'error.arrayInput': '{name} 的输入必须是数组，实际为 {type}',
+    'error.objectInput': '{name} 的输入必须是对象，实际为 {type}',
+    'error.numberInput': '{name} 的输入必须是数字',
+    'error.stringArgument': '{name} 的参数必须是字符串，实际为 {type}',
+    'error.mapValuesInput': 'map_values 的输入必须是数组或对象，实际为 {type}',
+    'error.entryNotObject': 'from_entries 的元素必须是对象',
+    'error.entryMissingKey': 'from_entries 的元素缺少 key',
+    'error.cannotContain': '{left} 和 {right} 无法判断包含关系',
+    'error.negativeDepth': 'flatten 的深度不能为负数',
+    'error.depthNotNumber': 'flatten 的深度必须是数字',
+    'error.limitNotNumber': 'limit 的数量必须是数字',
+    'error.rangeNotNumber': 'range 的参数必须是数字',
+    'error.noLength': '{type} 没有长度',
+    'error.noKeys': '{type} 没有键',
+    'error.cannotHas': '无法检查 {type} 是否有 {key} 类型的键',
+    'error.cannotJoin': '无法拼接 {type}',
+    'error.cannotParseNumber': '无法将 {value} 转为数字',
+    'error.fromJsonFailed': 'fromjson 解析失败: {message}',
+    'error.invalidRegex': '无效的正则表达式: {source}',
+    'error.queryFailed': '查询失败',
+    'error.queryNameRequired': '请输入查询名称',
+    'error.queryExpressionEmpty': '查询表达式为空',
+    'error.saveFailed': '保存失败',
+    'error.inputRequired': '请输入 JSON 内容',
+    'error.parseFailed': '解析失败',
+    'toast.copyFailed': '复制失败',
+    'toast.resultCopied': '已复制查询结果',
+    'toast.querySaved': '查询已保存',
+    'toast.patchCopied': '已复制 JSON Patch',
+    'toast.pathCopied': '已复制 {path}',
+    'token.number': '数字 {value}',
+    'token.stringOrLiteral': '字符串或字面量',
+    'word.or': ' 或 ',
+  },
+  {
+    'error.invalidUnicodeEscape': 'Invalid \\u escape',
+    'error.invalidEscape': 'Invalid escape character \\{char}',
+    'error.unterminatedString': 'Unterminated string',
+    'error.invalidNumber': 'Invalid number',
+    'error.unexpectedChar': 'Unrecognized character "{char}"',
+    'error.incomplete': 'Incomplete expression',
+    'error.expected': 'Expected {expected}',
+    'error.unexpectedToken': 'Unexpected {token}',
+    'error.expectedKey': 'Expected a key',
+    'error.jsonPathRoot': 'JSONPath must start with $',
+    'error.jsonPathExpectedMember': 'Expected a member name or *',
+    'error.jsonPathExpectedSelector': 'Expected a name, index, slice, * or filter expression',
+    'error.jsonPathExpectedIndex': 'Expected an index',
+    'error.jsonPathIntegerIndex': 'Indexes must be integers',
+    'error.jsonPathLiteralComparison':
+      'A literal must be compared with a path; the comparison operator is missing',
+    'error.jsonPathExpectedOperand': 'Expected an @ path, $ path, literal or length()',
+    'error.unterminatedLiteral': 'Unterminated literal, missing the closing backtick',
+    'error.invalidJsonLiteral': 'The backtick literal is not valid JSON',
+    'error.integerOnly': 'Only integers are allowed here',
+    'error.quotedFunctionName': 'Function names cannot be quoted',
+    'error.notCallable': 'Only function names can be called',
+    'error.zeroSliceStep': 'The slice step cannot be 0',
+    'error.exprefOutsideFunction': '&expressions can only be used as function arguments',
+    'error.unknownFunction': 'Unknown function {name}()',
+    'error.argumentCount': '{name}() takes {count} arguments, got {actual}',
+    'error.argumentCountAtLeast': '{name}() takes at least {count} arguments, got {actual}',
+    'error.argumentType': 'Argument {index} of {name}() must be {expected}, got {actual}',
+    'error.itemType': 'The array elements of {name}() must all be {expected}',
+    'error.interpolationUnsupported': 'String interpolation \\(...) is not supported',
+    'error.variableUnsupported': 'Variables are not supported',
+    'error.bindingUnsupported': 'Variable bindings (as $x) are not supported',
+    'error.unsupported': '{name} is not supported',
+    'error.tooManySteps': 'Too much computation, stopped',
+    'error.cannotIterate': 'Cannot iterate over {type}',
+    'error.cannotIndex': 'Cannot index {target} with {key}',
+    'error.sliceBounds': 'Slice bounds must be numbers',
+    'error.cannotSlice': 'Cannot slice {type}',
+    'error.invalidOperands': 'Cannot apply {operator} to {left} and {right}',
+    'error.divisionByZero': 'Division by zero',
+    'error.objectKeyType': 'Object keys must be strings, got {type}',
+    'error.cannotNegate': 'Cannot negate {type}',
+    'error.undefinedFunction': '{name} is not defined',
+    'error.arrayInput': 'The input of {name} must be an array, got {type}',
+    'error.objectInput': 'The input of {name} must be an object, got {type}',
+    'error.numberInput': 'The input of {name} must be a number',
+    'error.stringArgument': 'The argument of {name} must be a string, got {type}',
+    'error.mapValuesInput': 'The input of map_values must be an array or object, got {type}',
+    'error.entryNotObject': 'The elements of from_entries must be objects',
+    'error.entryMissingKey': 'An element of from_entries has no key',
+    'error.cannotContain': 'Cannot check whether {left} contains {right}',
+    'error.negativeDepth': 'The flatten depth cannot be negative',
+    'error.depthNotNumber': 'The flatten depth must be a number',
+    'error.limitNotNumber': 'The limit count must be a number',
+    'error.rangeNotNumber': 'The arguments of range must be numbers',
+    'error.noLength': '{type} has no length',
+    'error.noKeys': '{type} has no keys',
+    'error.cannotHas': 'Cannot check whether {type} has a key of type {key}',
+    'error.cannotJoin': 'Cannot join {type}',
+    'error.cannotParseNumber': 'Cannot convert {value} to a number',
+    'error.fromJsonFailed': 'fromjson failed: {message}',
+    'error.invalidRegex': 'Invalid regular expression: {source}',
+    'error.queryFailed': 'Query failed',
+    'error.queryNameRequired': 'Please enter a query name',
+    'error.queryExpressionEmpty': 'The query expression is empty',
+    'error.saveFailed': 'Save failed',
+    'error.inputRequired': 'Please enter JSON',
+    'error.parseFailed': 'Parsing failed',
+    'toast.copyFailed': 'Copy failed',
+    'toast.resultCopied': 'Query result copied',
+    'toast.querySaved': 'Query saved',
+    'toast.patchCopied': 'JSON Patch copied',
+    'toast.pathCopied': 'Copied {path}',
+    'token.number': 'number {value}',
+    'token.stringOrLiteral': 'a string or literal',
+    'word.or': ' or ',
+  }
+);
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { deleteSavedQuery, evaluateQuery, loadSavedQueries, saveQuery } from './index';
+
+const data = { items: [{ id: 1 }, { id: 2 }] };
+
+describe('evaluateQuery', () => {
+  it('按语言格式化结果', () => {
+    expect(evaluateQuery(data, 'jsonpath', '$.items[*].id')).toEqual({
+      success: true,
+      output: '[\n  1,\n  2\n]',
+      count: 2,
+    });
+    expect(evaluateQuery(data, 'jmespath', 'items[0]', 4)).toEqual({
+      success: true,
+      output: '{\n    "id": 1\n}',
+      count: 1,
+    });
+    expect(evaluateQuery(data, 'jq', '.items[].id')).toEqual({
+      success: true,
+      output: '1\n2',
+      count: 2,
+    });
+  });
+
+  it('语法错误返回位置，运行时错误不带位置', () => {
+    expect(evaluateQuery(data, 'jq', '.items[').error).toEqual({
+      message: '表达式不完整',
+      position: 7,
+    });
+    const result = evaluateQuery(data, 'jq', '.items.id');
+    expect(result.success).toBe(false);
+    expect(result.error).toEqual({ message: '无法用 string 索引 array', position: undefined });
+  });
+});
+
+describe('保存的查询', () => {
+  it('保存、读取和删除', () => {
+    const queries = saveQuery(' 所有 ID ', 'jq', '.items[].id');
+    expect(queries).toHaveLength(1);
+    expect(loadSavedQueries()[0]).toMatchObject({
+      name: '所有 ID',
+      language: 'jq',
+      expression: '.items[].id',
+    });
+
+    expect(deleteSavedQuery(queries[0].id)).toEqual([]);
+    expect(loadSavedQueries()).toEqual([]);
+  });
+
+  it('同名查询会被覆盖', () => {
+    saveQuery('ids', 'jq', '.items[].id');
+    saveQuery('ids', 'jsonpath', '$..id');
+    expect(loadSavedQueries().map((query) => query.language)).toEqual(['jsonpath']);
+  });
+
+  it('忽略格式无效的记录', () => {
+    const valid = { id: 'q1', name: 'ids', language: 'jq', expression: '.id', createdAt: 1 };
+    localStorage.setItem(
+      'just-tools-json-queries',
+      JSON.stringify([
+        valid,
+        null,
+        { id: 'q2', name: '缺少表达式', language: 'jq' },
+        { id: 'q3', name: '未知语言', language: 'xpath', expression: '//id' },
+        { id: 4, name: 'id 不是字符串', language: 'jq', expression: '.' },
+      ])
+    );
+    expect(loadSavedQueries()).toEqual([valid]);
+
+    localStorage.setItem('just-tools-json-queries', '{"id":"q1"}');
+    expect(loadSavedQueries()).toEqual([]);
+  });
+
+  it('名称或表达式为空时报错', () => {
+    expect(() => saveQuery(' ', 'jq', '.')).toThrow('请输入查询名称');
+    expect(() => saveQuery('空', 'jq', '  ')).toThrow('查询表达式为空');
+  });
+});
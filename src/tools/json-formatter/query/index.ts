@@ -0,0 +1,133 @@
+/**
+ * JSON 查询：按语言分派到 JSONPath / JMESPath / jq 引擎，并管理保存的查询
+ */
+
+import { t } from '../locales';
+import { renderJSON, type IndentSize } from '../utils';
+import type { QueryLanguage, QueryResult, SavedQuery } from '../types';
+import { queryJmesPath } from './jmespath';
+import { queryJq } from './jq';
+import { queryJsonPath } from './jsonpath';
+import { QUERY_LANGUAGES, QuerySyntaxError } from './shared';
+
+export { QuerySyntaxError } from './shared';
+
+/**
+ * 执行查询
+ * JSONPath 输出命中值组成的数组；JMESPath 输出单个结果；jq 每个输出单独一段，以换行分隔
+ */
+export function evaluateQuery(
+  data: unknown,
+  language: QueryLanguage,
+  expression: string,
+  indent: IndentSize = 2
+): QueryResult {
+  try {
+    switch (language) {
+      case 'jsonpath': {
+        const matches = queryJsonPath(data, expression);
+        return { success: true, output: renderJSON(matches, indent), count: matches.length };
+      }
+      case 'jmespath': {
+        const result = queryJmesPath(data, expression);
+        const count = Array.isArray(result) ? result.length : result === null ? 0 : 1;
+        return { success: true, output: renderJSON(result, indent), count };
+      }
+      case 'jq': {
+        const outputs = queryJq(data, expression);
+        return {
+          success: true,
+          output: outputs.map((output) => renderJSON(output, indent)).join('\n'),
+          count: outputs.length,
+        };
+      }
+    }
+  } catch (error) {
+    return {
+      success: false,
+      output: '',
+      count: 0,
+      error: {
+        message: error instanceof Error ? error.message : t('error.queryFailed'),
+        position: error instanceof QuerySyntaxError ? error.position : undefined,
+      },
+    };
+  }
+}
+
+// ============================================================================
+// 查询存储
+// ============================================================================
+
+const QUERIES_STORAGE = 'just-tools-json-queries';
+
+/**
+ * 校验存储中的单条查询，手动修改或旧版本写入的记录可能缺少字段
+ */
+function isSavedQuery(value: unknown): value is SavedQuery {
+  if (!value || typeof value !== 'object') return false;
+  const query = value as Record<string, unknown>;
+  return (
+    typeof query.id === 'string' &&
+    typeof query.name === 'string' &&
+    typeof query.expression === 'string' &&
+    QUERY_LANGUAGES.includes(query.language as QueryLanguage)
+  );
+}
+
+/**
+ * 读取已保存的查询，忽略格式无效的记录
+ */
+export function loadSavedQueries(): SavedQuery[] {
+  try {
+    const raw = localStorage.getItem(QUERIES_STORAGE);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter(isSavedQuery) : [];
+  } catch {
+    return [];
+  }
+}
+
+function persistQueries(queries: SavedQuery[]): void {
+  localStorage.setItem(QUERIES_STORAGE, JSON.stringify(queries));
+}
+
+/**
+ * 保存查询，同名查询会被覆盖
+ * @returns 更新后的查询列表
+ */
+export function saveQuery(
+  name: string,
+  language: QueryLanguage,
+  expression: string
+): SavedQuery[] {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error(t('error.queryNameRequired'));
+  }
+  if (!expression.trim()) {
+    throw new Error(t('error.queryExpressionEmpty'));
+  }
+
+  const query: SavedQuery = {
+    id: `query-${Date.now()}`,
+    name: trimmed,
+    language,
+    expression,
+    createdAt: Date.now(),
+  };
+
+  const queries = [query, ...loadSavedQueries().filter((item) => item.name !== trimmed)];
+  persistQueries(queries);
+  return queries;
+}
+
+/**
+ * 删除查询
+ * @returns 更新后的查询列表
+ */
+export function deleteSavedQuery(id: string): SavedQuery[] {
+  const queries = loadSavedQueries().filter((query) => query.id !== id);
+  persistQueries(queries);
+  return queries;
+}
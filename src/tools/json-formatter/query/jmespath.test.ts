@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { queryJmesPath } from './jmespath';
+import { QuerySyntaxError } from './shared';
+
+const data = {
+  people: [
+    { name: 'a', age: 30, active: true, tags: ['x'] },
+    { name: 'b', age: 25, active: false, tags: ['y', 'z'] },
+    { name: 'c', age: 41, active: true, tags: [] },
+  ],
+  nested: [[1, 2], [3], [[4]]],
+  config: { debug: false, level: 'info' },
+};
+
+describe('queryJmesPath', () => {
+  it('字段、下标与切片', () => {
+    expect(queryJmesPath(data, 'config.level')).toBe('info');
+    expect(queryJmesPath(data, 'people[0].name')).toBe('a');
+    expect(queryJmesPath(data, 'people[-1].age')).toBe(41);
+    expect(queryJmesPath(data, 'people[:2].name')).toEqual(['a', 'b']);
+    expect(queryJmesPath(data, 'people[::-1].name')).toEqual(['c', 'b', 'a']);
+    expect(queryJmesPath(data, 'missing.field')).toBeNull();
+  });
+
+  it('投影与扁平化', () => {
+    expect(queryJmesPath(data, 'people[*].name')).toEqual(['a', 'b', 'c']);
+    expect(queryJmesPath(data, 'people[].tags[]')).toEqual(['x', 'y', 'z']);
+    expect(queryJmesPath(data, 'nested[]')).toEqual([1, 2, 3, [4]]);
+    expect(queryJmesPath(data, 'config.*')).toEqual([false, 'info']);
+    // 管道结束投影
+    expect(queryJmesPath(data, 'people[*].name | [0]')).toBe('a');
+  });
+
+  it('过滤、比较与逻辑运算', () => {
+    expect(queryJmesPath(data, 'people[?active].name')).toEqual(['a', 'c']);
+    expect(queryJmesPath(data, 'people[?age > `28` && active].name')).toEqual(['a', 'c']);
+    expect(queryJmesPath(data, "people[?name == 'b' || age == `41`].name")).toEqual(['b', 'c']);
+    expect(queryJmesPath(data, 'people[?!active].name')).toEqual(['b']);
+    expect(queryJmesPath(data, 'config.debug || `"fallback"`')).toBe('fallback');
+  });
+
+  it('多选列表与多选哈希', () => {
+    expect(queryJmesPath(data, 'people[0].[name, age]')).toEqual(['a', 30]);
+    expect(queryJmesPath(data, 'people[*].{n: name, "t": length(tags)}')).toEqual([
+      { n: 'a', t: 1 },
+      { n: 'b', t: 2 },
+      { n: 'c', t: 0 },
+    ]);
+  });
+
+  it('内置函数', () => {
+    expect(queryJmesPath(data, 'length(people)')).toBe(3);
+    expect(queryJmesPath(data, 'sort_by(people, &age)[*].name')).toEqual(['b', 'a', 'c']);
+    expect(queryJmesPath(data, 'max_by(people, &age).name')).toBe('c');
+    expect(queryJmesPath(data, 'sum(people[*].age)')).toBe(96);
+    expect(queryJmesPath(data, "join(', ', people[*].name)")).toBe('a, b, c');
+    expect(queryJmesPath(data, 'map(&age, people)')).toEqual([30, 25, 41]);
+    expect(queryJmesPath(data, 'keys(config)')).toEqual(['debug', 'level']);
+    expect(queryJmesPath(data, 'contains(people[*].name, `"b"`)')).toBe(true);
+    expect(queryJmesPath(data, 'to_number(`"1.5"`)')).toBe(1.5);
+    expect(queryJmesPath(data, 'type(@)')).toBe('object');
+  });
+
+  it('函数参数错误', () => {
+    expect(() => queryJmesPath(data, 'abs(config)')).toThrow(
+      '函数 abs() 的第 1 个参数应为 number，实际为 object'
+    );
+    expect(() => queryJmesPath(data, 'length()')).toThrow('函数 length() 需要 1 个参数');
+    expect(() => queryJmesPath(data, 'nope(@)')).toThrow('未知函数 nope()');
+  });
+
+  it('语法错误带位置', () => {
+    try {
+      queryJmesPath(data, 'people[?age > ]');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(QuerySyntaxError);
+      expect((error as QuerySyntaxError).position).toBe(14);
+    }
+    expect(() => queryJmesPath(data, 'people.')).toThrow('表达式不完整');
+    expect(() => queryJmesPath(data, 'a ^ b')).toThrow('无法识别的字符 "^"');
+  });
+});
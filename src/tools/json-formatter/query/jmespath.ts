@@ -0,0 +1,826 @@
+/**
+ * JMESPath 查询（按 jmespath.org 规范实现的 Pratt 解析器与解释器）
+ * 支持投影、过滤投影、扁平化、多选列表 / 哈希、管道、比较与逻辑运算，以及常用内置函数
+ */
+
+import { t } from '../locales';
+import {
+  QuerySyntaxError,
+  compareValues,
+  deepEqual,
+  isDigit,
+  isIdentifierPart,
+  isIdentifierStart,
+  isObject,
+  readNumber,
+  readQuoted,
+  typeName,
+} from './shared';
+
+// ============================================================================
+// 词法分析
+// ============================================================================
+
+type TokenType =
+  | 'eof'
+  | 'identifier'
+  | 'quotedIdentifier'
+  | 'literal'
+  | 'number'
+  | 'dot'
+  | 'star'
+  | 'flatten'
+  | 'filter'
+  | 'lbracket'
+  | 'rbracket'
+  | 'lbrace'
+  | 'rbrace'
+  | 'lparen'
+  | 'rparen'
+  | 'comma'
+  | 'colon'
+  | 'pipe'
+  | 'or'
+  | 'and'
+  | 'not'
+  | 'current'
+  | 'expref'
+  | 'eq'
+  | 'ne'
+  | 'lt'
+  | 'lte'
+  | 'gt'
+  | 'gte';
+
+interface Token {
+  type: TokenType;
+  value?: unknown;
+  position: number;
+}
+
+/** 单字符记号 */
+const SIMPLE_TOKENS: Record<string, TokenType> = {
+  '.': 'dot',
+  '*': 'star',
+  ']': 'rbracket',
+  '{': 'lbrace',
+  '}': 'rbrace',
+  '(': 'lparen',
+  ')': 'rparen',
+  ',': 'comma',
+  ':': 'colon',
+  '@': 'current',
+};
+
+/** 可由一个或两个字符组成的运算符，先匹配较长的 */
+const OPERATOR_TOKENS: [string, TokenType][] = [
+  ['||', 'or'],
+  ['&&', 'and'],
+  ['==', 'eq'],
+  ['!=', 'ne'],
+  ['<=', 'lte'],
+  ['>=', 'gte'],
+  ['|', 'pipe'],
+  ['&', 'expref'],
+  ['!', 'not'],
+  ['<', 'lt'],
+  ['>', 'gt'],
+];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const char = source[position];
+    const start = position;
+
+    if (/\s/.test(char)) {
+      position++;
+    } else if (char in SIMPLE_TOKENS) {
+      tokens.push({ type: SIMPLE_TOKENS[char], position: start });
+      position++;
+    } else if (char === '[') {
+      // [] 为扁平化，[? 为过滤
+      const next = source[position + 1];
+      const type = next === ']' ? 'flatten' : next === '?' ? 'filter' : 'lbracket';
+      tokens.push({ type, position: start });
+      position += type === 'lbracket' ? 1 : 2;
+    } else if (isIdentifierStart(char)) {
+      while (isIdentifierPart(source[position])) position++;
+      tokens.push({ type: 'identifier', value: source.slice(start, position), position: start });
+    } else if (char === '"') {
+      const { value, end } = readQuoted(source, position);
+      tokens.push({ type: 'quotedIdentifier', value, position: start });
+      position = end;
+    } else if (char === "'") {
+      // 原始字符串只处理 \' 转义
+      let value = '';
+      position++;
+      while (position < source.length && source[position] !== "'") {
+        if (source[position] === '\\' && source[position + 1] === "'") {
+          value += "'";
+          position += 2;
+        } else {
+          value += source[position++];
+        }
+      }
+      if (position >= source.length) {
+        throw new QuerySyntaxError(t('error.unterminatedString'), start);
+      }
+      position++;
+      tokens.push({ type: 'literal', value, position: start });
+    } else if (char === '`') {
+      // 反引号内为 JSON 字面量，\` 转义反引号
+      let text = '';
+      position++;
+      while (position < source.length && source[position] !== '`') {
+        if (source[position] === '\\' && source[position + 1] === '`') {
+          text += '`';
+          position += 2;
+        } else {
+          text += source[position++];
+        }
+      }
+      if (position >= source.length) {
+        throw new QuerySyntaxError(t('error.unterminatedLiteral'), start);
+      }
+      position++;
+      try {
+        tokens.push({ type: 'literal', value: JSON.parse(text), position: start });
+      } catch {
+        throw new QuerySyntaxError(t('error.invalidJsonLiteral'), start);
+      }
+    } else if (char === '-' || isDigit(char)) {
+      const { value, end } = readNumber(source, position);
+      if (!Number.isInteger(value)) throw new QuerySyntaxError(t('error.integerOnly'), start);
+      tokens.push({ type: 'number', value, position: start });
+      position = end;
+    } else {
+      const operator = OPERATOR_TOKENS.find(([text]) => source.startsWith(text, position));
+      if (!operator) throw new QuerySyntaxError(t('error.unexpectedChar', { char }), start);
+      tokens.push({ type: operator[1], position: start });
+      position += operator[0].length;
+    }
+  }
+
+  tokens.push({ type: 'eof', position });
+  return tokens;
+}
+
+// ============================================================================
+// 语法分析
+// ============================================================================
+
+type ComparatorType = 'eq' | 'ne' | 'lt' | 'lte' | 'gt' | 'gte';
+
+type Node =
+  | { type: 'field'; name: string }
+  | { type: 'current' }
+  | { type: 'literal'; value: unknown }
+  | { type: 'subexpression'; left: Node; right: Node }
+  | { type: 'indexExpression'; left: Node; right: Node }
+  | { type: 'index'; index: number }
+  | { type: 'slice'; start: number | null; stop: number | null; step: number | null }
+  | { type: 'projection'; left: Node; right: Node }
+  | { type: 'valueProjection'; left: Node; right: Node }
+  | { type: 'filterProjection'; left: Node; right: Node; condition: Node }
+  | { type: 'flatten'; child: Node }
+  | { type: 'multiSelectList'; children: Node[] }
+  | { type: 'multiSelectHash'; pairs: { key: string; value: Node }[] }
+  | { type: 'or' | 'and' | 'pipe'; left: Node; right: Node }
+  | { type: 'not'; child: Node }
+  | { type: 'comparator'; operator: ComparatorType; left: Node; right: Node }
+  | { type: 'function'; name: string; args: Node[] }
+  | { type: 'expref'; child: Node };
+
+/** 各记号作为中缀运算符时的绑定强度，与 jmespath.js 保持一致 */
+const BINDING_POWER: Partial<Record<TokenType, number>> = {
+  pipe: 1,
+  or: 2,
+  and: 3,
+  eq: 5,
+  ne: 5,
+  lt: 5,
+  lte: 5,
+  gt: 5,
+  gte: 5,
+  flatten: 9,
+  star: 20,
+  filter: 21,
+  dot: 40,
+  not: 45,
+  lbrace: 50,
+  lbracket: 55,
+  lparen: 60,
+};
+
+const COMPARATORS = new Set<TokenType>(['eq', 'ne', 'lt', 'lte', 'gt', 'gte']);
+
+/** 投影右侧在此强度以下时结束 */
+const PROJECTION_STOP = 10;
+
+const CURRENT: Node = { type: 'current' };
+
+const power = (type: TokenType): number => BINDING_POWER[type] ?? 0;
+
+function parseJmesPath(source: string): Node {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const lookahead = (offset = 0): TokenType =>
+    tokens[Math.min(index + offset, tokens.length - 1)].type;
+  const current = (): Token => tokens[index];
+  const advance = () => {
+    if (index < tokens.length - 1) index++;
+  };
+  const fail = (message: string, token = current()) =>
+    new QuerySyntaxError(message, token.position);
+  const unexpected = (token = current()) =>
+    fail(
+      token.type === 'eof'
+        ? t('error.incomplete')
+        : t('error.unexpectedToken', { token: describe(token) }),
+      token
+    );
+
+  const match = (type: TokenType) => {
+    if (lookahead() !== type) throw unexpected();
+    advance();
+  };
+
+  const expression = (rbp: number): Node => {
+    const token = current();
+    advance();
+    let left = nud(token);
+    while (rbp < power(lookahead())) {
+      const operator = current();
+      advance();
+      left = led(operator, left);
+    }
+    return left;
+  };
+
+  const nud = (token: Token): Node => {
+    switch (token.type) {
+      case 'literal':
+        return { type: 'literal', value: token.value };
+      case 'identifier':
+        return { type: 'field', name: token.value as string };
+      case 'quotedIdentifier':
+        if (lookahead() === 'lparen') throw fail(t('error.quotedFunctionName'), token);
+        return { type: 'field', name: token.value as string };
+      case 'not':
+        return { type: 'not', child: expression(power('not')) };
+      case 'star': {
+        const right = lookahead() === 'rbracket' ? CURRENT : projectionRhs(power('star'));
+        return { type: 'valueProjection', left: CURRENT, right };
+      }
+      case 'filter':
+        return led(token, CURRENT);
+      case 'lbrace':
+        return multiSelectHash();
+      case 'flatten': {
+        const left: Node = { type: 'flatten', child: CURRENT };
+        return { type: 'projection', left, right: projectionRhs(power('flatten')) };
+      }
+      case 'lbracket':
+        if (lookahead() === 'number' || lookahead() === 'colon') {
+          return projectIfSlice(CURRENT, indexExpression());
+        }
+        if (lookahead() === 'star' && lookahead(1) === 'rbracket') {
+          advance();
+          advance();
+          return { type: 'projection', left: CURRENT, right: projectionRhs(power('star')) };
+        }
+        return multiSelectList();
+      case 'current':
+        return CURRENT;
+      case 'expref':
+        return { type: 'expref', child: expression(0) };
+      case 'lparen': {
+        const inner = expression(0);
+        match('rparen');
+        return inner;
+      }
+      default:
+        throw unexpected(token);
+    }
+  };
+
+  const led = (token: Token, left: Node): Node => {
+    switch (token.type) {
+      case 'dot':
+        if (lookahead() !== 'star') {
+          return { type: 'subexpression', left, right: dotRhs(power('dot')) };
+        }
+        advance();
+        return { type: 'valueProjection', left, right: projectionRhs(power('dot')) };
+      case 'pipe':
+      case 'or':
+      case 'and':
+        return { type: token.type, left, right: expression(power(token.type)) };
+      case 'lparen': {
+        if (left.type !== 'field') throw fail(t('error.notCallable'), token);
+        const args: Node[] = [];
+        while (lookahead() !== 'rparen') {
+          args.push(expression(0));
+          if (lookahead() === 'comma') match('comma');
+        }
+        match('rparen');
+        return { type: 'function', name: left.name, args };
+      }
+      case 'filter': {
+        const condition = expression(0);
+        match('rbracket');
+        const right = lookahead() === 'flatten' ? CURRENT : projectionRhs(power('filter'));
+        return { type: 'filterProjection', left, right, condition };
+      }
+      case 'flatten':
+        return {
+          type: 'projection',
+          left: { type: 'flatten', child: left },
+          right: projectionRhs(power('flatten')),
+        };
+      case 'lbracket':
+        if (lookahead() === 'number' || lookahead() === 'colon') {
+          return projectIfSlice(left, indexExpression());
+        }
+        match('star');
+        match('rbracket');
+        return { type: 'projection', left, right: projectionRhs(power('star')) };
+      default:
+        if (COMPARATORS.has(token.type)) {
+          const right = expression(power(token.type));
+          return { type: 'comparator', operator: token.type as ComparatorType, left, right };
+        }
+        throw unexpected(token);
+    }
+  };
+
+  const indexExpression = (): Node => {
+    if (lookahead() === 'colon' || lookahead(1) === 'colon') return sliceExpression();
+    const node: Node = { type: 'index', index: current().value as number };
+    advance();
+    match('rbracket');
+    return node;
+  };
+
+  const sliceExpression = (): Node => {
+    const parts: (number | null)[] = [null, null, null];
+    let part = 0;
+    while (lookahead() !== 'rbracket') {
+      if (lookahead() === 'colon') {
+        part++;
+        if (part === 3) throw unexpected();
+        advance();
+      } else if (lookahead() === 'number') {
+        parts[part] = current().value as number;
+        advance();
+      } else {
+        throw unexpected();
+      }
+    }
+    match('rbracket');
+    return { type: 'slice', start: parts[0], stop: parts[1], step: parts[2] };
+  };
+
+  // 切片会产生投影，下标不会
+  const projectIfSlice = (left: Node, right: Node): Node => {
+    const node: Node = { type: 'indexExpression', left, right };
+    if (right.type !== 'slice') return node;
+    return { type: 'projection', left: node, right: projectionRhs(power('star')) };
+  };
+
+  const dotRhs = (rbp: number): Node => {
+    const type = lookahead();
+    if (type === 'identifier' || type === 'quotedIdentifier' || type === 'star') {
+      return expression(rbp);
+    }
+    if (type === 'lbracket') {
+      match('lbracket');
+      return multiSelectList();
+    }
+    if (type === 'lbrace') {
+      match('lbrace');
+      return multiSelectHash();
+    }
+    throw unexpected();
+  };
+
+  const projectionRhs = (rbp: number): Node => {
+    const type = lookahead();
+    if (power(type) < PROJECTION_STOP) return CURRENT;
+    if (type === 'lbracket' || type === 'filter') return expression(rbp);
+    if (type === 'dot') {
+      match('dot');
+      return dotRhs(rbp);
+    }
+    throw unexpected();
+  };
+
+  const multiSelectList = (): Node => {
+    const children: Node[] = [];
+    while (lookahead() !== 'rbracket') {
+      children.push(expression(0));
+      if (lookahead() === 'comma') {
+        match('comma');
+        if (lookahead() === 'rbracket') throw unexpected();
+      }
+    }
+    match('rbracket');
+    return { type: 'multiSelectList', children };
+  };
+
+  const multiSelectHash = (): Node => {
+    const pairs: { key: string; value: Node }[] = [];
+    for (;;) {
+      const token = current();
+      if (token.type !== 'identifier' && token.type !== 'quotedIdentifier') {
+        throw fail(t('error.expectedKey'), token);
+      }
+      advance();
+      match('colon');
+      pairs.push({ key: token.value as string, value: expression(0) });
+      if (lookahead() === 'comma') {
+        match('comma');
+      } else {
+        match('rbrace');
+        return { type: 'multiSelectHash', pairs };
+      }
+    }
+  };
+
+  const ast = expression(0);
+  if (lookahead() !== 'eof') throw unexpected();
+  return ast;
+}
+
+/**
+ * 记号的可读描述，用于错误信息
+ */
+function describe(token: Token): string {
+  if (token.type === 'identifier') return `"${token.value}"`;
+  if (token.type === 'number') return t('token.number', { value: String(token.value) });
+  if (token.type === 'literal' || token.type === 'quotedIdentifier') {
+    return t('token.stringOrLiteral');
+  }
+  return `"${TOKEN_TEXT[token.type] ?? token.type}"`;
+}
+
+const TOKEN_TEXT: Partial<Record<TokenType, string>> = {
+  ...Object.fromEntries(Object.entries(SIMPLE_TOKENS).map(([text, type]) => [type, text])),
+  ...Object.fromEntries(OPERATOR_TOKENS.map(([text, type]) => [type, text])),
+  flatten: '[]',
+  filter: '[?',
+  lbracket: '[',
+};
+
+// ============================================================================
+// 求值
+// ============================================================================
+
+/** 作为函数参数传入的 &表达式 */
+type ExpressionReference = (value: unknown) => unknown;
+
+/**
+ * JMESPath 的真值：空字符串、空数组、空对象、false 和 null 为假
+ */
+function isTruthy(value: unknown): boolean {
+  if (value === null || value === false || value === '') return false;
+  if (Array.isArray(value)) return value.length > 0;
+  if (isObject(value)) return Object.keys(value).length > 0;
+  return true;
+}
+
+/**
+ * 数组切片，负数从末尾计算，步长可为负
+ */
+function slice(array: unknown[], start: number | null, stop: number | null, step: number | null) {
+  const stride = step ?? 1;
+  if (stride === 0) throw new Error(t('error.zeroSliceStep'));
+  const length = array.length;
+  const clamp = (value: number) => {
+    if (value < 0) return Math.max(length + value, stride < 0 ? -1 : 0);
+    return Math.min(value, stride < 0 ? length - 1 : length);
+  };
+  const from = start === null ? (stride < 0 ? length - 1 : 0) : clamp(start);
+  const to = stop === null ? (stride < 0 ? -1 : length) : clamp(stop);
+
+  const result: unknown[] = [];
+  for (let i = from; stride > 0 ? i < to : i > to; i += stride) result.push(array[i]);
+  return result;
+}
+
+function visit(node: Node, value: unknown): unknown {
+  switch (node.type) {
+    case 'field':
+      return isObject(value) && Object.hasOwn(value, node.name) ? value[node.name] : null;
+    case 'current':
+      return value;
+    case 'literal':
+      return node.value;
+    case 'subexpression':
+    case 'indexExpression': {
+      const left = visit(node.left, value);
+      return left === null ? null : visit(node.right, left);
+    }
+    case 'index': {
+      if (!Array.isArray(value)) return null;
+      const index = node.index < 0 ? value.length + node.index : node.index;
+      return value[index] ?? null;
+    }
+    case 'slice':
+      return Array.isArray(value) ? slice(value, node.start, node.stop, node.step) : null;
+    case 'projection':
+    case 'valueProjection': {
+      const base = visit(node.left, value);
+      const items =
+        node.type === 'projection'
+          ? Array.isArray(base) ? base : null
+          : isObject(base) ? Object.values(base) : null;
+      if (!items) return null;
+      return items.map((item) => visit(node.right, item)).filter((item) => item !== null);
+    }
+    case 'filterProjection': {
+      const base = visit(node.left, value);
+      if (!Array.isArray(base)) return null;
+      return base
+        .filter((item) => isTruthy(visit(node.condition, item)))
+        .map((item) => visit(node.right, item))
+        .filter((item) => item !== null);
+    }
+    case 'flatten': {
+      const base = visit(node.child, value);
+      return Array.isArray(base) ? base.flat() : null;
+    }
+    case 'multiSelectList':
+      return value === null ? null : node.children.map((child) => visit(child, value));
+    case 'multiSelectHash':
+      return value === null
+        ? null
+        : Object.fromEntries(node.pairs.map(({ key, value: child }) => [key, visit(child, value)]));
+    case 'or': {
+      const left = visit(node.left, value);
+      return isTruthy(left) ? left : visit(node.right, value);
+    }
+    case 'and': {
+      const left = visit(node.left, value);
+      return isTruthy(left) ? visit(node.right, value) : left;
+    }
+    case 'not':
+      return !isTruthy(visit(node.child, value));
+    case 'pipe':
+      return visit(node.right, visit(node.left, value));
+    case 'comparator':
+      return compare(node.operator, visit(node.left, value), visit(node.right, value));
+    case 'function':
+      return callFunction(
+        node.name,
+        node.args.map((arg) =>
+          arg.type === 'expref'
+            ? ((item: unknown) => visit(arg.child, item)) satisfies ExpressionReference
+            : visit(arg, value)
+        )
+      );
+    case 'expref':
+      throw new Error(t('error.exprefOutsideFunction'));
+  }
+}
+
+function compare(operator: ComparatorType, left: unknown, right: unknown): unknown {
+  if (operator === 'eq') return deepEqual(left, right);
+  if (operator === 'ne') return !deepEqual(left, right);
+  // 大小比较只对数字有效，其他类型结果为 null
+  if (typeof left !== 'number' || typeof right !== 'number') return null;
+  switch (operator) {
+    case 'lt':
+      return left < right;
+    case 'lte':
+      return left <= right;
+    case 'gt':
+      return left > right;
+    case 'gte':
+      return left >= right;
+  }
+}
+
+// ============================================================================
+// 内置函数
+// ============================================================================
+
+type ArgType = 'number' | 'string' | 'boolean' | 'array' | 'object' | 'null' | 'expref';
+
+const argType = (value: unknown): ArgType =>
+  typeof value === 'function' ? 'expref' : (typeName(value) as ArgType);
+
+/**
+ * 校验参数类型，expected 为允许的类型列表，'any' 表示不限
+ */
+function checkArg(name: string, index: number, value: unknown, expected: ArgType[]): void {
+  if (!expected.includes(argType(value))) {
+    throw new Error(
+      t('error.argumentType', {
+        name,
+        index: index + 1,
+        expected: expected.join(t('word.or')),
+        actual: argType(value),
+      })
+    );
+  }
+}
+
+/**
+ * 校验数组元素类型，数组内只能全为数字或全为字符串
+ */
+function checkItems(name: string, array: unknown[], allowed: ('number' | 'string')[]): void {
+  const first = array.length > 0 ? typeof array[0] : allowed[0];
+  if (!allowed.includes(first as 'number') || array.some((item) => typeof item !== first)) {
+    throw new Error(t('error.itemType', { name, expected: allowed.join(t('word.or')) }));
+  }
+}
+
+/**
+ * 按表达式取每个元素的排序键，键必须全为数字或全为字符串
+ */
+function sortKeys(name: string, array: unknown[], expref: ExpressionReference): unknown[] {
+  const keys = array.map(expref);
+  checkItems(name, keys, ['number', 'string']);
+  return keys;
+}
+
+interface FunctionSpec {
+  /** 各位置参数允许的类型，'any' 为不限 */
+  args: (ArgType[] | 'any')[];
+  /** 最后一个参数可重复 */
+  variadic?: boolean;
+  call: (args: unknown[]) => unknown;
+}
+
+const NUMBER: ArgType[] = ['number'];
+const STRING: ArgType[] = ['string'];
+const ARRAY: ArgType[] = ['array'];
+const OBJECT: ArgType[] = ['object'];
+const EXPREF: ArgType[] = ['expref'];
+
+const byKey = (name: string, pick: 'min' | 'max') => (args: unknown[]) => {
+  const [array, expref] = args as [unknown[], ExpressionReference];
+  if (array.length === 0) return null;
+  const keys = sortKeys(name, array, expref);
+  let best = 0;
+  for (let i = 1; i < array.length; i++) {
+    const result = compareValues(keys[i], keys[best]);
+    if (pick === 'min' ? result < 0 : result > 0) best = i;
+  }
+  return array[best];
+};
+
+const extreme = (name: string, pick: 'min' | 'max') => (args: unknown[]) => {
+  const array = args[0] as unknown[];
+  checkItems(name, array, ['number', 'string']);
+  if (array.length === 0) return null;
+  return array.reduce((best, item) => {
+    const result = compareValues(item, best);
+    return (pick === 'min' ? result < 0 : result > 0) ? item : best;
+  });
+};
+
+const FUNCTIONS: Record<string, FunctionSpec> = {
+  abs: { args: [NUMBER], call: ([n]) => Math.abs(n as number) },
+  avg: {
+    args: [ARRAY],
+    call: ([array]) => {
+      const items = array as number[];
+      checkItems('avg', items, ['number']);
+      return items.length === 0 ? null : items.reduce((a, b) => a + b, 0) / items.length;
+    },
+  },
+  ceil: { args: [NUMBER], call: ([n]) => Math.ceil(n as number) },
+  contains: {
+    args: [['array', 'string'], 'any'],
+    call: ([subject, search]) =>
+      typeof subject === 'string'
+        ? typeof search === 'string' && subject.includes(search)
+        : (subject as unknown[]).some((item) => deepEqual(item, search)),
+  },
+  ends_with: {
+    args: [STRING, STRING],
+    call: ([subject, suffix]) => (subject as string).endsWith(suffix as string),
+  },
+  floor: { args: [NUMBER], call: ([n]) => Math.floor(n as number) },
+  join: {
+    args: [STRING, ARRAY],
+    call: ([glue, array]) => {
+      checkItems('join', array as unknown[], ['string']);
+      return (array as string[]).join(glue as string);
+    },
+  },
+  keys: { args: [OBJECT], call: ([object]) => Object.keys(object as object) },
+  length: {
+    args: [['string', 'array', 'object']],
+    call: ([subject]) =>
+      typeof subject === 'string'
+        ? [...subject].length
+        : Array.isArray(subject)
+          ? subject.length
+          : Object.keys(subject as object).length,
+  },
+  map: {
+    args: [EXPREF, ARRAY],
+    call: ([expref, array]) => (array as unknown[]).map(expref as ExpressionReference),
+  },
+  max: { args: [ARRAY], call: extreme('max', 'max') },
+  max_by: { args: [ARRAY, EXPREF], call: byKey('max_by', 'max') },
+  merge: {
+    args: [OBJECT],
+    variadic: true,
+    call: (objects) => Object.assign({}, ...(objects as object[])),
+  },
+  min: { args: [ARRAY], call: extreme('min', 'min') },
+  min_by: { args: [ARRAY, EXPREF], call: byKey('min_by', 'min') },
+  not_null: {
+    args: ['any'],
+    variadic: true,
+    call: (values) => values.find((value) => value !== null) ?? null,
+  },
+  reverse: {
+    args: [['string', 'array']],
+    call: ([subject]) =>
+      typeof subject === 'string'
+        ? [...subject].reverse().join('')
+        : [...(subject as unknown[])].reverse(),
+  },
+  sort: {
+    args: [ARRAY],
+    call: ([array]) => {
+      checkItems('sort', array as unknown[], ['number', 'string']);
+      return [...(array as unknown[])].sort(compareValues);
+    },
+  },
+  sort_by: {
+    args: [ARRAY, EXPREF],
+    call: ([array, expref]) => {
+      const items = array as unknown[];
+      const keys = sortKeys('sort_by', items, expref as ExpressionReference);
+      return items
+        .map((item, i) => ({ item, key: keys[i], i }))
+        .sort((a, b) => compareValues(a.key, b.key) || a.i - b.i)
+        .map(({ item }) => item);
+    },
+  },
+  starts_with: {
+    args: [STRING, STRING],
+    call: ([subject, prefix]) => (subject as string).startsWith(prefix as string),
+  },
+  sum: {
+    args: [ARRAY],
+    call: ([array]) => {
+      checkItems('sum', array as unknown[], ['number']);
+      return (array as number[]).reduce((a, b) => a + b, 0);
+    },
+  },
+  to_array: { args: ['any'], call: ([value]) => (Array.isArray(value) ? value : [value]) },
+  to_number: {
+    args: ['any'],
+    call: ([value]) => {
+      if (typeof value === 'number') return value;
+      if (typeof value !== 'string' || !value.trim()) return null;
+      const number = Number(value);
+      return Number.isFinite(number) ? number : null;
+    },
+  },
+  to_string: {
+    args: ['any'],
+    call: ([value]) => (typeof value === 'string' ? value : JSON.stringify(value)),
+  },
+  type: { args: ['any'], call: ([value]) => argType(value) },
+  values: { args: [OBJECT], call: ([object]) => Object.values(object as object) },
+};
+
+function callFunction(name: string, args: unknown[]): unknown {
+  const spec = Object.hasOwn(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+  if (!spec) throw new Error(t('error.unknownFunction', { name }));
+
+  const arity = spec.args.length;
+  if (spec.variadic ? args.length < arity : args.length !== arity) {
+    throw new Error(
+      t(spec.variadic ? 'error.argumentCountAtLeast' : 'error.argumentCount', {
+        name,
+        count: arity,
+        actual: args.length,
+      })
+    );
+  }
+  args.forEach((arg, i) => {
+    const expected = spec.args[Math.min(i, arity - 1)];
+    if (expected !== 'any') checkArg(name, i, arg, expected);
+  });
+  return spec.call(args);
+}
+
+/**
+ * 执行 JMESPath 查询，返回单个结果值（未命中时为 null）
+ */
+export function queryJmesPath(data: unknown, expression: string): unknown {
+  return visit(parseJmesPath(expression), data);
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { queryJq } from './jq';
+import { QuerySyntaxError } from './shared';
+
+const data = {
+  items: [
+    { id: 1, name: 'Apple', active: true, price: 3, tags: ['fruit'] },
+    { id: 2, name: 'carrot', active: false, price: 1, tags: ['veg'] },
+    { id: 3, name: 'Banana', active: true, price: 2, tags: ['fruit', 'yellow'] },
+  ],
+  owner: { name: 'demo', email: null },
+};
+
+describe('queryJq', () => {
+  it('路径与迭代', () => {
+    expect(queryJq(data, '.')).toEqual([data]);
+    expect(queryJq(data, '.owner.name')).toEqual(['demo']);
+    expect(queryJq(data, '.owner."name"')).toEqual(['demo']);
+    expect(queryJq(data, '.items[1].id')).toEqual([2]);
+    expect(queryJq(data, '.items[-1].id')).toEqual([3]);
+    expect(queryJq(data, '.items[].id')).toEqual([1, 2, 3]);
+    expect(queryJq(data, '.items[1:].id?')).toEqual([]);
+    expect(queryJq(data, '.items[:2] | length')).toEqual([2]);
+    expect(queryJq(data, '.missing.deep')).toEqual([null]);
+  });
+
+  it('管道、逗号与构造', () => {
+    expect(queryJq(data, '.items[] | select(.active) | .id')).toEqual([1, 3]);
+    expect(queryJq(data, '.owner.name, .items[0].id')).toEqual(['demo', 1]);
+    expect(queryJq(data, '[.items[] | .price * 2]')).toEqual([[6, 2, 4]]);
+    expect(queryJq(data, '.items[0] | {id, label: .name, (.name): .price}')).toEqual([
+      { id: 1, label: 'Apple', Apple: 3 },
+    ]);
+    expect(queryJq(data, '{a: (1, 2)}')).toEqual([{ a: 1 }, { a: 2 }]);
+  });
+
+  it('运算符与条件', () => {
+    expect(queryJq(data, '.owner.email // "none"')).toEqual(['none']);
+    expect(queryJq(data, '.items | map(.price) | add / length')).toEqual([2]);
+    const operators = '"a" + "b", [1, 2] - [2], {a: 1} * {b: 2}, 7 % 3, -.items[0].id';
+    expect(queryJq(data, operators)).toEqual([
+      'ab',
+      [1],
+      { a: 1, b: 2 },
+      1,
+      -1,
+    ]);
+    const grade = 'if .price > 2 then "high" elif .price > 1 then "mid" else "low" end';
+    expect(queryJq(data, `.items[] | ${grade}`)).toEqual(['high', 'low', 'mid']);
+    expect(queryJq(data, '.items[] | .active and .price > 2')).toEqual([true, false, false]);
+  });
+
+  it('内置函数', () => {
+    expect(queryJq(data, '.items | sort_by(.price) | map(.name)')).toEqual([
+      ['carrot', 'Banana', 'Apple'],
+    ]);
+    expect(queryJq(data, '[.items[].tags[]] | unique')).toEqual([['fruit', 'veg', 'yellow']]);
+    expect(queryJq(data, '.items | group_by(.active) | map(length)')).toEqual([[1, 2]]);
+    expect(queryJq(data, '.items | max_by(.price) | .name')).toEqual(['Apple']);
+    expect(queryJq(data, '.owner | keys, to_entries[0].key')).toEqual([['email', 'name'], 'name']);
+    expect(queryJq(data, '.owner | with_entries(select(.value != null))')).toEqual([
+      { name: 'demo' },
+    ]);
+    expect(queryJq(data, '.items[] | select(.name | test("^b"; "i")) | .id')).toEqual([3]);
+    expect(queryJq(data, '.items[0].name | ascii_downcase | ltrimstr("ap")')).toEqual(['ple']);
+    expect(queryJq(data, '[range(3)], [limit(2; .items[].id)], first(.items[].id)')).toEqual([
+      [0, 1, 2],
+      [1, 2],
+      1,
+    ]);
+    expect(queryJq(data, '.items[0] | has("tags"), (.tags | contains(["fruit"]))')).toEqual([
+      true,
+      true,
+    ]);
+    expect(queryJq(data, '"a,b" | split(",") | join("-")')).toEqual(['a-b']);
+    expect(queryJq(data, '.items | map(.id | tostring) | add | tonumber')).toEqual([123]);
+  });
+
+  it('运行时错误与 ? 抑制', () => {
+    expect(() => queryJq(data, '.owner.name[0]')).toThrow('无法用 number 索引 string');
+    expect(() => queryJq(data, '.items[0].id[]')).toThrow('无法遍历 number');
+    expect(queryJq(data, '.items[0].id[]?')).toEqual([]);
+    expect(() => queryJq(data, 'nope')).toThrow('nope/0 未定义');
+    expect(() => queryJq(data, '[range(1e9)]')).toThrow('计算量过大');
+  });
+
+  it('语法错误带位置', () => {
+    try {
+      queryJq(data, '.items[] | select(.active');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(QuerySyntaxError);
+      expect((error as QuerySyntaxError).position).toBe(25);
+    }
+    expect(() => queryJq(data, '$x')).toThrow('暂不支持变量');
+    expect(() => queryJq(data, 'if . then 1')).toThrow('此处应为 end');
+  });
+
+  it('未实现的语法给出明确提示', () => {
+    const syntaxError = (expression: string) => {
+      try {
+        queryJq(data, expression);
+      } catch (error) {
+        return [(error as QuerySyntaxError).message, (error as QuerySyntaxError).position];
+      }
+    };
+    expect(syntaxError('"id: \\(.owner.name)"')).toEqual(['暂不支持字符串插值 \\(...)', 5]);
+    expect(syntaxError('"a\\\\(b)"')).toBeUndefined();
+    expect(syntaxError('.items[] as $item | $item.id')).toEqual(['暂不支持变量绑定（as $x）', 9]);
+    expect(syntaxError('reduce .items[] as $item (0; . + $item.id)')).toEqual(['暂不支持 reduce', 0]);
+  });
+});
@@ -0,0 +1,1150 @@
+/**
+ * jq 查询（常用子集）
+ * 支持路径、迭代、管道、逗号、// 备选、and / or、比较与算术运算、数组 / 对象构造、
+ * if-then-elif-else-end、? 错误抑制，以及 select、map、sort_by、group_by 等内置函数
+ * 不支持字符串插值 \(...)、变量绑定（as $x）、reduce / foreach、def 和赋值运算符
+ */
+
+import { t } from '../locales';
+import {
+  QuerySyntaxError,
+  compareValues,
+  deepEqual,
+  isDigit,
+  isIdentifierPart,
+  isIdentifierStart,
+  isObject,
+  readNumber,
+  readQuoted,
+  typeName,
+} from './shared';
+
+// ============================================================================
+// 词法分析
+// ============================================================================
+
+type TokenType =
+  | 'eof'
+  | 'identifier'
+  | 'field'
+  | 'string'
+  | 'number'
+  | 'dot'
+  | 'recurse'
+  | 'variable'
+  | 'punctuation';
+
+interface Token {
+  type: TokenType;
+  value: string | number;
+  position: number;
+}
+
+/** 运算符和标点，先匹配较长的 */
+const PUNCTUATION = [
+  '//',
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '|',
+  ',',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+  '<',
+  '>',
+  '(',
+  ')',
+  '[',
+  ']',
+  '{',
+  '}',
+  ':',
+  ';',
+  '?',
+];
+
+/**
+ * 查找字符串中的插值 \(...)，返回其位置，没有时返回 -1；position 指向开头的引号
+ */
+function findInterpolation(source: string, position: number): number {
+  for (let i = position + 1; i < source.length; i++) {
+    if (source[i] === '"') return -1;
+    if (source[i] === '\\') {
+      if (source[i + 1] === '(') return i;
+      i++;
+    }
+  }
+  return -1;
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  const readIdentifier = (from: number) => {
+    let end = from;
+    while (isIdentifierPart(source[end])) end++;
+    return source.slice(from, end);
+  };
+
+  while (position < source.length) {
+    const char = source[position];
+    const start = position;
+
+    if (/\s/.test(char)) {
+      position++;
+    } else if (char === '#') {
+      // 注释到行尾
+      while (position < source.length && source[position] !== '\n') position++;
+    } else if (char === '.') {
+      if (source[position + 1] === '.') {
+        tokens.push({ type: 'recurse', value: '..', position: start });
+        position += 2;
+      } else if (isIdentifierStart(source[position + 1])) {
+        const name = readIdentifier(position + 1);
+        tokens.push({ type: 'field', value: name, position: start });
+        position += name.length + 1;
+      } else {
+        tokens.push({ type: 'dot', value: '.', position: start });
+        position++;
+      }
+    } else if (isIdentifierStart(char)) {
+      const name = readIdentifier(position);
+      tokens.push({ type: 'identifier', value: name, position: start });
+      position += name.length;
+    } else if (char === '"') {
+      // 插值会被当作无效转义，单独给出提示
+      const interpolation = findInterpolation(source, position);
+      if (interpolation !== -1) {
+        throw new QuerySyntaxError(t('error.interpolationUnsupported'), interpolation);
+      }
+      const { value, end } = readQuoted(source, position);
+      tokens.push({ type: 'string', value, position: start });
+      position = end;
+    } else if (isDigit(char)) {
+      const { value, end } = readNumber(source, position);
+      tokens.push({ type: 'number', value, position: start });
+      position = end;
+    } else if (char === '$') {
+      const name = readIdentifier(position + 1);
+      tokens.push({ type: 'variable', value: `$${name}`, position: start });
+      position += name.length + 1;
+    } else {
+      const text = PUNCTUATION.find((item) => source.startsWith(item, position));
+      if (!text) throw new QuerySyntaxError(t('error.unexpectedChar', { char }), start);
+      tokens.push({ type: 'punctuation', value: text, position: start });
+      position += text.length;
+    }
+  }
+
+  tokens.push({ type: 'eof', value: '', position });
+  return tokens;
+}
+
+// ============================================================================
+// 语法分析
+// ============================================================================
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+type Node =
+  | { type: 'identity' }
+  | { type: 'recurse' }
+  | { type: 'literal'; value: unknown }
+  | { type: 'index'; target: Node; index: Node }
+  | { type: 'slice'; target: Node; from: Node | null; to: Node | null }
+  | { type: 'iterate'; target: Node }
+  | { type: 'try'; body: Node }
+  | { type: 'pipe' | 'comma' | 'alternative' | 'and' | 'or'; left: Node; right: Node }
+  | { type: 'binary'; operator: BinaryOperator; left: Node; right: Node }
+  | { type: 'negate'; operand: Node }
+  | { type: 'if'; condition: Node; then: Node; else: Node }
+  | { type: 'array'; body: Node | null }
+  | { type: 'object'; entries: { key: Node; value: Node }[] }
+  | { type: 'call'; name: string; args: Node[] };
+
+const IDENTITY: Node = { type: 'identity' };
+
+const NULL: Node = { type: 'literal', value: null };
+
+/** .name 的语法树，即以字面量为键索引当前输入 */
+const field = (name: unknown): Node => ({
+  type: 'index',
+  target: IDENTITY,
+  index: { type: 'literal', value: name },
+});
+
+/** 只能出现在特定位置的关键字 */
+const KEYWORDS = new Set(['if', 'then', 'elif', 'else', 'end', 'and', 'or']);
+
+/** 未实现的 jq 语法 */
+const UNSUPPORTED = new Set([
+  'as',
+  'def',
+  'reduce',
+  'foreach',
+  'try',
+  'catch',
+  'label',
+  'import',
+  'include',
+]);
+
+const COMPARISON_OPERATORS = new Set(['==', '!=', '<', '<=', '>', '>=']);
+
+function parseJq(source: string): Node {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const current = (): Token => tokens[index];
+  const advance = (): Token => tokens[index < tokens.length - 1 ? index++ : index];
+  const isPunctuation = (text: string) =>
+    current().type === 'punctuation' && current().value === text;
+  const isKeyword = (word: string) => current().type === 'identifier' && current().value === word;
+  const fail = (message: string, token = current()) =>
+    new QuerySyntaxError(message, token.position);
+  const unexpected = (token = current()) => {
+    if (token.type === 'eof') return fail(t('error.incomplete'), token);
+    if (token.type === 'variable') return fail(t('error.variableUnsupported'), token);
+    if (token.type === 'identifier' && token.value === 'as') {
+      return fail(t('error.bindingUnsupported'), token);
+    }
+    if (token.type === 'identifier' && UNSUPPORTED.has(token.value as string)) {
+      return fail(t('error.unsupported', { name: token.value }), token);
+    }
+    return fail(t('error.unexpectedToken', { token: `"${token.value}"` }), token);
+  };
+
+  const expectPunctuation = (text: string) => {
+    if (!isPunctuation(text)) throw fail(t('error.expected', { expected: `"${text}"` }));
+    advance();
+  };
+  const expectKeyword = (word: string) => {
+    if (!isKeyword(word)) throw fail(t('error.expected', { expected: word }));
+    advance();
+  };
+
+  // 优先级从低到高：| < , < // < or < and < 比较 < + - < * / % < 一元 - < 后缀
+
+  const parsePipe = (allowComma = true): Node => {
+    const left = allowComma ? parseComma() : parseAlternative();
+    if (!isPunctuation('|')) return left;
+    advance();
+    return { type: 'pipe', left, right: parsePipe(allowComma) };
+  };
+
+  const parseComma = (): Node => {
+    let left = parseAlternative();
+    while (isPunctuation(',')) {
+      advance();
+      left = { type: 'comma', left, right: parseAlternative() };
+    }
+    return left;
+  };
+
+  const parseAlternative = (): Node => {
+    const left = parseOr();
+    if (!isPunctuation('//')) return left;
+    advance();
+    return { type: 'alternative', left, right: parseAlternative() };
+  };
+
+  const parseOr = (): Node => {
+    let left = parseAnd();
+    while (isKeyword('or')) {
+      advance();
+      left = { type: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): Node => {
+    let left = parseComparison();
+    while (isKeyword('and')) {
+      advance();
+      left = { type: 'and', left, right: parseComparison() };
+    }
+    return left;
+  };
+
+  const parseComparison = (): Node => {
+    const left = parseAdditive();
+    const token = current();
+    if (token.type !== 'punctuation' || !COMPARISON_OPERATORS.has(token.value as string)) {
+      return left;
+    }
+    advance();
+    const operator = token.value as BinaryOperator;
+    return { type: 'binary', operator, left, right: parseAdditive() };
+  };
+
+  const parseAdditive = (): Node => {
+    let left = parseMultiplicative();
+    while (isPunctuation('+') || isPunctuation('-')) {
+      const operator = advance().value as BinaryOperator;
+      left = { type: 'binary', operator, left, right: parseMultiplicative() };
+    }
+    return left;
+  };
+
+  const parseMultiplicative = (): Node => {
+    let left = parseUnary();
+    while (isPunctuation('*') || isPunctuation('/') || isPunctuation('%')) {
+      const operator = advance().value as BinaryOperator;
+      left = { type: 'binary', operator, left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseUnary = (): Node => {
+    if (!isPunctuation('-')) return parsePostfix(parsePrimary());
+    advance();
+    return { type: 'negate', operand: parseUnary() };
+  };
+
+  // [] 迭代、[i] 下标、[a:b] 切片；target 为被访问的值
+  const parseBracketSuffix = (target: Node): Node => {
+    expectPunctuation('[');
+    if (isPunctuation(']')) {
+      advance();
+      return { type: 'iterate', target };
+    }
+    if (isPunctuation(':')) {
+      advance();
+      const to = parsePipe();
+      expectPunctuation(']');
+      return { type: 'slice', target, from: null, to };
+    }
+    const indexNode = parsePipe();
+    if (isPunctuation(':')) {
+      advance();
+      const to = isPunctuation(']') ? null : parsePipe();
+      expectPunctuation(']');
+      return { type: 'slice', target, from: indexNode, to };
+    }
+    expectPunctuation(']');
+    return { type: 'index', target, index: indexNode };
+  };
+
+  const parsePostfix = (primary: Node): Node => {
+    let node = primary;
+    for (;;) {
+      const token = current();
+      if (token.type === 'field') {
+        advance();
+        node = { type: 'index', target: node, index: { type: 'literal', value: token.value } };
+      } else if (token.type === 'dot' && tokens[index + 1].type === 'string') {
+        advance();
+        const name = advance().value;
+        node = { type: 'index', target: node, index: { type: 'literal', value: name } };
+      } else if (
+        token.type === 'dot' &&
+        tokens[index + 1].type === 'punctuation' &&
+        tokens[index + 1].value === '['
+      ) {
+        advance();
+        node = parseBracketSuffix(node);
+      } else if (isPunctuation('[')) {
+        node = parseBracketSuffix(node);
+      } else if (isPunctuation('?')) {
+        advance();
+        node = { type: 'try', body: node };
+      } else {
+        return node;
+      }
+    }
+  };
+
+  const parsePrimary = (): Node => {
+    const token = current();
+    switch (token.type) {
+      case 'dot':
+        advance();
+        return current().type === 'string' ? field(advance().value) : IDENTITY;
+      case 'field':
+        advance();
+        return field(token.value);
+      case 'recurse':
+        advance();
+        return { type: 'recurse' };
+      case 'number':
+      case 'string':
+        advance();
+        return { type: 'literal', value: token.value };
+      case 'identifier':
+        return parseIdentifier();
+      case 'punctuation':
+        if (token.value === '(') {
+          advance();
+          const inner = parsePipe();
+          expectPunctuation(')');
+          return inner;
+        }
+        if (token.value === '[') {
+          advance();
+          if (isPunctuation(']')) {
+            advance();
+            return { type: 'array', body: null };
+          }
+          const body = parsePipe();
+          expectPunctuation(']');
+          return { type: 'array', body };
+        }
+        if (token.value === '{') return parseObject();
+        throw unexpected();
+      default:
+        throw unexpected();
+    }
+  };
+
+  const parseIdentifier = (): Node => {
+    const token = current();
+    const name = token.value as string;
+    if (name === 'true' || name === 'false' || name === 'null') {
+      advance();
+      return { type: 'literal', value: name === 'null' ? null : name === 'true' };
+    }
+    if (name === 'if') return parseIf();
+    if (UNSUPPORTED.has(name) || KEYWORDS.has(name)) throw unexpected();
+
+    advance();
+    const args: Node[] = [];
+    if (isPunctuation('(')) {
+      advance();
+      for (;;) {
+        args.push(parsePipe());
+        if (!isPunctuation(';')) break;
+        advance();
+      }
+      expectPunctuation(')');
+    }
+    return { type: 'call', name, args };
+  };
+
+  const parseIf = (): Node => {
+    advance();
+    const condition = parsePipe();
+    expectKeyword('then');
+    const then = parsePipe();
+    if (isKeyword('elif')) {
+      // elif 等价于嵌套在 else 中的 if
+      return { type: 'if', condition, then, else: parseIf() };
+    }
+    let otherwise = IDENTITY;
+    if (isKeyword('else')) {
+      advance();
+      otherwise = parsePipe();
+    }
+    expectKeyword('end');
+    return { type: 'if', condition, then, else: otherwise };
+  };
+
+  const parseObject = (): Node => {
+    expectPunctuation('{');
+    const entries: { key: Node; value: Node }[] = [];
+    while (!isPunctuation('}')) {
+      const token = current();
+      let key: Node;
+      if (token.type === 'identifier' || token.type === 'string') {
+        advance();
+        key = { type: 'literal', value: token.value };
+      } else if (isPunctuation('(')) {
+        advance();
+        key = parsePipe();
+        expectPunctuation(')');
+      } else {
+        throw fail(t('error.expectedKey'), token);
+      }
+
+      let value: Node;
+      if (isPunctuation(':')) {
+        advance();
+        value = parsePipe(false);
+      } else if (key.type === 'literal') {
+        // {name} 是 {name: .name} 的简写
+        value = field(key.value);
+      } else {
+        throw fail(t('error.expected', { expected: '":"' }));
+      }
+      entries.push({ key, value });
+
+      if (!isPunctuation(',')) break;
+      advance();
+    }
+    expectPunctuation('}');
+    return { type: 'object', entries };
+  };
+
+  const ast = parsePipe();
+  if (current().type !== 'eof') throw unexpected();
+  return ast;
+}
+
+// ============================================================================
+// 求值
+// ============================================================================
+
+/** 求值步数上限，防止 range(1e9) 之类的表达式卡住页面 */
+const MAX_STEPS = 5_000_000;
+
+interface Context {
+  steps: number;
+}
+
+function tick(context: Context): void {
+  if (++context.steps > MAX_STEPS) {
+    throw new Error(t('error.tooManySteps'));
+  }
+}
+
+/** jq 中只有 false 和 null 为假 */
+const isTruthy = (value: unknown): boolean => value !== false && value !== null;
+
+function iterate(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (isObject(value)) return Object.values(value);
+  throw new Error(t('error.cannotIterate', { type: typeName(value) }));
+}
+
+function indexValue(target: unknown, key: unknown): unknown {
+  if (target === null) return null;
+  if (isObject(target) && typeof key === 'string') {
+    return Object.hasOwn(target, key) ? target[key] : null;
+  }
+  if (Array.isArray(target) && typeof key === 'number') {
+    const position = Math.floor(key);
+    return target[position < 0 ? target.length + position : position] ?? null;
+  }
+  throw new Error(t('error.cannotIndex', { key: typeName(key), target: typeName(target) }));
+}
+
+function sliceValue(target: unknown, from: unknown, to: unknown): unknown {
+  if (target === null) return null;
+  if (
+    (from !== null && typeof from !== 'number') ||
+    (to !== null && typeof to !== 'number')
+  ) {
+    throw new Error(t('error.sliceBounds'));
+  }
+  const start = from === null ? undefined : Math.floor(from);
+  const end = to === null ? undefined : Math.ceil(to);
+  if (typeof target === 'string') return [...target].slice(start, end).join('');
+  if (Array.isArray(target)) return target.slice(start, end);
+  throw new Error(t('error.cannotSlice', { type: typeName(target) }));
+}
+
+function* descendants(value: unknown): Generator<unknown> {
+  yield value;
+  if (Array.isArray(value) || isObject(value)) {
+    for (const child of iterate(value)) yield* descendants(child);
+  }
+}
+
+/**
+ * 对象深度合并（对象 * 对象）
+ */
+function deepMerge(
+  left: Record<string, unknown>,
+  right: Record<string, unknown>
+): Record<string, unknown> {
+  const result = { ...left };
+  for (const [key, value] of Object.entries(right)) {
+    const existing = result[key];
+    result[key] = isObject(existing) && isObject(value) ? deepMerge(existing, value) : value;
+  }
+  return result;
+}
+
+function arithmetic(operator: BinaryOperator, left: unknown, right: unknown): unknown {
+  const invalid = () =>
+    new Error(
+      t('error.invalidOperands', { left: typeName(left), right: typeName(right), operator })
+    );
+
+  switch (operator) {
+    case '==':
+      return deepEqual(left, right);
+    case '!=':
+      return !deepEqual(left, right);
+    case '<':
+      return compareValues(left, right) < 0;
+    case '<=':
+      return compareValues(left, right) <= 0;
+    case '>':
+      return compareValues(left, right) > 0;
+    case '>=':
+      return compareValues(left, right) >= 0;
+    case '+':
+      if (left === null) return right;
+      if (right === null) return left;
+      if (typeof left === 'number' && typeof right === 'number') return left + right;
+      if (typeof left === 'string' && typeof right === 'string') return left + right;
+      if (Array.isArray(left) && Array.isArray(right)) return [...left, ...right];
+      if (isObject(left) && isObject(right)) return { ...left, ...right };
+      throw invalid();
+    case '-':
+      if (typeof left === 'number' && typeof right === 'number') return left - right;
+      if (Array.isArray(left) && Array.isArray(right)) {
+        return left.filter((item) => !right.some((other) => deepEqual(item, other)));
+      }
+      throw invalid();
+    case '*':
+      if (typeof left === 'number' && typeof right === 'number') return left * right;
+      if (typeof left === 'string' && typeof right === 'number') {
+        return right > 0 ? left.repeat(Math.ceil(right)) : null;
+      }
+      if (isObject(left) && isObject(right)) return deepMerge(left, right);
+      throw invalid();
+    case '/':
+      if (typeof left === 'number' && typeof right === 'number') {
+        if (right === 0) throw new Error(t('error.divisionByZero'));
+        return left / right;
+      }
+      if (typeof left === 'string' && typeof right === 'string') return left.split(right);
+      throw invalid();
+    case '%':
+      if (typeof left === 'number' && typeof right === 'number') {
+        if (Math.trunc(right) === 0) throw new Error(t('error.divisionByZero'));
+        return Math.trunc(left) % Math.trunc(right);
+      }
+      throw invalid();
+  }
+}
+
+/**
+ * 所有输出组合生成对象，{a: (1,2)} 产生两个对象
+ */
+function* buildObjects(
+  entries: { key: Node; value: Node }[],
+  input: unknown,
+  context: Context,
+  partial: Record<string, unknown> = {},
+  start = 0
+): Generator<unknown> {
+  if (start === entries.length) {
+    yield partial;
+    return;
+  }
+  const { key, value } = entries[start];
+  for (const name of evaluate(key, input, context)) {
+    if (typeof name !== 'string') {
+      throw new Error(t('error.objectKeyType', { type: typeName(name) }));
+    }
+    for (const item of evaluate(value, input, context)) {
+      yield* buildObjects(entries, input, context, { ...partial, [name]: item }, start + 1);
+    }
+  }
+}
+
+function* evaluate(node: Node, input: unknown, context: Context): Generator<unknown> {
+  tick(context);
+  switch (node.type) {
+    case 'identity':
+      yield input;
+      return;
+    case 'recurse':
+      yield* descendants(input);
+      return;
+    case 'literal':
+      yield node.value;
+      return;
+    case 'index':
+      for (const target of evaluate(node.target, input, context)) {
+        for (const key of evaluate(node.index, input, context)) yield indexValue(target, key);
+      }
+      return;
+    case 'slice':
+      for (const target of evaluate(node.target, input, context)) {
+        const froms = node.from ? [...evaluate(node.from, input, context)] : [null];
+        const tos = node.to ? [...evaluate(node.to, input, context)] : [null];
+        for (const from of froms) {
+          for (const to of tos) yield sliceValue(target, from, to);
+        }
+      }
+      return;
+    case 'iterate':
+      for (const target of evaluate(node.target, input, context)) yield* iterate(target);
+      return;
+    case 'try':
+      try {
+        yield* evaluate(node.body, input, context);
+      } catch (error) {
+        // 计算量超限不能被 ? 吞掉
+        if (context.steps > MAX_STEPS) throw error;
+      }
+      return;
+    case 'pipe':
+      for (const value of evaluate(node.left, input, context)) {
+        yield* evaluate(node.right, value, context);
+      }
+      return;
+    case 'comma':
+      yield* evaluate(node.left, input, context);
+      yield* evaluate(node.right, input, context);
+      return;
+    case 'alternative': {
+      // 左侧的错误和假值都被忽略，没有真值输出时使用右侧
+      const values: unknown[] = [];
+      try {
+        for (const value of evaluate(node.left, input, context)) {
+          if (isTruthy(value)) values.push(value);
+        }
+      } catch (error) {
+        if (context.steps > MAX_STEPS) throw error;
+      }
+      if (values.length > 0) yield* values;
+      else yield* evaluate(node.right, input, context);
+      return;
+    }
+    case 'and':
+    case 'or':
+      for (const left of evaluate(node.left, input, context)) {
+        // 短路：and 左侧为假、or 左侧为真时不再计算右侧
+        if (isTruthy(left) === (node.type === 'or')) {
+          yield node.type === 'or';
+          continue;
+        }
+        for (const right of evaluate(node.right, input, context)) yield isTruthy(right);
+      }
+      return;
+    case 'binary':
+      // 与 jq 相同，右侧为外层循环
+      for (const right of evaluate(node.right, input, context)) {
+        for (const left of evaluate(node.left, input, context)) {
+          yield arithmetic(node.operator, left, right);
+        }
+      }
+      return;
+    case 'negate':
+      for (const value of evaluate(node.operand, input, context)) {
+        if (typeof value !== 'number') {
+          throw new Error(t('error.cannotNegate', { type: typeName(value) }));
+        }
+        yield -value;
+      }
+      return;
+    case 'if':
+      for (const condition of evaluate(node.condition, input, context)) {
+        yield* evaluate(isTruthy(condition) ? node.then : node.else, input, context);
+      }
+      return;
+    case 'array':
+      yield node.body ? [...evaluate(node.body, input, context)] : [];
+      return;
+    case 'object':
+      yield* buildObjects(node.entries, input, context);
+      return;
+    case 'call': {
+      const builtin = BUILTINS[`${node.name}/${node.args.length}`];
+      if (!builtin) {
+        throw new Error(t('error.undefinedFunction', { name: `${node.name}/${node.args.length}` }));
+      }
+      yield* builtin(input, node.args, context);
+      return;
+    }
+  }
+}
+
+// ============================================================================
+// 内置函数
+// ============================================================================
+
+type Builtin = (input: unknown, args: Node[], context: Context) => Iterable<unknown>;
+
+/**
+ * 包装只有一个输出、不带参数的函数
+ */
+const simple =
+  (fn: (input: unknown) => unknown): Builtin =>
+  (input) => [fn(input)];
+
+/**
+ * 按 f 的所有输出组成的数组作为排序键
+ */
+function keyed(input: unknown, f: Node, context: Context, name: string) {
+  if (!Array.isArray(input)) {
+    throw new Error(t('error.arrayInput', { name, type: typeName(input) }));
+  }
+  return input.map((item, index) => ({ item, index, key: [...evaluate(f, item, context)] }));
+}
+
+function sortedByKey(input: unknown, f: Node, context: Context, name: string) {
+  return keyed(input, f, context, name).sort(
+    (a, b) => compareValues(a.key, b.key) || a.index - b.index
+  );
+}
+
+/**
+ * 按排序键分组，相邻且键相等的元素归为一组
+ */
+function groupByKey(input: unknown, f: Node, context: Context, name: string) {
+  const groups: { key: unknown; items: unknown[] }[] = [];
+  for (const { item, key } of sortedByKey(input, f, context, name)) {
+    const last = groups[groups.length - 1];
+    if (last && deepEqual(last.key, key)) last.items.push(item);
+    else groups.push({ key, items: [item] });
+  }
+  return groups;
+}
+
+function extremeByKey(
+  input: unknown,
+  f: Node,
+  context: Context,
+  name: string,
+  pick: 'min' | 'max'
+) {
+  const items = keyed(input, f, context, name);
+  if (items.length === 0) return null;
+  // jq 的 max_by 相同时取最后一个，min_by 取第一个
+  return items.reduce((best, item) => {
+    const result = compareValues(item.key, best.key);
+    return (pick === 'min' ? result < 0 : result >= 0) ? item : best;
+  }).item;
+}
+
+function requireString(value: unknown, name: string): string {
+  if (typeof value !== 'string') {
+    throw new Error(t('error.stringArgument', { name, type: typeName(value) }));
+  }
+  return value;
+}
+
+function requireArray(value: unknown, name: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new Error(t('error.arrayInput', { name, type: typeName(value) }));
+  }
+  return value;
+}
+
+function toEntries(input: unknown): unknown[] {
+  if (!isObject(input)) {
+    throw new Error(t('error.objectInput', { name: 'to_entries', type: typeName(input) }));
+  }
+  return Object.entries(input).map(([key, value]) => ({ key, value }));
+}
+
+function fromEntries(input: unknown): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const entry of requireArray(input, 'from_entries')) {
+    if (!isObject(entry)) throw new Error(t('error.entryNotObject'));
+    const key = [entry.key, entry.k, entry.name, entry.Name, entry.Key, entry.K].find(
+      (candidate) => candidate !== undefined && candidate !== null
+    );
+    if (key === undefined || typeof key === 'object') {
+      throw new Error(t('error.entryMissingKey'));
+    }
+    result[String(key)] = entry.value ?? entry.v ?? entry.Value ?? null;
+  }
+  return result;
+}
+
+function containsValue(a: unknown, b: unknown): boolean {
+  if (isObject(a) && isObject(b)) {
+    return Object.entries(b).every(
+      ([key, value]) => Object.hasOwn(a, key) && containsValue(a[key], value)
+    );
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return b.every((item) => a.some((candidate) => containsValue(candidate, item)));
+  }
+  if (typeof a === 'string' && typeof b === 'string') return a.includes(b);
+  if (typeName(a) === typeName(b)) return deepEqual(a, b);
+  throw new Error(t('error.cannotContain', { left: typeName(a), right: typeName(b) }));
+}
+
+function flatten(array: unknown[], depth: number): unknown[] {
+  if (depth < 0) throw new Error(t('error.negativeDepth'));
+  return array.flatMap((item) =>
+    Array.isArray(item) && depth > 0 ? flatten(item, depth - 1) : [item]
+  );
+}
+
+function length(input: unknown): number {
+  if (input === null) return 0;
+  if (typeof input === 'number') return Math.abs(input);
+  if (typeof input === 'string') return [...input].length;
+  if (Array.isArray(input)) return input.length;
+  if (isObject(input)) return Object.keys(input).length;
+  throw new Error(t('error.noLength', { type: typeName(input) }));
+}
+
+function keys(input: unknown, sort: boolean): unknown[] {
+  if (Array.isArray(input)) return input.map((_, index) => index);
+  if (isObject(input)) return sort ? Object.keys(input).sort() : Object.keys(input);
+  throw new Error(t('error.noKeys', { type: typeName(input) }));
+}
+
+function* range(from: number, to: number, context: Context): Generator<number> {
+  for (let value = from; value < to; value++) {
+    tick(context);
+    yield value;
+  }
+}
+
+/**
+ * 依次对每个参数的输出调用 fn（参数都以当前输入求值）
+ */
+function* withArgs(
+  input: unknown,
+  args: Node[],
+  context: Context,
+  fn: (...values: unknown[]) => Iterable<unknown>,
+  values: unknown[] = []
+): Generator<unknown> {
+  if (values.length === args.length) {
+    yield* fn(...values);
+    return;
+  }
+  for (const value of evaluate(args[values.length], input, context)) {
+    yield* withArgs(input, args, context, fn, [...values, value]);
+  }
+}
+
+/** 按类型筛选，如 numbers、strings */
+const selectType =
+  (...types: string[]): Builtin =>
+  (input) =>
+    types.includes(typeName(input)) ? [input] : [];
+
+const math =
+  (name: string, fn: (value: number) => number): Builtin =>
+  (input) => {
+    if (typeof input !== 'number') throw new Error(t('error.numberInput', { name }));
+    return [fn(input)];
+  };
+
+/** 内置函数，键为 "名称/参数个数" */
+const BUILTINS: Record<string, Builtin> = {
+  'empty/0': () => [],
+  'not/0': simple((input) => !isTruthy(input)),
+  'length/0': simple(length),
+  'type/0': simple(typeName),
+  'keys/0': simple((input) => keys(input, true)),
+  'keys_unsorted/0': simple((input) => keys(input, false)),
+  'values/0': (input) => (input === null ? [] : [input]),
+  'add/0': simple((input) =>
+    (isObject(input) ? Object.values(input) : requireArray(input, 'add')).reduce(
+      (sum: unknown, item) => arithmetic('+', sum, item),
+      null
+    )
+  ),
+  'sort/0': simple((input) => [...requireArray(input, 'sort')].sort(compareValues)),
+  'unique/0': simple((input) =>
+    [...requireArray(input, 'unique')]
+      .sort(compareValues)
+      .filter((item, index, array) => index === 0 || !deepEqual(item, array[index - 1]))
+  ),
+  'reverse/0': simple((input) => {
+    if (input === null) return [];
+    if (typeof input === 'string') return [...input].reverse().join('');
+    return [...requireArray(input, 'reverse')].reverse();
+  }),
+  'min/0': simple((input) => {
+    const array = requireArray(input, 'min');
+    return array.length === 0 ? null : array.reduce((a, b) => (compareValues(b, a) < 0 ? b : a));
+  }),
+  'max/0': simple((input) => {
+    const array = requireArray(input, 'max');
+    return array.length === 0 ? null : array.reduce((a, b) => (compareValues(b, a) >= 0 ? b : a));
+  }),
+  'first/0': simple((input) => indexValue(input, 0)),
+  'last/0': simple((input) => indexValue(input, -1)),
+  'flatten/0': simple((input) => flatten(requireArray(input, 'flatten'), Infinity)),
+  'tostring/0': simple((input) => (typeof input === 'string' ? input : JSON.stringify(input))),
+  'tonumber/0': simple((input) => {
+    if (typeof input === 'number') return input;
+    const number = typeof input === 'string' && input.trim() ? Number(input) : NaN;
+    if (Number.isNaN(number)) {
+      throw new Error(t('error.cannotParseNumber', { value: JSON.stringify(input) }));
+    }
+    return number;
+  }),
+  'tojson/0': simple((input) => JSON.stringify(input)),
+  'fromjson/0': simple((input) => {
+    try {
+      return JSON.parse(requireString(input, 'fromjson'));
+    } catch (error) {
+      throw new Error(t('error.fromJsonFailed', { message: (error as Error).message }));
+    }
+  }),
+  'ascii_downcase/0': simple((input) =>
+    requireString(input, 'ascii_downcase').replace(/[A-Z]/g, (c) => c.toLowerCase())
+  ),
+  'ascii_upcase/0': simple((input) =>
+    requireString(input, 'ascii_upcase').replace(/[a-z]/g, (c) => c.toUpperCase())
+  ),
+  'to_entries/0': simple(toEntries),
+  'from_entries/0': simple(fromEntries),
+  'any/0': simple((input) => iterate(input).some(isTruthy)),
+  'all/0': simple((input) => iterate(input).every(isTruthy)),
+  'floor/0': math('floor', Math.floor),
+  'ceil/0': math('ceil', Math.ceil),
+  'round/0': math('round', Math.round),
+  'sqrt/0': math('sqrt', Math.sqrt),
+  'recurse/0': (input) => descendants(input),
+  'arrays/0': selectType('array'),
+  'objects/0': selectType('object'),
+  'iterables/0': selectType('array', 'object'),
+  'scalars/0': selectType('null', 'boolean', 'number', 'string'),
+  'booleans/0': selectType('boolean'),
+  'numbers/0': selectType('number'),
+  'strings/0': selectType('string'),
+  'nulls/0': selectType('null'),
+
+  'select/1': function* (input, [f], context) {
+    for (const value of evaluate(f, input, context)) {
+      if (isTruthy(value)) yield input;
+    }
+  },
+  'map/1': (input, [f], context) => [
+    iterate(input).flatMap((item) => [...evaluate(f, item, context)]),
+  ],
+  'map_values/1': (input, [f], context) => {
+    // 每个值取 f 的第一个输出，没有输出时删除该项
+    const first = (value: unknown) => {
+      for (const result of evaluate(f, value, context)) return [result];
+      return [];
+    };
+    if (Array.isArray(input)) return [input.flatMap(first)];
+    if (isObject(input)) {
+      return [
+        Object.fromEntries(
+          Object.entries(input).flatMap(([key, value]) => first(value).map((v) => [key, v]))
+        ),
+      ];
+    }
+    throw new Error(t('error.mapValuesInput', { type: typeName(input) }));
+  },
+  'with_entries/1': (input, [f], context) => [
+    fromEntries(toEntries(input).flatMap((entry) => [...evaluate(f, entry, context)])),
+  ],
+  'has/1': (input, args, context) =>
+    withArgs(input, args, context, (key) => {
+      if (isObject(input) && typeof key === 'string') return [Object.hasOwn(input, key)];
+      if (Array.isArray(input) && typeof key === 'number') {
+        return [key >= 0 && key < input.length];
+      }
+      throw new Error(t('error.cannotHas', { type: typeName(input), key: typeName(key) }));
+    }),
+  'contains/1': (input, args, context) =>
+    withArgs(input, args, context, (value) => [containsValue(input, value)]),
+  'startswith/1': (input, args, context) =>
+    withArgs(input, args, context, (prefix) => [
+      requireString(input, 'startswith').startsWith(requireString(prefix, 'startswith')),
+    ]),
+  'endswith/1': (input, args, context) =>
+    withArgs(input, args, context, (suffix) => [
+      requireString(input, 'endswith').endsWith(requireString(suffix, 'endswith')),
+    ]),
+  'ltrimstr/1': (input, args, context) =>
+    withArgs(input, args, context, (prefix) => [
+      typeof input === 'string' && typeof prefix === 'string' && input.startsWith(prefix)
+        ? input.slice(prefix.length)
+        : input,
+    ]),
+  'rtrimstr/1': (input, args, context) =>
+    withArgs(input, args, context, (suffix) => [
+      typeof input === 'string' && typeof suffix === 'string' && suffix && input.endsWith(suffix)
+        ? input.slice(0, -suffix.length)
+        : input,
+    ]),
+  'split/1': (input, args, context) =>
+    withArgs(input, args, context, (separator) => [
+      requireString(input, 'split').split(requireString(separator, 'split')),
+    ]),
+  'join/1': (input, args, context) =>
+    withArgs(input, args, context, (separator) => [
+      requireArray(input, 'join')
+        .map((item) => {
+          if (item === null) return '';
+          if (typeof item === 'object') {
+            throw new Error(t('error.cannotJoin', { type: typeName(item) }));
+          }
+          return String(item);
+        })
+        .join(requireString(separator, 'join')),
+    ]),
+  'test/1': (input, args, context) => BUILTINS['test/2'](input, [...args, NULL], context),
+  'test/2': (input, args, context) =>
+    withArgs(input, args, context, (pattern, flags) => {
+      // 只支持 i（忽略大小写）和 x（忽略空白）标志
+      const options = flags === null ? '' : requireString(flags, 'test');
+      let source = requireString(pattern, 'test');
+      if (options.includes('x')) source = source.replace(/\s+/g, '');
+      let regex: RegExp;
+      try {
+        regex = new RegExp(source, options.includes('i') ? 'iu' : 'u');
+      } catch {
+        throw new Error(t('error.invalidRegex', { source }));
+      }
+      return [regex.test(requireString(input, 'test'))];
+    }),
+  'sort_by/1': (input, [f], context) => [
+    sortedByKey(input, f, context, 'sort_by').map(({ item }) => item),
+  ],
+  'group_by/1': (input, [f], context) => [
+    groupByKey(input, f, context, 'group_by').map(({ items }) => items),
+  ],
+  'unique_by/1': (input, [f], context) => [
+    groupByKey(input, f, context, 'unique_by').map(({ items }) => items[0]),
+  ],
+  'min_by/1': (input, [f], context) => [extremeByKey(input, f, context, 'min_by', 'min')],
+  'max_by/1': (input, [f], context) => [extremeByKey(input, f, context, 'max_by', 'max')],
+  'flatten/1': (input, args, context) =>
+    withArgs(input, args, context, (depth) => {
+      if (typeof depth !== 'number') throw new Error(t('error.depthNotNumber'));
+      return [flatten(requireArray(input, 'flatten'), depth)];
+    }),
+  'any/1': (input, [f], context) => [
+    iterate(input).some((item) => [...evaluate(f, item, context)].some(isTruthy)),
+  ],
+  'all/1': (input, [f], context) => [
+    iterate(input).every((item) => [...evaluate(f, item, context)].every(isTruthy)),
+  ],
+  'first/1': function* (input, [f], context) {
+    for (const value of evaluate(f, input, context)) {
+      yield value;
+      return;
+    }
+  },
+  'limit/2': function* (input, [n, f], context) {
+    for (const count of evaluate(n, input, context)) {
+      if (typeof count !== 'number') throw new Error(t('error.limitNotNumber'));
+      if (count <= 0) continue;
+      let emitted = 0;
+      for (const value of evaluate(f, input, context)) {
+        yield value;
+        if (++emitted >= count) break;
+      }
+    }
+  },
+  'range/1': (input, args, context) =>
+    withArgs(input, args, context, (to) => {
+      if (typeof to !== 'number') throw new Error(t('error.rangeNotNumber'));
+      return range(0, to, context);
+    }),
+  'range/2': (input, args, context) =>
+    withArgs(input, args, context, (from, to) => {
+      if (typeof from !== 'number' || typeof to !== 'number') {
+        throw new Error(t('error.rangeNotNumber'));
+      }
+      return range(from, to, context);
+    }),
+  'error/1': (input, args, context) =>
+    withArgs(input, args, context, (message) => {
+      throw new Error(typeof message === 'string' ? message : JSON.stringify(message));
+    }),
+};
+
+/**
+ * 执行 jq 查询，返回所有输出
+ */
+export function queryJq(data: unknown, expression: string): unknown[] {
+  const ast = parseJq(expression);
+  return [...evaluate(ast, data, { steps: 0 })];
+}
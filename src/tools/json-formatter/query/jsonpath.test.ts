@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { queryJsonPath } from './jsonpath';
+import { QuerySyntaxError } from './shared';
+
+const store = {
+  store: {
+    book: [
+      { category: 'reference', author: 'Nigel Rees', title: 'Sayings', price: 8.95 },
+      { category: 'fiction', author: 'Evelyn Waugh', title: 'Sword', price: 12.99 },
+      { category: 'fiction', author: 'Herman Melville', isbn: '0-553', price: 8.99 },
+      { category: 'fiction', author: 'J. R. R. Tolkien', isbn: '0-395', price: 22.99 },
+    ],
+    bicycle: { color: 'red', price: 19.95 },
+  },
+  'first name': 'Ann',
+};
+
+describe('queryJsonPath', () => {
+  it('成员与下标', () => {
+    expect(queryJsonPath(store, '$')).toEqual([store]);
+    expect(queryJsonPath(store, '$.store.bicycle.color')).toEqual(['red']);
+    expect(queryJsonPath(store, "$['first name']")).toEqual(['Ann']);
+    expect(queryJsonPath(store, '$.store.book[0].price')).toEqual([8.95]);
+    expect(queryJsonPath(store, '$.store.book[-1].author')).toEqual(['J. R. R. Tolkien']);
+    expect(queryJsonPath(store, '$.missing')).toEqual([]);
+  });
+
+  it('通配符、并集与切片', () => {
+    expect(queryJsonPath(store, '$.store.book[*].price')).toEqual([8.95, 12.99, 8.99, 22.99]);
+    expect(queryJsonPath(store, '$.store.bicycle.*')).toEqual(['red', 19.95]);
+    expect(queryJsonPath(store, '$.store.book[0,2].price')).toEqual([8.95, 8.99]);
+    expect(queryJsonPath(store, '$.store.book[1:3].price')).toEqual([12.99, 8.99]);
+    expect(queryJsonPath(store, '$.store.book[::-2].price')).toEqual([22.99, 12.99]);
+    expect(queryJsonPath(store, '$.store.book[-2:].price')).toEqual([8.99, 22.99]);
+  });
+
+  it('递归下降', () => {
+    expect(queryJsonPath(store, '$..author')).toHaveLength(4);
+    expect(queryJsonPath(store, '$..price')).toEqual([8.95, 12.99, 8.99, 22.99, 19.95]);
+    expect(queryJsonPath(store, '$..book[2].isbn')).toEqual(['0-553']);
+  });
+
+  it('过滤表达式', () => {
+    expect(queryJsonPath(store, '$.store.book[?(@.price < 10)].title')).toEqual(['Sayings']);
+    expect(queryJsonPath(store, '$..book[?@.isbn].author')).toEqual([
+      'Herman Melville',
+      'J. R. R. Tolkien',
+    ]);
+    expect(
+      queryJsonPath(store, "$.store.book[?(@.category == 'fiction' && !(@.price > 20))].price")
+    ).toEqual([12.99, 8.99]);
+    expect(queryJsonPath(store, '$.store.book[?@.price > $.store.bicycle.price].price')).toEqual([
+      22.99,
+    ]);
+    expect(queryJsonPath(store, '$.store.book[?length(@.author) == 10].author')).toEqual([
+      'Nigel Rees',
+    ]);
+  });
+
+  it('语法错误带位置', () => {
+    expect(() => queryJsonPath(store, 'store')).toThrow('JSONPath 必须以 $ 开头');
+    try {
+      queryJsonPath(store, '$.store[1');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(QuerySyntaxError);
+      expect((error as QuerySyntaxError).position).toBe(9);
+    }
+    expect(() => queryJsonPath(store, '$.store.book[?(@.price < )]')).toThrow(QuerySyntaxError);
+  });
+});
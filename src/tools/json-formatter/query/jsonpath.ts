@@ -0,0 +1,427 @@
+/**
+ * JSONPath 查询（RFC 9535 子集，兼容 Goessner 写法）
+ * 支持 $、.name、['name']、[0]、[-1]、[*]、.*、..、[a,b] 并集、
+ * [start:end:step] 切片，以及 [?(@.price < 10 && @.tags)] 过滤和 length() 函数
+ */
+
+import { t } from '../locales';
+import {
+  QuerySyntaxError,
+  deepEqual,
+  isDigit,
+  isObject,
+  readNumber,
+  readQuoted,
+  skipWhitespace,
+} from './shared';
+
+type Selector =
+  | { type: 'name'; name: string }
+  | { type: 'wildcard' }
+  | { type: 'index'; index: number }
+  | { type: 'slice'; start?: number; end?: number; step?: number }
+  | { type: 'filter'; expression: FilterExpression };
+
+interface Segment {
+  descendant: boolean;
+  selectors: Selector[];
+}
+
+type Operand =
+  | { type: 'literal'; value: unknown }
+  | { type: 'path'; root: '@' | '$'; segments: Segment[] }
+  | { type: 'length'; argument: Operand };
+
+type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+type FilterExpression =
+  | { type: 'or' | 'and'; left: FilterExpression; right: FilterExpression }
+  | { type: 'not'; expression: FilterExpression }
+  | { type: 'compare'; operator: ComparisonOperator; left: Operand; right: Operand }
+  | { type: 'exists'; operand: Operand };
+
+/** 路径比较时不存在的值，与 null 区分 */
+const NOTHING = Symbol('nothing');
+
+/** 点号后允许的成员名字符，非 ASCII 字符也可直接书写 */
+const MEMBER_NAME = /^[A-Za-z_$\u0080-\uffff][\w$\u0080-\uffff]*/;
+
+const COMPARISON_OPERATOR = /^(==|!=|<=|>=|<|>)/;
+
+const LITERAL_WORDS = [
+  ['true', true],
+  ['false', false],
+  ['null', null],
+] as const;
+
+// ============================================================================
+// 解析
+// ============================================================================
+
+/**
+ * 将 JSONPath 表达式解析为分段列表，出错时抛出带位置的 QuerySyntaxError
+ */
+function parseJsonPath(source: string): Segment[] {
+  let position = 0;
+
+  const peek = (offset = 0): string | undefined => source[position + offset];
+  const skip = () => {
+    position = skipWhitespace(source, position);
+  };
+  const fail = (message: string, at = position) => new QuerySyntaxError(message, at);
+
+  const expect = (char: string) => {
+    skip();
+    if (peek() !== char) throw fail(t('error.expected', { expected: `"${char}"` }));
+    position++;
+  };
+
+  const parseSegments = (): Segment[] => {
+    const segments: Segment[] = [];
+    for (;;) {
+      const start = position;
+      skip();
+      const char = peek();
+      if (char === '.' && peek(1) === '.') {
+        position += 2;
+        segments.push({ descendant: true, selectors: parseSegmentBody(true) });
+      } else if (char === '.') {
+        position++;
+        segments.push({ descendant: false, selectors: parseSegmentBody(false) });
+      } else if (char === '[') {
+        segments.push({ descendant: false, selectors: parseBracket() });
+      } else {
+        position = start;
+        return segments;
+      }
+    }
+  };
+
+  // 点号后的部分：*、成员名，或 .. 后的 [...]
+  const parseSegmentBody = (descendant: boolean): Selector[] => {
+    if (peek() === '*') {
+      position++;
+      return [{ type: 'wildcard' }];
+    }
+    if (descendant && peek() === '[') return parseBracket();
+    const match = MEMBER_NAME.exec(source.slice(position));
+    if (!match) throw fail(t('error.jsonPathExpectedMember'));
+    position += match[0].length;
+    return [{ type: 'name', name: match[0] }];
+  };
+
+  const parseBracket = (): Selector[] => {
+    expect('[');
+    const selectors: Selector[] = [];
+    for (;;) {
+      skip();
+      selectors.push(parseSelector());
+      skip();
+      if (peek() !== ',') break;
+      position++;
+    }
+    expect(']');
+    return selectors;
+  };
+
+  const parseSelector = (): Selector => {
+    const char = peek();
+    if (char === '*') {
+      position++;
+      return { type: 'wildcard' };
+    }
+    if (char === "'" || char === '"') {
+      const { value, end } = readQuoted(source, position);
+      position = end;
+      return { type: 'name', name: value };
+    }
+    if (char === '?') {
+      position++;
+      return { type: 'filter', expression: parseOr() };
+    }
+    if (char === ':' || char === '-' || isDigit(char)) return parseIndexOrSlice();
+    throw fail(t('error.jsonPathExpectedSelector'));
+  };
+
+  const parseInteger = (): number | undefined => {
+    skip();
+    const char = peek();
+    if (char !== '-' && !isDigit(char)) return undefined;
+    const start = position;
+    const { value, end } = readNumber(source, position);
+    if (!Number.isInteger(value)) throw fail(t('error.jsonPathIntegerIndex'), start);
+    position = end;
+    return value;
+  };
+
+  const parseIndexOrSlice = (): Selector => {
+    const start = parseInteger();
+    skip();
+    if (peek() !== ':') {
+      if (start === undefined) throw fail(t('error.jsonPathExpectedIndex'));
+      return { type: 'index', index: start };
+    }
+    position++;
+    const end = parseInteger();
+    skip();
+    let step: number | undefined;
+    if (peek() === ':') {
+      position++;
+      step = parseInteger();
+    }
+    return { type: 'slice', start, end, step };
+  };
+
+  // 过滤表达式优先级：|| < && < ! < 比较
+
+  const parseOr = (): FilterExpression => {
+    let left = parseAnd();
+    for (;;) {
+      skip();
+      if (!source.startsWith('||', position)) return left;
+      position += 2;
+      left = { type: 'or', left, right: parseAnd() };
+    }
+  };
+
+  const parseAnd = (): FilterExpression => {
+    let left = parseUnary();
+    for (;;) {
+      skip();
+      if (!source.startsWith('&&', position)) return left;
+      position += 2;
+      left = { type: 'and', left, right: parseUnary() };
+    }
+  };
+
+  const parseUnary = (): FilterExpression => {
+    skip();
+    if (peek() === '!' && peek(1) !== '=') {
+      position++;
+      return { type: 'not', expression: parseUnary() };
+    }
+    if (peek() === '(') {
+      position++;
+      const expression = parseOr();
+      expect(')');
+      return expression;
+    }
+
+    const start = position;
+    const left = parseOperand();
+    skip();
+    const operator = COMPARISON_OPERATOR.exec(source.slice(position))?.[0];
+    if (!operator) {
+      if (left.type === 'literal') throw fail(t('error.jsonPathLiteralComparison'), start);
+      return { type: 'exists', operand: left };
+    }
+    position += operator.length;
+    const right = parseOperand();
+    return { type: 'compare', operator: operator as ComparisonOperator, left, right };
+  };
+
+  const parseOperand = (): Operand => {
+    skip();
+    const char = peek();
+    if (char === '@' || char === '$') {
+      position++;
+      return { type: 'path', root: char, segments: parseSegments() };
+    }
+    if (char === "'" || char === '"') {
+      const { value, end } = readQuoted(source, position);
+      position = end;
+      return { type: 'literal', value };
+    }
+    if (char === '-' || isDigit(char)) {
+      const { value, end } = readNumber(source, position);
+      position = end;
+      return { type: 'literal', value };
+    }
+    for (const [word, value] of LITERAL_WORDS) {
+      if (source.startsWith(word, position)) {
+        position += word.length;
+        return { type: 'literal', value };
+      }
+    }
+    if (source.startsWith('length(', position)) {
+      position += 'length('.length;
+      const argument = parseOperand();
+      expect(')');
+      return { type: 'length', argument };
+    }
+    throw fail(t('error.jsonPathExpectedOperand'));
+  };
+
+  skip();
+  if (peek() !== '$') throw fail(t('error.jsonPathRoot'));
+  position++;
+  const segments = parseSegments();
+  skip();
+  if (position < source.length) throw fail(t('error.unexpectedChar', { char: peek() ?? '' }));
+  return segments;
+}
+
+// ============================================================================
+// 求值
+// ============================================================================
+
+/**
+ * 子节点（数组元素或对象的值）
+ */
+function children(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (isObject(value)) return Object.values(value);
+  return [];
+}
+
+/**
+ * 数组切片（RFC 9535 语义，支持负数和反向步长）
+ */
+function slice(array: unknown[], start?: number, end?: number, step = 1): unknown[] {
+  if (step === 0) return [];
+  const length = array.length;
+  const normalize = (index: number) => (index >= 0 ? index : length + index);
+  const result: unknown[] = [];
+
+  if (step > 0) {
+    const lower = Math.min(Math.max(normalize(start ?? 0), 0), length);
+    const upper = Math.min(Math.max(normalize(end ?? length), 0), length);
+    for (let i = lower; i < upper; i += step) result.push(array[i]);
+  } else {
+    const upper = Math.min(Math.max(normalize(start ?? length - 1), -1), length - 1);
+    const lower = Math.min(Math.max(end === undefined ? -1 : normalize(end), -1), length - 1);
+    for (let i = upper; i > lower; i += step) result.push(array[i]);
+  }
+  return result;
+}
+
+function applySelector(selector: Selector, value: unknown, root: unknown): unknown[] {
+  switch (selector.type) {
+    case 'name':
+      return isObject(value) && Object.hasOwn(value, selector.name) ? [value[selector.name]] : [];
+    case 'wildcard':
+      return children(value);
+    case 'index': {
+      if (!Array.isArray(value)) return [];
+      const index = selector.index >= 0 ? selector.index : value.length + selector.index;
+      return index >= 0 && index < value.length ? [value[index]] : [];
+    }
+    case 'slice':
+      return Array.isArray(value) ? slice(value, selector.start, selector.end, selector.step) : [];
+    case 'filter':
+      return children(value).filter((child) => testFilter(selector.expression, child, root));
+  }
+}
+
+/**
+ * 所有后代节点（含自身），先序遍历
+ */
+function descendants(value: unknown): unknown[] {
+  const result: unknown[] = [];
+  const stack = [value];
+  while (stack.length > 0) {
+    const node = stack.pop();
+    result.push(node);
+    const items = children(node);
+    for (let i = items.length - 1; i >= 0; i--) stack.push(items[i]);
+  }
+  return result;
+}
+
+function applySegments(segments: Segment[], value: unknown, root: unknown): unknown[] {
+  let nodes = [value];
+  for (const segment of segments) {
+    const targets = segment.descendant ? nodes.flatMap(descendants) : nodes;
+    nodes = targets.flatMap((node) =>
+      segment.selectors.flatMap((selector) => applySelector(selector, node, root))
+    );
+  }
+  return nodes;
+}
+
+/**
+ * 路径操作数命中的节点，@ 相对当前节点，$ 相对根节点
+ */
+function resolvePath(
+  operand: Extract<Operand, { type: 'path' }>,
+  current: unknown,
+  root: unknown
+): unknown[] {
+  return applySegments(operand.segments, operand.root === '@' ? current : root, root);
+}
+
+/**
+ * 比较时取操作数的单个值，路径未命中或命中多个时为 NOTHING
+ */
+function operandValue(operand: Operand, current: unknown, root: unknown): unknown {
+  switch (operand.type) {
+    case 'literal':
+      return operand.value;
+    case 'path': {
+      const nodes = resolvePath(operand, current, root);
+      return nodes.length === 1 ? nodes[0] : NOTHING;
+    }
+    case 'length': {
+      const value = operandValue(operand.argument, current, root);
+      if (typeof value === 'string') return [...value].length;
+      if (Array.isArray(value)) return value.length;
+      if (isObject(value)) return Object.keys(value).length;
+      return NOTHING;
+    }
+  }
+}
+
+function compare(operator: ComparisonOperator, left: unknown, right: unknown): boolean {
+  if (operator === '==') {
+    return left === NOTHING || right === NOTHING ? left === right : deepEqual(left, right);
+  }
+  if (operator === '!=') return !compare('==', left, right);
+
+  // 只有同为数字或同为字符串时才能比较大小，否则 <= 和 >= 退化为相等判断
+  const comparable =
+    (typeof left === 'number' && typeof right === 'number') ||
+    (typeof left === 'string' && typeof right === 'string');
+  if (!comparable) return operator.endsWith('=') && compare('==', left, right);
+  const a = left as number | string;
+  const b = right as number | string;
+  switch (operator) {
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+  }
+}
+
+function testFilter(expression: FilterExpression, current: unknown, root: unknown): boolean {
+  const test = (inner: FilterExpression) => testFilter(inner, current, root);
+  switch (expression.type) {
+    case 'or':
+      return test(expression.left) || test(expression.right);
+    case 'and':
+      return test(expression.left) && test(expression.right);
+    case 'not':
+      return !test(expression.expression);
+    case 'compare':
+      return compare(
+        expression.operator,
+        operandValue(expression.left, current, root),
+        operandValue(expression.right, current, root)
+      );
+    case 'exists':
+      return expression.operand.type === 'path'
+        ? resolvePath(expression.operand, current, root).length > 0
+        : operandValue(expression.operand, current, root) !== NOTHING;
+  }
+}
+
+/**
+ * 执行 JSONPath 查询，返回所有命中的值
+ */
+export function queryJsonPath(data: unknown, expression: string): unknown[] {
+  const segments = parseJsonPath(expression);
+  return applySegments(segments, data, data);
+}
@@ -0,0 +1,183 @@
+/**
+ * 三种查询语言共用的词法辅助函数与值比较
+ */
+
+import { t } from '../locales';
+import type { QueryLanguage } from '../types';
+
+/**
+ * 支持的查询语言，用于校验分享状态和保存的查询
+ */
+export const QUERY_LANGUAGES: QueryLanguage[] = ['jsonpath', 'jmespath', 'jq'];
+
+/**
+ * 带位置的查询语法错误，position 为表达式中的字符下标（从 0 开始）
+ */
+export class QuerySyntaxError extends Error {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+    this.position = position;
+  }
+}
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  "'": "'",
+  '`': '`',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+export const isDigit = (char: string | undefined): boolean =>
+  char !== undefined && char >= '0' && char <= '9';
+
+export const isIdentifierStart = (char: string | undefined): boolean =>
+  char !== undefined && /[A-Za-z_]/.test(char);
+
+export const isIdentifierPart = (char: string | undefined): boolean =>
+  char !== undefined && /[\w]/.test(char);
+
+/**
+ * 跳过空白，返回下一个非空白字符的位置
+ */
+export function skipWhitespace(source: string, position: number): number {
+  while (position < source.length && /\s/.test(source[position])) position++;
+  return position;
+}
+
+/**
+ * 读取引号包围的字符串，支持 JSON 转义；position 指向开头的引号
+ */
+export function readQuoted(
+  source: string,
+  position: number
+): { value: string; end: number } {
+  const quote = source[position];
+  let value = '';
+  let i = position + 1;
+  while (i < source.length) {
+    const char = source[i];
+    if (char === quote) return { value, end: i + 1 };
+    if (char === '\\') {
+      const next = source[i + 1];
+      if (next === 'u') {
+        const hex = source.slice(i + 2, i + 6);
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+          throw new QuerySyntaxError(t('error.invalidUnicodeEscape'), i);
+        }
+        value += String.fromCharCode(parseInt(hex, 16));
+        i += 6;
+        continue;
+      }
+      if (next === undefined || !(next in ESCAPES)) {
+        throw new QuerySyntaxError(t('error.invalidEscape', { char: next ?? '' }), i);
+      }
+      value += ESCAPES[next];
+      i += 2;
+      continue;
+    }
+    value += char;
+    i++;
+  }
+  throw new QuerySyntaxError(t('error.unterminatedString'), position);
+}
+
+/**
+ * 读取数字（可带负号、小数和指数）
+ */
+export function readNumber(
+  source: string,
+  position: number
+): { value: number; end: number } {
+  const match = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/.exec(source.slice(position));
+  if (!match) {
+    throw new QuerySyntaxError(t('error.invalidNumber'), position);
+  }
+  return { value: Number(match[0]), end: position + match[0].length };
+}
+
+/**
+ * 是否为普通对象（不含数组和 null）
+ */
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * JSON 值的深度相等比较
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => Object.hasOwn(b, key) && deepEqual(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+/**
+ * jq 的类型顺序：null < false < true < 数字 < 字符串 < 数组 < 对象
+ */
+function typeRank(value: unknown): number {
+  if (value === null || value === undefined) return 0;
+  if (value === false) return 1;
+  if (value === true) return 2;
+  if (typeof value === 'number') return 3;
+  if (typeof value === 'string') return 4;
+  if (Array.isArray(value)) return 5;
+  return 6;
+}
+
+/**
+ * 按 jq 的全序比较两个 JSON 值，用于排序、min / max 和比较运算
+ */
+export function compareValues(a: unknown, b: unknown): number {
+  const rankA = typeRank(a);
+  const rankB = typeRank(b);
+  if (rankA !== rankB) return rankA - rankB;
+
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'string' && typeof b === 'string') return a < b ? -1 : a > b ? 1 : 0;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      const result = compareValues(a[i], b[i]);
+      if (result !== 0) return result;
+    }
+    return a.length - b.length;
+  }
+  if (isObject(a) && isObject(b)) {
+    // 先比较排序后的键，再按键依次比较值
+    const keysA = Object.keys(a).sort();
+    const keysB = Object.keys(b).sort();
+    const keyResult = compareValues(keysA, keysB);
+    if (keyResult !== 0) return keyResult;
+    for (const key of keysA) {
+      const result = compareValues(a[key], b[key]);
+      if (result !== 0) return result;
+    }
+  }
+  return 0;
+}
+
+/**
+ * 类型名，用于错误信息（与 jq / JMESPath 的 type 一致）
+ */
+export function typeName(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
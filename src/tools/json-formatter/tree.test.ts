@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { flattenTree, previewValue, searchTree, toJsAccessor, toJsonPath } from './tree';
+
+const data = {
+  name: 'demo',
+  items: [
+    { id: 1, tags: ['a', 'b'] },
+    { id: 2, 'first name': "O'Brien" },
+  ],
+  meta: null,
+};
+
+const ids = (rows: { id: string }[]) => rows.map((row) => row.id);
+
+describe('路径', () => {
+  it('生成 JSONPath', () => {
+    expect(toJsonPath([])).toBe('$');
+    expect(toJsonPath(['items', 3, 'id'])).toBe('$.items[3].id');
+    expect(toJsonPath(['first name', "it's"])).toBe("$['first name']['it\\'s']");
+  });
+
+  it('生成 JS 访问表达式', () => {
+    expect(toJsAccessor(['items', 3, 'id'])).toBe('data.items[3].id');
+    expect(toJsAccessor(['first name', '$ok', '1x'], 'res')).toBe('res["first name"].$ok["1x"]');
+  });
+
+  it('预览过长时截断', () => {
+    expect(previewValue('abc')).toBe('"abc"');
+    expect(previewValue('x'.repeat(300), 10)).toBe(`"${'x'.repeat(9)}…`);
+  });
+});
+
+describe('展平', () => {
+  it('按默认深度展开，记录类型和子节点数', () => {
+    const rows = flattenTree(data, { depth: 1, toggled: new Set() });
+    expect(ids(rows)).toEqual(['$', '$.name', '$.items', '$.meta']);
+    expect(rows[0]).toMatchObject({ type: 'object', childCount: 3, expanded: true, depth: 0 });
+    expect(rows[2]).toMatchObject({ key: 'items', type: 'array', childCount: 2, expanded: false });
+    expect(rows[3]).toMatchObject({ type: 'null', childCount: 0 });
+  });
+
+  it('toggled 与默认展开状态相反', () => {
+    const rows = flattenTree(data, { depth: 1, toggled: new Set(['$.items', '$']) });
+    expect(ids(rows)).toEqual(['$']);
+    const expanded = flattenTree(data, { depth: 1, toggled: new Set(['$.items']) });
+    expect(ids(expanded)).toContain('$.items[1]');
+  });
+
+  it('全部展开', () => {
+    const rows = flattenTree(data, { depth: Infinity, toggled: new Set() });
+    expect(rows).toHaveLength(12);
+    expect(rows.find((row) => row.id === "$.items[1]['first name']")).toMatchObject({
+      path: ['items', 1, 'first name'],
+      depth: 3,
+    });
+  });
+});
+
+describe('搜索', () => {
+  it('匹配键名和值，并标记祖先', () => {
+    const result = searchTree(data, 'BRIEN');
+    expect([...result.matches]).toEqual(["$.items[1]['first name']"]);
+    expect([...result.ancestors].sort()).toEqual(['$', '$.items', '$.items[1]']);
+  });
+
+  it('过滤时只显示命中节点和祖先', () => {
+    const search = searchTree(data, 'id');
+    const rows = flattenTree(data, { depth: 1, toggled: new Set() }, search);
+    expect(ids(rows)).toEqual([
+      '$',
+      '$.items',
+      '$.items[0]',
+      '$.items[0].id',
+      '$.items[1]',
+      '$.items[1].id',
+    ]);
+    expect(rows.filter((row) => row.match)).toHaveLength(2);
+  });
+
+  it('命中的容器展开后显示完整子树', () => {
+    const search = searchTree(data, 'tags');
+    const rows = flattenTree(data, { depth: 1, toggled: new Set(['$.items[0].tags']) }, search);
+    expect(ids(rows)).toContain('$.items[0].tags[1]');
+  });
+
+  it('没有命中时只剩根节点', () => {
+    const search = searchTree(data, 'zzz');
+    expect(ids(flattenTree(data, { depth: 1, toggled: new Set() }, search))).toEqual(['$']);
+  });
+
+  it('命中数超过上限时截断', () => {
+    const result = searchTree(Array.from({ length: 10 }, () => 'x'), 'x', 3);
+    expect(result.matches.size).toBe(3);
+    expect(result.truncated).toBe(true);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * JSON 树形视图的数据处理
+ * 只遍历展开的节点生成扁平的行列表，配合虚拟滚动处理 10 MB 以上的文档
+ */
+
+import type {
+  JsonValueType,
+  PathSegment,
+  TreeExpansion,
+  TreeRow,
+  TreeSearchResult,
+} from './types';
+
+/** 搜索命中数上限，超过后停止遍历 */
+export const MAX_SEARCH_MATCHES = 5000;
+
+/** 合法的 JS 标识符，可用点号访问 */
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * 获取 JSON 值的类型
+ */
+export function getValueType(value: unknown): JsonValueType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  switch (typeof value) {
+    case 'object':
+      return 'object';
+    case 'string':
+      return 'string';
+    case 'number':
+      return 'number';
+    default:
+      return 'boolean';
+  }
+}
+
+/**
+ * 获取子节点的键和值，基本类型返回空数组
+ */
+function childEntries(value: unknown): [PathSegment, unknown][] {
+  if (Array.isArray(value)) {
+    return value.map((item, index) => [index, item]);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.entries(value);
+  }
+  return [];
+}
+
+/**
+ * 对象的键数或数组长度
+ */
+function countChildren(value: unknown): number {
+  if (Array.isArray(value)) return value.length;
+  if (value !== null && typeof value === 'object') return Object.keys(value).length;
+  return 0;
+}
+
+/**
+ * 追加一段 JSONPath
+ */
+function appendJsonPath(parent: string, key: PathSegment): string {
+  if (typeof key === 'number') return `${parent}[${key}]`;
+  if (IDENTIFIER_PATTERN.test(key)) return `${parent}.${key}`;
+  return `${parent}['${key.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}']`;
+}
+
+/**
+ * 生成 JSONPath，如 $.items[3]['first name']
+ */
+export function toJsonPath(path: PathSegment[]): string {
+  return path.reduce<string>(appendJsonPath, '$');
+}
+
+/**
+ * 生成 JS 访问表达式，如 data.items[3]["first name"]
+ */
+export function toJsAccessor(path: PathSegment[], root = 'data'): string {
+  return path.reduce<string>((expression, key) => {
+    if (typeof key === 'number') return `${expression}[${key}]`;
+    if (IDENTIFIER_PATTERN.test(key)) return `${expression}.${key}`;
+    return `${expression}[${JSON.stringify(key)}]`;
+  }, root);
+}
+
+/**
+ * 值的单行预览，过长时截断
+ */
+export function previewValue(value: unknown, maxLength = 200): string {
+  const text = JSON.stringify(value);
+  return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+}
+
+/**
+ * 在键名和基本类型的值中搜索（不区分大小写）
+ * 返回命中的节点及其祖先，用于过滤树
+ */
+export function searchTree(
+  data: unknown,
+  query: string,
+  limit: number = MAX_SEARCH_MATCHES
+): TreeSearchResult {
+  const needle = query.trim().toLowerCase();
+  const matches = new Set<string>();
+  const ancestors = new Set<string>();
+  if (!needle) return { matches, ancestors, truncated: false };
+
+  interface SearchNode {
+    id: string;
+    key: PathSegment | null;
+    value: unknown;
+    parent: SearchNode | null;
+  }
+
+  const stack: SearchNode[] = [{ id: '$', key: null, value: data, parent: null }];
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    const keyMatch = typeof node.key === 'string' && node.key.toLowerCase().includes(needle);
+    const valueMatch =
+      (node.value === null || typeof node.value !== 'object') &&
+      String(node.value).toLowerCase().includes(needle);
+
+    if (keyMatch || valueMatch) {
+      if (matches.size >= limit) return { matches, ancestors, truncated: true };
+      matches.add(node.id);
+      // 向上标记祖先，遇到已标记的祖先即可停止
+      for (let parent = node.parent; parent && !ancestors.has(parent.id); parent = parent.parent) {
+        ancestors.add(parent.id);
+      }
+    }
+
+    const children = childEntries(node.value);
+    for (let i = children.length - 1; i >= 0; i--) {
+      const [key, value] = children[i];
+      stack.push({ id: appendJsonPath(node.id, key), key, value, parent: node });
+    }
+  }
+  return { matches, ancestors, truncated: false };
+}
+
+/**
+ * 将 JSON 按展开状态展平为行列表
+ * 传入搜索结果时只保留命中节点及其祖先（根节点总是保留），祖先默认展开；
+ * 命中节点的子树不过滤，展开后可以看到完整内容
+ */
+export function flattenTree(
+  data: unknown,
+  expansion: TreeExpansion,
+  search: TreeSearchResult | null = null
+): TreeRow[] {
+  const filtering = search !== null;
+  const rows: TreeRow[] = [];
+
+  const stack: { path: PathSegment[]; id: string; value: unknown; inMatch: boolean }[] = [
+    { path: [], id: '$', value: data, inMatch: false },
+  ];
+  while (stack.length > 0) {
+    const { path, id, value, inMatch } = stack.pop()!;
+    const type = getValueType(value);
+    const childCount = countChildren(value);
+    const defaultExpanded = filtering ? search.ancestors.has(id) : path.length < expansion.depth;
+    const expanded = childCount > 0 && defaultExpanded !== expansion.toggled.has(id);
+
+    const match = filtering && search.matches.has(id);
+
+    rows.push({
+      id,
+      path,
+      key: path.length > 0 ? path[path.length - 1] : null,
+      value,
+      type,
+      depth: path.length,
+      childCount,
+      expanded,
+      match,
+    });
+
+    if (!expanded) continue;
+    const keepAll = !filtering || match || inMatch;
+    const children = childEntries(value);
+    for (let i = children.length - 1; i >= 0; i--) {
+      const [key, child] = children[i];
+      const childId = appendJsonPath(id, key);
+      if (!keepAll && !search?.matches.has(childId) && !search?.ancestors.has(childId)) continue;
+      stack.push({ path: [...path, key], id: childId, value: child, inMatch: keepAll && filtering });
+    }
+  }
+  return rows;
+}
@@ -0,0 +1,156 @@
+import type { IndentSize } from './utils';
+
+/**
+ * 处理模式：格式化、压缩，或对比两份 JSON
+ */
+export type Mode = 'format' | 'minify' | 'diff';
+
+/**
+ * 输出视图：格式化文本或可折叠的树
+ */
+export type OutputView = 'text' | 'tree';
+
+/**
+ * 可分享的工具状态
+ */
+export interface JSONFormatterState {
+  /** 输入内容 */
+  input: string;
+  /** 处理模式 */
+  mode: Mode;
+  /** 缩进空格数 */
+  indent: IndentSize;
+  /** 输出视图 */
+  view: OutputView;
+  /** 查询语言 */
+  queryLanguage: QueryLanguage;
+  /** 查询表达式 */
+  query: string;
+  /** 对比模式下的新 JSON */
+  compareInput: string;
+  /** 对比时数组元素的匹配键，为空时按下标匹配 */
+  arrayKey: string;
+}
+
+/**
+ * 复制节点路径的格式：JSONPath（$.items[3].id）或 JS 访问表达式（data.items[3].id）
+ */
+export type PathFormat = 'jsonpath' | 'js';
+
+/**
+ * 路径中的一段：对象键或数组下标
+ */
+export type PathSegment = string | number;
+
+/**
+ * JSON 值的类型
+ */
+export type JsonValueType = 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null';
+
+/**
+ * 树形视图中的一行（一个节点）
+ */
+export interface TreeRow {
+  /** 节点的 JSONPath，同时作为唯一标识 */
+  id: string;
+  path: PathSegment[];
+  /** 根节点为 null */
+  key: PathSegment | null;
+  value: unknown;
+  type: JsonValueType;
+  depth: number;
+  /** 对象的键数或数组长度，基本类型为 0 */
+  childCount: number;
+  expanded: boolean;
+  /** 是否命中搜索 */
+  match: boolean;
+}
+
+/**
+ * 节点的展开状态：深度小于 depth 的节点默认展开，toggled 中的节点与默认状态相反
+ */
+export interface TreeExpansion {
+  depth: number;
+  toggled: Set<string>;
+}
+
+/**
+ * 搜索结果
+ */
+export interface TreeSearchResult {
+  /** 命中的节点 */
+  matches: Set<string>;
+  /** 命中节点的所有祖先，过滤时自动展开 */
+  ancestors: Set<string>;
+  /** 命中数超过上限，结果不完整 */
+  truncated: boolean;
+}
+
+/**
+ * 查询语言
+ */
+export type QueryLanguage = 'jsonpath' | 'jmespath' | 'jq';
+
+/**
+ * 查询结果
+ */
+export interface QueryResult {
+  success: boolean;
+  /** 格式化后的结果文本 */
+  output: string;
+  /** 命中的值或输出的个数 */
+  count: number;
+  error?: {
+    message: string;
+    /** 语法错误在表达式中的位置 */
+    position?: number;
+  };
+}
+
+/**
+ * 保存在本地的查询
+ */
+export interface SavedQuery {
+  id: string;
+  name: string;
+  language: QueryLanguage;
+  expression: string;
+  createdAt: number;
+}
+
+/**
+ * 差异类型
+ */
+export type DiffKind = 'added' | 'removed' | 'changed';
+
+/**
+ * 一处差异
+ * 新增和修改的路径指向新文档，删除的路径指向原文档
+ */
+export interface DiffEntry {
+  kind: DiffKind;
+  path: PathSegment[];
+  oldValue?: unknown;
+  newValue?: unknown;
+}
+
+/**
+ * RFC 6902 JSON Patch 操作
+ */
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move';
+  /** JSON Pointer（RFC 6901） */
+  path: string;
+  /** move 的来源位置 */
+  from?: string;
+  value?: unknown;
+}
+
+/**
+ * 对比结果
+ */
+export interface DiffResult {
+  entries: DiffEntry[];
+  /** 依次应用后可将原文档变为新文档 */
+  patch: JsonPatchOperation[];
+}
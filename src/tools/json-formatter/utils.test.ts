@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { formatJSON, highlightError, minifyJSON, parseJSON, preprocessInput } from './utils';
+
+describe('preprocessInput', () => {
+  it('原样保留合法 JSON', () => {
+    expect(preprocessInput('{"a":1}')).toBe('{"a":1}');
+  });
+
+  it('去除 markdown 代码块标记', () => {
+    expect(preprocessInput('```json\n{"a":1}\n```')).toBe('{"a":1}');
+    expect(preprocessInput('```\n[1,2]\n```')).toBe('[1,2]');
+  });
+
+  it('去除 JSON 前后的说明文字', () => {
+    expect(preprocessInput('结果如下：\n{"a":1}\n希望对你有帮助')).toBe('{"a":1}');
+  });
+
+  it('将字面量转义序列还原为真实字符', () => {
+    expect(preprocessInput('{\\n  \\"a\\": 1\\n}')).toBe('{\n  "a": 1\n}');
+  });
+
+  it('统一换行符', () => {
+    expect(preprocessInput('{\r\n"a":1\r}')).toBe('{\n"a":1\n}');
+  });
+
+  it('空输入原样返回', () => {
+    expect(preprocessInput('')).toBe('');
+  });
+});
+
+describe('parseJSON', () => {
+  it('解析对象和数组', () => {
+    expect(parseJSON('{"a":[1,true,null]}')).toEqual({ success: true, data: { a: [1, true, null] } });
+  });
+
+  it('解析包裹在代码块中的 JSON', () => {
+    expect(parseJSON('```json\n{"ok":true}\n```').data).toEqual({ ok: true });
+  });
+
+  it('空输入报错', () => {
+    expect(parseJSON('   ')).toEqual({ success: false, error: { message: '请输入 JSON 内容' } });
+  });
+
+  it('语法错误时给出行列位置', () => {
+    const result = parseJSON('{\n  "a": 1,\n}');
+    expect(result.success).toBe(false);
+    expect(result.error).toMatchObject({ line: 3, column: 1, position: 12 });
+  });
+});
+
+describe('formatJSON / minifyJSON', () => {
+  it('按缩进格式化', () => {
+    expect(formatJSON('{"a":[1]}').output).toBe('{\n  "a": [\n    1\n  ]\n}');
+    expect(formatJSON('{"a":1}', 4).output).toBe('{\n    "a": 1\n}');
+  });
+
+  it('压缩空白', () => {
+    expect(minifyJSON('{\n  "a": [1, 2]\n}').output).toBe('{"a":[1,2]}');
+  });
+
+  it('解析失败时透传错误', () => {
+    const result = minifyJSON('{"a":}');
+    expect(result.success).toBe(false);
+    expect(result.output).toBe('');
+    expect(result.error?.message).toBeTruthy();
+  });
+});
+
+describe('highlightError', () => {
+  it('按位置拆分', () => {
+    expect(highlightError('{"a":}', 5)).toEqual({ before: '{"a":', error: '}', after: '' });
+  });
+
+  it('位置超出末尾时使用占位符', () => {
+    expect(highlightError('{', 1).error).toBe('⟵');
+  });
+
+  it('按行拆分', () => {
+    expect(highlightError('a\nb\nc', undefined, 2)).toEqual({ before: 'a\n', error: 'b', after: '\nc' });
+  });
+});
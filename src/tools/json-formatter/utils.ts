@@ -147,6 +147,13 @@ function positionToLineColumn(
   return { line, column };
 }
 
+/**
+ * 将已解析的数据渲染为格式化的 JSON 文本
+ */
+export function renderJSON(data: unknown, indent: IndentSize = 2): string {
+  return JSON.stringify(data, null, indent);
+}
+
 /**
  * 格式化 JSON
  */
@@ -162,7 +169,7 @@ export function formatJSON(input: string, indent: IndentSize = 2): FormatResult
   }
 
   try {
-    const formatted = JSON.stringify(parseResult.data, null, indent);
+    const formatted = renderJSON(parseResult.data, indent);
     return { success: true, output: formatted };
   } catch {
     return {
@@ -0,0 +1,23 @@
+import { lazy } from 'react';
+import type { ToolConfig } from '@/tools/types';
+import { KeySquare } from 'lucide-react';
+
+export const toolConfig: ToolConfig = {
+  id: 'jwt-tool',
+  name: 'JWT 调试',
+  description: '解码 JWT 并查看有效期，验证 HS256 / RS256 / ES256 / EdDSA 签名，签发新令牌',
+  locales: {
+    'en-US': {
+      name: 'JWT Debugger',
+      description: 'Decode JWTs, check expiry, verify HS256 / RS256 / ES256 / EdDSA signatures and sign new tokens',
+    },
+  },
+  category: 'crypto',
+  icon: KeySquare,
+  tags: ['JWT', 'JWS', 'token', '令牌', '解码', '验签', '签名', 'JWKS', 'Bearer', 'HS256', 'RS256'],
+  component: lazy(() =>
+    import('./index').then((m) => ({ default: m.JwtTool }))
+  ),
+  requiresBackend: false,
+  version: '1.0.0',
+};
@@ -0,0 +1,597 @@
+import { useState, useEffect, useMemo } from 'react';
+import {
+  Copy,
+  Check,
+  Trash2,
+  Info,
+  ShieldCheck,
+  ShieldX,
+  ScanSearch,
+  Stamp,
+  Clock3,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+import {
+  JWT_ALGORITHMS,
+  decodeJwt,
+  getClaimTimes,
+  getJwtStatus,
+  isHmacAlgorithm,
+  signJwt,
+  verifyJwt,
+} from './utils';
+import type {
+  DecodedJwt,
+  JwtAlgorithm,
+  JwtStatus,
+  JwtVerifyResult,
+  SecretEncoding,
+  TimeClaim,
+} from './types';
+
+/**
+ * 时间声明的说明
+ */
+const claimLabels: Record<TimeClaim, string> = {
+  iat: '签发时间',
+  nbf: '生效时间',
+  exp: '过期时间',
+};
+
+/**
+ * 有效期状态的显示
+ */
+const statusStyles: Record<JwtStatus, { label: string; className: string }> = {
+  valid: { label: '在有效期内', className: 'bg-green-500/10 text-green-600' },
+  expired: { label: '已过期', className: 'bg-destructive/10 text-destructive' },
+  notYetValid: { label: '尚未生效', className: 'bg-amber-500/10 text-amber-600' },
+};
+
+const secretEncodingOptions: { value: SecretEncoding; label: string }[] = [
+  { value: 'text', label: '文本' },
+  { value: 'base64', label: 'Base64' },
+];
+
+/**
+ * 验签时期望的算法，空值表示以令牌头部为准
+ */
+const expectedAlgOptions: { value: JwtAlgorithm | ''; label: string }[] = [
+  { value: '', label: '按头部' },
+  ...JWT_ALGORITHMS.map((alg) => ({ value: alg, label: alg })),
+];
+
+/**
+ * 自定义滚动条样式类
+ */
+const scrollbarStyles = cn(
+  '[&::-webkit-scrollbar]:w-1.5',
+  '[&::-webkit-scrollbar-track]:bg-transparent',
+  '[&::-webkit-scrollbar-thumb]:rounded-full',
+  '[&::-webkit-scrollbar-thumb]:bg-border',
+  'hover:[&::-webkit-scrollbar-thumb]:bg-muted-foreground/50'
+);
+
+const textareaStyles = cn(
+  'w-full resize-none rounded-md border bg-background p-2.5 font-mono text-sm',
+  'focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2'
+);
+
+/**
+ * 生成签发模式的默认载荷，有效期一小时
+ */
+function createDefaultPayload(): string {
+  const now = Math.floor(Date.now() / 1000);
+  return JSON.stringify({ sub: '1234567890', name: 'John Doe', iat: now, exp: now + 3600 }, null, 2);
+}
+
+/**
+ * 分段选择器
+ */
+function Segmented<T extends string>({
+  options,
+  value,
+  onChange,
+}: {
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="flex flex-wrap rounded-md border bg-muted p-0.5">
+      {options.map((option) => (
+        <button
+          key={option.value}
+          onClick={() => onChange(option.value)}
+          className={cn(
+            'rounded px-2 py-1 text-xs font-medium transition-colors',
+            value === option.value
+              ? 'bg-background text-foreground shadow-sm'
+              : 'text-muted-foreground hover:text-foreground'
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * 带复制按钮的代码块
+ */
+function CodeBlock({ title, content }: { title: string; content: string }) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async (): Promise<void> => {
+    try {
+      await navigator.clipboard.writeText(content);
+      setCopied(true);
+      toast.success('已复制到剪贴板');
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      toast.error('复制失败');
+    }
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center justify-between">
+        <Label className="text-xs">{title}</Label>
+        <Button variant="ghost" size="sm" onClick={handleCopy} className="h-6 px-1.5 text-xs">
+          {copied ? (
+            <Check className="mr-0.5 h-3 w-3 text-green-500" />
+          ) : (
+            <Copy className="mr-0.5 h-3 w-3" />
+          )}
+          {copied ? '已复制' : '复制'}
+        </Button>
+      </div>
+      <pre
+        className={cn(
+          'max-h-72 overflow-auto rounded-md border bg-muted/50 p-2.5 font-mono text-sm',
+          scrollbarStyles
+        )}
+      >
+        {content}
+      </pre>
+    </div>
+  );
+}
+
+/**
+ * JWT 工具主组件
+ * 令牌和密钥属于敏感信息，不参与分享和历史记录
+ */
+export const JwtTool = () => {
+  const [mode, setMode] = useState<'decode' | 'sign'>('decode');
+
+  // 解码 / 验签
+  const [token, setToken] = useState('');
+  const [verifyKey, setVerifyKey] = useState('');
+  const [verifyEncoding, setVerifyEncoding] = useState<SecretEncoding>('text');
+  const [verifyAlg, setVerifyAlg] = useState<JwtAlgorithm | ''>('');
+  const [verifyResult, setVerifyResult] = useState<JwtVerifyResult | null>(null);
+  const [now, setNow] = useState(() => Date.now() / 1000);
+
+  // 签发
+  const [signAlg, setSignAlg] = useState<JwtAlgorithm>('HS256');
+  const [signHeader, setSignHeader] = useState('');
+  const [signPayload, setSignPayload] = useState(createDefaultPayload);
+  const [signKey, setSignKey] = useState('');
+  const [signEncoding, setSignEncoding] = useState<SecretEncoding>('text');
+  const [signedToken, setSignedToken] = useState('');
+  const [signError, setSignError] = useState<string | null>(null);
+  const [isSigning, setIsSigning] = useState(false);
+
+  const decoded = useMemo((): { value: DecodedJwt | null; error: string | null } => {
+    if (!token.trim()) return { value: null, error: null };
+    try {
+      return { value: decodeJwt(token), error: null };
+    } catch (err) {
+      return { value: null, error: err instanceof Error ? err.message : '解码失败' };
+    }
+  }, [token]);
+
+  const tokenAlg = decoded.value?.header.alg;
+  const isHmacToken =
+    typeof tokenAlg === 'string' &&
+    JWT_ALGORITHMS.includes(tokenAlg as JwtAlgorithm) &&
+    isHmacAlgorithm(tokenAlg as JwtAlgorithm);
+
+  // 定时刷新当前时间，使有效期状态和相对时间保持准确
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now() / 1000), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // 令牌或密钥变化时自动验签
+  useEffect(() => {
+    if (!decoded.value || !verifyKey.trim()) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const result = await verifyJwt(token, verifyKey, verifyEncoding, verifyAlg || undefined);
+      if (!cancelled) setVerifyResult(result);
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [decoded.value, token, verifyKey, verifyEncoding, verifyAlg]);
+
+  // 令牌无效或未填密钥时不显示上一次的验签结果
+  const shownVerifyResult = decoded.value && verifyKey.trim() ? verifyResult : null;
+
+  // 相对时间随 now 的定时刷新重新计算
+  const claimTimes = decoded.value ? getClaimTimes(decoded.value.payload) : [];
+  const status = decoded.value ? getJwtStatus(decoded.value.payload, now) : null;
+
+  // 签发
+  const handleSign = async (): Promise<void> => {
+    setIsSigning(true);
+    const result = await signJwt(signHeader, signPayload, signAlg, signKey, signEncoding);
+    setIsSigning(false);
+    if (result.success) {
+      setSignedToken(result.token);
+      setSignError(null);
+    } else {
+      setSignedToken('');
+      setSignError(result.error || '签名失败');
+    }
+  };
+
+  // 将当前令牌的载荷载入签发模式
+  const handleLoadPayload = (): void => {
+    if (!decoded.value) return;
+    const { alg, ...header } = decoded.value.header;
+    delete header.typ;
+    setSignPayload(decoded.value.payloadJson);
+    setSignHeader(Object.keys(header).length > 0 ? JSON.stringify(header, null, 2) : '');
+    if (typeof alg === 'string' && JWT_ALGORITHMS.includes(alg as JwtAlgorithm)) {
+      setSignAlg(alg as JwtAlgorithm);
+    }
+    setMode('sign');
+  };
+
+  // 在解码模式中查看签发的令牌
+  const handleOpenSigned = (): void => {
+    setToken(signedToken);
+    setMode('decode');
+  };
+
+  const handleCopyToken = async (): Promise<void> => {
+    try {
+      await navigator.clipboard.writeText(signedToken);
+      toast.success('已复制到剪贴板');
+    } catch {
+      toast.error('复制失败');
+    }
+  };
+
+  const handleClear = (): void => {
+    if (mode === 'decode') {
+      setToken('');
+      setVerifyKey('');
+      setVerifyResult(null);
+    } else {
+      setSignHeader('');
+      setSignPayload(createDefaultPayload());
+      setSignKey('');
+      setSignedToken('');
+      setSignError(null);
+    }
+  };
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* 头部 - 固定 */}
+      <div className="flex shrink-0 items-start justify-between gap-3 border-b p-4">
+        <div>
+          <h1 className="text-xl font-semibold">JWT 调试</h1>
+          <p className="mt-1 text-sm text-muted-foreground">
+            解码、验签和签发 JSON Web Token
+          </p>
+        </div>
+        <div className="flex shrink-0 items-center gap-2">
+          <div className="flex rounded-md border bg-muted p-0.5">
+            {(
+              [
+                { value: 'decode', label: '解码 / 验签', icon: ScanSearch },
+                { value: 'sign', label: '签发', icon: Stamp },
+              ] as const
+            ).map(({ value, label, icon: Icon }) => (
+              <button
+                key={value}
+                onClick={() => setMode(value)}
+                className={cn(
+                  'flex items-center gap-1 rounded px-2.5 py-1 text-xs font-medium transition-colors',
+                  mode === value
+                    ? 'bg-background text-foreground shadow-sm'
+                    : 'text-muted-foreground hover:text-foreground'
+                )}
+              >
+                <Icon className="h-3.5 w-3.5" />
+                {label}
+              </button>
+            ))}
+          </div>
+          <Button variant="outline" size="sm" onClick={handleClear} className="h-7 text-xs">
+            <Trash2 className="mr-1 h-3.5 w-3.5" />
+            清空
+          </Button>
+        </div>
+      </div>
+
+      <div className={cn('min-h-0 flex-1 overflow-y-auto p-4', scrollbarStyles)}>
+        {mode === 'decode' ? (
+          <div className="grid gap-4 md:grid-cols-2">
+            {/* 左侧：令牌与验签密钥 */}
+            <div className="space-y-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="jwt-token" className="text-xs">
+                  JWT
+                </Label>
+                <textarea
+                  id="jwt-token"
+                  value={token}
+                  onChange={(e) => setToken(e.target.value)}
+                  placeholder="粘贴 JWT，可带 Bearer 前缀..."
+                  className={cn(
+                    textareaStyles,
+                    'h-40 break-all',
+                    decoded.error && 'border-destructive focus:ring-destructive'
+                  )}
+                  spellCheck={false}
+                />
+              </div>
+
+              {decoded.error && (
+                <div className="flex items-start gap-2 rounded-md bg-destructive/10 p-2.5 text-destructive">
+                  <Info className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                  <p className="text-xs">{decoded.error}</p>
+                </div>
+              )}
+
+              <div className="space-y-1.5">
+                <Label className="text-xs">期望算法</Label>
+                <Segmented options={expectedAlgOptions} value={verifyAlg} onChange={setVerifyAlg} />
+              </div>
+
+              <div className="space-y-1.5">
+                <div className="flex items-center justify-between gap-2">
+                  <Label htmlFor="jwt-verify-key" className="text-xs">
+                    验签密钥
+                  </Label>
+                  {isHmacToken && (
+                    <Segmented
+                      options={secretEncodingOptions}
+                      value={verifyEncoding}
+                      onChange={setVerifyEncoding}
+                    />
+                  )}
+                </div>
+                <textarea
+                  id="jwt-verify-key"
+                  value={verifyKey}
+                  onChange={(e) => setVerifyKey(e.target.value)}
+                  placeholder={
+                    isHmacToken
+                      ? '输入 HMAC 密钥...'
+                      : '粘贴 PEM 公钥、JWK 或 JWKS（按 kid 匹配）...'
+                  }
+                  className={cn(textareaStyles, 'h-28')}
+                  spellCheck={false}
+                />
+              </div>
+
+              {/* 验签结果 */}
+              {shownVerifyResult && (
+                <div
+                  className={cn(
+                    'flex items-center gap-2 rounded-md p-2.5',
+                    shownVerifyResult.valid
+                      ? 'bg-green-500/10 text-green-600'
+                      : 'bg-destructive/10 text-destructive'
+                  )}
+                >
+                  {shownVerifyResult.valid ? (
+                    <ShieldCheck className="h-3.5 w-3.5 shrink-0" />
+                  ) : (
+                    <ShieldX className="h-3.5 w-3.5 shrink-0" />
+                  )}
+                  <p className="text-xs">
+                    {shownVerifyResult.valid ? '签名有效' : (shownVerifyResult.error ?? '签名无效')}
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {/* 右侧：解码结果 */}
+            <div className="space-y-3">
+              {decoded.value ? (
+                <>
+                  <div className="flex flex-wrap items-center gap-1.5">
+                    <span className="rounded-full bg-blue-500/10 px-1.5 py-0.5 text-xs text-blue-600">
+                      {String(tokenAlg ?? '无 alg')}
+                    </span>
+                    {status && (
+                      <span
+                        className={cn(
+                          'rounded-full px-1.5 py-0.5 text-xs',
+                          statusStyles[status].className
+                        )}
+                      >
+                        {statusStyles[status].label}
+                      </span>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleLoadPayload}
+                      className="ml-auto h-6 gap-1 px-1.5 text-xs"
+                    >
+                      <Stamp className="h-3 w-3" />
+                      编辑后重新签发
+                    </Button>
+                  </div>
+
+                  <CodeBlock title="头部" content={decoded.value.headerJson} />
+                  <CodeBlock title="载荷" content={decoded.value.payloadJson} />
+
+                  {/* 时间声明 */}
+                  {claimTimes.length > 0 && (
+                    <div className="space-y-1 rounded-md border bg-muted/30 p-2.5">
+                      {claimTimes.map((time) => (
+                        <div key={time.claim} className="flex items-center gap-2 text-xs">
+                          <Clock3 className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                          <span className="w-8 font-mono font-medium">{time.claim}</span>
+                          <span className="text-muted-foreground">{claimLabels[time.claim]}</span>
+                          <span className="font-mono">{time.date}</span>
+                          <span className="text-muted-foreground">（{time.relative}）</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <CodeBlock title="签名（Base64URL）" content={decoded.value.signature || '（空）'} />
+                </>
+              ) : (
+                <div className="flex h-40 items-center justify-center rounded-md border border-dashed text-xs text-muted-foreground">
+                  解码结果将显示在这里
+                </div>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            {/* 左侧：头部、载荷与密钥 */}
+            <div className="space-y-3">
+              <div className="space-y-1.5">
+                <Label className="text-xs">算法</Label>
+                <Segmented
+                  options={JWT_ALGORITHMS.map((alg) => ({ value: alg, label: alg }))}
+                  value={signAlg}
+                  onChange={setSignAlg}
+                />
+              </div>
+
+              <div className="space-y-1.5">
+                <Label htmlFor="jwt-sign-header" className="text-xs">
+                  附加头部（可选）
+                </Label>
+                <textarea
+                  id="jwt-sign-header"
+                  value={signHeader}
+                  onChange={(e) => setSignHeader(e.target.value)}
+                  placeholder='{"kid": "key-1"}，alg 和 typ 会自动填写'
+                  className={cn(textareaStyles, 'h-16')}
+                  spellCheck={false}
+                />
+              </div>
+
+              <div className="space-y-1.5">
+                <Label htmlFor="jwt-sign-payload" className="text-xs">
+                  载荷
+                </Label>
+                <textarea
+                  id="jwt-sign-payload"
+                  value={signPayload}
+                  onChange={(e) => setSignPayload(e.target.value)}
+                  className={cn(textareaStyles, 'h-48')}
+                  spellCheck={false}
+                />
+              </div>
+
+              <div className="space-y-1.5">
+                <div className="flex items-center justify-between gap-2">
+                  <Label htmlFor="jwt-sign-key" className="text-xs">
+                    {isHmacAlgorithm(signAlg) ? '密钥' : '私钥'}
+                  </Label>
+                  {isHmacAlgorithm(signAlg) && (
+                    <Segmented
+                      options={secretEncodingOptions}
+                      value={signEncoding}
+                      onChange={setSignEncoding}
+                    />
+                  )}
+                </div>
+                <textarea
+                  id="jwt-sign-key"
+                  value={signKey}
+                  onChange={(e) => setSignKey(e.target.value)}
+                  placeholder={
+                    isHmacAlgorithm(signAlg)
+                      ? '输入 HMAC 密钥...'
+                      : '粘贴 PEM（PKCS#8）或 JWK 私钥，可在加密解密工具中生成...'
+                  }
+                  className={cn(textareaStyles, 'h-28')}
+                  spellCheck={false}
+                />
+              </div>
+
+              <Button onClick={handleSign} disabled={isSigning} className="w-full">
+                {isSigning ? '签发中...' : '签发'}
+              </Button>
+            </div>
+
+            {/* 右侧：签发结果 */}
+            <div className="space-y-3">
+              {signError && (
+                <div className="flex items-start gap-2 rounded-md bg-destructive/10 p-2.5 text-destructive">
+                  <Info className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                  <p className="text-xs">{signError}</p>
+                </div>
+              )}
+              {signedToken ? (
+                <div className="space-y-1.5">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-xs">令牌</Label>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={handleOpenSigned}
+                        className="h-6 gap-1 px-1.5 text-xs"
+                      >
+                        <ScanSearch className="h-3 w-3" />
+                        解码查看
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={handleCopyToken}
+                        className="h-6 gap-1 px-1.5 text-xs"
+                      >
+                        <Copy className="h-3 w-3" />
+                        复制
+                      </Button>
+                    </div>
+                  </div>
+                  <pre className="whitespace-pre-wrap break-all rounded-md border bg-muted/50 p-2.5 font-mono text-sm">
+                    {signedToken}
+                  </pre>
+                </div>
+              ) : (
+                !signError && (
+                  <div className="flex h-40 items-center justify-center rounded-md border border-dashed text-xs text-muted-foreground">
+                    签发的令牌将显示在这里
+                  </div>
+                )
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* 底部提示 - 固定 */}
+      <div className="shrink-0 border-t px-4 py-2">
+        <p className="text-xs text-muted-foreground">
+          所有处理均在本地完成，令牌和密钥不会上传到服务器，也不会写入历史记录。
+        </p>
+      </div>
+    </div>
+  );
+};
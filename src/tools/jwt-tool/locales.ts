@@ -0,0 +1,49 @@
+import { defineMessages } from '@/lib/i18n';
+
+/**
+ * JWT 工具的消息目录
+ */
+export const t = defineMessages(
+  {
+    'error.tokenRequired': '请输入 JWT',
+    'error.invalidFormat': 'JWT 应由以点分隔的三段 Base64URL 组成',
+    'error.invalidHeader': '头部不是有效的 Base64URL 编码 JSON 对象',
+    'error.invalidPayload': '载荷不是有效的 Base64URL 编码 JSON 对象',
+    'error.invalidSignature': '签名不是有效的 Base64URL',
+    'error.unsupportedAlgorithm': '不支持的签名算法：{alg}',
+    'error.secretRequired': '请输入 HMAC 密钥',
+    'error.invalidSecret': '密钥不是有效的 Base64',
+    'error.keyRequired': '请输入 PEM 密钥、JWK 或 JWKS',
+    'error.invalidJwks': 'JWKS 格式无效',
+    'error.jwkNotFound': 'JWKS 中没有与令牌匹配的密钥',
+    'error.algorithmMismatch': '令牌算法 {alg} 与期望的 {expected} 不符',
+    'error.hmacWithPublicKey': '{alg} 需要 HMAC 密钥，不能使用 PEM、JWK 或 JWKS',
+    'error.keyAlgorithmMismatch': 'JWK 的 kty 或 alg 与令牌算法 {alg} 不符',
+    'error.invalidHeaderJson': '头部 JSON 无效：{message}',
+    'error.invalidPayloadJson': '载荷 JSON 无效：{message}',
+    'error.notObject': 'JSON 必须是对象',
+    'error.verifyFailed': '签名校验失败',
+    'error.signFailed': '签名失败',
+  },
+  {
+    'error.tokenRequired': 'Please enter a JWT',
+    'error.invalidFormat': 'A JWT must consist of three dot-separated Base64URL segments',
+    'error.invalidHeader': 'The header is not a Base64URL-encoded JSON object',
+    'error.invalidPayload': 'The payload is not a Base64URL-encoded JSON object',
+    'error.invalidSignature': 'The signature is not valid Base64URL',
+    'error.unsupportedAlgorithm': 'Unsupported signing algorithm: {alg}',
+    'error.secretRequired': 'Please enter the HMAC secret',
+    'error.invalidSecret': 'The secret is not valid Base64',
+    'error.keyRequired': 'Please enter a PEM key, JWK or JWKS',
+    'error.invalidJwks': 'Invalid JWKS',
+    'error.jwkNotFound': 'No key in the JWKS matches the token',
+    'error.algorithmMismatch': 'The token algorithm {alg} does not match the expected {expected}',
+    'error.hmacWithPublicKey': '{alg} requires an HMAC secret, not a PEM key, JWK or JWKS',
+    'error.keyAlgorithmMismatch': 'The JWK kty or alg does not match the token algorithm {alg}',
+    'error.invalidHeaderJson': 'Invalid header JSON: {message}',
+    'error.invalidPayloadJson': 'Invalid payload JSON: {message}',
+    'error.notObject': 'The JSON must be an object',
+    'error.verifyFailed': 'Signature verification failed',
+    'error.signFailed': 'Signing failed',
+  }
+);
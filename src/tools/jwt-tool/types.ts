@@ -0,0 +1,71 @@
+/**
+ * JWT 工具类型定义
+ */
+
+/**
+ * 支持的签名算法
+ */
+export type JwtAlgorithm = 'HS256' | 'HS384' | 'HS512' | 'RS256' | 'ES256' | 'EdDSA';
+
+/**
+ * 解码后的 JWT
+ */
+export interface DecodedJwt {
+  header: Record<string, unknown>;
+  payload: Record<string, unknown>;
+  /** 格式化后的头部 JSON */
+  headerJson: string;
+  /** 格式化后的载荷 JSON */
+  payloadJson: string;
+  /** Base64URL 编码的签名 */
+  signature: string;
+  /** 参与签名的部分（header.payload） */
+  signingInput: string;
+}
+
+/**
+ * 时间类声明
+ */
+export type TimeClaim = 'exp' | 'iat' | 'nbf';
+
+/**
+ * 时间类声明的注释
+ */
+export interface ClaimTime {
+  claim: TimeClaim;
+  /** 秒级时间戳 */
+  timestamp: number;
+  /** 格式化后的日期时间 */
+  date: string;
+  /** 相对当前时间的描述 */
+  relative: string;
+}
+
+/**
+ * 令牌有效期状态：有效 / 已过期 / 尚未生效
+ */
+export type JwtStatus = 'valid' | 'expired' | 'notYetValid';
+
+/**
+ * 签名校验结果
+ */
+export interface JwtVerifyResult {
+  success: boolean;
+  /** 签名是否有效 */
+  valid: boolean;
+  error?: string;
+}
+
+/**
+ * 签名结果
+ */
+export interface JwtSignResult {
+  success: boolean;
+  token: string;
+  error?: string;
+}
+
+/**
+ * HMAC 密钥的编码：文本（UTF-8）或 Base64 / Base64URL
+ */
+export type SecretEncoding = 'text' | 'base64';
@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'vitest';
+import { generateKeyPair } from '@/tools/crypto-tool/asymmetric';
+import { base64UrlEncode } from '@/tools/crypto-tool/encodings';
+import {
+  decodeJwt,
+  getClaimTimes,
+  getJwtStatus,
+  signJwt,
+  verifyJwt,
+} from './utils';
+
+/** jwt.io 的示例令牌，密钥为 your-256-bit-secret */
+const HS256_TOKEN =
+  'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.' +
+  'eyJzdWIiOiIxMjM0NTY3ODkwIiwibmFtZSI6IkpvaG4gRG9lIiwiaWF0IjoxNTE2MjM5MDIyfQ.' +
+  'SflKxwRJSMeKKF2QT4fwpMeJf36POk6yJV_adQssw5c';
+
+/**
+ * 由 OpenSSL 3.0 签名：
+ * printf '<header>.<payload>' | openssl dgst -sha256 -sign rs.pem | base64url
+ */
+const RS256_TOKEN =
+  'eyJhbGciOiJSUzI1NiIsInR5cCI6IkpXVCJ9.eyJzdWIiOiI0MiIsImV4cCI6MTcwMDAwMDAwMH0.' +
+  'lXeh-KrrxWoCU5GozSZSZRDFO4kJ5AawO5Zqf2MR3i0yXuPOZNw9RorIwGfkpfsN-4zzJIVrb-RntjNvcmml' +
+  'je1mz36saQccTB5uAqzMi6p1mvfWvQi35PJZCkcrvjF-tgkun48r5zMsfrMLcU9dXw2jQzOXOygHkMkZmzaP4NE';
+
+const RS256_PUBLIC_KEY = [
+  '-----BEGIN PUBLIC KEY-----',
+  'MIGfMA0GCSqGSIb3DQEBAQUAA4GNADCBiQKBgQCz96UwxDDs8SF4y/v0I/j/nvKB',
+  'CCR7b9KpK3OY7/bzFQDbQ3jjLJ8heAMT+hef5KWPLEItj39nz5CE0H44sMSUxsCu',
+  'ZB5VJ1V7msT3xFUvrLI1X0FWNa5aEHOrc2e2WLASnOU4lgPfpsjHAxIpmKbKTDZ5',
+  'NZEJeYRb5UjazlgvCwIDAQAB',
+  '-----END PUBLIC KEY-----',
+].join('\n');
+
+describe('decodeJwt', () => {
+  it('解码头部和载荷', () => {
+    const decoded = decodeJwt(`Bearer ${HS256_TOKEN}`);
+    expect(decoded.header).toEqual({ alg: 'HS256', typ: 'JWT' });
+    expect(decoded.payload).toEqual({ sub: '1234567890', name: 'John Doe', iat: 1516239022 });
+    expect(decoded.headerJson).toBe('{\n  "alg": "HS256",\n  "typ": "JWT"\n}');
+    expect(decoded.signature).toBe('SflKxwRJSMeKKF2QT4fwpMeJf36POk6yJV_adQssw5c');
+  });
+
+  it('格式错误时抛出错误', () => {
+    expect(() => decodeJwt('')).toThrow('请输入 JWT');
+    expect(() => decodeJwt('a.b')).toThrow('三段 Base64URL');
+    expect(() => decodeJwt('e30.!!!.x')).toThrow('载荷不是有效的');
+    expect(() => decodeJwt(`${base64UrlEncode(new TextEncoder().encode('[1]'))}.e30.x`)).toThrow(
+      '头部不是有效的'
+    );
+  });
+});
+
+describe('时间声明', () => {
+  it('提取 iat / nbf / exp', () => {
+    const times = getClaimTimes({ exp: 1700000000, iat: 1516239022, nbf: 'x' });
+    expect(times.map((time) => time.claim)).toEqual(['iat', 'exp']);
+    expect(times[1].date).toContain('2023');
+    expect(times[1].relative).toMatch(/前/);
+  });
+
+  it('判断有效期', () => {
+    expect(getJwtStatus({ exp: 100 }, 100)).toBe('expired');
+    expect(getJwtStatus({ nbf: 200, exp: 300 }, 100)).toBe('notYetValid');
+    expect(getJwtStatus({ nbf: 50, exp: 300 }, 100)).toBe('valid');
+    expect(getJwtStatus({}, 100)).toBe('valid');
+  });
+});
+
+describe('verifyJwt', () => {
+  it('HS256 示例令牌', async () => {
+    expect(await verifyJwt(HS256_TOKEN, 'your-256-bit-secret')).toEqual({
+      success: true,
+      valid: true,
+    });
+    expect((await verifyJwt(HS256_TOKEN, 'wrong')).valid).toBe(false);
+  });
+
+  it('Base64 编码的 HMAC 密钥', async () => {
+    const secret = btoa('your-256-bit-secret');
+    expect((await verifyJwt(HS256_TOKEN, secret, 'base64')).valid).toBe(true);
+  });
+
+  it('OpenSSL 签发的 RS256 令牌', async () => {
+    expect(await verifyJwt(RS256_TOKEN, RS256_PUBLIC_KEY)).toEqual({ success: true, valid: true });
+  });
+
+  it('不支持的算法', async () => {
+    const token = `${base64UrlEncode(new TextEncoder().encode('{"alg":"none"}'))}.e30.`;
+    expect(await verifyJwt(token, 'x')).toMatchObject({
+      success: false,
+      error: '不支持的签名算法：none',
+    });
+  });
+
+  it.each(['constructor', 'toString'])('原型上的名称 %s 不是算法', async (alg) => {
+    const token = `${base64UrlEncode(new TextEncoder().encode(`{"alg":"${alg}"}`))}.e30.`;
+    expect((await verifyJwt(token, 'x')).error).toBe(`不支持的签名算法：${alg}`);
+  });
+
+  it('拒绝用公钥作为 HMAC 密钥伪造的令牌', async () => {
+    // 算法混淆攻击：把公开的 PEM / JWKS 文本当作 HS256 密钥签名
+    const { publicKey } = await generateKeyPair('ecdsa-p256', 'jwk');
+    const jwks = JSON.stringify({ keys: [JSON.parse(publicKey)] });
+    for (const key of [RS256_PUBLIC_KEY, jwks, publicKey]) {
+      const forged = await signJwt('', '{"sub":"admin"}', 'HS256', key);
+      expect(forged.success).toBe(true);
+      expect(await verifyJwt(forged.token, key)).toEqual({
+        success: false,
+        valid: false,
+        error: 'HS256 需要 HMAC 密钥，不能使用 PEM、JWK 或 JWKS',
+      });
+    }
+  });
+
+  it('指定期望的算法', async () => {
+    expect(await verifyJwt(RS256_TOKEN, RS256_PUBLIC_KEY, 'text', 'RS256')).toEqual({
+      success: true,
+      valid: true,
+    });
+    expect((await verifyJwt(HS256_TOKEN, 'your-256-bit-secret', 'text', 'RS256')).error).toBe(
+      '令牌算法 HS256 与期望的 RS256 不符'
+    );
+  });
+
+  it('单个 JWK 的 kty / alg 须与令牌算法一致', async () => {
+    const { publicKey, privateKey } = await generateKeyPair('ecdsa-p256', 'jwk');
+    const signed = await signJwt('', '{"sub":"42"}', 'ES256', privateKey);
+    expect((await verifyJwt(signed.token, publicKey)).valid).toBe(true);
+
+    const wrongAlg = JSON.stringify({ ...JSON.parse(publicKey), alg: 'ES384' });
+    expect((await verifyJwt(signed.token, wrongAlg)).error).toBe(
+      'JWK 的 kty 或 alg 与令牌算法 ES256 不符'
+    );
+    expect((await verifyJwt(RS256_TOKEN, publicKey)).error).toBe(
+      'JWK 的 kty 或 alg 与令牌算法 RS256 不符'
+    );
+  });
+
+  it('缺少密钥', async () => {
+    expect((await verifyJwt(HS256_TOKEN, '')).error).toBe('请输入 HMAC 密钥');
+    expect((await verifyJwt(RS256_TOKEN, ' ')).error).toBe('请输入 PEM 密钥、JWK 或 JWKS');
+  });
+});
+
+describe('signJwt', () => {
+  it('HS256 与示例令牌一致', async () => {
+    const result = await signJwt(
+      '',
+      '{"sub":"1234567890","name":"John Doe","iat":1516239022}',
+      'HS256',
+      'your-256-bit-secret'
+    );
+    expect(result).toEqual({ success: true, token: HS256_TOKEN });
+  });
+
+  it.each(['ES256', 'EdDSA'] as const)('%s 签发后可用 JWKS 验签', async (alg) => {
+    const { publicKey, privateKey } = await generateKeyPair(
+      alg === 'ES256' ? 'ecdsa-p256' : 'ed25519',
+      'jwk'
+    );
+    const signed = await signJwt('{"kid":"k2"}', '{"sub":"42"}', alg, privateKey);
+    expect(decodeJwt(signed.token).header).toEqual({ alg, typ: 'JWT', kid: 'k2' });
+
+    const jwks = JSON.stringify({
+      keys: [
+        { ...JSON.parse(publicKey), kid: 'k1', x: 'AAAA' },
+        { ...JSON.parse(publicKey), kid: 'k2' },
+      ],
+    });
+    expect(await verifyJwt(signed.token, jwks)).toEqual({ success: true, valid: true });
+  });
+
+  it('JWKS 中没有匹配的密钥', async () => {
+    const { publicKey } = await generateKeyPair('ed25519', 'jwk');
+    const jwks = JSON.stringify({ keys: [JSON.parse(publicKey)] });
+    expect((await verifyJwt(RS256_TOKEN, jwks)).error).toBe('JWKS 中没有与令牌匹配的密钥');
+  });
+
+  it('载荷必须是 JSON 对象', async () => {
+    expect((await signJwt('', '[1]', 'HS256', 'k')).error).toBe('载荷 JSON 无效：JSON 必须是对象');
+    expect((await signJwt('', '{', 'HS256', 'k')).error).toMatch(/^载荷 JSON 无效：/);
+  });
+});
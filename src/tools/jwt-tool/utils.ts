@@ -0,0 +1,391 @@
+/**
+ * JWT 解码、验签与签名
+ * 签名算法基于 Web Crypto API，非对称密钥的导入和 Base64URL 编解码复用加密解密工具的实现
+ */
+
+import {
+  asymmetricSpecs,
+  importPrivateKey,
+  importPublicKey,
+  type AsymmetricSpec,
+} from '@/tools/crypto-tool/asymmetric';
+import { base64UrlDecode, base64UrlEncode } from '@/tools/crypto-tool/encodings';
+import { renderJSON } from '@/tools/json-formatter/utils';
+import { getRelativeTime, timestampToDate } from '@/tools/timestamp-converter/utils';
+import { t } from './locales';
+import type {
+  ClaimTime,
+  DecodedJwt,
+  JwtAlgorithm,
+  JwtSignResult,
+  JwtStatus,
+  JwtVerifyResult,
+  SecretEncoding,
+  TimeClaim,
+} from './types';
+
+// ============================================================================
+// 算法定义
+// ============================================================================
+
+/**
+ * 非对称签名算法的参数
+ */
+interface KeySpec {
+  key: AsymmetricSpec;
+  /** 对应的 JWK kty */
+  kty: string;
+  /** JWK 中可能出现的 alg 值（Ed25519 密钥可能标注为 "Ed25519"） */
+  jwkAlgs: string[];
+}
+
+/**
+ * 各签名算法的参数：HMAC 摘要算法，或非对称密钥参数
+ */
+type AlgorithmSpec = { hash: string } | KeySpec;
+
+const algorithmSpecs: Record<JwtAlgorithm, AlgorithmSpec> = {
+  HS256: { hash: 'SHA-256' },
+  HS384: { hash: 'SHA-384' },
+  HS512: { hash: 'SHA-512' },
+  RS256: {
+    key: {
+      keyAlgorithm: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+      signParams: { name: 'RSASSA-PKCS1-v1_5' },
+      publicUsages: ['verify'],
+      privateUsages: ['sign'],
+    },
+    kty: 'RSA',
+    jwkAlgs: ['RS256'],
+  },
+  ES256: { key: asymmetricSpecs['ecdsa-p256'], kty: 'EC', jwkAlgs: ['ES256'] },
+  EdDSA: { key: asymmetricSpecs.ed25519, kty: 'OKP', jwkAlgs: ['EdDSA', 'Ed25519'] },
+};
+
+/**
+ * 支持的签名算法
+ */
+export const JWT_ALGORITHMS = Object.keys(algorithmSpecs) as JwtAlgorithm[];
+
+/**
+ * 是否为 HMAC 算法（使用共享密钥）
+ */
+export function isHmacAlgorithm(alg: JwtAlgorithm): boolean {
+  return 'hash' in algorithmSpecs[alg];
+}
+
+function toAlgorithm(alg: unknown): JwtAlgorithm {
+  if (typeof alg === 'string' && Object.hasOwn(algorithmSpecs, alg)) {
+    return alg as JwtAlgorithm;
+  }
+  throw new Error(t('error.unsupportedAlgorithm', { alg: String(alg) }));
+}
+
+// ============================================================================
+// 分段编解码
+// ============================================================================
+
+function encodeSegment(value: Record<string, unknown>): string {
+  return base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+function decodeSegment(segment: string): Record<string, unknown> {
+  const text = new TextDecoder('utf-8', { fatal: true }).decode(base64UrlDecode(segment));
+  const value = JSON.parse(text);
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(t('error.notObject'));
+  }
+  return value;
+}
+
+// ============================================================================
+// 解码
+// ============================================================================
+
+/**
+ * 拆分并解码 JWT，不校验签名
+ * 允许带 "Bearer " 前缀，方便直接粘贴请求头
+ */
+export function decodeJwt(token: string): DecodedJwt {
+  const value = token.trim().replace(/^Bearer\s+/i, '');
+  if (!value) {
+    throw new Error(t('error.tokenRequired'));
+  }
+
+  const parts = value.split('.');
+  if (parts.length !== 3) {
+    throw new Error(t('error.invalidFormat'));
+  }
+
+  let header: Record<string, unknown>;
+  let payload: Record<string, unknown>;
+  try {
+    header = decodeSegment(parts[0]);
+  } catch {
+    throw new Error(t('error.invalidHeader'));
+  }
+  try {
+    payload = decodeSegment(parts[1]);
+  } catch {
+    throw new Error(t('error.invalidPayload'));
+  }
+
+  return {
+    header,
+    payload,
+    headerJson: renderJSON(header),
+    payloadJson: renderJSON(payload),
+    signature: parts[2],
+    signingInput: `${parts[0]}.${parts[1]}`,
+  };
+}
+
+/**
+ * 提取 iat / nbf / exp 并转换为日期时间
+ */
+export function getClaimTimes(payload: Record<string, unknown>): ClaimTime[] {
+  const claims: TimeClaim[] = ['iat', 'nbf', 'exp'];
+  return claims.flatMap((claim) => {
+    const value = payload[claim];
+    if (typeof value !== 'number' || !Number.isFinite(value)) return [];
+    return [
+      {
+        claim,
+        timestamp: value,
+        date: timestampToDate(value, 'seconds', 'full'),
+        relative: getRelativeTime(value, 'seconds'),
+      },
+    ];
+  });
+}
+
+/**
+ * 按 exp / nbf 判断令牌当前是否有效
+ * @param now - 当前秒级时间戳
+ */
+export function getJwtStatus(
+  payload: Record<string, unknown>,
+  now: number = Date.now() / 1000
+): JwtStatus {
+  if (typeof payload.exp === 'number' && now >= payload.exp) return 'expired';
+  if (typeof payload.nbf === 'number' && now < payload.nbf) return 'notYetValid';
+  return 'valid';
+}
+
+// ============================================================================
+// 密钥
+// ============================================================================
+
+async function importHmacKey(
+  hash: string,
+  secret: string,
+  encoding: SecretEncoding,
+  usage: KeyUsage
+): Promise<CryptoKey> {
+  if (!secret) {
+    throw new Error(t('error.secretRequired'));
+  }
+
+  let bytes: Uint8Array<ArrayBuffer>;
+  if (encoding === 'base64') {
+    try {
+      bytes = base64UrlDecode(secret.trim());
+    } catch {
+      throw new Error(t('error.invalidSecret'));
+    }
+  } else {
+    bytes = new TextEncoder().encode(secret);
+  }
+
+  return crypto.subtle.importKey('raw', bytes, { name: 'HMAC', hash }, false, [usage]);
+}
+
+/**
+ * 密钥文本是否为 PEM、JWK 或 JWKS
+ * 这类公开的密钥不能作为 HMAC 密钥，否则可用公钥伪造 HS256 令牌（算法混淆攻击）
+ */
+function isPublicKeyText(keyText: string): boolean {
+  const text = keyText.trim();
+  if (text.includes('-----BEGIN ')) return true;
+  if (!text.startsWith('{')) return false;
+  try {
+    const json = JSON.parse(text);
+    return !!json && typeof json === 'object' && ('kty' in json || 'keys' in json);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 从 JWKS 中选出用于验签的 JWK
+ * 头部带 kid 时按 kid 匹配，否则取第一个 kty 和 alg 相符的密钥
+ */
+function selectJwk(
+  jwks: { keys?: unknown },
+  header: Record<string, unknown>,
+  spec: KeySpec
+): JsonWebKey {
+  if (!Array.isArray(jwks.keys)) {
+    throw new Error(t('error.invalidJwks'));
+  }
+
+  const candidates = (jwks.keys as (JsonWebKey & { kid?: string })[]).filter(
+    (jwk) => jwk?.kty === spec.kty && (!jwk.alg || spec.jwkAlgs.includes(jwk.alg))
+  );
+  const jwk =
+    typeof header.kid === 'string'
+      ? candidates.find((candidate) => candidate.kid === header.kid)
+      : candidates[0];
+  if (!jwk) {
+    throw new Error(t('error.jwkNotFound'));
+  }
+  return jwk;
+}
+
+async function importVerifyKey(
+  alg: JwtAlgorithm,
+  spec: KeySpec,
+  keyText: string,
+  header: Record<string, unknown>
+): Promise<CryptoKey> {
+  if (!keyText.trim()) {
+    throw new Error(t('error.keyRequired'));
+  }
+
+  let text = keyText;
+  if (keyText.trim().startsWith('{')) {
+    let json: JsonWebKey & { keys?: unknown };
+    try {
+      json = JSON.parse(keyText);
+    } catch {
+      throw new Error(t('error.invalidJwks'));
+    }
+    if ('keys' in json) {
+      text = JSON.stringify(selectJwk(json, header, spec));
+    } else if (json.kty !== spec.kty || (json.alg && !spec.jwkAlgs.includes(json.alg))) {
+      // 单个 JWK 的 kty / alg 必须与令牌算法一致
+      throw new Error(t('error.keyAlgorithmMismatch', { alg }));
+    }
+  }
+  return importPublicKey(spec.key, text);
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+// ============================================================================
+// 验签与签名
+// ============================================================================
+
+/**
+ * 校验 JWT 签名
+ * 算法取自令牌头部，可指定期望的算法；HMAC 算法拒绝 PEM / JWK / JWKS 形式的密钥
+ * @param token - JWT
+ * @param key - HMAC 密钥，或 PEM 公钥、JWK、JWKS
+ * @param secretEncoding - HMAC 密钥的编码
+ * @param expectedAlg - 期望的算法，与令牌头部不符时校验失败
+ */
+export async function verifyJwt(
+  token: string,
+  key: string,
+  secretEncoding: SecretEncoding = 'text',
+  expectedAlg?: JwtAlgorithm
+): Promise<JwtVerifyResult> {
+  try {
+    const decoded = decodeJwt(token);
+    const alg = toAlgorithm(decoded.header.alg);
+    if (expectedAlg && alg !== expectedAlg) {
+      throw new Error(t('error.algorithmMismatch', { alg, expected: expectedAlg }));
+    }
+    const spec = algorithmSpecs[alg];
+    if ('hash' in spec && isPublicKeyText(key)) {
+      throw new Error(t('error.hmacWithPublicKey', { alg }));
+    }
+
+    let signature: Uint8Array<ArrayBuffer>;
+    try {
+      signature = base64UrlDecode(decoded.signature);
+    } catch {
+      throw new Error(t('error.invalidSignature'));
+    }
+    const data = new TextEncoder().encode(decoded.signingInput);
+
+    const valid =
+      'hash' in spec
+        ? await crypto.subtle.verify(
+            'HMAC',
+            await importHmacKey(spec.hash, key, secretEncoding, 'verify'),
+            signature,
+            data
+          )
+        : await crypto.subtle.verify(
+            spec.key.signParams!,
+            await importVerifyKey(alg, spec, key, decoded.header),
+            signature,
+            data
+          );
+    return { success: true, valid };
+  } catch (error) {
+    return { success: false, valid: false, error: errorMessage(error, t('error.verifyFailed')) };
+  }
+}
+
+function parseObject(json: string, errorKey: 'error.invalidHeaderJson' | 'error.invalidPayloadJson') {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    throw new Error(t(errorKey, { message: errorMessage(error, '') }));
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(t(errorKey, { message: t('error.notObject') }));
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * 签发 JWT
+ * @param headerJson - 头部 JSON，alg 以参数为准，未指定 typ 时补充 "JWT"
+ * @param payloadJson - 载荷 JSON
+ * @param alg - 签名算法
+ * @param key - HMAC 密钥，或 PEM / JWK 私钥
+ * @param secretEncoding - HMAC 密钥的编码
+ */
+export async function signJwt(
+  headerJson: string,
+  payloadJson: string,
+  alg: JwtAlgorithm,
+  key: string,
+  secretEncoding: SecretEncoding = 'text'
+): Promise<JwtSignResult> {
+  try {
+    const header = {
+      alg,
+      typ: 'JWT',
+      ...(headerJson.trim() ? parseObject(headerJson, 'error.invalidHeaderJson') : {}),
+    };
+    header.alg = alg;
+    const payload = parseObject(payloadJson, 'error.invalidPayloadJson');
+    const signingInput = `${encodeSegment(header)}.${encodeSegment(payload)}`;
+    const data = new TextEncoder().encode(signingInput);
+
+    const spec = algorithmSpecs[alg];
+    const signature =
+      'hash' in spec
+        ? await crypto.subtle.sign(
+            'HMAC',
+            await importHmacKey(spec.hash, key, secretEncoding, 'sign'),
+            data
+          )
+        : await crypto.subtle.sign(
+            spec.key.signParams!,
+            await importPrivateKey(spec.key, key),
+            data
+          );
+
+    return { success: true, token: `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}` };
+  } catch (error) {
+    return { success: false, token: '', error: errorMessage(error, t('error.signFailed')) };
+  }
+}
@@ -0,0 +1,36 @@
+import { lazy } from 'react';
+import type { ToolConfig } from '@/tools/types';
+import { Timer } from 'lucide-react';
+
+export const toolConfig: ToolConfig = {
+  id: 'otp-tool',
+  name: '动态口令',
+  description: '根据 Base32 密钥或 otpauth:// 链接生成 TOTP / HOTP 两步验证码，支持倒计时和口令校验',
+  locales: {
+    'en-US': {
+      name: 'TOTP / HOTP Authenticator',
+      description:
+        'Generate TOTP / HOTP two-factor codes from a Base32 secret or otpauth:// URI, with countdown and code validation',
+    },
+  },
+  category: 'crypto',
+  icon: Timer,
+  tags: [
+    'TOTP',
+    'HOTP',
+    'OTP',
+    '2FA',
+    'MFA',
+    '两步验证',
+    '动态口令',
+    '验证码',
+    'otpauth',
+    'Google Authenticator',
+    'authenticator',
+  ],
+  component: lazy(() =>
+    import('./index').then((m) => ({ default: m.OtpTool }))
+  ),
+  requiresBackend: false,
+  version: '1.0.0',
+};
@@ -0,0 +1,581 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Check,
+  ChevronRight,
+  Copy,
+  Hash,
+  Info,
+  RefreshCw,
+  ShieldCheck,
+  ShieldX,
+  Timer,
+  Trash2,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+import {
+  DEFAULT_OTP_PARAMS,
+  MAX_WINDOW,
+  OTP_ALGORITHMS,
+  buildOtpauthUri,
+  decodeSecret,
+  formatCode,
+  generateHotp,
+  generateSecret,
+  generateTotp,
+  parseOtpauthUri,
+  verifyOtp,
+} from './utils';
+import type { OtpParams, OtpVerifyResult } from './types';
+
+/**
+ * 自定义滚动条样式类
+ */
+const scrollbarStyles = cn(
+  '[&::-webkit-scrollbar]:w-1.5',
+  '[&::-webkit-scrollbar-track]:bg-transparent',
+  '[&::-webkit-scrollbar-thumb]:rounded-full',
+  '[&::-webkit-scrollbar-thumb]:bg-border',
+  'hover:[&::-webkit-scrollbar-thumb]:bg-muted-foreground/50'
+);
+
+const digitOptions = [6, 7, 8].map((digits) => ({ value: digits, label: `${digits} 位` }));
+
+const algorithmOptions = OTP_ALGORITHMS.map((algorithm) => ({
+  value: algorithm,
+  label: algorithm,
+}));
+
+/**
+ * 当前计数器附近的口令：TOTP 为上一个 / 当前 / 下一个时间窗口，HOTP 为当前和后两个计数器
+ */
+interface CodeList {
+  codes: { counter: number; code: string }[];
+  error: string | null;
+}
+
+/**
+ * 分段选择器
+ */
+function Segmented<T extends string | number>({
+  options,
+  value,
+  onChange,
+}: {
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="flex flex-wrap rounded-md border bg-muted p-0.5">
+      {options.map((option) => (
+        <button
+          key={option.value}
+          onClick={() => onChange(option.value)}
+          className={cn(
+            'rounded px-2 py-1 text-xs font-medium transition-colors',
+            value === option.value
+              ? 'bg-background text-foreground shadow-sm'
+              : 'text-muted-foreground hover:text-foreground'
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * 将输入框的值解析为不小于 min 的整数，无效时返回 null
+ */
+function parseInteger(value: string, min: number): number | null {
+  const number = Number(value);
+  return Number.isSafeInteger(number) && number >= min ? number : null;
+}
+
+/**
+ * 动态口令工具主组件
+ * 共享密钥属于敏感信息，不参与分享和历史记录
+ */
+export const OtpTool = () => {
+  const [params, setParams] = useState<OtpParams>(DEFAULT_OTP_PARAMS);
+  const [uriError, setUriError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [codeList, setCodeList] = useState<CodeList>({ codes: [], error: null });
+  const [verifyCode, setVerifyCode] = useState('');
+  const [verifyWindow, setVerifyWindow] = useState(1);
+  const [verifyResult, setVerifyResult] = useState<OtpVerifyResult | null>(null);
+  const [verifyError, setVerifyError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const isTotp = params.type === 'totp';
+  const hasSecret = params.secret.trim().length > 0;
+  // TOTP 的计数器只在跨过时间窗口时变化，用它触发重新计算
+  const timeStep = isTotp && params.period > 0 ? Math.floor(now / 1000 / params.period) : 0;
+  const remaining =
+    isTotp && params.period > 0 ? params.period - (Math.floor(now / 1000) % params.period) : 0;
+
+  const secretError = useMemo(() => {
+    if (!hasSecret) return null;
+    try {
+      decodeSecret(params.secret);
+      return null;
+    } catch (err) {
+      return err instanceof Error ? err.message : '密钥无效';
+    }
+  }, [params.secret, hasSecret]);
+
+  const otpauthUri = hasSecret && !secretError ? buildOtpauthUri(params) : '';
+
+  // 每秒刷新倒计时
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // 参数或时间窗口变化时重新计算口令
+  useEffect(() => {
+    if (!hasSecret) return;
+
+    let cancelled = false;
+    const compute = async (): Promise<CodeList> => {
+      if (params.type === 'totp') {
+        const time = timeStep * params.period * 1000;
+        const results = await Promise.all(
+          [-1, 0, 1].map((step) => generateTotp(params, time, step))
+        );
+        return { codes: results.map(({ counter, code }) => ({ counter, code })), error: null };
+      }
+      const counters = [0, 1, 2].map((offset) => params.counter + offset);
+      const codes = await Promise.all(counters.map((counter) => generateHotp(params, counter)));
+      return { codes: counters.map((counter, i) => ({ counter, code: codes[i] })), error: null };
+    };
+
+    compute()
+      .catch((err: unknown) => ({
+        codes: [],
+        error: err instanceof Error ? err.message : '生成失败',
+      }))
+      .then((result) => {
+        if (!cancelled) setCodeList(result);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [params, timeStep, hasSecret]);
+
+  // 输入满位数后自动校验
+  const normalizedCode = verifyCode.replace(/\s/g, '');
+  const canVerify = hasSecret && normalizedCode.length === params.digits;
+
+  useEffect(() => {
+    if (!canVerify) return;
+
+    let cancelled = false;
+    // timeStep 变化时重新校验，使结果跟随时间窗口更新
+    verifyOtp(params, normalizedCode, verifyWindow)
+      .then((result) => {
+        if (cancelled) return;
+        setVerifyResult(result);
+        setVerifyError(null);
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        setVerifyResult(null);
+        setVerifyError(err instanceof Error ? err.message : '校验失败');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [canVerify, params, normalizedCode, verifyWindow, timeStep]);
+
+  // 未填密钥或口令位数不足时不显示上一次的结果
+  const shownCodes = hasSecret ? codeList : { codes: [], error: null };
+  const shownVerifyResult = canVerify ? verifyResult : null;
+  const shownVerifyError = canVerify ? verifyError : null;
+  const current = shownCodes.codes[isTotp ? 1 : 0];
+
+  const update = (patch: Partial<OtpParams>): void => {
+    setParams((prev) => ({ ...prev, ...patch }));
+  };
+
+  // 粘贴 otpauth:// 链接时自动解析出全部参数
+  const handleSecretChange = (value: string): void => {
+    if (/^otpauth:\/\//i.test(value.trim())) {
+      try {
+        setParams(parseOtpauthUri(value));
+        setUriError(null);
+      } catch (err) {
+        update({ secret: value });
+        setUriError(err instanceof Error ? err.message : '链接无效');
+      }
+      return;
+    }
+    update({ secret: value });
+    setUriError(null);
+  };
+
+  const handleCopy = async (text: string): Promise<void> => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success('已复制到剪贴板');
+    } catch {
+      toast.error('复制失败');
+    }
+  };
+
+  const handleCopyCode = async (): Promise<void> => {
+    if (!current) return;
+    await handleCopy(current.code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleClear = (): void => {
+    setParams({ ...DEFAULT_OTP_PARAMS, type: params.type });
+    setUriError(null);
+    setVerifyCode('');
+  };
+
+  const error = uriError ?? secretError ?? shownCodes.error;
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* 头部 - 固定 */}
+      <div className="flex shrink-0 items-start justify-between gap-3 border-b p-4">
+        <div>
+          <h1 className="text-xl font-semibold">动态口令</h1>
+          <p className="mt-1 text-sm text-muted-foreground">
+            根据 Base32 密钥或 otpauth:// 链接生成 TOTP / HOTP 两步验证码，并校验口令
+          </p>
+        </div>
+        <div className="flex shrink-0 items-center gap-2">
+          <div className="flex rounded-md border bg-muted p-0.5">
+            {(
+              [
+                { value: 'totp', label: 'TOTP', icon: Timer },
+                { value: 'hotp', label: 'HOTP', icon: Hash },
+              ] as const
+            ).map(({ value, label, icon: Icon }) => (
+              <button
+                key={value}
+                onClick={() => update({ type: value })}
+                className={cn(
+                  'flex items-center gap-1 rounded px-2.5 py-1 text-xs font-medium transition-colors',
+                  params.type === value
+                    ? 'bg-background text-foreground shadow-sm'
+                    : 'text-muted-foreground hover:text-foreground'
+                )}
+              >
+                <Icon className="h-3.5 w-3.5" />
+                {label}
+              </button>
+            ))}
+          </div>
+          <Button variant="outline" size="sm" onClick={handleClear} className="h-7 text-xs">
+            <Trash2 className="mr-1 h-3.5 w-3.5" />
+            清空
+          </Button>
+        </div>
+      </div>
+
+      <div className={cn('min-h-0 flex-1 overflow-y-auto p-4', scrollbarStyles)}>
+        <div className="grid gap-4 md:grid-cols-2">
+          {/* 左侧：密钥与参数 */}
+          <div className="space-y-3">
+            <div className="space-y-1.5">
+              <div className="flex items-center justify-between gap-2">
+                <Label htmlFor="otp-secret" className="text-xs">
+                  密钥
+                </Label>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleSecretChange(generateSecret())}
+                  className="h-6 gap-1 px-1.5 text-xs"
+                >
+                  <RefreshCw className="h-3 w-3" />
+                  随机生成
+                </Button>
+              </div>
+              <Input
+                id="otp-secret"
+                value={params.secret}
+                onChange={(e) => handleSecretChange(e.target.value)}
+                placeholder="Base32 密钥，或粘贴 otpauth:// 链接..."
+                autoComplete="off"
+                spellCheck={false}
+                className={cn(
+                  'font-mono',
+                  error && 'border-destructive focus-visible:ring-destructive'
+                )}
+              />
+            </div>
+
+            {error && (
+              <div className="flex items-start gap-2 rounded-md bg-destructive/10 p-2.5 text-destructive">
+                <Info className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                <p className="text-xs">{error}</p>
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-4">
+              <div className="space-y-1.5">
+                <Label className="text-xs">算法</Label>
+                <Segmented
+                  options={algorithmOptions}
+                  value={params.algorithm}
+                  onChange={(algorithm) => update({ algorithm })}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs">位数</Label>
+                <Segmented
+                  options={digitOptions}
+                  value={params.digits}
+                  onChange={(digits) => update({ digits })}
+                />
+              </div>
+            </div>
+
+            {isTotp ? (
+              <div className="space-y-1.5">
+                <Label htmlFor="otp-period" className="text-xs">
+                  时间步长（秒）
+                </Label>
+                <Input
+                  id="otp-period"
+                  type="number"
+                  min={1}
+                  value={params.period}
+                  onChange={(e) => {
+                    const period = parseInteger(e.target.value, 1);
+                    if (period !== null) update({ period });
+                  }}
+                  className="h-8 w-32 text-xs"
+                />
+              </div>
+            ) : (
+              <div className="space-y-1.5">
+                <Label htmlFor="otp-counter" className="text-xs">
+                  计数器
+                </Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="otp-counter"
+                    type="number"
+                    min={0}
+                    value={params.counter}
+                    onChange={(e) => {
+                      const counter = parseInteger(e.target.value, 0);
+                      if (counter !== null) update({ counter });
+                    }}
+                    className="h-8 w-32 text-xs"
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => update({ counter: params.counter + 1 })}
+                    className="h-8 gap-1 text-xs"
+                  >
+                    <ChevronRight className="h-3.5 w-3.5" />
+                    下一个
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1.5">
+                <Label htmlFor="otp-issuer" className="text-xs">
+                  发行方（可选）
+                </Label>
+                <Input
+                  id="otp-issuer"
+                  value={params.issuer}
+                  onChange={(e) => update({ issuer: e.target.value })}
+                  placeholder="GitHub"
+                  className="h-8 text-xs"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="otp-account" className="text-xs">
+                  账户（可选）
+                </Label>
+                <Input
+                  id="otp-account"
+                  value={params.account}
+                  onChange={(e) => update({ account: e.target.value })}
+                  placeholder="user@example.com"
+                  className="h-8 text-xs"
+                />
+              </div>
+            </div>
+
+            {otpauthUri && (
+              <div className="space-y-1.5">
+                <div className="flex items-center justify-between">
+                  <Label className="text-xs">otpauth:// 链接</Label>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleCopy(otpauthUri)}
+                    className="h-6 gap-1 px-1.5 text-xs"
+                  >
+                    <Copy className="h-3 w-3" />
+                    复制
+                  </Button>
+                </div>
+                <pre className="whitespace-pre-wrap break-all rounded-md border bg-muted/50 p-2.5 font-mono text-xs">
+                  {otpauthUri}
+                </pre>
+              </div>
+            )}
+          </div>
+
+          {/* 右侧：口令与校验 */}
+          <div className="space-y-3">
+            {current ? (
+              <div className="space-y-3 rounded-md border bg-muted/30 p-4">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs text-muted-foreground">
+                    {isTotp ? `当前口令（T = ${current.counter}）` : `计数器 ${current.counter}`}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleCopyCode}
+                    className="h-6 gap-1 px-1.5 text-xs"
+                  >
+                    {copied ? (
+                      <Check className="h-3 w-3 text-green-500" />
+                    ) : (
+                      <Copy className="h-3 w-3" />
+                    )}
+                    {copied ? '已复制' : '复制'}
+                  </Button>
+                </div>
+                <p className="text-center font-mono text-4xl font-semibold tracking-widest">
+                  {formatCode(current.code)}
+                </p>
+                {isTotp && (
+                  <div className="space-y-1">
+                    <Progress value={(remaining / params.period) * 100} className="h-1.5" />
+                    <p
+                      className={cn(
+                        'text-right text-xs',
+                        remaining <= 5 ? 'text-destructive' : 'text-muted-foreground'
+                      )}
+                    >
+                      {remaining} 秒后刷新
+                    </p>
+                  </div>
+                )}
+                <div className="grid grid-cols-2 gap-2 border-t pt-2 text-xs">
+                  {shownCodes.codes
+                    .filter((item) => item !== current)
+                    .map((item) => (
+                      <div key={item.counter} className="flex justify-between gap-2">
+                        <span className="text-muted-foreground">
+                          {isTotp
+                            ? item.counter < current.counter
+                              ? '上一个'
+                              : '下一个'
+                            : `计数器 ${item.counter}`}
+                        </span>
+                        <span className="font-mono">{formatCode(item.code)}</span>
+                      </div>
+                    ))}
+                </div>
+              </div>
+            ) : (
+              <div className="flex h-40 items-center justify-center rounded-md border border-dashed text-xs text-muted-foreground">
+                输入密钥后显示口令
+              </div>
+            )}
+
+            {/* 校验 */}
+            <div className="space-y-1.5">
+              <Label htmlFor="otp-verify" className="text-xs">
+                校验口令
+              </Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id="otp-verify"
+                  value={verifyCode}
+                  onChange={(e) => setVerifyCode(e.target.value)}
+                  placeholder={`输入 ${params.digits} 位口令...`}
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  className="h-8 flex-1 font-mono text-sm"
+                />
+                <Label htmlFor="otp-window" className="shrink-0 text-xs text-muted-foreground">
+                  {isTotp ? '前后窗口' : '向后查找'}
+                </Label>
+                <Input
+                  id="otp-window"
+                  type="number"
+                  min={0}
+                  max={MAX_WINDOW}
+                  value={verifyWindow}
+                  onChange={(e) => {
+                    const value = parseInteger(e.target.value, 0);
+                    if (value !== null) setVerifyWindow(Math.min(value, MAX_WINDOW));
+                  }}
+                  className="h-8 w-16 text-xs"
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {isTotp
+                  ? `允许前后 ${verifyWindow} 个时间窗口（±${verifyWindow * params.period} 秒）的时钟偏差`
+                  : `从计数器 ${params.counter} 起向后查找 ${verifyWindow} 个，用于计数器重新同步`}
+              </p>
+            </div>
+
+            {shownVerifyError && (
+              <div className="flex items-start gap-2 rounded-md bg-destructive/10 p-2.5 text-destructive">
+                <Info className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                <p className="text-xs">{shownVerifyError}</p>
+              </div>
+            )}
+            {shownVerifyResult && (
+              <div
+                className={cn(
+                  'flex items-center gap-2 rounded-md p-2.5',
+                  shownVerifyResult.valid
+                    ? 'bg-green-500/10 text-green-600'
+                    : 'bg-destructive/10 text-destructive'
+                )}
+              >
+                {shownVerifyResult.valid ? (
+                  <ShieldCheck className="h-3.5 w-3.5 shrink-0" />
+                ) : (
+                  <ShieldX className="h-3.5 w-3.5 shrink-0" />
+                )}
+                <p className="text-xs">
+                  {shownVerifyResult.valid
+                    ? `口令有效（计数器 ${shownVerifyResult.counter}，偏移 ${
+                        shownVerifyResult.delta! > 0 ? '+' : ''
+                      }${shownVerifyResult.delta}）`
+                    : '口令无效'}
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* 底部提示 - 固定 */}
+      <div className="shrink-0 border-t px-4 py-2">
+        <p className="text-xs text-muted-foreground">
+          所有处理均在本地完成，密钥不会上传到服务器，也不会写入历史记录。TOTP 依赖本机时钟，请确保系统时间准确。
+        </p>
+      </div>
+    </div>
+  );
+};
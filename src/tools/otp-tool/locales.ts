@@ -0,0 +1,32 @@
+import { defineMessages } from '@/lib/i18n';
+
+/**
+ * 动态口令工具的消息目录
+ */
+export const t = defineMessages(
+  {
+    'error.secretRequired': '请输入 Base32 密钥或 otpauth:// 链接',
+    'error.invalidSecret': '密钥不是有效的 Base32',
+    'error.invalidUri': '不是有效的 otpauth:// 链接',
+    'error.invalidType': '不支持的口令类型：{type}，只支持 totp 和 hotp',
+    'error.missingSecret': '链接中缺少 secret 参数',
+    'error.invalidAlgorithm': '不支持的算法：{algorithm}，只支持 SHA1、SHA256 和 SHA512',
+    'error.invalidDigits': '位数必须是 6 到 8 之间的整数',
+    'error.invalidPeriod': '时间步长必须是正整数秒',
+    'error.invalidCounter': '计数器必须是非负整数',
+    'error.invalidCode': '请输入 {digits} 位数字口令',
+  },
+  {
+    'error.secretRequired': 'Enter a Base32 secret or an otpauth:// URI',
+    'error.invalidSecret': 'The secret is not valid Base32',
+    'error.invalidUri': 'Not a valid otpauth:// URI',
+    'error.invalidType': 'Unsupported OTP type: {type}. Only totp and hotp are supported',
+    'error.missingSecret': 'The URI has no secret parameter',
+    'error.invalidAlgorithm':
+      'Unsupported algorithm: {algorithm}. Only SHA1, SHA256 and SHA512 are supported',
+    'error.invalidDigits': 'Digits must be an integer between 6 and 8',
+    'error.invalidPeriod': 'Period must be a positive number of seconds',
+    'error.invalidCounter': 'Counter must be a non-negative integer',
+    'error.invalidCode': 'Enter a {digits}-digit code',
+  }
+);
@@ -0,0 +1,55 @@
+/**
+ * 动态口令工具类型定义
+ */
+
+/**
+ * 口令类型：基于时间（RFC 6238）或基于计数器（RFC 4226）
+ */
+export type OtpType = 'totp' | 'hotp';
+
+/**
+ * otpauth:// 链接中的哈希算法名
+ */
+export type OtpAlgorithm = 'SHA1' | 'SHA256' | 'SHA512';
+
+/**
+ * 生成口令所需的参数，与 otpauth:// 链接一一对应
+ */
+export interface OtpParams {
+  type: OtpType;
+  /** Base32 编码的共享密钥 */
+  secret: string;
+  algorithm: OtpAlgorithm;
+  /** 口令位数，6 - 8 */
+  digits: number;
+  /** TOTP 的时间步长（秒） */
+  period: number;
+  /** HOTP 的计数器 */
+  counter: number;
+  /** 发行方，如 GitHub */
+  issuer: string;
+  /** 账户名，如邮箱 */
+  account: string;
+}
+
+/**
+ * TOTP 口令及其所在时间窗口
+ */
+export interface TotpCode {
+  code: string;
+  /** 时间步计数 floor(t / period) */
+  counter: number;
+  /** 当前窗口剩余秒数 */
+  remaining: number;
+}
+
+/**
+ * 口令校验结果
+ */
+export interface OtpVerifyResult {
+  valid: boolean;
+  /** 匹配的计数器 */
+  counter?: number;
+  /** 相对当前计数器的偏移，TOTP 中 -1 表示上一个时间窗口 */
+  delta?: number;
+}
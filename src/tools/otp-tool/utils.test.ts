@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { base32Encode } from '@/tools/crypto-tool/encodings';
+import {
+  DEFAULT_OTP_PARAMS,
+  buildOtpauthUri,
+  formatCode,
+  generateHotp,
+  generateSecret,
+  generateTotp,
+  parseOtpauthUri,
+  verifyOtp,
+} from './utils';
+import type { OtpAlgorithm, OtpParams } from './types';
+
+const secretOf = (ascii: string) => base32Encode(new TextEncoder().encode(ascii));
+
+/** RFC 4226 / RFC 6238 附录中的测试密钥 */
+const SECRETS: Record<OtpAlgorithm, string> = {
+  SHA1: secretOf('12345678901234567890'),
+  SHA256: secretOf('12345678901234567890123456789012'),
+  SHA512: secretOf('1234567890123456789012345678901234567890123456789012345678901234'),
+};
+
+const params = (overrides: Partial<OtpParams>): OtpParams => ({
+  ...DEFAULT_OTP_PARAMS,
+  secret: SECRETS.SHA1,
+  ...overrides,
+});
+
+describe('HOTP', () => {
+  it('RFC 4226 附录 D 测试向量', async () => {
+    const expected = ['755224', '287082', '359152', '969429', '338314'];
+    const hotp = params({ type: 'hotp' });
+    const codes = await Promise.all(expected.map((_, counter) => generateHotp(hotp, counter)));
+    expect(codes).toEqual(expected);
+  });
+});
+
+describe('TOTP', () => {
+  it.each([
+    [59, 'SHA1', '94287082'],
+    [59, 'SHA256', '46119246'],
+    [59, 'SHA512', '90693936'],
+    [1111111109, 'SHA1', '07081804'],
+    [1234567890, 'SHA256', '91819424'],
+    [2000000000, 'SHA512', '38618901'],
+    [20000000000, 'SHA1', '65353130'],
+  ] as const)('RFC 6238 附录 B：T=%s %s', async (time, algorithm, code) => {
+    const totp = params({ secret: SECRETS[algorithm], algorithm, digits: 8 });
+    expect((await generateTotp(totp, time * 1000)).code).toBe(code);
+  });
+
+  it('计算时间窗口和剩余秒数', async () => {
+    const result = await generateTotp(params({}), 59_000);
+    expect(result).toMatchObject({ code: '287082', counter: 1, remaining: 1 });
+    expect((await generateTotp(params({}), 59_000, -1)).code).toBe('755224');
+  });
+
+  it('密钥和参数无效时报错', async () => {
+    await expect(generateTotp(params({ secret: '' }))).rejects.toThrow('请输入 Base32 密钥');
+    await expect(generateTotp(params({ secret: 'ABC1' }))).rejects.toThrow('不是有效的 Base32');
+    await expect(generateTotp(params({ digits: 9 }))).rejects.toThrow('位数必须');
+    await expect(generateTotp(params({ period: 0 }))).rejects.toThrow('时间步长');
+  });
+});
+
+describe('口令校验', () => {
+  it('TOTP 在偏移窗口内匹配前后时间窗口', async () => {
+    const totp = params({});
+    // 59 秒处于第 1 个窗口，第 0 个窗口的口令为 755224
+    expect(await verifyOtp(totp, '287 082', 0, 59_000)).toEqual({
+      valid: true,
+      counter: 1,
+      delta: 0,
+    });
+    expect(await verifyOtp(totp, '755224', 0, 59_000)).toEqual({ valid: false });
+    expect(await verifyOtp(totp, '755224', 1, 59_000)).toMatchObject({ valid: true, delta: -1 });
+    expect(await verifyOtp(totp, '359152', 1, 59_000)).toMatchObject({ valid: true, delta: 1 });
+  });
+
+  it('HOTP 只向后查找', async () => {
+    const hotp = params({ type: 'hotp', counter: 1 });
+    expect(await verifyOtp(hotp, '969429', 2)).toEqual({ valid: true, counter: 3, delta: 2 });
+    expect(await verifyOtp(hotp, '755224', 5)).toEqual({ valid: false });
+  });
+
+  it('位数不符时报错', async () => {
+    await expect(verifyOtp(params({}), '12345', 1)).rejects.toThrow('请输入 6 位数字口令');
+  });
+});
+
+describe('otpauth:// 链接', () => {
+  it('解析标签、发行方和参数', () => {
+    const result = parseOtpauthUri(
+      'otpauth://totp/ACME%20Co:john@example.com?secret=JBSWY3DPEHPK3PXP' +
+        '&issuer=ACME%20Co&algorithm=SHA256&digits=8&period=60'
+    );
+    expect(result).toEqual({
+      type: 'totp',
+      secret: 'JBSWY3DPEHPK3PXP',
+      algorithm: 'SHA256',
+      digits: 8,
+      period: 60,
+      counter: 0,
+      issuer: 'ACME Co',
+      account: 'john@example.com',
+    });
+  });
+
+  it('缺省参数使用默认值，HOTP 读取计数器', () => {
+    const result = parseOtpauthUri('otpauth://hotp/alice?secret=jbswy3dpehpk3pxp&counter=42');
+    expect(result).toMatchObject({
+      type: 'hotp',
+      secret: 'JBSWY3DPEHPK3PXP',
+      algorithm: 'SHA1',
+      digits: 6,
+      counter: 42,
+      issuer: '',
+      account: 'alice',
+    });
+  });
+
+  it('无效链接报错', () => {
+    expect(() => parseOtpauthUri('https://example.com')).toThrow('otpauth://');
+    expect(() => parseOtpauthUri('otpauth://motp/a?secret=AAAA')).toThrow('motp');
+    expect(() => parseOtpauthUri('otpauth://totp/a')).toThrow('缺少 secret');
+    expect(() => parseOtpauthUri('otpauth://totp/a?secret=AAAA&algorithm=MD5')).toThrow('MD5');
+  });
+
+  it('生成的链接可以解析回原参数', () => {
+    const original = params({
+      secret: 'JBSWY3DPEHPK3PXP',
+      issuer: 'ACME Co',
+      account: 'john@example.com',
+      algorithm: 'SHA512',
+      period: 45,
+    });
+    const uri = buildOtpauthUri(original);
+    expect(uri).toBe(
+      'otpauth://totp/ACME%20Co:john%40example.com?secret=JBSWY3DPEHPK3PXP' +
+        '&issuer=ACME%20Co&algorithm=SHA512&digits=6&period=45'
+    );
+    expect(parseOtpauthUri(uri)).toEqual(original);
+  });
+});
+
+describe('辅助函数', () => {
+  it('随机密钥为 32 个 Base32 字符', () => {
+    expect(generateSecret()).toMatch(/^[A-Z2-7]{32}$/);
+  });
+
+  it('口令分组', () => {
+    expect(formatCode('123456')).toBe('123 456');
+    expect(formatCode('12345678')).toBe('1234 5678');
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * 动态口令（HOTP / TOTP）与 otpauth:// 链接
+ * HMAC 复用加密工具中基于 Web Crypto API 的实现
+ */
+
+import { base32Decode, base32Encode } from '@/tools/crypto-tool/encodings';
+import { constantTimeEqual, hmacRaw, type HmacHash } from '@/tools/crypto-tool/utils';
+import { t } from './locales';
+import type { OtpAlgorithm, OtpParams, OtpType, OtpVerifyResult, TotpCode } from './types';
+
+export const OTP_ALGORITHMS: OtpAlgorithm[] = ['SHA1', 'SHA256', 'SHA512'];
+
+const OTP_TYPES: OtpType[] = ['totp', 'hotp'];
+
+const HASH_NAMES: Record<OtpAlgorithm, HmacHash> = {
+  SHA1: 'SHA-1',
+  SHA256: 'SHA-256',
+  SHA512: 'SHA-512',
+};
+
+/** 默认参数与 Google Authenticator 一致 */
+export const DEFAULT_OTP_PARAMS: OtpParams = {
+  type: 'totp',
+  secret: '',
+  algorithm: 'SHA1',
+  digits: 6,
+  period: 30,
+  counter: 0,
+  issuer: '',
+  account: '',
+};
+
+/** 校验时允许的最大偏移窗口 */
+export const MAX_WINDOW = 10;
+
+// ============================================================================
+// 参数校验
+// ============================================================================
+
+/**
+ * 解码 Base32 密钥，忽略空格、大小写和填充
+ */
+export function decodeSecret(secret: string): Uint8Array<ArrayBuffer> {
+  if (!secret.trim()) {
+    throw new Error(t('error.secretRequired'));
+  }
+  let bytes: Uint8Array;
+  try {
+    bytes = base32Decode(secret);
+  } catch {
+    throw new Error(t('error.invalidSecret'));
+  }
+  if (bytes.length === 0) {
+    throw new Error(t('error.invalidSecret'));
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * 校验位数、步长和计数器
+ */
+export function validateParams(params: OtpParams): void {
+  if (!Number.isInteger(params.digits) || params.digits < 6 || params.digits > 8) {
+    throw new Error(t('error.invalidDigits'));
+  }
+  if (!Number.isInteger(params.period) || params.period < 1) {
+    throw new Error(t('error.invalidPeriod'));
+  }
+  if (!Number.isSafeInteger(params.counter) || params.counter < 0) {
+    throw new Error(t('error.invalidCounter'));
+  }
+}
+
+// ============================================================================
+// 口令生成
+// ============================================================================
+
+/**
+ * HOTP（RFC 4226）：HMAC(密钥, 8 字节大端计数器) 后动态截断取 digits 位
+ */
+async function hotp(
+  key: Uint8Array<ArrayBuffer>,
+  counter: number,
+  algorithm: OtpAlgorithm,
+  digits: number
+): Promise<string> {
+  // 计数器可能超过 32 位，分高低两半写入
+  const message = new Uint8Array(8);
+  const view = new DataView(message.buffer);
+  view.setUint32(0, Math.floor(counter / 0x100000000));
+  view.setUint32(4, counter >>> 0);
+
+  const digest = await hmacRaw(key, message, HASH_NAMES[algorithm]);
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary =
+    ((digest[offset] & 0x7f) << 24) |
+    (digest[offset + 1] << 16) |
+    (digest[offset + 2] << 8) |
+    digest[offset + 3];
+  return String(binary % 10 ** digits).padStart(digits, '0');
+}
+
+/**
+ * 生成指定计数器的 HOTP 口令，默认使用参数中的计数器
+ */
+export async function generateHotp(
+  params: OtpParams,
+  counter: number = params.counter
+): Promise<string> {
+  validateParams({ ...params, counter });
+  return hotp(decodeSecret(params.secret), counter, params.algorithm, params.digits);
+}
+
+/**
+ * 生成 TOTP 口令（RFC 6238），计数器为 floor(Unix 秒 / period)
+ * @param now - 毫秒时间戳
+ * @param step - 相对当前时间窗口的偏移，-1 为上一个口令
+ */
+export async function generateTotp(
+  params: OtpParams,
+  now: number = Date.now(),
+  step = 0
+): Promise<TotpCode> {
+  validateParams(params);
+  const seconds = Math.floor(now / 1000);
+  const counter = Math.floor(seconds / params.period) + step;
+  const code = await hotp(decodeSecret(params.secret), counter, params.algorithm, params.digits);
+  return { code, counter, remaining: params.period - (seconds % params.period) };
+}
+
+/**
+ * 在偏移窗口内校验用户输入的口令
+ * TOTP 按 0、-1、+1、-2、+2… 的顺序检查前后时间窗口，容忍时钟偏差；
+ * HOTP 只向后检查 window 个计数器，对应 RFC 4226 的重新同步
+ */
+export async function verifyOtp(
+  params: OtpParams,
+  input: string,
+  window: number,
+  now: number = Date.now()
+): Promise<OtpVerifyResult> {
+  validateParams(params);
+  const code = input.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${params.digits}}$`).test(code)) {
+    throw new Error(t('error.invalidCode', { digits: params.digits }));
+  }
+
+  const key = decodeSecret(params.secret);
+  const size = Math.min(Math.max(Math.trunc(window), 0), MAX_WINDOW);
+  const base =
+    params.type === 'totp' ? Math.floor(now / 1000 / params.period) : params.counter;
+  const deltas =
+    params.type === 'totp'
+      ? [0, ...Array.from({ length: size }, (_, i) => [-(i + 1), i + 1]).flat()]
+      : Array.from({ length: size + 1 }, (_, i) => i);
+
+  const encoder = new TextEncoder();
+  for (const delta of deltas) {
+    const counter = base + delta;
+    if (counter < 0) continue;
+    const expected = await hotp(key, counter, params.algorithm, params.digits);
+    if (constantTimeEqual(encoder.encode(expected), encoder.encode(code))) {
+      return { valid: true, counter, delta };
+    }
+  }
+  return { valid: false };
+}
+
+/**
+ * 生成随机密钥（默认 20 字节，与 SHA-1 输出等长），Base32 不带填充
+ */
+export function generateSecret(bytes = 20): string {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(bytes))).replace(/=+$/, '');
+}
+
+/**
+ * 口令分组显示：6 位为 "123 456"，8 位为 "1234 5678"
+ */
+export function formatCode(code: string): string {
+  const half = Math.floor(code.length / 2);
+  return `${code.slice(0, half)} ${code.slice(half)}`;
+}
+
+// ============================================================================
+// otpauth:// 链接
+// ============================================================================
+
+/**
+ * 解析 otpauth:// 链接（Google Authenticator Key URI 格式）
+ * otpauth://totp/Issuer:account?secret=...&issuer=...&algorithm=SHA1&digits=6&period=30
+ */
+export function parseOtpauthUri(uri: string): OtpParams {
+  let url: URL;
+  try {
+    url = new URL(uri.trim());
+  } catch {
+    throw new Error(t('error.invalidUri'));
+  }
+  if (url.protocol !== 'otpauth:') {
+    throw new Error(t('error.invalidUri'));
+  }
+
+  const type = url.hostname.toLowerCase();
+  if (!OTP_TYPES.includes(type as OtpType)) {
+    throw new Error(t('error.invalidType', { type }));
+  }
+
+  const query = url.searchParams;
+  const secret = query.get('secret');
+  if (!secret) {
+    throw new Error(t('error.missingSecret'));
+  }
+
+  const algorithm = (query.get('algorithm') ?? 'SHA1').toUpperCase().replace('-', '');
+  if (!OTP_ALGORITHMS.includes(algorithm as OtpAlgorithm)) {
+    throw new Error(t('error.invalidAlgorithm', { algorithm }));
+  }
+
+  // 标签为 "发行方:账户" 或 "账户"，issuer 参数优先
+  let label: string;
+  try {
+    label = decodeURIComponent(url.pathname.replace(/^\//, ''));
+  } catch {
+    throw new Error(t('error.invalidUri'));
+  }
+  const separator = label.indexOf(':');
+  const account = (separator >= 0 ? label.slice(separator + 1) : label).trim();
+  const labelIssuer = separator >= 0 ? label.slice(0, separator).trim() : '';
+
+  const params: OtpParams = {
+    type: type as OtpType,
+    secret: secret.replace(/\s/g, '').toUpperCase(),
+    algorithm: algorithm as OtpAlgorithm,
+    digits: Number(query.get('digits') ?? DEFAULT_OTP_PARAMS.digits),
+    period: Number(query.get('period') ?? DEFAULT_OTP_PARAMS.period),
+    counter: Number(query.get('counter') ?? 0),
+    issuer: query.get('issuer') ?? labelIssuer,
+    account,
+  };
+  validateParams(params);
+  decodeSecret(params.secret);
+  return params;
+}
+
+/**
+ * 生成 otpauth:// 链接，可导入 Google Authenticator、1Password 等应用
+ */
+export function buildOtpauthUri(params: OtpParams): string {
+  const account = encodeURIComponent(params.account);
+  const label = params.issuer ? `${encodeURIComponent(params.issuer)}:${account}` : account;
+  const query = [
+    `secret=${params.secret.replace(/[\s=]/g, '').toUpperCase()}`,
+    params.issuer && `issuer=${encodeURIComponent(params.issuer)}`,
+    `algorithm=${params.algorithm}`,
+    `digits=${params.digits}`,
+    params.type === 'totp' ? `period=${params.period}` : `counter=${params.counter}`,
+  ].filter(Boolean);
+  return `otpauth://${params.type}/${label}?${query.join('&')}`;
+}
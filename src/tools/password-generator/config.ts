@@ -0,0 +1,135 @@
+import { lazy } from 'react';
+import type { ToolConfig } from '@/tools/types';
+import { KeyRound } from 'lucide-react';
+import type { GeneratorMode, PasswordGeneratorState, TokenFormat } from './types';
+
+const MODES: GeneratorMode[] = ['password', 'passphrase', 'token'];
+const TOKEN_FORMATS: TokenFormat[] = ['hex', 'base62', 'uuid-v4', 'uuid-v7', 'ulid', 'nanoid'];
+
+/**
+ * 校验枚举值，无效时返回默认值
+ */
+function pick<T extends string>(value: unknown, options: readonly T[], fallback: T): T {
+  return options.includes(value as T) ? (value as T) : fallback;
+}
+
+/**
+ * 读取 [min, max] 内的整数，无效时返回默认值
+ */
+function integer(value: unknown, min: number, max: number, fallback: number): number {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max
+    ? (value as number)
+    : fallback;
+}
+
+/**
+ * 读取布尔字段，非布尔值时返回默认值
+ */
+function flag(value: unknown, fallback: boolean): boolean {
+  return typeof value === 'boolean' ? value : fallback;
+}
+
+/**
+ * 读取字符串字段，非字符串时返回默认值
+ */
+function text(value: unknown, fallback = ''): string {
+  return typeof value === 'string' ? value : fallback;
+}
+
+export const toolConfig: ToolConfig<PasswordGeneratorState> = {
+  id: 'password-generator',
+  name: '密码生成',
+  description: '生成随机密码、Diceware 口令、API 密钥和 UUID / ULID，估算熵和破解耗时',
+  locales: {
+    'en-US': {
+      name: 'Password Generator',
+      description:
+        'Generate random passwords, Diceware passphrases, API keys and UUIDs / ULIDs with entropy and crack-time estimates',
+    },
+  },
+  category: 'utilities',
+  icon: KeyRound,
+  tags: [
+    '密码',
+    'password',
+    '随机',
+    'random',
+    '口令',
+    'passphrase',
+    'diceware',
+    'API key',
+    'UUID',
+    'ULID',
+    'nanoid',
+    '熵',
+    'entropy',
+    '强度',
+    'zxcvbn',
+  ],
+  component: lazy(() =>
+    import('./index').then((m) => ({ default: m.PasswordGenerator }))
+  ),
+  requiresBackend: false,
+  version: '1.0.0',
+  commands: [
+    {
+      id: 'copy-password',
+      title: '生成并复制随机密码',
+      locales: { 'en-US': { title: 'Generate and copy a random password' } },
+      keywords: ['password', 'random', 'copy'],
+      run: async () => {
+        const { DEFAULT_PASSWORD_OPTIONS, generatePassword } = await import('./utils');
+        const { value } = generatePassword(DEFAULT_PASSWORD_OPTIONS);
+        await navigator.clipboard.writeText(value);
+        return `已复制 ${value.length} 位随机密码`;
+      },
+    },
+    {
+      id: 'copy-uuid',
+      title: '生成并复制 UUID v4',
+      locales: { 'en-US': { title: 'Generate and copy a UUID v4' } },
+      keywords: ['uuid', 'guid', 'copy'],
+      run: async () => {
+        const { uuidV4 } = await import('./utils');
+        const value = uuidV4();
+        await navigator.clipboard.writeText(value);
+        return `已复制 ${value}`;
+      },
+    },
+  ],
+  serializeState: (state) => JSON.stringify(state),
+  deserializeState: (raw) => {
+    try {
+      const data = JSON.parse(raw);
+      if (!data || typeof data !== 'object') return null;
+      const password = data.password ?? {};
+      const passphrase = data.passphrase ?? {};
+      const token = data.token ?? {};
+      return {
+        mode: pick(data.mode, MODES, 'password'),
+        password: {
+          length: integer(password.length, 4, 256, 20),
+          lowercase: flag(password.lowercase, true),
+          uppercase: flag(password.uppercase, true),
+          digits: flag(password.digits, true),
+          symbols: flag(password.symbols, true),
+          excludeAmbiguous: flag(password.excludeAmbiguous, false),
+          exclude: text(password.exclude),
+        },
+        passphrase: {
+          words: integer(passphrase.words, 3, 20, 6),
+          separator: text(passphrase.separator, '-'),
+          capitalize: flag(passphrase.capitalize, false),
+          includeNumber: flag(passphrase.includeNumber, false),
+        },
+        token: {
+          format: pick(token.format, TOKEN_FORMATS, 'hex'),
+          length: integer(token.length, 8, 256, 32),
+        },
+        count: integer(data.count, 1, 20, 5),
+      };
+    } catch {
+      return null;
+    }
+  },
+};
@@ -0,0 +1,724 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  BookText,
+  Check,
+  Copy,
+  Eye,
+  EyeOff,
+  Gauge,
+  Info,
+  KeyRound,
+  KeySquare,
+  RefreshCw,
+  TriangleAlert,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { cn } from '@/lib/utils';
+import { useToolState } from '@/hooks/useToolState';
+import { toast } from 'sonner';
+import {
+  DEFAULT_PASSPHRASE_OPTIONS,
+  DEFAULT_PASSWORD_OPTIONS,
+  DEFAULT_TOKEN_OPTIONS,
+  MAX_LENGTH,
+  MAX_WORDS,
+  entropyScore,
+  formatDuration,
+  generateSecrets,
+  offlineCrackSeconds,
+  tokenFormats,
+} from './utils';
+import { analyzePassword } from './strength';
+import type {
+  CrackScenario,
+  GeneratedSecret,
+  GeneratorMode,
+  MatchPattern,
+  PassphraseOptions,
+  PasswordGeneratorState,
+  PasswordOptions,
+  StrengthResult,
+  TokenOptions,
+} from './types';
+
+type ToolTab = GeneratorMode | 'strength';
+
+/**
+ * 强度等级的显示
+ */
+const scoreStyles: Record<StrengthResult['score'], { label: string; className: string }> = {
+  0: { label: '非常弱', className: 'bg-red-500' },
+  1: { label: '弱', className: 'bg-orange-500' },
+  2: { label: '一般', className: 'bg-amber-500' },
+  3: { label: '强', className: 'bg-lime-500' },
+  4: { label: '非常强', className: 'bg-green-600' },
+};
+
+const scenarioLabels: Record<CrackScenario, { label: string; hint: string }> = {
+  onlineThrottled: { label: '在线攻击（限速）', hint: '每小时 100 次' },
+  onlineUnthrottled: { label: '在线攻击（不限速）', hint: '每秒 10 次' },
+  offlineSlow: { label: '离线破解（慢哈希）', hint: 'bcrypt 等，每秒 1 万次' },
+  offlineFast: { label: '离线破解（快哈希）', hint: 'MD5 / SHA-1 等，每秒 100 亿次' },
+};
+
+const patternLabels: Record<MatchPattern, string> = {
+  dictionary: '字典',
+  sequence: '序列',
+  keyboard: '键盘',
+  repeat: '重复',
+  date: '日期',
+  bruteforce: '随机',
+};
+
+const separatorOptions: { value: string; label: string }[] = [
+  { value: '-', label: '-' },
+  { value: ' ', label: '空格' },
+  { value: '.', label: '.' },
+  { value: '_', label: '_' },
+  { value: '', label: '无' },
+];
+
+const countOptions = [1, 5, 10, 20];
+
+/**
+ * 自定义滚动条样式类
+ */
+const scrollbarStyles = cn(
+  '[&::-webkit-scrollbar]:w-1.5',
+  '[&::-webkit-scrollbar-track]:bg-transparent',
+  '[&::-webkit-scrollbar-thumb]:rounded-full',
+  '[&::-webkit-scrollbar-thumb]:bg-border',
+  'hover:[&::-webkit-scrollbar-thumb]:bg-muted-foreground/50'
+);
+
+const DEFAULT_STATE: PasswordGeneratorState = {
+  mode: 'password',
+  password: DEFAULT_PASSWORD_OPTIONS,
+  passphrase: DEFAULT_PASSPHRASE_OPTIONS,
+  token: DEFAULT_TOKEN_OPTIONS,
+  count: 5,
+};
+
+/**
+ * 按选项生成，出错时返回错误信息
+ */
+function safeGenerate(state: PasswordGeneratorState): {
+  secrets: GeneratedSecret[];
+  error: string | null;
+} {
+  try {
+    return { secrets: generateSecrets(state), error: null };
+  } catch (err) {
+    return { secrets: [], error: err instanceof Error ? err.message : '生成失败' };
+  }
+}
+
+/**
+ * 将猜测次数显示为 10 的幂
+ */
+function formatGuesses(guesses: number): string {
+  if (guesses < 1e4) return Math.round(guesses).toLocaleString();
+  return `10^${Math.log10(guesses).toFixed(1)}`;
+}
+
+/**
+ * 分段选择器
+ */
+function Segmented<T extends string | number>({
+  options,
+  value,
+  onChange,
+}: {
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="flex flex-wrap rounded-md border bg-muted p-0.5">
+      {options.map((option) => (
+        <button
+          key={option.value}
+          onClick={() => onChange(option.value)}
+          className={cn(
+            'rounded px-2 py-1 text-xs font-medium transition-colors',
+            value === option.value
+              ? 'bg-background text-foreground shadow-sm'
+              : 'text-muted-foreground hover:text-foreground'
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * 五段式强度条
+ */
+function ScoreBar({ score }: { score: StrengthResult['score'] }) {
+  return (
+    <div className="flex gap-1">
+      {[0, 1, 2, 3, 4].map((level) => (
+        <div
+          key={level}
+          className={cn(
+            'h-1.5 flex-1 rounded-full',
+            level <= score ? scoreStyles[score].className : 'bg-muted'
+          )}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * 滑块 + 数字输入
+ */
+function NumberSlider({
+  id,
+  label,
+  value,
+  min,
+  max,
+  sliderMax,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  /** 滑块的上限，小于 max 时更长的值只能手动输入 */
+  sliderMax?: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor={id} className="text-xs">
+          {label}
+        </Label>
+        <Input
+          id={id}
+          type="number"
+          min={min}
+          max={max}
+          value={value}
+          onChange={(e) => {
+            const next = Number(e.target.value);
+            if (Number.isInteger(next)) onChange(Math.min(Math.max(next, min), max));
+          }}
+          className="h-7 w-20 text-xs"
+        />
+      </div>
+      <Slider
+        value={[Math.min(value, sliderMax ?? max)]}
+        min={min}
+        max={sliderMax ?? max}
+        step={1}
+        onValueChange={([next]) => onChange(next)}
+      />
+    </div>
+  );
+}
+
+function SwitchRow({
+  id,
+  label,
+  checked,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}) {
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <Label htmlFor={id} className="text-xs font-normal">
+        {label}
+      </Label>
+      <Switch id={id} checked={checked} onCheckedChange={onChange} />
+    </div>
+  );
+}
+
+/**
+ * 单个生成结果
+ */
+function SecretRow({
+  secret,
+  onAnalyze,
+}: {
+  secret: GeneratedSecret;
+  onAnalyze: (value: string) => void;
+}) {
+  const [copied, setCopied] = useState(false);
+  const score = entropyScore(secret.entropy);
+
+  const handleCopy = async (): Promise<void> => {
+    try {
+      await navigator.clipboard.writeText(secret.value);
+      setCopied(true);
+      toast.success('已复制到剪贴板');
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      toast.error('复制失败');
+    }
+  };
+
+  return (
+    <div className="space-y-1.5 rounded-md border bg-muted/30 p-2.5">
+      <div className="flex items-start gap-2">
+        <code className="min-w-0 flex-1 break-all font-mono text-sm">{secret.value}</code>
+        <div className="flex shrink-0 gap-0.5">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onAnalyze(secret.value)}
+            className="h-6 w-6 p-0"
+            title="强度检测"
+          >
+            <Gauge className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleCopy}
+            className="h-6 w-6 p-0"
+            title="复制"
+          >
+            {copied ? (
+              <Check className="h-3.5 w-3.5 text-green-500" />
+            ) : (
+              <Copy className="h-3.5 w-3.5" />
+            )}
+          </Button>
+        </div>
+      </div>
+      <ScoreBar score={score} />
+      <div className="flex flex-wrap gap-x-3 text-xs text-muted-foreground">
+        <span>{scoreStyles[score].label}</span>
+        <span>熵 {secret.entropy.toFixed(1)} 位</span>
+        <span>离线快哈希破解约需 {formatDuration(offlineCrackSeconds(secret.entropy))}</span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 强度检测面板
+ */
+function StrengthPanel({
+  password,
+  onChange,
+}: {
+  password: string;
+  onChange: (value: string) => void;
+}) {
+  const [visible, setVisible] = useState(false);
+  const result = useMemo(() => (password ? analyzePassword(password) : null), [password]);
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <div className="space-y-3">
+        <div className="space-y-1.5">
+          <Label htmlFor="strength-input" className="text-xs">
+            待检测的密码
+          </Label>
+          <div className="relative">
+            <Input
+              id="strength-input"
+              type={visible ? 'text' : 'password'}
+              value={password}
+              onChange={(e) => onChange(e.target.value)}
+              placeholder="输入密码..."
+              autoComplete="off"
+              spellCheck={false}
+              className="pr-9 font-mono"
+            />
+            <button
+              onClick={() => setVisible(!visible)}
+              className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+              title={visible ? '隐藏' : '显示'}
+            >
+              {visible ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+            </button>
+          </div>
+        </div>
+
+        {result && (
+          <>
+            <div className="space-y-1.5">
+              <ScoreBar score={result.score} />
+              <div className="flex flex-wrap gap-x-3 text-xs text-muted-foreground">
+                <span className="font-medium text-foreground">
+                  {scoreStyles[result.score].label}
+                </span>
+                <span>约 {formatGuesses(result.guesses)} 次猜测</span>
+                <span>熵 {result.entropy.toFixed(1)} 位</span>
+              </div>
+            </div>
+
+            {result.warning && (
+              <div className="flex items-start gap-2 rounded-md bg-amber-500/10 p-2.5 text-amber-600">
+                <TriangleAlert className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                <p className="text-xs">{result.warning}</p>
+              </div>
+            )}
+            {result.suggestions.length > 0 && (
+              <ul className="list-disc space-y-0.5 pl-5 text-xs text-muted-foreground">
+                {result.suggestions.map((suggestion) => (
+                  <li key={suggestion}>{suggestion}</li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </div>
+
+      {result ? (
+        <div className="space-y-3">
+          {/* 破解耗时 */}
+          <div className="space-y-1 rounded-md border bg-muted/30 p-2.5">
+            {(Object.keys(scenarioLabels) as CrackScenario[]).map((scenario) => (
+              <div key={scenario} className="flex items-baseline gap-2 text-xs">
+                <span className="w-32 shrink-0 font-medium">{scenarioLabels[scenario].label}</span>
+                <span className="flex-1 text-muted-foreground">{scenarioLabels[scenario].hint}</span>
+                <span className="font-mono">{formatDuration(result.crackTimes[scenario])}</span>
+              </div>
+            ))}
+          </div>
+
+          {/* 识别出的模式 */}
+          <div className="space-y-1.5">
+            <Label className="text-xs">组成分析</Label>
+            <div className="space-y-1">
+              {result.sequence.map((match) => (
+                <div
+                  key={`${match.i}-${match.j}`}
+                  className="flex items-center gap-2 rounded-md border px-2 py-1 text-xs"
+                >
+                  <span className="w-10 shrink-0 rounded bg-muted px-1 text-center">
+                    {patternLabels[match.pattern]}
+                  </span>
+                  <code className="min-w-0 flex-1 break-all font-mono">{match.token}</code>
+                  {match.word && match.word !== match.token.toLowerCase() && (
+                    <span className="text-muted-foreground">→ {match.word}</span>
+                  )}
+                  <span className="shrink-0 font-mono text-muted-foreground">
+                    {formatGuesses(match.guesses)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="flex h-40 items-center justify-center rounded-md border border-dashed text-xs text-muted-foreground">
+          输入密码后显示强度分析
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * 密码生成主组件
+ * 只分享生成选项，生成的密码不参与分享和历史记录
+ */
+export const PasswordGenerator = () => {
+  const { initialState, reportState } = useToolState<PasswordGeneratorState>();
+
+  const [settings, setSettings] = useState<PasswordGeneratorState>(
+    () => initialState ?? DEFAULT_STATE
+  );
+  const [tab, setTab] = useState<ToolTab>(settings.mode);
+  const [generated, setGenerated] = useState(() => safeGenerate(settings));
+  const [checkInput, setCheckInput] = useState('');
+
+  // 上报可分享的状态
+  useEffect(() => {
+    reportState(settings);
+  }, [settings, reportState]);
+
+  // 选项变化时立即重新生成
+  const update = (patch: Partial<PasswordGeneratorState>): void => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    setGenerated(safeGenerate(next));
+  };
+
+  const updatePassword = (patch: Partial<PasswordOptions>): void =>
+    update({ password: { ...settings.password, ...patch } });
+  const updatePassphrase = (patch: Partial<PassphraseOptions>): void =>
+    update({ passphrase: { ...settings.passphrase, ...patch } });
+  const updateToken = (patch: Partial<TokenOptions>): void =>
+    update({ token: { ...settings.token, ...patch } });
+
+  const handleTabChange = (next: ToolTab): void => {
+    setTab(next);
+    if (next !== 'strength' && next !== settings.mode) update({ mode: next });
+  };
+
+  const handleAnalyze = (value: string): void => {
+    setCheckInput(value);
+    setTab('strength');
+  };
+
+  const handleCopyAll = async (): Promise<void> => {
+    try {
+      await navigator.clipboard.writeText(generated.secrets.map((s) => s.value).join('\n'));
+      toast.success(`已复制 ${generated.secrets.length} 条`);
+    } catch {
+      toast.error('复制失败');
+    }
+  };
+
+  const currentFormat = tokenFormats.find((format) => format.id === settings.token.format);
+
+  return (
+    <div className="flex h-full flex-col">
+      {/* 头部 - 固定 */}
+      <div className="flex shrink-0 items-start justify-between gap-3 border-b p-4">
+        <div>
+          <h1 className="text-xl font-semibold">密码生成</h1>
+          <p className="mt-1 text-sm text-muted-foreground">
+            生成随机密码、Diceware 口令和 API 密钥，并估算破解难度
+          </p>
+        </div>
+        <div className="flex shrink-0 rounded-md border bg-muted p-0.5">
+          {(
+            [
+              { value: 'password', label: '随机密码', icon: KeyRound },
+              { value: 'passphrase', label: '助记口令', icon: BookText },
+              { value: 'token', label: 'API 密钥', icon: KeySquare },
+              { value: 'strength', label: '强度检测', icon: Gauge },
+            ] as const
+          ).map(({ value, label, icon: Icon }) => (
+            <button
+              key={value}
+              onClick={() => handleTabChange(value)}
+              className={cn(
+                'flex items-center gap-1 rounded px-2.5 py-1 text-xs font-medium transition-colors',
+                tab === value
+                  ? 'bg-background text-foreground shadow-sm'
+                  : 'text-muted-foreground hover:text-foreground'
+              )}
+            >
+              <Icon className="h-3.5 w-3.5" />
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className={cn('min-h-0 flex-1 overflow-y-auto p-4', scrollbarStyles)}>
+        {tab === 'strength' ? (
+          <StrengthPanel password={checkInput} onChange={setCheckInput} />
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            {/* 左侧：选项 */}
+            <div className="space-y-4">
+              {tab === 'password' && (
+                <>
+                  <NumberSlider
+                    id="password-length"
+                    label="长度"
+                    value={settings.password.length}
+                    min={4}
+                    max={MAX_LENGTH}
+                    sliderMax={64}
+                    onChange={(length) => updatePassword({ length })}
+                  />
+                  <div className="space-y-2">
+                    <SwitchRow
+                      id="password-lowercase"
+                      label="小写字母 a-z"
+                      checked={settings.password.lowercase}
+                      onChange={(lowercase) => updatePassword({ lowercase })}
+                    />
+                    <SwitchRow
+                      id="password-uppercase"
+                      label="大写字母 A-Z"
+                      checked={settings.password.uppercase}
+                      onChange={(uppercase) => updatePassword({ uppercase })}
+                    />
+                    <SwitchRow
+                      id="password-digits"
+                      label="数字 0-9"
+                      checked={settings.password.digits}
+                      onChange={(digits) => updatePassword({ digits })}
+                    />
+                    <SwitchRow
+                      id="password-symbols"
+                      label="符号 !@#$%..."
+                      checked={settings.password.symbols}
+                      onChange={(symbols) => updatePassword({ symbols })}
+                    />
+                    <SwitchRow
+                      id="password-ambiguous"
+                      label="排除易混淆字符 I l 1 | O 0 o"
+                      checked={settings.password.excludeAmbiguous}
+                      onChange={(excludeAmbiguous) => updatePassword({ excludeAmbiguous })}
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="password-exclude" className="text-xs">
+                      排除字符
+                    </Label>
+                    <Input
+                      id="password-exclude"
+                      value={settings.password.exclude}
+                      onChange={(e) => updatePassword({ exclude: e.target.value })}
+                      placeholder="例如 {}[]<>"
+                      spellCheck={false}
+                      className="h-8 font-mono text-xs"
+                    />
+                  </div>
+                </>
+              )}
+
+              {tab === 'passphrase' && (
+                <>
+                  <NumberSlider
+                    id="passphrase-words"
+                    label="单词个数"
+                    value={settings.passphrase.words}
+                    min={3}
+                    max={MAX_WORDS}
+                    onChange={(words) => updatePassphrase({ words })}
+                  />
+                  <div className="space-y-1.5">
+                    <Label className="text-xs">分隔符</Label>
+                    <Segmented
+                      options={separatorOptions}
+                      value={settings.passphrase.separator}
+                      onChange={(separator) => updatePassphrase({ separator })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <SwitchRow
+                      id="passphrase-capitalize"
+                      label="首字母大写"
+                      checked={settings.passphrase.capitalize}
+                      onChange={(capitalize) => updatePassphrase({ capitalize })}
+                    />
+                    <SwitchRow
+                      id="passphrase-number"
+                      label="随机位置加一位数字"
+                      checked={settings.passphrase.includeNumber}
+                      onChange={(includeNumber) => updatePassphrase({ includeNumber })}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    词表共 1296 个常用英文单词，每个单词约 10.3 位熵
+                  </p>
+                </>
+              )}
+
+              {tab === 'token' && (
+                <>
+                  <div className="space-y-1.5">
+                    <Label className="text-xs">格式</Label>
+                    <Segmented
+                      options={tokenFormats.map((format) => ({
+                        value: format.id,
+                        label: format.name,
+                      }))}
+                      value={settings.token.format}
+                      onChange={(format) => {
+                        const next = tokenFormats.find((item) => item.id === format);
+                        updateToken({
+                          format,
+                          length: next?.defaultLength ?? settings.token.length,
+                        });
+                      }}
+                    />
+                    {currentFormat && (
+                      <p className="text-xs text-muted-foreground">{currentFormat.description}</p>
+                    )}
+                  </div>
+                  {currentFormat?.defaultLength && (
+                    <NumberSlider
+                      id="token-length"
+                      label={settings.token.format === 'hex' ? '字节数' : '长度'}
+                      value={settings.token.length}
+                      min={8}
+                      max={MAX_LENGTH}
+                      sliderMax={128}
+                      onChange={(length) => updateToken({ length })}
+                    />
+                  )}
+                </>
+              )}
+
+              <div className="space-y-1.5">
+                <Label className="text-xs">生成个数</Label>
+                <Segmented
+                  options={countOptions.map((count) => ({ value: count, label: String(count) }))}
+                  value={settings.count}
+                  onChange={(count) => update({ count })}
+                />
+              </div>
+            </div>
+
+            {/* 右侧：生成结果 */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs">生成结果</Label>
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleCopyAll}
+                    disabled={generated.secrets.length === 0}
+                    className="h-6 gap-1 px-1.5 text-xs"
+                  >
+                    <Copy className="h-3 w-3" />
+                    全部复制
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setGenerated(safeGenerate(settings))}
+                    className="h-6 gap-1 px-1.5 text-xs"
+                  >
+                    <RefreshCw className="h-3 w-3" />
+                    重新生成
+                  </Button>
+                </div>
+              </div>
+
+              {generated.error && (
+                <div className="flex items-start gap-2 rounded-md bg-destructive/10 p-2.5 text-destructive">
+                  <Info className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                  <p className="text-xs">{generated.error}</p>
+                </div>
+              )}
+              {generated.secrets.map((secret, index) => (
+                <SecretRow
+                  key={`${index}-${secret.value}`}
+                  secret={secret}
+                  onAnalyze={handleAnalyze}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* 底部提示 - 固定 */}
+      <div className="shrink-0 border-t px-4 py-2">
+        <p className="text-xs text-muted-foreground">
+          所有处理均在本地完成，随机数来自 crypto.getRandomValues，生成的密码不会写入历史记录或分享链接。
+        </p>
+      </div>
+    </div>
+  );
+};
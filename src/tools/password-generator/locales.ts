@@ -0,0 +1,75 @@
+import { defineMessages } from '@/lib/i18n';
+
+/**
+ * 密码生成工具的消息目录
+ */
+export const t = defineMessages(
+  {
+    'error.emptyCharset': '请至少选择一类字符，且不要排除全部字符',
+    'error.invalidLength': '长度必须是 1 到 {max} 之间的整数',
+    'error.invalidWordCount': '单词个数必须是 1 到 {max} 之间的整数',
+    'warning.topPassword': '这是最常见的密码之一',
+    'warning.commonPassword': '这是很常见的密码',
+    'warning.similarToCommon': '与常见密码非常相似',
+    'warning.singleWord': '单个单词很容易被猜到',
+    'warning.sequence': 'abc、6543 这样的序列很容易被猜到',
+    'warning.keyboard': 'qwerty、asdf 这样的键盘相邻按键很容易被猜到',
+    'warning.repeatChar': '"aaa" 这样的重复字符很容易被猜到',
+    'warning.repeatBlock': '"abcabcabc" 这样的重复只比 "abc" 难猜一点',
+    'warning.date': '年份和日期很容易被猜到',
+    'warning.short': '密码太短',
+    'suggestion.empty': '使用几个不相关的单词组成口令，避免常见短语',
+    'suggestion.noNeedSymbols': '不必强求符号、数字或大写字母，长度更重要',
+    'suggestion.addWord': '再加一两个不常见的单词',
+    'suggestion.capitalization': '只把首字母大写几乎没有帮助',
+    'suggestion.allUppercase': '全部大写和全部小写一样容易猜',
+    'suggestion.reversed': '倒着拼写单词并不会难猜多少',
+    'suggestion.l33t': '@ 代替 a、0 代替 o 这类替换并不会难猜多少',
+    'suggestion.avoidSequence': '避免使用连续的字母、数字或键盘按键',
+    'suggestion.avoidRepeat': '避免重复的单词和字符',
+    'suggestion.avoidDate': '避免使用与自己相关的年份和日期',
+    'suggestion.useLonger': '使用更长的密码，或改用随机生成的密码',
+    'duration.instant': '不到 1 秒',
+    'duration.seconds': '{n} 秒',
+    'duration.minutes': '{n} 分钟',
+    'duration.hours': '{n} 小时',
+    'duration.days': '{n} 天',
+    'duration.months': '{n} 个月',
+    'duration.years': '{n} 年',
+    'duration.centuries': '数百年以上',
+  },
+  {
+    'error.emptyCharset': 'Select at least one character class, and do not exclude every character',
+    'error.invalidLength': 'Length must be an integer between 1 and {max}',
+    'error.invalidWordCount': 'Word count must be an integer between 1 and {max}',
+    'warning.topPassword': 'This is one of the most common passwords',
+    'warning.commonPassword': 'This is a very common password',
+    'warning.similarToCommon': 'This is very similar to a common password',
+    'warning.singleWord': 'A single word is easy to guess',
+    'warning.sequence': 'Sequences like abc or 6543 are easy to guess',
+    'warning.keyboard': 'Adjacent keyboard keys like qwerty or asdf are easy to guess',
+    'warning.repeatChar': 'Repeats like "aaa" are easy to guess',
+    'warning.repeatBlock': 'Repeats like "abcabcabc" are only slightly harder to guess than "abc"',
+    'warning.date': 'Years and dates are easy to guess',
+    'warning.short': 'The password is too short',
+    'suggestion.empty': 'Use a few unrelated words and avoid common phrases',
+    'suggestion.noNeedSymbols': 'Symbols, digits and uppercase letters are not required; length matters more',
+    'suggestion.addWord': 'Add another word or two. Uncommon words are better',
+    'suggestion.capitalization': 'Capitalizing the first letter does not help very much',
+    'suggestion.allUppercase': 'All-uppercase is almost as easy to guess as all-lowercase',
+    'suggestion.reversed': 'Reversed words are not much harder to guess',
+    'suggestion.l33t': 'Predictable substitutions like @ for a or 0 for o do not help very much',
+    'suggestion.avoidSequence': 'Avoid sequences of letters, digits or keyboard keys',
+    'suggestion.avoidRepeat': 'Avoid repeated words and characters',
+    'suggestion.avoidDate': 'Avoid years and dates that are associated with you',
+    'suggestion.useLonger': 'Use a longer password, or a randomly generated one',
+    'duration.instant': 'less than a second',
+    'duration.seconds': '{n} seconds',
+    'duration.minutes': '{n} minutes',
+    'duration.hours': '{n} hours',
+    'duration.days': '{n} days',
+    'duration.months': '{n} months',
+    'duration.years': '{n} years',
+    'duration.centuries': 'centuries',
+  }
+);
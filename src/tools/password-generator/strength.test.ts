@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { analyzePassword } from './strength';
+
+const patterns = (password: string) =>
+  analyzePassword(password).sequence.map((match) => match.pattern);
+
+describe('强度分析', () => {
+  it('常见密码得分为 0', () => {
+    const result = analyzePassword('password');
+    expect(result.score).toBe(0);
+    expect(result.guesses).toBe(3);
+    expect(result.warning).toBe('这是最常见的密码之一');
+  });
+
+  it('识别 l33t 替换和大小写', () => {
+    const result = analyzePassword('P@ssw0rd');
+    expect(result.score).toBeLessThanOrEqual(1);
+    expect(result.sequence).toHaveLength(1);
+    expect(result.sequence[0]).toMatchObject({ pattern: 'dictionary', l33t: true, word: 'password' });
+    expect(result.suggestions).toContain('@ 代替 a、0 代替 o 这类替换并不会难猜多少');
+  });
+
+  it('识别序列、键盘路径、重复和日期', () => {
+    expect(patterns('abcdefgh')).toEqual(['sequence']);
+    expect(patterns('zxcvbnm,./')).toEqual(['keyboard']);
+    expect(patterns('aaaaaaaa')).toEqual(['repeat']);
+    expect(analyzePassword('aaaaaaaa').warning).toBe('"aaa" 这样的重复字符很容易被猜到');
+    expect(patterns('1990-05-17')).toEqual(['date']);
+  });
+
+  it('单词加年份的组合', () => {
+    const result = analyzePassword('tiger1987');
+    expect(result.sequence.map((match) => match.token)).toEqual(['tiger', '1987']);
+    expect(result.score).toBeLessThanOrEqual(2);
+  });
+
+  it('倒序单词', () => {
+    const [match] = analyzePassword('drowssap').sequence;
+    expect(match).toMatchObject({ pattern: 'dictionary', reversed: true, word: 'password' });
+  });
+
+  it('随机口令和随机密码得分高', () => {
+    expect(analyzePassword('correct-horse-battery-staple-violin').score).toBe(4);
+    const random = analyzePassword('q8#Tz!m2Rv$L');
+    expect(random.score).toBe(4);
+    expect(random.warning).toBeUndefined();
+    expect(random.suggestions).toEqual([]);
+  });
+
+  it('破解耗时随场景递减', () => {
+    const { crackTimes, guesses, entropy } = analyzePassword('Tr0ub4dour&3');
+    expect(entropy).toBeCloseTo(Math.log2(guesses));
+    expect(crackTimes.onlineThrottled).toBeGreaterThan(crackTimes.onlineUnthrottled);
+    expect(crackTimes.offlineSlow).toBeGreaterThan(crackTimes.offlineFast);
+    expect(crackTimes.offlineFast).toBeCloseTo(guesses / 1e10);
+  });
+
+  it('空密码给出建议', () => {
+    const result = analyzePassword('');
+    expect(result.score).toBe(0);
+    expect(result.suggestions).toHaveLength(2);
+  });
+});
@@ -0,0 +1,623 @@
+/**
+ * zxcvbn 风格的密码强度分析
+ * 先找出字典词、序列、键盘路径、重复和日期等可预测的片段，再用动态规划求猜测次数最少的拆分：
+ * 猜测次数 = l! × Π 各片段猜测次数 + 10000^(l-1)，l 为片段数，后一项惩罚过细的拆分
+ */
+
+import { t } from './locales';
+import { COMMON_PASSWORDS, DICEWARE_WORDS } from './wordlist';
+import type { CrackScenario, PasswordMatch, StrengthResult } from './types';
+
+/** 超过此长度的部分不参与分析（只会让密码更强） */
+const MAX_ANALYZED_LENGTH = 100;
+
+const MIN_GUESSES_BEFORE_GROWING_SEQUENCE = 10000;
+
+/** 暴力破解时每个字符的可能数 */
+const BRUTEFORCE_CARDINALITY = 10;
+
+/** 年份猜测空间的下限 */
+const MIN_YEAR_SPACE = 20;
+
+const REFERENCE_YEAR = new Date().getFullYear();
+
+/**
+ * 普通单词的排名，取词表大小，使随机口令的估计接近其真实熵
+ */
+const WORD_RANK = DICEWARE_WORDS.length;
+
+/** 键盘上相邻按键组成的路径 */
+const KEYBOARD_PATHS = [
+  '`1234567890-=',
+  'qwertyuiop[]\\',
+  "asdfghjkl;'",
+  'zxcvbnm,./',
+  '1qaz2wsx3edc4rfv5tgb6yhn7ujm8ik,9ol.0p;/',
+  'qazwsxedcrfvtgbyhnujmikolp',
+];
+
+/** 键盘路径每一步的平均可选按键数 × 起始按键数 */
+const KEYBOARD_GUESSES_PER_STEP = 94 * 4;
+
+/** 常见的 l33t 替换，每个字符最多两种还原方式 */
+const L33T_TABLE: Record<string, string[]> = {
+  '4': ['a'],
+  '@': ['a'],
+  '8': ['b'],
+  '(': ['c'],
+  '3': ['e'],
+  '6': ['g'],
+  '9': ['g'],
+  '1': ['i', 'l'],
+  '!': ['i'],
+  '|': ['i', 'l'],
+  '0': ['o'],
+  $: ['s'],
+  '5': ['s'],
+  '7': ['t'],
+  '+': ['t'],
+  '2': ['z'],
+};
+
+/** 各破解场景每秒的猜测次数 */
+const GUESSES_PER_SECOND: Record<CrackScenario, number> = {
+  onlineThrottled: 100 / 3600,
+  onlineUnthrottled: 10,
+  offlineSlow: 1e4,
+  offlineFast: 1e10,
+};
+
+/**
+ * 字典：词 → 排名（常见密码在前，普通单词统一为 WORD_RANK）
+ */
+let rankedDictionary: Map<string, { rank: number; common: boolean }> | null = null;
+
+function getDictionary(): Map<string, { rank: number; common: boolean }> {
+  if (!rankedDictionary) {
+    rankedDictionary = new Map();
+    COMMON_PASSWORDS.forEach((word, index) => {
+      rankedDictionary!.set(word, { rank: index + 1, common: true });
+    });
+    for (const word of DICEWARE_WORDS) {
+      if (!rankedDictionary.has(word)) {
+        rankedDictionary.set(word, { rank: WORD_RANK, common: false });
+      }
+    }
+  }
+  return rankedDictionary;
+}
+
+// ============================================================================
+// 模式匹配
+// ============================================================================
+
+/**
+ * 字典命中的位置和词条
+ */
+interface DictionaryHit {
+  i: number;
+  j: number;
+  word: string;
+  rank: number;
+  common: boolean;
+}
+
+/**
+ * 在小写化后的文本中查找字典词（至少 3 个字符）
+ */
+function findWords(text: string): DictionaryHit[] {
+  const dictionary = getDictionary();
+  const found: DictionaryHit[] = [];
+  for (let i = 0; i < text.length; i++) {
+    for (let j = i + 2; j < text.length; j++) {
+      const word = text.slice(i, j + 1);
+      const entry = dictionary.get(word);
+      if (entry) found.push({ i, j, word, ...entry });
+    }
+  }
+  return found;
+}
+
+/**
+ * 大小写变化带来的额外猜测倍数：全小写为 1，首字母 / 末字母 / 全部大写为 2，其余按组合数计算
+ */
+function uppercaseVariations(token: string): number {
+  if (token.toLowerCase() === token) return 1;
+  if (/^[A-Z][^A-Z]+$/.test(token) || /^[^A-Z]+[A-Z]$/.test(token) || !/[a-z]/.test(token)) {
+    return 2;
+  }
+  const upper = token.replace(/[^A-Z]/g, '').length;
+  const lower = token.replace(/[^a-z]/g, '').length;
+  let variations = 0;
+  for (let i = 1; i <= Math.min(upper, lower); i++) {
+    variations += binomial(upper + lower, i);
+  }
+  return variations;
+}
+
+/**
+ * l33t 替换带来的额外猜测倍数
+ */
+function l33tVariations(token: string, word: string): number {
+  let variations = 1;
+  const lowerToken = token.toLowerCase();
+  for (const letter of new Set(word)) {
+    const substituted = [...lowerToken].filter(
+      (char, index) => word[index] === letter && char !== letter
+    ).length;
+    const unsubstituted = [...lowerToken].filter(
+      (char, index) => word[index] === letter && char === letter
+    ).length;
+    if (substituted === 0) continue;
+    if (unsubstituted === 0) {
+      variations *= 2;
+    } else {
+      let sum = 0;
+      for (let i = 1; i <= Math.min(substituted, unsubstituted); i++) {
+        sum += binomial(substituted + unsubstituted, i);
+      }
+      variations *= sum;
+    }
+  }
+  return variations;
+}
+
+function dictionaryMatches(password: string): PasswordMatch[] {
+  const lower = password.toLowerCase();
+  const n = lower.length;
+  const matches: PasswordMatch[] = [];
+  const add = (hit: DictionaryHit, i: number, j: number, extra: Partial<PasswordMatch> = {}) => {
+    const token = password.slice(i, j + 1);
+    let guesses = hit.rank * uppercaseVariations(token);
+    if (extra.reversed) guesses *= 2;
+    if (extra.l33t) guesses *= l33tVariations(token, hit.word);
+    matches.push({
+      pattern: 'dictionary',
+      i,
+      j,
+      token,
+      guesses,
+      word: hit.word,
+      rank: hit.rank,
+      commonPassword: hit.common,
+      ...extra,
+    });
+  };
+
+  for (const hit of findWords(lower)) {
+    add(hit, hit.i, hit.j);
+  }
+
+  // 倒序拼写
+  const reversed = [...lower].reverse().join('');
+  for (const hit of findWords(reversed)) {
+    const i = n - 1 - hit.j;
+    const j = n - 1 - hit.i;
+    const token = password.slice(i, j + 1);
+    if (token.toLowerCase() === hit.word) continue; // 回文已作为正序匹配
+    add(hit, i, j, { reversed: true });
+  }
+
+  // l33t 还原：每个替换字符取第一种 / 第二种还原方式各尝试一次
+  if ([...lower].some((char) => char in L33T_TABLE)) {
+    for (const variant of [0, 1]) {
+      const unleeted = [...lower]
+        .map((char) => L33T_TABLE[char]?.[Math.min(variant, L33T_TABLE[char].length - 1)] ?? char)
+        .join('');
+      for (const hit of findWords(unleeted)) {
+        const token = password.slice(hit.i, hit.j + 1);
+        if (token.toLowerCase() === hit.word) continue; // 没有发生替换
+        if (matches.some((m) => m.l33t && m.i === hit.i && m.j === hit.j)) continue;
+        add(hit, hit.i, hit.j, { l33t: true });
+      }
+    }
+  }
+  return matches;
+}
+
+/**
+ * 连续的字母或数字（abc、9876 等步长为 1 的序列）
+ */
+function sequenceMatches(password: string): PasswordMatch[] {
+  const matches: PasswordMatch[] = [];
+  const charClass = (char: string) =>
+    /[a-z]/.test(char) ? 'lower' : /[A-Z]/.test(char) ? 'upper' : /\d/.test(char) ? 'digit' : null;
+
+  let i = 0;
+  while (i < password.length - 2) {
+    const delta = password.charCodeAt(i + 1) - password.charCodeAt(i);
+    const cls = charClass(password[i]);
+    let j = i + 1;
+    if (cls && Math.abs(delta) === 1 && charClass(password[j]) === cls) {
+      while (
+        j + 1 < password.length &&
+        password.charCodeAt(j + 1) - password.charCodeAt(j) === delta &&
+        charClass(password[j + 1]) === cls
+      ) {
+        j++;
+      }
+    }
+    if (j - i + 1 >= 3) {
+      const token = password.slice(i, j + 1);
+      // 从 a、z、0、1、9 开始的序列最容易想到
+      const base = /^[aAzZ019]/.test(token) ? 4 : cls === 'digit' ? 10 : 26;
+      matches.push({
+        pattern: 'sequence',
+        i,
+        j,
+        token,
+        guesses: base * token.length * (delta < 0 ? 2 : 1),
+        reversed: delta < 0,
+      });
+      i = j;
+    } else {
+      i++;
+    }
+  }
+  return matches;
+}
+
+/**
+ * 键盘上相邻按键的路径（qwerty、1qaz2wsx 等），正反方向均可
+ */
+function keyboardMatches(password: string): PasswordMatch[] {
+  const lower = password.toLowerCase();
+  const matches: PasswordMatch[] = [];
+  const paths = KEYBOARD_PATHS.flatMap((path) => [path, [...path].reverse().join('')]);
+  for (let i = 0; i < lower.length; i++) {
+    let longest = 0;
+    for (const path of paths) {
+      let length = 0;
+      const start = path.indexOf(lower[i]);
+      if (start < 0) continue;
+      while (i + length < lower.length && path[start + length] === lower[i + length]) length++;
+      longest = Math.max(longest, length);
+    }
+    if (longest >= 4) {
+      const token = password.slice(i, i + longest);
+      matches.push({
+        pattern: 'keyboard',
+        i,
+        j: i + longest - 1,
+        token,
+        guesses: KEYBOARD_GUESSES_PER_STEP * (longest - 1) * uppercaseVariations(token),
+      });
+      i += longest - 1;
+    }
+  }
+  return matches;
+}
+
+/**
+ * 重复的字符或片段（aaa、abcabc）
+ */
+function repeatMatches(password: string): PasswordMatch[] {
+  const matches: PasswordMatch[] = [];
+  let i = 0;
+  while (i < password.length) {
+    const rest = password.slice(i);
+    const greedy = /^(.+)\1+/.exec(rest);
+    const lazy = /^(.+?)\1+/.exec(rest);
+    if (!greedy || !lazy) {
+      i++;
+      continue;
+    }
+    // 贪婪匹配更长时（如 aabaab），其重复单元取贪婪结果中的最短单元
+    const token = greedy[0].length > lazy[0].length ? greedy[0] : lazy[0];
+    const base = greedy[0].length > lazy[0].length ? /^(.+?)\1+$/.exec(greedy[0])![1] : lazy[1];
+    const baseGuesses = mostGuessableSequence(base).guesses;
+    matches.push({
+      pattern: 'repeat',
+      i,
+      j: i + token.length - 1,
+      token,
+      word: base,
+      guesses: baseGuesses * (token.length / base.length),
+    });
+    i += token.length;
+  }
+  return matches;
+}
+
+/**
+ * 年份（1900 - 2099）和日期（yyyymmdd、dd/mm/yy 等）
+ */
+function dateMatches(password: string): PasswordMatch[] {
+  const matches: PasswordMatch[] = [];
+  const yearSpace = (year: number) => Math.max(Math.abs(year - REFERENCE_YEAR), MIN_YEAR_SPACE);
+
+  for (let i = 0; i + 4 <= password.length; i++) {
+    const token = password.slice(i, i + 4);
+    if (/^(19|20)\d\d$/.test(token)) {
+      matches.push({ pattern: 'date', i, j: i + 3, token, guesses: yearSpace(Number(token)) });
+    }
+  }
+
+  // 无分隔符的 6 / 8 位数字
+  for (let i = 0; i < password.length; i++) {
+    for (const length of [6, 8]) {
+      const token = password.slice(i, i + length);
+      if (token.length !== length || !/^\d+$/.test(token)) continue;
+      const year = parseDigitDate(token);
+      if (year !== null) {
+        matches.push({
+          pattern: 'date',
+          i,
+          j: i + length - 1,
+          token,
+          guesses: yearSpace(year) * 365,
+        });
+      }
+    }
+  }
+
+  // 带分隔符的日期，分隔符使猜测空间乘 4
+  const separated = /(\d{1,4})([\s/\\_.-])(\d{1,2})\2(\d{1,4})/g;
+  for (let i = 0; i < password.length; i++) {
+    separated.lastIndex = i;
+    const match = separated.exec(password);
+    if (!match || match.index !== i) continue;
+    const year = validDate([match[1], match[3], match[4]]);
+    if (year !== null) {
+      matches.push({
+        pattern: 'date',
+        i,
+        j: i + match[0].length - 1,
+        token: match[0],
+        guesses: yearSpace(year) * 365 * 4,
+      });
+    }
+  }
+  return matches;
+}
+
+/**
+ * 把纯数字拆成年月日，返回年份，无法组成合法日期时返回 null
+ */
+function parseDigitDate(digits: string): number | null {
+  const splits = digits.length === 8 ? [[4, 2, 2], [2, 2, 4]] : [[2, 2, 2]];
+  for (const [a, b] of splits) {
+    const year = validDate([digits.slice(0, a), digits.slice(a, a + b), digits.slice(a + b)]);
+    if (year !== null) return year;
+  }
+  return null;
+}
+
+/**
+ * 依次尝试 年-月-日、日-月-年、月-日-年，返回年份
+ */
+function validDate(parts: string[]): number | null {
+  const candidates: [string, string, string][] = [
+    [parts[0], parts[1], parts[2]],
+    [parts[2], parts[1], parts[0]],
+    [parts[2], parts[0], parts[1]],
+  ];
+  for (const [y, m, d] of candidates) {
+    const month = Number(m);
+    const day = Number(d);
+    let year = Number(y);
+    if (y.length === 2) year += year > 50 ? 1900 : 2000;
+    else if (y.length !== 4) continue;
+    if (month >= 1 && month <= 12 && day >= 1 && day <= 31 && year >= 1900 && year <= 2099) {
+      return year;
+    }
+  }
+  return null;
+}
+
+// ============================================================================
+// 最优拆分
+// ============================================================================
+
+function binomial(n: number, k: number): number {
+  if (k > n) return 0;
+  let result = 1;
+  for (let i = 1; i <= k; i++) {
+    result = (result * (n - k + i)) / i;
+  }
+  return result;
+}
+
+function factorial(n: number): number {
+  let result = 1;
+  for (let i = 2; i <= n; i++) result *= i;
+  return result;
+}
+
+function bruteforceMatch(password: string, i: number, j: number): PasswordMatch {
+  const length = j - i + 1;
+  return {
+    pattern: 'bruteforce',
+    i,
+    j,
+    token: password.slice(i, j + 1),
+    guesses: Math.max(BRUTEFORCE_CARDINALITY ** length, length === 1 ? 11 : 51),
+  };
+}
+
+/**
+ * 求猜测次数最少的片段序列（zxcvbn 的 most_guessable_match_sequence）
+ */
+function mostGuessableSequence(
+  password: string,
+  matches: PasswordMatch[] = []
+): { guesses: number; sequence: PasswordMatch[] } {
+  const n = password.length;
+  if (n === 0) return { guesses: 1, sequence: [] };
+
+  // 作为片段出现时，单字符至少 10 次、多字符至少 50 次
+  for (const match of matches) {
+    if (match.token.length < n) {
+      match.guesses = Math.max(match.guesses, match.token.length === 1 ? 10 : 50);
+    }
+  }
+  const byEnd: PasswordMatch[][] = Array.from({ length: n }, () => []);
+  for (const match of matches) byEnd[match.j].push(match);
+
+  // optimal[k]：以位置 k 结尾、共 l 个片段时的最优结果
+  const optimal: Map<number, { match: PasswordMatch; product: number; guesses: number }>[] =
+    Array.from({ length: n }, () => new Map());
+
+  const update = (match: PasswordMatch, l: number) => {
+    const k = match.j;
+    let product = match.guesses;
+    if (l > 1) product *= optimal[match.i - 1].get(l - 1)!.product;
+    const guesses = factorial(l) * product + MIN_GUESSES_BEFORE_GROWING_SEQUENCE ** (l - 1);
+    // 片段更少且猜测次数不更多的结果已存在时跳过
+    for (const [otherL, other] of optimal[k]) {
+      if (otherL <= l && other.guesses <= guesses) return;
+    }
+    optimal[k].set(l, { match, product, guesses });
+  };
+
+  for (let k = 0; k < n; k++) {
+    for (const match of byEnd[k]) {
+      if (match.i > 0) {
+        for (const l of [...optimal[match.i - 1].keys()]) update(match, l + 1);
+      } else {
+        update(match, 1);
+      }
+    }
+    // 暴力片段：不与前一个暴力片段相邻（合并总是更优）
+    update(bruteforceMatch(password, 0, k), 1);
+    for (let i = 1; i <= k; i++) {
+      const match = bruteforceMatch(password, i, k);
+      for (const [l, previous] of [...optimal[i - 1]]) {
+        if (previous.match.pattern !== 'bruteforce') update(match, l + 1);
+      }
+    }
+  }
+
+  // 回溯
+  let bestL = 0;
+  let bestGuesses = Infinity;
+  for (const [l, entry] of optimal[n - 1]) {
+    if (entry.guesses < bestGuesses) {
+      bestGuesses = entry.guesses;
+      bestL = l;
+    }
+  }
+  const sequence: PasswordMatch[] = [];
+  let k = n - 1;
+  let l = bestL;
+  while (k >= 0) {
+    const { match } = optimal[k].get(l)!;
+    sequence.unshift(match);
+    k = match.i - 1;
+    l--;
+  }
+  return { guesses: bestGuesses, sequence };
+}
+
+// ============================================================================
+// 对外接口
+// ============================================================================
+
+/**
+ * 分析密码强度
+ */
+export function analyzePassword(password: string): StrengthResult {
+  const analyzed = password.slice(0, MAX_ANALYZED_LENGTH);
+  const matches = [
+    ...dictionaryMatches(analyzed),
+    ...sequenceMatches(analyzed),
+    ...keyboardMatches(analyzed),
+    ...repeatMatches(analyzed),
+    ...dateMatches(analyzed),
+  ];
+  const { guesses, sequence } = mostGuessableSequence(analyzed, matches);
+
+  // 分界与 zxcvbn 相同：10^3、10^6、10^8、10^10 次
+  const thresholds = [1e3, 1e6, 1e8, 1e10];
+  const score = thresholds.filter((threshold) => guesses >= threshold + 5)
+    .length as StrengthResult['score'];
+
+  const crackTimes = Object.fromEntries(
+    Object.entries(GUESSES_PER_SECOND).map(([scenario, rate]) => [scenario, guesses / rate])
+  ) as Record<CrackScenario, number>;
+
+  return {
+    score,
+    guesses,
+    entropy: Math.log2(guesses),
+    crackTimes,
+    sequence,
+    ...getFeedback(password, score, sequence),
+  };
+}
+
+/**
+ * 根据最长的可预测片段给出问题和建议
+ */
+function getFeedback(
+  password: string,
+  score: number,
+  sequence: PasswordMatch[]
+): Pick<StrengthResult, 'warning' | 'suggestions'> {
+  if (password.length === 0) {
+    return { suggestions: [t('suggestion.empty'), t('suggestion.noNeedSymbols')] };
+  }
+  if (score > 2) {
+    return { suggestions: [] };
+  }
+
+  const longest = sequence
+    .filter((match) => match.pattern !== 'bruteforce')
+    .reduce<PasswordMatch | undefined>(
+      (best, match) => (!best || match.token.length > best.token.length ? match : best),
+      undefined
+    );
+  const suggestions = [t('suggestion.addWord')];
+  if (!longest) {
+    return {
+      warning: password.length < 8 ? t('warning.short') : undefined,
+      suggestions: [...suggestions, t('suggestion.useLonger')],
+    };
+  }
+
+  let warning: string | undefined;
+  switch (longest.pattern) {
+    case 'dictionary': {
+      const isSole = sequence.length === 1;
+      if (longest.commonPassword) {
+        if (isSole && !longest.l33t && !longest.reversed) {
+          warning =
+            longest.rank! <= 10
+              ? t('warning.topPassword')
+              : longest.rank! <= 100
+                ? t('warning.commonPassword')
+                : t('warning.similarToCommon');
+        } else {
+          warning = t('warning.similarToCommon');
+        }
+      } else if (isSole) {
+        warning = t('warning.singleWord');
+      }
+      if (/^[A-Z][^A-Z]+$/.test(longest.token)) {
+        suggestions.push(t('suggestion.capitalization'));
+      } else if (/[A-Z]/.test(longest.token) && !/[a-z]/.test(longest.token)) {
+        suggestions.push(t('suggestion.allUppercase'));
+      }
+      if (longest.reversed) suggestions.push(t('suggestion.reversed'));
+      if (longest.l33t) suggestions.push(t('suggestion.l33t'));
+      break;
+    }
+    case 'sequence':
+      warning = t('warning.sequence');
+      suggestions.push(t('suggestion.avoidSequence'));
+      break;
+    case 'keyboard':
+      warning = t('warning.keyboard');
+      suggestions.push(t('suggestion.avoidSequence'));
+      break;
+    case 'repeat':
+      warning = longest.word!.length === 1 ? t('warning.repeatChar') : t('warning.repeatBlock');
+      suggestions.push(t('suggestion.avoidRepeat'));
+      break;
+    case 'date':
+      warning = t('warning.date');
+      suggestions.push(t('suggestion.avoidDate'));
+      break;
+  }
+  return { warning, suggestions };
+}
@@ -0,0 +1,130 @@
+/**
+ * 密码生成工具类型定义
+ */
+
+/**
+ * 生成模式：随机密码、Diceware 口令、API 密钥 / 标识符
+ */
+export type GeneratorMode = 'password' | 'passphrase' | 'token';
+
+/**
+ * 随机密码选项
+ */
+export interface PasswordOptions {
+  length: number;
+  lowercase: boolean;
+  uppercase: boolean;
+  digits: boolean;
+  symbols: boolean;
+  /** 排除 I l 1 | O 0 o 等易混淆字符 */
+  excludeAmbiguous: boolean;
+  /** 额外排除的字符 */
+  exclude: string;
+}
+
+/**
+ * Diceware 口令选项
+ */
+export interface PassphraseOptions {
+  /** 单词个数 */
+  words: number;
+  separator: string;
+  /** 单词首字母大写 */
+  capitalize: boolean;
+  /** 在随机一个单词后追加一位数字 */
+  includeNumber: boolean;
+}
+
+/**
+ * API 密钥 / 标识符格式
+ */
+export type TokenFormat = 'hex' | 'base62' | 'uuid-v4' | 'uuid-v7' | 'ulid' | 'nanoid';
+
+/**
+ * API 密钥选项
+ */
+export interface TokenOptions {
+  format: TokenFormat;
+  /** hex 为字节数，base62 / nanoid 为字符数，其余格式长度固定 */
+  length: number;
+}
+
+/**
+ * 生成结果
+ */
+export interface GeneratedSecret {
+  value: string;
+  /** 熵（位），按生成方式计算 */
+  entropy: number;
+}
+
+/**
+ * 强度分析中识别出的模式
+ */
+export type MatchPattern =
+  | 'dictionary'
+  | 'sequence'
+  | 'keyboard'
+  | 'repeat'
+  | 'date'
+  | 'bruteforce';
+
+/**
+ * 密码中的一段匹配
+ */
+export interface PasswordMatch {
+  pattern: MatchPattern;
+  /** 起止位置（含） */
+  i: number;
+  j: number;
+  token: string;
+  /** 猜中这一段所需的次数 */
+  guesses: number;
+  /** 字典匹配的原词 */
+  word?: string;
+  /** 字典匹配的词在常见密码表中（否则为普通单词） */
+  commonPassword?: boolean;
+  /** 字典匹配的词在常见密码表中的排名 */
+  rank?: number;
+  /** 字典匹配是否经过 l33t 替换（如 p@ssw0rd） */
+  l33t?: boolean;
+  /** 字典 / 序列匹配是否为倒序 */
+  reversed?: boolean;
+}
+
+/**
+ * 破解场景：在线限速 / 在线不限速 / 离线慢哈希 / 离线快哈希
+ */
+export type CrackScenario = 'onlineThrottled' | 'onlineUnthrottled' | 'offlineSlow' | 'offlineFast';
+
+/**
+ * 强度分析结果
+ */
+export interface StrengthResult {
+  /** 强度等级 0 - 4 */
+  score: 0 | 1 | 2 | 3 | 4;
+  /** 估计的猜测次数 */
+  guesses: number;
+  /** 估计熵（位），即 log2(guesses) */
+  entropy: number;
+  /** 各场景下的破解耗时（秒） */
+  crackTimes: Record<CrackScenario, number>;
+  /** 猜测次数最少的匹配序列 */
+  sequence: PasswordMatch[];
+  /** 主要问题 */
+  warning?: string;
+  /** 改进建议 */
+  suggestions: string[];
+}
+
+/**
+ * 可分享的工具状态（只含选项，不含生成的密码）
+ */
+export interface PasswordGeneratorState {
+  mode: GeneratorMode;
+  password: PasswordOptions;
+  passphrase: PassphraseOptions;
+  token: TokenOptions;
+  /** 一次生成的个数 */
+  count: number;
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AMBIGUOUS_CHARS,
+  DEFAULT_PASSPHRASE_OPTIONS,
+  DEFAULT_PASSWORD_OPTIONS,
+  entropyScore,
+  formatDuration,
+  generatePassphrase,
+  generatePassword,
+  generateSecrets,
+  generateToken,
+  passwordCharsets,
+  randomInt,
+  ulid,
+  uuidV7,
+} from './utils';
+import { DICEWARE_WORDS } from './wordlist';
+
+describe('随机数', () => {
+  it('randomInt 覆盖整个区间且不越界', () => {
+    const seen = new Set<number>();
+    for (let i = 0; i < 2000; i++) {
+      const value = randomInt(7);
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(7);
+      seen.add(value);
+    }
+    expect(seen.size).toBe(7);
+  });
+});
+
+describe('随机密码', () => {
+  it('长度正确，每类字符至少出现一次', () => {
+    for (let i = 0; i < 50; i++) {
+      const { value } = generatePassword({ ...DEFAULT_PASSWORD_OPTIONS, length: 4 });
+      expect(value).toHaveLength(4);
+      expect(value).toMatch(/[a-z]/);
+      expect(value).toMatch(/[A-Z]/);
+      expect(value).toMatch(/\d/);
+      expect(value).toMatch(/[^a-zA-Z\d]/);
+    }
+  });
+
+  it('熵按字符集大小计算', () => {
+    const { entropy } = generatePassword({
+      ...DEFAULT_PASSWORD_OPTIONS,
+      length: 10,
+      uppercase: false,
+      symbols: false,
+    });
+    expect(entropy).toBeCloseTo(10 * Math.log2(36));
+  });
+
+  it('排除易混淆字符和自定义字符', () => {
+    const options = { ...DEFAULT_PASSWORD_OPTIONS, excludeAmbiguous: true, exclude: 'abc' };
+    const pool = passwordCharsets(options).join('');
+    for (const char of AMBIGUOUS_CHARS + 'abc') {
+      expect(pool).not.toContain(char);
+    }
+    expect(generatePassword({ ...options, length: 200 }).value).not.toMatch(/[Il1|O0oabc]/);
+  });
+
+  it('没有可用字符或长度无效时报错', () => {
+    const none = { ...DEFAULT_PASSWORD_OPTIONS, lowercase: false, uppercase: false, symbols: false };
+    expect(() => generatePassword({ ...none, exclude: '0123456789' })).toThrow('至少选择一类字符');
+    expect(() => generatePassword({ ...DEFAULT_PASSWORD_OPTIONS, length: 0 })).toThrow('长度必须');
+  });
+});
+
+describe('Diceware 口令', () => {
+  it('词表为 6^4 个不重复的小写单词', () => {
+    expect(DICEWARE_WORDS).toHaveLength(1296);
+    expect(new Set(DICEWARE_WORDS).size).toBe(1296);
+    expect(DICEWARE_WORDS.every((word) => /^[a-z]{3,8}$/.test(word))).toBe(true);
+  });
+
+  it('按分隔符拼接词表中的单词', () => {
+    const { value, entropy } = generatePassphrase(DEFAULT_PASSPHRASE_OPTIONS);
+    const words = value.split('-');
+    expect(words).toHaveLength(6);
+    expect(words.every((word) => DICEWARE_WORDS.includes(word))).toBe(true);
+    expect(entropy).toBeCloseTo(6 * Math.log2(1296));
+  });
+
+  it('首字母大写并追加数字', () => {
+    const { value, entropy } = generatePassphrase({
+      words: 4,
+      separator: ' ',
+      capitalize: true,
+      includeNumber: true,
+    });
+    expect(value).toMatch(/^([A-Z][a-z]+\d? ){3}[A-Z][a-z]+\d?$/);
+    expect(value.replace(/\D/g, '')).toHaveLength(1);
+    expect(entropy).toBeCloseTo(4 * Math.log2(1296) + Math.log2(10) + 2);
+  });
+});
+
+describe('API 密钥', () => {
+  it('Hex / Base62 / nanoid 长度与字符集', () => {
+    expect(generateToken({ format: 'hex', length: 16 }).value).toMatch(/^[0-9a-f]{32}$/);
+    expect(generateToken({ format: 'base62', length: 40 }).value).toMatch(/^[0-9A-Za-z]{40}$/);
+    expect(generateToken({ format: 'nanoid', length: 21 })).toMatchObject({ entropy: 126 });
+    expect(generateToken({ format: 'nanoid', length: 21 }).value).toMatch(/^[\w-]{21}$/);
+  });
+
+  it('UUID v4 版本和变体位', () => {
+    const { value, entropy } = generateToken({ format: 'uuid-v4', length: 0 });
+    expect(value).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(entropy).toBe(122);
+  });
+
+  it('UUID v7 以毫秒时间戳开头', () => {
+    const value = uuidV7(0x0189_5f3e_2b4c);
+    expect(value).toMatch(/^01895f3e-2b4c-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(uuidV7(1) < uuidV7(2)).toBe(true);
+  });
+
+  it('ULID 时间部分与规范示例一致', () => {
+    // https://github.com/ulid/spec 中 1469918176385 对应 01ARYZ6S41
+    const value = ulid(1469918176385);
+    expect(value).toMatch(/^01ARYZ6S41[0-9A-HJKMNP-TV-Z]{16}$/);
+  });
+});
+
+describe('批量生成与格式化', () => {
+  it('个数限制在 1 - 20', () => {
+    const state = {
+      mode: 'token' as const,
+      password: DEFAULT_PASSWORD_OPTIONS,
+      passphrase: DEFAULT_PASSPHRASE_OPTIONS,
+      token: { format: 'ulid' as const, length: 0 },
+      count: 50,
+    };
+    expect(generateSecrets(state)).toHaveLength(20);
+    expect(generateSecrets({ ...state, count: 0 })).toHaveLength(1);
+  });
+
+  it('时长格式化', () => {
+    expect(formatDuration(0.5)).toBe('不到 1 秒');
+    expect(formatDuration(90)).toBe('2 分钟');
+    expect(formatDuration(3 * 24 * 3600)).toBe('3 天');
+    expect(formatDuration(1e12)).toBe('数百年以上');
+  });
+
+  it('按熵划分强度等级', () => {
+    expect([20, 30, 50, 70, 128].map(entropyScore)).toEqual([0, 1, 2, 3, 4]);
+  });
+});
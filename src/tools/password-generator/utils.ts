@@ -0,0 +1,357 @@
+/**
+ * 随机密码、Diceware 口令与 API 密钥生成
+ * 随机数全部来自 crypto.getRandomValues，并用拒绝采样保证每个字符等概率
+ */
+
+import { bytesToHex } from '@/tools/crypto-tool/bytes';
+import { t } from './locales';
+import { DICEWARE_WORDS } from './wordlist';
+import type {
+  GeneratedSecret,
+  PassphraseOptions,
+  PasswordGeneratorState,
+  PasswordOptions,
+  StrengthResult,
+  TokenFormat,
+  TokenOptions,
+} from './types';
+
+// ============================================================================
+// 常量
+// ============================================================================
+
+/**
+ * 各类字符
+ */
+export const CHARSETS = {
+  lowercase: 'abcdefghijklmnopqrstuvwxyz',
+  uppercase: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  digits: '0123456789',
+  // 不含引号、反斜杠和空格，粘贴到配置文件或命令行时无需转义
+  symbols: '!@#$%^&*()-_=+[]{};:,.<>/?~',
+} as const;
+
+/** 易混淆字符 */
+export const AMBIGUOUS_CHARS = 'Il1|O0o';
+
+/** 密码 / 密钥的最大长度 */
+export const MAX_LENGTH = 256;
+
+/** 口令的最大单词数 */
+export const MAX_WORDS = 20;
+
+/** 一次最多生成的个数 */
+export const MAX_COUNT = 20;
+
+const BASE62_ALPHABET = CHARSETS.digits + CHARSETS.uppercase + CHARSETS.lowercase;
+
+/** nanoid 的 URL 安全字母表，共 64 个字符 */
+const NANOID_ALPHABET = 'useandom-26T198340PX75pxJACKVERYMINDBUSHWOLF_GQZbfghjklqvwyzrict';
+
+/** ULID 使用的 Crockford Base32 字母表 */
+const CROCKFORD_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+export const DEFAULT_PASSWORD_OPTIONS: PasswordOptions = {
+  length: 20,
+  lowercase: true,
+  uppercase: true,
+  digits: true,
+  symbols: true,
+  excludeAmbiguous: false,
+  exclude: '',
+};
+
+export const DEFAULT_PASSPHRASE_OPTIONS: PassphraseOptions = {
+  words: 6,
+  separator: '-',
+  capitalize: false,
+  includeNumber: false,
+};
+
+export const DEFAULT_TOKEN_OPTIONS: TokenOptions = {
+  format: 'hex',
+  length: 32,
+};
+
+/**
+ * API 密钥格式说明
+ */
+export const tokenFormats: {
+  id: TokenFormat;
+  name: string;
+  description: string;
+  /** 默认长度，未设置表示长度固定 */
+  defaultLength?: number;
+}[] = [
+  { id: 'hex', name: 'Hex', description: '随机字节的十六进制，长度为字节数', defaultLength: 32 },
+  { id: 'base62', name: 'Base62', description: '字母和数字，适合 API 密钥', defaultLength: 32 },
+  { id: 'uuid-v4', name: 'UUID v4', description: '122 位随机数的 UUID' },
+  { id: 'uuid-v7', name: 'UUID v7', description: '毫秒时间戳开头，按时间排序的 UUID' },
+  { id: 'ulid', name: 'ULID', description: '时间戳 + 80 位随机数，Crockford Base32' },
+  { id: 'nanoid', name: 'nanoid', description: 'URL 安全字符，默认 21 位', defaultLength: 21 },
+];
+
+// ============================================================================
+// 随机数
+// ============================================================================
+
+/**
+ * 生成 [0, max) 内均匀分布的随机整数
+ */
+export function randomInt(max: number): number {
+  // 舍弃落在最后一个不完整区间的值，避免取模偏差
+  const limit = Math.floor(0x100000000 / max) * max;
+  const buffer = new Uint32Array(1);
+  do {
+    crypto.getRandomValues(buffer);
+  } while (buffer[0] >= limit);
+  return buffer[0] % max;
+}
+
+/**
+ * 生成随机字节
+ */
+export function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+/**
+ * 从字母表中随机取 length 个字符
+ */
+function randomString(alphabet: string, length: number): string {
+  return Array.from({ length }, () => alphabet[randomInt(alphabet.length)]).join('');
+}
+
+/**
+ * Fisher-Yates 洗牌
+ */
+function shuffle<T>(items: T[]): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+function assertLength(length: number): void {
+  if (!Number.isInteger(length) || length < 1 || length > MAX_LENGTH) {
+    throw new Error(t('error.invalidLength', { max: MAX_LENGTH }));
+  }
+}
+
+// ============================================================================
+// 随机密码
+// ============================================================================
+
+/**
+ * 按选项得到启用的各类字符（已去除排除的字符和空类）
+ */
+export function passwordCharsets(options: PasswordOptions): string[] {
+  const excluded = new Set([
+    ...options.exclude,
+    ...(options.excludeAmbiguous ? AMBIGUOUS_CHARS : ''),
+  ]);
+  return (['lowercase', 'uppercase', 'digits', 'symbols'] as const)
+    .filter((name) => options[name])
+    .map((name) => [...CHARSETS[name]].filter((char) => !excluded.has(char)).join(''))
+    .filter((charset) => charset.length > 0);
+}
+
+/**
+ * 生成随机密码，每类启用的字符至少出现一次
+ * 熵按 length × log2(字符集大小) 计算，“每类至少一个”带来的微小损失忽略不计
+ */
+export function generatePassword(options: PasswordOptions): GeneratedSecret {
+  assertLength(options.length);
+  const charsets = passwordCharsets(options);
+  if (charsets.length === 0) {
+    throw new Error(t('error.emptyCharset'));
+  }
+  const pool = charsets.join('');
+  const chars = charsets
+    .slice(0, options.length)
+    .map((charset) => charset[randomInt(charset.length)]);
+  while (chars.length < options.length) {
+    chars.push(pool[randomInt(pool.length)]);
+  }
+  return { value: shuffle(chars).join(''), entropy: options.length * Math.log2(pool.length) };
+}
+
+// ============================================================================
+// Diceware 口令
+// ============================================================================
+
+/**
+ * 从内置词表随机选词组成口令
+ */
+export function generatePassphrase(options: PassphraseOptions): GeneratedSecret {
+  if (!Number.isInteger(options.words) || options.words < 1 || options.words > MAX_WORDS) {
+    throw new Error(t('error.invalidWordCount', { max: MAX_WORDS }));
+  }
+  const words = Array.from({ length: options.words }, () => {
+    const word = DICEWARE_WORDS[randomInt(DICEWARE_WORDS.length)];
+    return options.capitalize ? word[0].toUpperCase() + word.slice(1) : word;
+  });
+  let entropy = options.words * Math.log2(DICEWARE_WORDS.length);
+
+  if (options.includeNumber) {
+    // 数字本身和所在位置都是随机的
+    words[randomInt(words.length)] += randomInt(10);
+    entropy += Math.log2(10) + Math.log2(words.length);
+  }
+  return { value: words.join(options.separator), entropy };
+}
+
+// ============================================================================
+// API 密钥与标识符
+// ============================================================================
+
+/**
+ * 按格式生成 API 密钥或唯一标识符
+ */
+export function generateToken(options: TokenOptions): GeneratedSecret {
+  switch (options.format) {
+    case 'hex':
+      assertLength(options.length);
+      return { value: bytesToHex(randomBytes(options.length)), entropy: options.length * 8 };
+    case 'base62':
+      assertLength(options.length);
+      return {
+        value: randomString(BASE62_ALPHABET, options.length),
+        entropy: options.length * Math.log2(62),
+      };
+    case 'nanoid':
+      assertLength(options.length);
+      return { value: randomString(NANOID_ALPHABET, options.length), entropy: options.length * 6 };
+    case 'uuid-v4':
+      return { value: uuidV4(), entropy: 122 };
+    case 'uuid-v7':
+      return { value: uuidV7(), entropy: 74 };
+    case 'ulid':
+      return { value: ulid(), entropy: 80 };
+  }
+}
+
+/**
+ * UUID v4（RFC 9562）：除版本和变体位外全部随机
+ */
+export function uuidV4(): string {
+  const bytes = randomBytes(16);
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  return formatUuid(bytes);
+}
+
+/**
+ * UUID v7（RFC 9562）：48 位毫秒时间戳 + 74 位随机数，字典序即时间序
+ */
+export function uuidV7(now: number = Date.now()): string {
+  const bytes = randomBytes(16);
+  // 时间戳超过 32 位，不能用位运算，逐字节取
+  let time = now;
+  for (let i = 5; i >= 0; i--) {
+    bytes[i] = time % 256;
+    time = Math.floor(time / 256);
+  }
+  bytes[6] = (bytes[6] & 0x0f) | 0x70;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  return formatUuid(bytes);
+}
+
+function formatUuid(bytes: Uint8Array): string {
+  const hex = bytesToHex(bytes);
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20),
+  ].join('-');
+}
+
+/**
+ * ULID：10 个字符的毫秒时间戳 + 16 个字符的 80 位随机数，均为 Crockford Base32
+ */
+export function ulid(now: number = Date.now()): string {
+  let time = now;
+  let timePart = '';
+  for (let i = 0; i < 10; i++) {
+    timePart = CROCKFORD_ALPHABET[time % 32] + timePart;
+    time = Math.floor(time / 32);
+  }
+
+  // 80 位随机数按 5 位一组取字符
+  const bytes = randomBytes(10);
+  let randomPart = '';
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    // 每次取完后剩余不足 5 位，只需保留低 16 位，避免超出 32 位整数
+    buffer = ((buffer << 8) | byte) & 0xffff;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      randomPart += CROCKFORD_ALPHABET[(buffer >> bits) & 31];
+    }
+  }
+  return timePart + randomPart;
+}
+
+// ============================================================================
+// 批量生成与展示
+// ============================================================================
+
+/**
+ * 按当前模式和选项批量生成
+ */
+export function generateSecrets(state: PasswordGeneratorState): GeneratedSecret[] {
+  const generate = (): GeneratedSecret => {
+    switch (state.mode) {
+      case 'password':
+        return generatePassword(state.password);
+      case 'passphrase':
+        return generatePassphrase(state.passphrase);
+      case 'token':
+        return generateToken(state.token);
+    }
+  };
+  const count = Math.min(Math.max(Math.trunc(state.count), 1), MAX_COUNT);
+  return Array.from({ length: count }, generate);
+}
+
+/**
+ * 将秒数格式化为易读的时长
+ */
+export function formatDuration(seconds: number): string {
+  const units: [key: Parameters<typeof t>[0], size: number][] = [
+    ['duration.years', 365 * 24 * 3600],
+    ['duration.months', 30 * 24 * 3600],
+    ['duration.days', 24 * 3600],
+    ['duration.hours', 3600],
+    ['duration.minutes', 60],
+    ['duration.seconds', 1],
+  ];
+  if (seconds < 1) return t('duration.instant');
+  if (seconds >= 100 * 365 * 24 * 3600) return t('duration.centuries');
+  const [key, size] = units.find(([, unitSize]) => seconds >= unitSize)!;
+  return t(key, { n: Math.round(seconds / size) });
+}
+
+/**
+ * 离线快速哈希（每秒 10^10 次）下平均破解耗时（秒）
+ * 平均只需尝试一半的可能
+ */
+export function offlineCrackSeconds(entropy: number): number {
+  return 2 ** (entropy - 1) / 1e10;
+}
+
+/**
+ * 按熵给出生成结果的强度等级（0 - 4），以 28 / 36 / 60 / 80 位为分界
+ */
+export function entropyScore(entropy: number): StrengthResult['score'] {
+  if (entropy < 28) return 0;
+  if (entropy < 36) return 1;
+  if (entropy < 60) return 2;
+  if (entropy < 80) return 3;
+  return 4;
+}
@@ -0,0 +1,120 @@
+/**
+ * 内置词表
+ * 口令词表共 6^4 = 1296 个常用英文单词（3 - 8 个小写字母），每个单词约 10.3 位熵，
+ * 可用四个骰子对应一个单词；常见密码表按流行程度排序，供强度分析识别弱密码
+ */
+
+/**
+ * Diceware 口令词表（按字母排序）
+ */
+export const DICEWARE_WORDS: readonly string[] = (
+  'able about above accent accept acid acorn across act actor adapt adjust admire adult advice ' +
+  'afford after age agent ahead aim airport aisle album alert alien alley almond alone already ' +
+  'alter amber amount anchor ancient angle animal annual answer anvil apart apply apron arctic ' +
+  'area argue arm army aroma arrange arrow artist ash ask aspect atlas atom attic auction aunt ' +
+  'author autumn avenue avoid awake aware away axis baby badge bag balance balcony bamboo banana ' +
+  'banjo bank barley barn base basin bat batch battery beach beam bean beard beast beaver bed ' +
+  'beef beetle behave belt berry best beyond bicycle bike bill birth biscuit bitter black blank ' +
+  'blanket blaze bleach bless blind block blond blouse blue blush board body boil bolt bone book ' +
+  'boost border boring boss bottle bounce box bracket brain brake brass brave breeze brick brief ' +
+  'bright brisk broccoli bronze broom brown brush bucket budget build bulb bundle bunker burger ' +
+  'burst bush business butter button buzz cabbage cable cactus cake call camel camera canal ' +
+  'candle canoe canvas capable capital car carbon cargo carpet cart case castle casual catalog ' +
+  'catch cause cave celery cell census cereal chalk champion chaos chapter chase cheap cheese ' +
+  'chef chest chicken child chimney chorus chunk cinema circle city civil clap clarify clay ' +
+  'clean clever click cliff climb clip clock cloth cloud club clump clutch coach coconut code ' +
+  'coil coin color column comet comfort common company conduct confirm consider control cook ' +
+  'cool copy coral corn correct cotton couch couple course cover coyote cradle craft crash ' +
+  'crater crazy cream creek crew crisp critic cross crowd cruise crumble crunch crystal cube cup ' +
+  'cupboard current curtain cushion custom cycle dad damp dance daring dash dawn day debate ' +
+  'debris decide deck decorate decrease defense define delay deliver dentist deny depend deposit ' +
+  'deputy derive desert design detail detect device devote dial diamond dice diesel differ ' +
+  'digital dilemma dinner direct dirt discover dish display distance divide dizzy document dog ' +
+  'dolphin domain donkey donor dose double draft dragon drastic draw dress drift drink drip drop ' +
+  'drum duck dune dust duty dynamic eager early earn easily east echo ecology edge edit effort ' +
+  'egg either elbow electric elegant elephant elevator embark embody emerge emotion empower ' +
+  'empty enact end endorse enemy enforce engage enhance enjoy enough enrich ensure enter entry ' +
+  'envelope equal equip erode erosion erupt escape essence estate ethics evidence evolve exact ' +
+  'excess exchange excite excuse execute exhaust exhibit exist exit expand expect explain expose ' +
+  'extend extra eyebrow fabric faculty fade faith fall fame family fan fancy farm fashion father ' +
+  'fatigue favorite feature fee feed female fence fetch fever fiber fiction figure file filter ' +
+  'final fine finger fire firm fiscal fish fitness fix flame flash flavor flee flip float floor ' +
+  'flower flush fly focus fog fold follow foot force forget fork forum forward foster found ' +
+  'fragile frame fresh friend frog front frown frozen fuel fun furnace future gain galaxy game ' +
+  'gap garbage garden garment gas gate gather gaze general genre gentle gesture ghost gift ' +
+  'giggle giraffe girl glad glance glass glide globe gloom glove glow goat goddess good goose ' +
+  'gospel govern grab grace grant grape gravity great grid grit group grow guard guess guitar ' +
+  'gym habit half hammer hand happy hard harsh hat have hazard head heart heavy height hello ' +
+  'help hen hidden high hint hip history hobby hold hole hollow home hood hope horse hospital ' +
+  'hotel hour hub huge humble humor hungry hunt hurry hybrid icon idea idle ignore image imitate ' +
+  'immune impact improve impulse include income index indicate industry infant inform inhale ' +
+  'initial inject inner innocent inquiry insect inspire install interest invest involve iron ' +
+  'isolate issue ivory jacket jar jazz jelly jewel join joke joy judge jump jungle junk just ' +
+  'keen keep key kick kidney kind kiss kit kite kitten knee knife know lab labor ladder lake ' +
+  'lamp laptop large laugh laundry law lawn lazy leader learn leave left leg legend leisure lend ' +
+  'length leopard lesson level liberty license life light like limb link lion list little lizard ' +
+  'load lobster local logic long lottery loud love loyal luggage lumber lunch luxury machine ' +
+  'magic maid mail major make man manage mango mansion maple marble margin marine marriage mask ' +
+  'master match math matrix maximum maze mean measure mechanic medal melody melt memory mention ' +
+  'mercy merge merry mesh metal method midnight milk mimic mind minor minute mirror miss mix ' +
+  'mixed mobile model mom moment monkey monster moon moral morning mosquito motion motor mouse ' +
+  'move muffin mule muscle museum music mutual myth naive napkin narrow nature near need ' +
+  'negative neither nephew nest net neutral never next nice noble noise noodle normal nose ' +
+  'notable nothing notice now nuclear nurse nut obey object obscure observe obvious occur odor ' +
+  'off office often okay old omit once onion online only opera opinion option orange orchard ' +
+  'order organ orient orphan ostrich outdoor outer outside oval over own oxygen oyster pact ' +
+  'paddle pair palace panda panel panther paper parent park party pass path patient pattern ' +
+  'pause payment peace pear peasant pen pencil pepper perfect person pet photo phrase piano ' +
+  'picnic piece pig pill pilot pioneer pipe pizza place plastic plate please pledge plug plunge ' +
+  'poet point pole police pony pool portion position post potato powder power praise predict ' +
+  'prepare present prevent price primary print private prize process produce program project ' +
+  'proof property protect proud public pudding pulp pulse punch pupil purchase purity purse push ' +
+  'puzzle pyramid quantum quarter quick quit quote rabbit race rack radio rail raise rally ranch ' +
+  'random rapid rare rather raven razor ready reason rebel recall receive record recycle reduce ' +
+  'reform refuse regret regular relax release rely remain remind remove renew rent repair repeat ' +
+  'report require resemble resist response result retreat return reveal review rhythm rib rice ' +
+  'rich ridge right ring ripple ritual rival road roast robust rocket roof rookie rose rotate ' +
+  'round route rubber rude rule run rural saddle sail salad salon salt same sample satisfy sauce ' +
+  'save say scan scare scene scheme science scissors scout scrap script scrub search season ' +
+  'second secret security seed segment select seminar senior sentence series session settle ' +
+  'seven shadow shallow share shell sheriff shift shine shiver shock shoot shop shoulder shove ' +
+  'shrug shuffle sibling side sight sign silk silly similar simple sing siren situate six skate ' +
+  'sketch skill skin skull slab sleep slender slide slight slogan slot slush small smile smoke ' +
+  'smooth snake snap snow soap social sock soft solar solid solution song soon sort soul soup ' +
+  'source space spare spawn speak speed spell sphere spice spike spin split spoil spoon sport ' +
+  'spray spread spy square squirrel stable staff stage stamp stand state stay steel stem stereo ' +
+  'stick sting stock stone stool stove strategy strike strong student stuff style subject subway ' +
+  'success suffer sugar suit summer sunny sunset supply supreme surface surge surround survey ' +
+  'swallow swamp swarm swear swift swim switch symbol syrup system tackle tag talent talk tape ' +
+  'target taste tattoo teach team ten tenant tent term text thank theory thing three thrive ' +
+  'thumb thunder tide tiger timber time tip tired title toast toddler toe toilet token tomorrow ' +
+  'tone tonight tool top topic torch tornado toss total toward tower town track trade train ' +
+  'transfer trash travel treat tree trial tribe trigger trim trophy trouble true truly trust ' +
+  'truth tube tuition tuna tunnel turn turtle twenty twice twist two typical umbrella unaware ' +
+  'uncle under undo unfold unhappy unique unit unknown unlock unusual unveil upgrade uphold ' +
+  'upset urban usage use useful useless utility vacant vague valid valve van vapor various vault ' +
+  'vehicle vendor venture verb verify vessel veteran vibrant victory view village violin virtual ' +
+  'visa visit vital vivid voice void volume vote wage wagon walk wall want warm wash wasp water ' +
+  'wave wealth wear weather web weekend weird west wet wheat wheel whisper wide wild will window ' +
+  'wine wink winner wire wisdom wish witness woman wonder wool word world worry wrap wreck wrist ' +
+  'write yard year young youth zero zone'
+).split(' ');
+
+/**
+ * 常见密码（越靠前越常见）
+ */
+export const COMMON_PASSWORDS: readonly string[] = (
+  '123456 password 123456789 12345678 12345 qwerty 1234567 111111 123123 abc123 password1 1234 ' +
+  'iloveyou 1q2w3e4r 000000 qwerty123 zaq12wsx dragon sunshine princess letmein 654321 monkey ' +
+  '1qaz2wsx 123321 qwertyuiop superman asdfghjkl football baseball welcome admin login master ' +
+  'hello freedom whatever qazwsx trustno1 shadow michael jennifer 666666 121212 starwars ' +
+  'charlie donald batman access flower loveme ashley bailey passw0rd mustang jordan harley ' +
+  'ranger buster thomas tigger robert soccer hockey george andrew daniel hunter pepper jessica ' +
+  'zxcvbnm 987654321 7777777 555555 888888 1111111 131313 112233 qwe123 1q2w3e a123456 ' +
+  'q1w2e3r4 secret summer winter cheese computer internet samsung google chocolate cookie ' +
+  'maggie ginger matrix biteme 123qwe 1234567890 pass test test123 guest root changeme default ' +
+  'administrator p@ssw0rd password123 welcome1 qwerty1 abcdef abcd1234 aa123456 asdf asdfgh ' +
+  '159753 696969 11111111 00000000 iloveu lovely babygirl anthony nicole daniel1 michelle ' +
+  'killer1 angel angels purple orange silver golden diamond phoenix snoopy pokemon naruto ' +
+  'blink182 liverpool chelsea arsenal barcelona'
+).split(' ');
@@ -0,0 +1,23 @@
+import { lazy } from 'react';
+import type { ToolConfig } from '@/tools/types';
+import { Workflow } from 'lucide-react';
+
+export const toolConfig: ToolConfig = {
+  id: 'pipeline',
+  name: '文本管道',
+  description: '串联编码、哈希、JSON 格式化、时间戳转换等操作，逐步查看中间结果，可保存为配方',
+  locales: {
+    'en-US': {
+      name: 'Text Pipeline',
+      description: 'Chain encoding, hashing, JSON formatting and timestamp conversion, inspect each step and save recipes',
+    },
+  },
+  category: 'development',
+  icon: Workflow,
+  tags: ['管道', 'pipeline', '配方', 'recipe', '串联', 'chain', '编码', '转换'],
+  component: lazy(() =>
+    import('./index').then((m) => ({ default: m.Pipeline }))
+  ),
+  requiresBackend: false,
+  version: '1.0.0',
+};
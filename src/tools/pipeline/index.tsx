@@ -0,0 +1,402 @@
+import { useEffect, useState } from 'react';
+import {
+  ArrowDown,
+  ArrowUp,
+  Copy,
+  Loader2,
+  Save,
+  Trash2,
+  X,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import type { PipelineRecipe, PipelineStep, StepResult } from './types';
+import {
+  createStep,
+  deleteRecipe,
+  getTransformById,
+  getTransformGroups,
+  loadRecipes,
+  recipeToSteps,
+  runPipeline,
+  saveRecipe,
+} from './utils';
+
+const transformGroups = getTransformGroups();
+
+const copyText = async (text: string): Promise<void> => {
+  try {
+    await navigator.clipboard.writeText(text);
+    toast.success('已复制到剪贴板');
+  } catch {
+    toast.error('复制失败');
+  }
+};
+
+interface TransformSelectProps {
+  value: string;
+  placeholder?: string;
+  onChange: (transformId: string) => void;
+}
+
+/**
+ * 按分组展示的转换下拉框
+ */
+const TransformSelect = ({ value, placeholder, onChange }: TransformSelectProps) => (
+  <Select value={value} onValueChange={onChange}>
+    <SelectTrigger className="h-8 w-48">
+      <SelectValue placeholder={placeholder} />
+    </SelectTrigger>
+    <SelectContent>
+      {transformGroups.map(({ group, transforms }) => (
+        <SelectGroup key={group}>
+          <SelectLabel>{group}</SelectLabel>
+          {transforms.map((transform) => (
+            <SelectItem key={transform.id} value={transform.id}>
+              {transform.name}
+            </SelectItem>
+          ))}
+        </SelectGroup>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+interface StepCardProps {
+  index: number;
+  total: number;
+  step: PipelineStep;
+  result?: StepResult;
+  onChange: (step: PipelineStep) => void;
+  onMove: (offset: -1 | 1) => void;
+  onRemove: () => void;
+}
+
+/**
+ * 单个步骤：转换选择、参数和中间结果
+ */
+const StepCard = ({ index, total, step, result, onChange, onMove, onRemove }: StepCardProps) => {
+  const transform = getTransformById(step.transformId);
+
+  return (
+    <div className="rounded-lg border">
+      <div className="flex flex-wrap items-center gap-2 border-b bg-muted/30 px-3 py-2">
+        <span className="flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-primary text-xs font-medium text-primary-foreground">
+          {index + 1}
+        </span>
+        <TransformSelect
+          value={step.transformId}
+          onChange={(transformId) => onChange(createStep(transformId))}
+        />
+
+        {transform?.params?.map((param) => (
+          <div key={param.id} className="flex items-center gap-1.5">
+            <Label className="text-xs text-muted-foreground">{param.label}</Label>
+            {param.options ? (
+              <Select
+                value={step.params[param.id] ?? param.defaultValue}
+                onValueChange={(value) =>
+                  onChange({ ...step, params: { ...step.params, [param.id]: value } })
+                }
+              >
+                <SelectTrigger className="h-8 w-auto min-w-24">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {param.options.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                type={param.sensitive ? 'password' : 'text'}
+                value={step.params[param.id] ?? ''}
+                placeholder={param.placeholder}
+                onChange={(e) =>
+                  onChange({ ...step, params: { ...step.params, [param.id]: e.target.value } })
+                }
+                className="h-8 w-40"
+              />
+            )}
+          </div>
+        ))}
+
+        <div className="ml-auto flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0"
+            disabled={index === 0}
+            onClick={() => onMove(-1)}
+            title="上移"
+          >
+            <ArrowUp className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0"
+            disabled={index === total - 1}
+            onClick={() => onMove(1)}
+            title="下移"
+          >
+            <ArrowDown className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0"
+            onClick={onRemove}
+            title="移除步骤"
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      {/* 中间结果 */}
+      <div className="relative">
+        {result?.status === 'success' && (
+          <>
+            <pre className="max-h-48 overflow-auto whitespace-pre-wrap break-all p-3 pr-10 font-mono text-xs">
+              {result.output || <span className="text-muted-foreground">（空）</span>}
+            </pre>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="absolute right-1.5 top-1.5 h-7 w-7 p-0"
+              onClick={() => copyText(result.output)}
+              title="复制"
+            >
+              <Copy className="h-3.5 w-3.5" />
+            </Button>
+          </>
+        )}
+        {result?.status === 'error' && (
+          <p className="p-3 text-xs text-destructive">{result.error}</p>
+        )}
+        {result?.status === 'skipped' && (
+          <p className="p-3 text-xs text-muted-foreground">前序步骤失败，已跳过</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * 文本管道
+ * 将多个纯转换串联执行，展示每一步的中间结果，并可保存为配方
+ */
+export const Pipeline = () => {
+  const [input, setInput] = useState('');
+  const [steps, setSteps] = useState<PipelineStep[]>(() => [createStep('base64-decode')]);
+  const [results, setResults] = useState<StepResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [recipes, setRecipes] = useState<PipelineRecipe[]>(loadRecipes);
+  const [recipeName, setRecipeName] = useState('');
+
+  // 输入或步骤变化时自动执行（防抖）
+  useEffect(() => {
+    let cancelled = false;
+
+    const timer = setTimeout(async () => {
+      if (!input) {
+        setResults([]);
+        return;
+      }
+
+      setIsRunning(true);
+      const next = await runPipeline(input, steps);
+      if (!cancelled) {
+        setResults(next);
+        setIsRunning(false);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [input, steps]);
+
+  const updateStep = (index: number, step: PipelineStep): void => {
+    setSteps((prev) => prev.map((item, i) => (i === index ? step : item)));
+  };
+
+  const moveStep = (index: number, offset: -1 | 1): void => {
+    setSteps((prev) => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const removeStep = (index: number): void => {
+    setSteps((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSaveRecipe = (): void => {
+    try {
+      setRecipes(saveRecipe(recipeName, steps));
+      setRecipeName('');
+      toast.success('配方已保存');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : '保存失败');
+    }
+  };
+
+  const handleLoadRecipe = (recipe: PipelineRecipe): void => {
+    setSteps(recipeToSteps(recipe));
+    setRecipeName(recipe.name);
+    toast.success(`已加载配方「${recipe.name}」`);
+  };
+
+  const handleDeleteRecipe = (recipe: PipelineRecipe): void => {
+    setRecipes(deleteRecipe(recipe.id));
+    toast.success('配方已删除');
+  };
+
+  const finalResult = results.length === steps.length ? results[results.length - 1] : undefined;
+
+  return (
+    <div className="container mx-auto max-w-5xl px-4 py-8">
+      <Card>
+        <CardHeader>
+          <CardTitle>文本管道</CardTitle>
+          <CardDescription>
+            将编码、哈希、JSON 格式化、时间戳转换等操作串联执行，逐步查看中间结果，并可保存为配方重复使用
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          {/* 配方 */}
+          <div className="space-y-2">
+            <Label>配方</Label>
+            <div className="flex gap-2">
+              <Input
+                value={recipeName}
+                onChange={(e) => setRecipeName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSaveRecipe()}
+                placeholder="配方名称，如：JWT 载荷解码"
+                className="h-9"
+              />
+              <Button onClick={handleSaveRecipe} variant="outline" size="sm" className="h-9 gap-1.5">
+                <Save className="h-4 w-4" />
+                保存配方
+              </Button>
+            </div>
+            {recipes.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {recipes.map((recipe) => (
+                  <div
+                    key={recipe.id}
+                    className="flex items-center rounded-full border bg-secondary text-xs text-secondary-foreground"
+                  >
+                    <button
+                      onClick={() => handleLoadRecipe(recipe)}
+                      className="cursor-pointer py-1 pl-3 pr-1.5 hover:underline"
+                      title={`${recipe.steps.length} 个步骤`}
+                    >
+                      {recipe.name}
+                    </button>
+                    <button
+                      onClick={() => handleDeleteRecipe(recipe)}
+                      className="cursor-pointer rounded-full p-1 pr-2 text-muted-foreground hover:text-destructive"
+                      title="删除配方"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* 输入 */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="pipeline-input">输入</Label>
+              <Button onClick={() => setInput('')} variant="outline" size="sm">
+                清空
+              </Button>
+            </div>
+            <Textarea
+              id="pipeline-input"
+              placeholder="在此输入或粘贴文本..."
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              rows={6}
+              className="font-mono"
+            />
+          </div>
+
+          {/* 步骤 */}
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <Label>步骤</Label>
+              {isRunning && <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />}
+            </div>
+
+            {steps.map((step, index) => (
+              <StepCard
+                key={step.id}
+                index={index}
+                total={steps.length}
+                step={step}
+                result={results[index]}
+                onChange={(next) => updateStep(index, next)}
+                onMove={(offset) => moveStep(index, offset)}
+                onRemove={() => removeStep(index)}
+              />
+            ))}
+
+            <TransformSelect
+              value=""
+              placeholder="+ 添加步骤"
+              onChange={(transformId) => setSteps((prev) => [...prev, createStep(transformId)])}
+            />
+          </div>
+
+          {/* 最终结果 */}
+          {finalResult && (
+            <div
+              className={cn(
+                'rounded-md border px-3 py-2 text-sm',
+                finalResult.status === 'success'
+                  ? 'border-green-500/50 text-green-600 dark:text-green-400'
+                  : 'border-destructive/50 text-destructive'
+              )}
+            >
+              {finalResult.status === 'success'
+                ? `全部 ${steps.length} 个步骤执行成功`
+                : `执行失败：${results.find((result) => result.status === 'error')?.error}`}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+/**
+ * 文本管道类型定义
+ */
+
+/**
+ * 转换步骤的参数定义
+ */
+export interface TransformParam {
+  /** 参数标识 */
+  id: string;
+  /** 显示名称 */
+  label: string;
+  /** 默认值 */
+  defaultValue: string;
+  /** 可选项（存在时渲染为下拉框，否则为输入框） */
+  options?: { value: string; label: string }[];
+  /** 输入框提示文字 */
+  placeholder?: string;
+  /** 敏感参数（如密钥）不会保存到配方中 */
+  sensitive?: boolean;
+}
+
+/**
+ * 转换定义 - 纯函数，输入文本输出文本
+ * 失败时抛出带中文说明的 Error
+ */
+export interface Transform {
+  /** 转换唯一标识 */
+  id: string;
+  /** 显示名称 */
+  name: string;
+  /** 所属分组 */
+  group: string;
+  /** 参数列表 */
+  params?: TransformParam[];
+  /** 执行转换 */
+  run: (input: string, params: Record<string, string>) => string | Promise<string>;
+}
+
+/**
+ * 管道中的一个步骤
+ */
+export interface PipelineStep {
+  /** 步骤实例 ID（同一转换可出现多次） */
+  id: string;
+  /** 转换 ID */
+  transformId: string;
+  /** 参数值 */
+  params: Record<string, string>;
+}
+
+/**
+ * 单个步骤的执行结果
+ */
+export interface StepResult {
+  status: 'success' | 'error' | 'skipped';
+  output: string;
+  error?: string;
+}
+
+/**
+ * 保存的配方
+ */
+export interface PipelineRecipe {
+  id: string;
+  name: string;
+  steps: Omit<PipelineStep, 'id'>[];
+  createdAt: number;
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createStep,
+  deleteRecipe,
+  getTransformById,
+  loadRecipes,
+  recipeToSteps,
+  runPipeline,
+  saveRecipe,
+} from './utils';
+
+describe('runPipeline', () => {
+  it('依次执行步骤', async () => {
+    const results = await runPipeline('{"a":1}', [
+      createStep('json-minify'),
+      createStep('base64-encode'),
+      createStep('base64-decode'),
+      createStep('sha256-encode'),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual(['success', 'success', 'success', 'success']);
+    expect(results[1].output).toBe('eyJhIjoxfQ==');
+    expect(results[2].output).toBe('{"a":1}');
+    expect(results[3].output).toBe('015abd7f5cc57a2dd94b7590f04ad8084273905ee33ec5cebeae62276a97f862');
+  });
+
+  it('步骤参数覆盖默认值', async () => {
+    const [result] = await runPipeline('1700000000', [
+      createStep('timestamp-to-date', { unit: 'seconds', format: 'iso' }),
+    ]);
+    expect(result.output).toBe('2023-11-14T22:13:20.000Z');
+  });
+
+  it('某一步失败后跳过后续步骤', async () => {
+    const results = await runPipeline('not json', [
+      createStep('base64-encode'),
+      createStep('json-format'),
+      createStep('base64-encode'),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual(['success', 'error', 'skipped']);
+    expect(results[1].error).toBeTruthy();
+  });
+
+  it('AES 加解密步骤使用相同的参数', async () => {
+    const params = { key: 'secret', mode: 'CBC', keySize: '128', iterations: '1000' };
+    const results = await runPipeline('机密', [
+      createStep('aes-encode', params),
+      createStep('aes-decode', params),
+    ]);
+    expect(results.map((result) => result.status)).toEqual(['success', 'success']);
+    expect(results[1].output).toBe('机密');
+  });
+
+  it('未知的转换视为失败', async () => {
+    const [result] = await runPipeline('x', [createStep('missing')]);
+    expect(result).toMatchObject({ status: 'error', error: '未知的转换' });
+  });
+});
+
+describe('配方', () => {
+  it('保存、读取和删除', () => {
+    const recipes = saveRecipe(' 编码 ', [createStep('base64-encode')]);
+    expect(recipes).toHaveLength(1);
+    expect(loadRecipes()[0].name).toBe('编码');
+
+    expect(deleteRecipe(recipes[0].id)).toEqual([]);
+    expect(loadRecipes()).toEqual([]);
+  });
+
+  it('同名配方会被覆盖', () => {
+    saveRecipe('a', [createStep('base64-encode')]);
+    saveRecipe('a', [createStep('url-encode')]);
+    expect(loadRecipes().map((recipe) => recipe.steps[0].transformId)).toEqual(['url-encode']);
+  });
+
+  it('不保存密钥等敏感参数', () => {
+    expect(getTransformById('aes-encode')?.params?.some((param) => param.sensitive)).toBe(true);
+    const [recipe] = saveRecipe('加密', [createStep('aes-encode', { key: 'secret' })]);
+    expect(recipe.steps[0].params).not.toHaveProperty('key');
+  });
+
+  it('还原时忽略不存在的转换', () => {
+    const [recipe] = saveRecipe('混合', [createStep('base64-encode'), createStep('missing')]);
+    expect(recipeToSteps(recipe).map((step) => step.transformId)).toEqual(['base64-encode']);
+  });
+
+  it('名称为空或没有步骤时报错', () => {
+    expect(() => saveRecipe('  ', [createStep('base64-encode')])).toThrow('请输入配方名称');
+    expect(() => saveRecipe('空', [])).toThrow('管道中还没有步骤');
+  });
+});
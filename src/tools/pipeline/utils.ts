@@ -0,0 +1,471 @@
+import {
+  algorithmCategories,
+  getAllAlgorithms,
+  processDecode,
+  processEncode,
+} from '@/tools/crypto-tool/utils';
+import type {
+  AesParams,
+  Algorithm,
+  KeyFormat,
+  ProcessResult,
+} from '@/tools/crypto-tool/types';
+import { formatJSON, minifyJSON } from '@/tools/json-formatter/utils';
+import {
+  detectTimestampUnit,
+  timestampToDate,
+  type DateFormat,
+  type TimestampUnit,
+} from '@/tools/timestamp-converter/utils';
+import { countWords } from '@/tools/word-counter/utils';
+import type {
+  PipelineRecipe,
+  PipelineStep,
+  StepResult,
+  Transform,
+} from './types';
+
+// ============================================================================
+// 转换注册表
+// ============================================================================
+
+function unwrap(result: ProcessResult): string {
+  if (!result.success) {
+    throw new Error(result.error || '处理失败');
+  }
+  return result.output;
+}
+
+function toKeyFormat(value: string | undefined): KeyFormat {
+  return value === 'hex' || value === 'base64' ? value : 'text';
+}
+
+/**
+ * 将转换参数转为 AES 参数，未填写的项使用默认值
+ */
+function toAesParams(values: Record<string, string>): Partial<AesParams> {
+  const params: Partial<AesParams> = {};
+  if (values.mode === 'CBC' || values.mode === 'CTR' || values.mode === 'GCM') {
+    params.mode = values.mode;
+  }
+  if (values.keySize === '128' || values.keySize === '192' || values.keySize === '256') {
+    params.keySize = Number(values.keySize) as AesParams['keySize'];
+  }
+  if (values.kdf === 'pbkdf2' || values.kdf === 'scrypt' || values.kdf === 'argon2id') {
+    params.kdf = values.kdf;
+  }
+  if (values.iterations?.trim()) {
+    params.iterations = Number(values.iterations);
+  }
+  return params;
+}
+
+/**
+ * 由加解密工具的算法生成转换
+ * 编码方向对所有算法生成，解码方向仅对支持解码的算法生成
+ */
+function createAlgorithmTransforms(algorithm: Algorithm): Transform[] {
+  const group =
+    algorithmCategories.find((category) => category.id === algorithm.category)?.name ??
+    algorithm.category;
+  const isHash = algorithm.category === 'hash' || algorithm.category === 'mac';
+  const isCipher = algorithm.category === 'cipher';
+
+  const params: Transform['params'] = [];
+  if (isHash) {
+    params.push({
+      id: 'outputFormat',
+      label: '输出格式',
+      defaultValue: 'hex',
+      options: [
+        { value: 'hex', label: 'Hex' },
+        { value: 'base64', label: 'Base64' },
+      ],
+    });
+  }
+  if (algorithm.requiresKey) {
+    params.push({
+      id: 'key',
+      label: '密钥',
+      defaultValue: '',
+      placeholder: algorithm.keyPlaceholder,
+      sensitive: true,
+    });
+  }
+  if (algorithm.category === 'mac' || isCipher) {
+    params.push({
+      id: 'keyFormat',
+      label: '密钥格式',
+      defaultValue: 'text',
+      options: [
+        { value: 'text', label: isCipher ? '口令' : '文本' },
+        { value: 'hex', label: 'Hex' },
+        { value: 'base64', label: 'Base64' },
+      ],
+    });
+  }
+  if (isCipher) {
+    params.push(
+      {
+        id: 'mode',
+        label: '模式',
+        defaultValue: 'GCM',
+        options: ['GCM', 'CBC', 'CTR'].map((mode) => ({ value: mode, label: mode })),
+      },
+      {
+        id: 'keySize',
+        label: '密钥长度',
+        defaultValue: '256',
+        options: ['128', '192', '256'].map((size) => ({ value: size, label: `${size} 位` })),
+      },
+      {
+        id: 'kdf',
+        label: '密钥派生',
+        defaultValue: 'pbkdf2',
+        options: [
+          { value: 'pbkdf2', label: 'PBKDF2' },
+          { value: 'scrypt', label: 'scrypt' },
+          { value: 'argon2id', label: 'Argon2id' },
+        ],
+      },
+      {
+        id: 'iterations',
+        label: '迭代次数',
+        defaultValue: '',
+        placeholder: '留空使用默认值',
+      }
+    );
+  }
+
+  const transforms: Transform[] = [
+    {
+      id: `${algorithm.id}-encode`,
+      name: isHash
+        ? algorithm.name
+        : `${algorithm.name} ${isCipher ? '加密' : '编码'}`,
+      group,
+      params,
+      run: async (input, values) =>
+        unwrap(
+          await processEncode(algorithm.id, input, {
+            key: values.key,
+            keyFormat: toKeyFormat(values.keyFormat),
+            outputFormat: values.outputFormat === 'base64' ? 'base64' : 'hex',
+            ...(isCipher && { aes: toAesParams(values) }),
+          })
+        ),
+    },
+  ];
+
+  if (algorithm.supportsDecode) {
+    transforms.push({
+      id: `${algorithm.id}-decode`,
+      name: `${algorithm.name} ${isCipher ? '解密' : '解码'}`,
+      group,
+      params: params.filter((param) => param.id !== 'outputFormat'),
+      run: async (input, values) =>
+        unwrap(
+          await processDecode(algorithm.id, input, {
+            key: values.key,
+            keyFormat: toKeyFormat(values.keyFormat),
+            ...(isCipher && { aes: toAesParams(values) }),
+          })
+        ),
+    });
+  }
+
+  return transforms;
+}
+
+const jsonTransforms: Transform[] = [
+  {
+    id: 'json-format',
+    name: 'JSON 格式化',
+    group: 'JSON',
+    params: [
+      {
+        id: 'indent',
+        label: '缩进',
+        defaultValue: '2',
+        options: [
+          { value: '2', label: '2 空格' },
+          { value: '4', label: '4 空格' },
+        ],
+      },
+    ],
+    run: (input, values) => {
+      const result = formatJSON(input, values.indent === '4' ? 4 : 2);
+      if (!result.success) {
+        throw new Error(result.error?.message || '格式化失败');
+      }
+      return result.output;
+    },
+  },
+  {
+    id: 'json-minify',
+    name: 'JSON 压缩',
+    group: 'JSON',
+    run: (input) => {
+      const result = minifyJSON(input);
+      if (!result.success) {
+        throw new Error(result.error?.message || '压缩失败');
+      }
+      return result.output;
+    },
+  },
+];
+
+const textTransforms: Transform[] = [
+  {
+    id: 'timestamp-to-date',
+    name: '时间戳转日期',
+    group: '文本处理',
+    params: [
+      {
+        id: 'unit',
+        label: '单位',
+        defaultValue: 'auto',
+        options: [
+          { value: 'auto', label: '自动检测' },
+          { value: 'seconds', label: '秒' },
+          { value: 'milliseconds', label: '毫秒' },
+          { value: 'microseconds', label: '微秒' },
+          { value: 'nanoseconds', label: '纳秒' },
+        ],
+      },
+      {
+        id: 'format',
+        label: '格式',
+        defaultValue: 'full',
+        options: [
+          { value: 'full', label: '完整' },
+          { value: 'iso', label: 'ISO 8601' },
+          { value: 'date-only', label: '仅日期' },
+          { value: 'time-only', label: '仅时间' },
+          { value: 'custom', label: 'YYYY-MM-DD HH:mm:ss' },
+        ],
+      },
+    ],
+    run: (input, values) => {
+      // 每行一个时间戳，逐行转换
+      const lines = input
+        .split('\n')
+        .map((line) => line.trim())
+        .filter(Boolean);
+
+      if (lines.length === 0) {
+        throw new Error('请输入时间戳');
+      }
+
+      return lines
+        .map((line, index) => {
+          try {
+            const unit =
+              values.unit === 'auto'
+                ? detectTimestampUnit(line)
+                : (values.unit as TimestampUnit);
+            return timestampToDate(line, unit, values.format as DateFormat);
+          } catch {
+            throw new Error(`第 ${index + 1} 行不是有效的时间戳: ${line}`);
+          }
+        })
+        .join('\n');
+    },
+  },
+  {
+    id: 'count-words',
+    name: '字数统计',
+    group: '文本处理',
+    // 输出 JSON，便于继续接 JSON 相关步骤
+    run: (input) => JSON.stringify(countWords(input), null, 2),
+  },
+];
+
+/**
+ * 所有可用的转换
+ * 扩展时在此添加新的转换
+ */
+export const transforms: Transform[] = [
+  // 非对称算法需要成对的公钥 / 私钥，不适合作为流水线步骤
+  ...getAllAlgorithms()
+    .filter((algorithm) => algorithm.category !== 'asymmetric')
+    .flatMap(createAlgorithmTransforms),
+  ...jsonTransforms,
+  ...textTransforms,
+];
+
+/**
+ * 根据 ID 获取转换
+ */
+export function getTransformById(id: string): Transform | undefined {
+  return transforms.find((transform) => transform.id === id);
+}
+
+/**
+ * 获取按分组整理的转换列表（保持注册顺序）
+ */
+export function getTransformGroups(): { group: string; transforms: Transform[] }[] {
+  const groups: { group: string; transforms: Transform[] }[] = [];
+
+  for (const transform of transforms) {
+    let entry = groups.find((item) => item.group === transform.group);
+    if (!entry) {
+      entry = { group: transform.group, transforms: [] };
+      groups.push(entry);
+    }
+    entry.transforms.push(transform);
+  }
+
+  return groups;
+}
+
+// ============================================================================
+// 管道执行
+// ============================================================================
+
+let stepCounter = 0;
+
+/**
+ * 创建一个步骤，参数取转换的默认值
+ * @param transformId - 转换 ID
+ * @param params - 覆盖默认值的参数
+ */
+export function createStep(
+  transformId: string,
+  params: Record<string, string> = {}
+): PipelineStep {
+  const defaults: Record<string, string> = {};
+  for (const param of getTransformById(transformId)?.params ?? []) {
+    defaults[param.id] = param.defaultValue;
+  }
+
+  stepCounter += 1;
+  return {
+    id: `step-${Date.now()}-${stepCounter}`,
+    transformId,
+    params: { ...defaults, ...params },
+  };
+}
+
+/**
+ * 依次执行管道中的步骤
+ * 每一步的输出作为下一步的输入，某一步失败后其后的步骤标记为跳过
+ * @param input - 初始输入
+ * @param steps - 步骤列表
+ * @returns 与步骤一一对应的执行结果
+ */
+export async function runPipeline(
+  input: string,
+  steps: PipelineStep[]
+): Promise<StepResult[]> {
+  const results: StepResult[] = [];
+  let current = input;
+  let failed = false;
+
+  for (const step of steps) {
+    if (failed) {
+      results.push({ status: 'skipped', output: '' });
+      continue;
+    }
+
+    const transform = getTransformById(step.transformId);
+    try {
+      if (!transform) {
+        throw new Error('未知的转换');
+      }
+      current = await transform.run(current, step.params);
+      results.push({ status: 'success', output: current });
+    } catch (error) {
+      failed = true;
+      results.push({
+        status: 'error',
+        output: '',
+        error: error instanceof Error ? error.message : '处理失败',
+      });
+    }
+  }
+
+  return results;
+}
+
+// ============================================================================
+// 配方存储
+// ============================================================================
+
+const RECIPES_STORAGE = 'just-tools-pipeline-recipes';
+
+/**
+ * 读取已保存的配方
+ */
+export function loadRecipes(): PipelineRecipe[] {
+  try {
+    const raw = localStorage.getItem(RECIPES_STORAGE);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? (parsed as PipelineRecipe[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function persistRecipes(recipes: PipelineRecipe[]): void {
+  localStorage.setItem(RECIPES_STORAGE, JSON.stringify(recipes));
+}
+
+/**
+ * 保存配方，同名配方会被覆盖
+ * 敏感参数（如密钥）不会写入存储
+ * @param name - 配方名称
+ * @param steps - 步骤列表
+ * @returns 更新后的配方列表
+ */
+export function saveRecipe(name: string, steps: PipelineStep[]): PipelineRecipe[] {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('请输入配方名称');
+  }
+  if (steps.length === 0) {
+    throw new Error('管道中还没有步骤');
+  }
+
+  const recipe: PipelineRecipe = {
+    id: `recipe-${Date.now()}`,
+    name: trimmed,
+    createdAt: Date.now(),
+    steps: steps.map(({ transformId, params }) => {
+      const sensitive = new Set(
+        (getTransformById(transformId)?.params ?? [])
+          .filter((param) => param.sensitive)
+          .map((param) => param.id)
+      );
+      return {
+        transformId,
+        params: Object.fromEntries(
+          Object.entries(params).filter(([key]) => !sensitive.has(key))
+        ),
+      };
+    }),
+  };
+
+  const recipes = [recipe, ...loadRecipes().filter((item) => item.name !== trimmed)];
+  persistRecipes(recipes);
+  return recipes;
+}
+
+/**
+ * 删除配方
+ * @returns 更新后的配方列表
+ */
+export function deleteRecipe(id: string): PipelineRecipe[] {
+  const recipes = loadRecipes().filter((recipe) => recipe.id !== id);
+  persistRecipes(recipes);
+  return recipes;
+}
+
+/**
+ * 将配方还原为步骤列表，忽略已不存在的转换
+ */
+export function recipeToSteps(recipe: PipelineRecipe): PipelineStep[] {
+  return recipe.steps
+    .filter((step) => getTransformById(step.transformId))
+    .map((step) => createStep(step.transformId, step.params));
+}
@@ -1,11 +1,17 @@
+import { lazy } from 'react';
 import type { ToolConfig } from '@/tools/types';
 import { ScanSearch } from 'lucide-react';
-import { SystemInspector } from './index';
 
 export const toolConfig: ToolConfig = {
   id: 'system-inspector',
   name: '浏览器指纹检测',
   description: '展示浏览器能获取的客户端信息（仅限 Web API），了解指纹追踪原理及隐私保护机制',
+  locales: {
+    'en-US': {
+      name: 'Browser Fingerprint',
+      description: 'Show what client information a browser exposes through Web APIs and how fingerprinting works',
+    },
+  },
   category: 'development',
   icon: ScanSearch,
   tags: [
@@ -19,7 +25,9 @@ export const toolConfig: ToolConfig = {
     '客户端信息',
     '指纹追踪',
   ],
-  component: SystemInspector,
+  component: lazy(() =>
+    import('./index').then((m) => ({ default: m.SystemInspector }))
+  ),
   requiresBackend: true,
   version: '1.0.0',
 };
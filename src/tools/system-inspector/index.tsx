@@ -28,8 +28,12 @@ import {
   Battery,
   BatteryCharging,
   Wifi,
+  WifiOff,
   HardDrive,
 } from 'lucide-react';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { useI18n } from '@/hooks/useI18n';
+import { localize } from '@/lib/i18n';
 import {
   parseBrowserInfo,
   getHardwareInfo,
@@ -96,8 +100,10 @@ interface PrivacyTipIconProps {
 }
 
 const PrivacyTipIcon = ({ tipKey }: PrivacyTipIconProps) => {
+  const { locale } = useI18n();
   const tip = PRIVACY_TIPS[tipKey];
   if (!tip) return null;
+  const { title, description } = localize(tip, tip.locales, locale);
 
   return (
     <Tooltip>
@@ -111,8 +117,8 @@ const PrivacyTipIcon = ({ tipKey }: PrivacyTipIconProps) => {
         className="max-w-xs bg-popover border-2 border-border shadow-xl"
       >
         <div className="space-y-1">
-          <p className="font-semibold text-sm text-popover-foreground">{tip.title}</p>
-          <p className="text-xs text-popover-foreground/90 leading-relaxed whitespace-pre-line">{tip.description}</p>
+          <p className="font-semibold text-sm text-popover-foreground">{title}</p>
+          <p className="text-xs text-popover-foreground/90 leading-relaxed whitespace-pre-line">{description}</p>
         </div>
       </TooltipContent>
     </Tooltip>
@@ -125,9 +131,11 @@ const PrivacyTipIcon = ({ tipKey }: PrivacyTipIconProps) => {
 interface NetworkCardProps {
   data: NetworkInfo | null;
   isLoading: boolean;
+  /** 离线时不请求后端，直接提示不可用 */
+  offline: boolean;
 }
 
-const NetworkCard = ({ data, isLoading }: NetworkCardProps) => (
+const NetworkCard = ({ data, isLoading, offline }: NetworkCardProps) => (
   <Card>
     <CardHeader className="pb-3">
       <div className="flex items-center justify-between">
@@ -139,7 +147,13 @@ const NetworkCard = ({ data, isLoading }: NetworkCardProps) => (
       </div>
     </CardHeader>
     <CardContent>
-      {isLoading ? (
+      {offline ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <WifiOff className="h-5 w-5 mx-auto mb-2" />
+          <p>当前处于离线状态</p>
+          <p className="text-xs mt-1">网络信息需要联网获取，恢复连接后点击刷新</p>
+        </div>
+      ) : isLoading ? (
         <div className="flex items-center justify-center py-8">
           <RefreshCw className="h-5 w-5 animate-spin text-muted-foreground" />
         </div>
@@ -508,11 +522,15 @@ export const SystemInspector = () => {
   const [systemInfo, setSystemInfo] = useState<SystemInfo | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [networkLoading, setNetworkLoading] = useState(true);
+  const isOnline = useOnlineStatus();
 
   /**
    * 获取网络信息
    */
   const fetchNetworkInfo = useCallback(async (): Promise<NetworkInfo | null> => {
+    // 离线时跳过请求
+    if (!navigator.onLine) return null;
+
     try {
       const response = await fetch(API_ENDPOINT);
       if (!response.ok) {
@@ -640,7 +658,7 @@ export const SystemInspector = () => {
         {/* 信息卡片网格 */}
         {systemInfo && (
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            <NetworkCard data={systemInfo.network} isLoading={networkLoading} />
+            <NetworkCard data={systemInfo.network} isLoading={networkLoading} offline={!isOnline} />
             <HardwareCard data={systemInfo.hardware} />
             <BrowserCard data={systemInfo.browser} />
             <StorageCard data={systemInfo.storage} />
@@ -1,3 +1,5 @@
+import type { LocalizedText } from '@/lib/i18n';
+
 /**
  * 网络信息
  */
@@ -126,6 +128,8 @@ export interface SystemInfo {
 export interface PrivacyTip {
   title: string;
   description: string;
+  /** 其他语言的标题和说明（可选） */
+  locales?: LocalizedText<{ title: string; description: string }>;
 }
 
 /**
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { exportSystemInfo, formatBytes, formatTime, parseBrowserInfo } from './utils';
+import type { SystemInfo } from './types';
+
+describe('formatBytes', () => {
+  it.each([
+    [0, '0 B'],
+    [512, '512 B'],
+    [1536, '1.5 KB'],
+    [5 * 1024 * 1024, '5 MB'],
+    [8 * 1024 ** 3, '8 GB'],
+  ])('%d → %s', (bytes, expected) => {
+    expect(formatBytes(bytes)).toBe(expected);
+  });
+});
+
+describe('formatTime', () => {
+  it.each([
+    [null, '未知'],
+    [0, '已满'],
+    [59, '0分钟'],
+    [1500, '25分钟'],
+    [7260, '2小时 1分钟'],
+  ])('%j → %s', (seconds, expected) => {
+    expect(formatTime(seconds)).toBe(expected);
+  });
+});
+
+describe('parseBrowserInfo', () => {
+  it('读取当前环境的 User-Agent', () => {
+    const info = parseBrowserInfo();
+    expect(info.userAgent).toBe(navigator.userAgent);
+    expect(info.language).toBe(navigator.language);
+    expect(info.localStorageSupported).toBe(true);
+  });
+});
+
+describe('exportSystemInfo', () => {
+  it('输出缩进的 JSON', () => {
+    const info = { timestamp: 1 } as unknown as SystemInfo;
+    expect(exportSystemInfo(info)).toBe('{\n  "timestamp": 1\n}');
+  });
+});
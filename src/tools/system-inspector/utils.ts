@@ -313,25 +313,67 @@ export const PRIVACY_TIPS: Record<string, PrivacyTip> = {
   network: {
     title: '网络信息隐私说明',
     description: '您的 IP 地址和 HTTP 请求头在每次网络请求时都会发送给服务器，这是互联网通信的基本机制。网站可以通过 IP 推断您的大致地理位置。',
+    locales: {
+      'en-US': {
+        title: 'Network privacy notes',
+        description:
+          'Your IP address and HTTP request headers are sent to the server with every network request; this is how the internet works. Websites can infer your approximate location from your IP.',
+      },
+    },
   },
   hardware: {
     title: '硬件信息隐私说明 ⚠️ 重要提示',
     description: '浏览器获取的硬件信息存在精度限制和隐私保护：\n1) 屏幕分辨率是逻辑像素（受缩放影响），物理分辨率是估算值；\n2) CPU 核心数是逻辑线程数（超线程会翻倍），部分浏览器会限制最大值；\n3) 内存只能返回 0.25/0.5/1/2/4/8 这几个固定值，即使您有 32GB 内存也只显示 8GB；\n4) GPU 信息通过 WebGL 获取，是较准确的硬件名称；\n5) 操作系统基于 User-Agent，可被伪造或简化（如 Windows 11 可能显示为 Windows 10）。',
+    locales: {
+      'en-US': {
+        title: 'Hardware privacy notes ⚠️ Important',
+        description:
+          'Hardware information exposed by the browser is limited in precision for privacy reasons:\n1) Screen resolution is in logical pixels (affected by zoom); the physical resolution is an estimate;\n2) CPU cores are logical threads (doubled by hyper-threading), and some browsers cap the value;\n3) Memory is reported only as 0.25/0.5/1/2/4/8, so even 32GB of RAM shows as 8GB;\n4) GPU information comes from WebGL and is a fairly accurate hardware name;\n5) The operating system is based on the User-Agent, which can be spoofed or simplified (e.g. Windows 11 may show as Windows 10).',
+      },
+    },
   },
   resolution: {
     title: '分辨率计算精度说明 📐',
     description: '物理分辨率通过"逻辑像素 × DPR"反推，但浏览器会将逻辑分辨率取整，导致计算误差。例如：2560×1440 显示器 @ 150% 缩放时，真实逻辑宽度是 1706.666...，但浏览器报告 1707（四舍五入），反推得 2560.5 → 2561（差 1 像素）。这是"精度丢失"的经典案例，展示了浮点数运算的不可逆性。如看到"修正自"字样，说明工具检测到误差并修正到标准分辨率。',
+    locales: {
+      'en-US': {
+        title: 'Resolution accuracy notes 📐',
+        description:
+          'The physical resolution is derived as "logical pixels × DPR", but browsers round the logical resolution, which introduces errors. For example, a 2560×1440 display at 150% zoom has a true logical width of 1706.666..., but the browser reports 1707 (rounded), giving 2560.5 → 2561 (1 pixel off). This is a classic case of precision loss. If you see "修正自" (corrected from), the tool detected the error and snapped to a standard resolution.',
+      },
+    },
   },
   browser: {
     title: '浏览器环境隐私说明',
     description: 'User Agent 和浏览器特性是网页兼容性检测的基础。这些信息可用于浏览器指纹识别，但也是确保网页正常显示的必要数据。现代浏览器正在推行 UA Reduction（简化 User Agent）以减少指纹追踪。',
+    locales: {
+      'en-US': {
+        title: 'Browser privacy notes',
+        description:
+          'The User Agent and browser features are the basis of compatibility detection. They can be used for browser fingerprinting, but are also needed for pages to render correctly. Modern browsers are rolling out UA Reduction to limit fingerprinting.',
+      },
+    },
   },
   storage: {
     title: '存储数据隐私说明',
     description: 'Cookie 和本地存储用于保存用户偏好和会话信息。第三方网站无法访问其他域名的存储数据，这是浏览器的同源策略保护。',
+    locales: {
+      'en-US': {
+        title: 'Storage privacy notes',
+        description:
+          'Cookies and local storage keep user preferences and session data. Sites cannot read storage belonging to other domains; this is enforced by the browser\'s same-origin policy.',
+      },
+    },
   },
   battery: {
     title: '电池 API 隐私说明 ⚠️ 已废弃',
     description: '由于电池充电速率和剩余电量可用于高精度用户追踪（电池指纹），Firefox 已彻底删除此 API，Chrome 也在降低精度。这是隐私保护的必要措施。',
+    locales: {
+      'en-US': {
+        title: 'Battery API privacy notes ⚠️ Deprecated',
+        description:
+          'Because charging rate and remaining charge can be used for precise tracking (battery fingerprinting), Firefox removed this API entirely and Chrome reduced its precision. This is a necessary privacy measure.',
+      },
+    },
   },
 };
@@ -1,15 +1,84 @@
+import { lazy } from 'react';
 import type { ToolConfig } from '@/tools/types';
 import { Clock } from 'lucide-react';
-import { TimestampConverter } from './index';
+import type { TimestampConverterState, TimestampUnit, DateFormat } from './utils';
 
-export const toolConfig: ToolConfig = {
+const UNITS: TimestampUnit[] = ['seconds', 'milliseconds', 'microseconds', 'nanoseconds'];
+const FORMATS: DateFormat[] = ['iso', 'full', 'date-only', 'time-only', 'custom'];
+
+/**
+ * 校验枚举值，无效时返回默认值
+ */
+function pick<T extends string>(value: unknown, options: readonly T[], fallback: T): T {
+  return options.includes(value as T) ? (value as T) : fallback;
+}
+
+/**
+ * 读取字符串字段，非字符串时返回空字符串
+ */
+function text(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+export const toolConfig: ToolConfig<TimestampConverterState> = {
   id: 'timestamp-converter',
   name: '时间戳转换',
   description: '时间戳与日期时间互转，支持多种格式和批量转换',
+  locales: {
+    'en-US': {
+      name: 'Timestamp Converter',
+      description: 'Convert between timestamps and dates, with multiple formats and batch conversion',
+    },
+  },
   category: 'utilities',
   icon: Clock,
   tags: ['时间戳', 'timestamp', '日期', 'date', '时间', 'time', 'unix'],
-  component: TimestampConverter,
+  component: lazy(() =>
+    import('./index').then((m) => ({ default: m.TimestampConverter }))
+  ),
   requiresBackend: false,
   version: '1.0.0',
+  commands: [
+    {
+      id: 'copy-now-seconds',
+      title: '复制当前时间戳（秒）',
+      locales: { 'en-US': { title: 'Copy current timestamp (seconds)' } },
+      keywords: ['now', 'seconds', 'copy'],
+      run: async () => {
+        const timestamp = Math.floor(Date.now() / 1000).toString();
+        await navigator.clipboard.writeText(timestamp);
+        return `已复制 ${timestamp}`;
+      },
+    },
+    {
+      id: 'copy-now-milliseconds',
+      title: '复制当前时间戳（毫秒）',
+      locales: { 'en-US': { title: 'Copy current timestamp (milliseconds)' } },
+      keywords: ['now', 'ms', 'milliseconds', 'copy'],
+      run: async () => {
+        const timestamp = Date.now().toString();
+        await navigator.clipboard.writeText(timestamp);
+        return `已复制 ${timestamp}`;
+      },
+    },
+  ],
+  serializeState: (state) => JSON.stringify(state),
+  deserializeState: (raw) => {
+    try {
+      const data = JSON.parse(raw);
+      if (!data || typeof data !== 'object') return null;
+      return {
+        tab: pick(data.tab, ['timestamp-to-date', 'date-to-timestamp', 'batch'], 'timestamp-to-date'),
+        timestampInput: text(data.timestampInput),
+        timestampUnit: pick(data.timestampUnit, UNITS, 'milliseconds'),
+        dateInput: text(data.dateInput),
+        dateToTsUnit: pick(data.dateToTsUnit, UNITS, 'milliseconds'),
+        batchInput: text(data.batchInput),
+        batchUnit: pick(data.batchUnit, UNITS, 'milliseconds'),
+        dateFormat: pick(data.dateFormat, FORMATS, 'full'),
+      };
+    } catch {
+      return null;
+    }
+  },
 };
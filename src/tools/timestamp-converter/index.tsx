@@ -1,4 +1,6 @@
 import { useState, useEffect } from 'react';
+import { useToolState } from '@/hooks/useToolState';
+import { useI18n } from '@/hooks/useI18n';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -20,7 +22,12 @@ import {
   Calendar,
   Info,
 } from 'lucide-react';
-import type { TimestampUnit, DateFormat } from './utils';
+import type {
+  TimestampUnit,
+  DateFormat,
+  ConverterTab,
+  TimestampConverterState,
+} from './utils';
 import {
   timestampToDate,
   dateToTimestamp,
@@ -29,22 +36,38 @@ import {
   isValidDateString,
   detectTimestampUnit,
   getRelativeTime,
-  batchTimestampToDate,
+  convertBatchText,
   formatDate,
 } from './utils';
 
 export const TimestampConverter = () => {
+  const { initialState, reportState, recordHistory } = useToolState<TimestampConverterState>();
+  const { locale } = useI18n();
+  const [activeTab, setActiveTab] = useState<ConverterTab>(initialState?.tab ?? 'timestamp-to-date');
+
   // 时间戳转日期
-  const [timestampInput, setTimestampInput] = useState('');
-  const [timestampUnit, setTimestampUnit] = useState<TimestampUnit>('milliseconds');
-  const [dateOutput, setDateOutput] = useState('');
+  const [timestampInput, setTimestampInput] = useState(initialState?.timestampInput ?? '');
+  const [timestampUnit, setTimestampUnit] = useState<TimestampUnit>(initialState?.timestampUnit ?? 'milliseconds');
+  // 从分享链接或历史记录还原时直接展示转换结果
+  const [dateOutput, setDateOutput] = useState(() => {
+    if (!initialState || !isValidTimestamp(initialState.timestampInput)) return '';
+    try {
+      return timestampToDate(initialState.timestampInput, initialState.timestampUnit, initialState.dateFormat);
+    } catch {
+      return '';
+    }
+  });
   const [relativeTime, setRelativeTime] = useState('');
   const [autoDetectedUnit, setAutoDetectedUnit] = useState<TimestampUnit | null>(null);
 
   // 日期转时间戳
-  const [dateInput, setDateInput] = useState('');
-  const [dateToTsUnit, setDateToTsUnit] = useState<TimestampUnit>('milliseconds');
-  const [timestampOutput, setTimestampOutput] = useState('');
+  const [dateInput, setDateInput] = useState(initialState?.dateInput ?? '');
+  const [dateToTsUnit, setDateToTsUnit] = useState<TimestampUnit>(initialState?.dateToTsUnit ?? 'milliseconds');
+  const [timestampOutput, setTimestampOutput] = useState(() =>
+    initialState && isValidDateString(initialState.dateInput)
+      ? dateToTimestamp(initialState.dateInput, initialState.dateToTsUnit).toString()
+      : ''
+  );
 
   // 当前时间戳
   const [currentTimestamp, setCurrentTimestamp] = useState({
@@ -56,12 +79,32 @@ export const TimestampConverter = () => {
   const [currentDate, setCurrentDate] = useState('');
 
   // 批量转换
-  const [batchInput, setBatchInput] = useState('');
-  const [batchUnit, setBatchUnit] = useState<TimestampUnit>('milliseconds');
-  const [batchOutput, setBatchOutput] = useState('');
+  const [batchInput, setBatchInput] = useState(initialState?.batchInput ?? '');
+  const [batchUnit, setBatchUnit] = useState<TimestampUnit>(initialState?.batchUnit ?? 'milliseconds');
 
   // 日期格式
-  const [dateFormat, setDateFormat] = useState<DateFormat>('full');
+  const [dateFormat, setDateFormat] = useState<DateFormat>(initialState?.dateFormat ?? 'full');
+
+  // 批量转换结果
+  const [batchOutput, setBatchOutput] = useState(() =>
+    initialState?.batchInput.trim()
+      ? convertBatchText(initialState.batchInput, initialState.batchUnit, initialState.dateFormat).output
+      : ''
+  );
+
+  // 上报可分享的状态
+  useEffect(() => {
+    reportState({
+      tab: activeTab,
+      timestampInput,
+      timestampUnit,
+      dateInput,
+      dateToTsUnit,
+      batchInput,
+      batchUnit,
+      dateFormat,
+    });
+  }, [activeTab, timestampInput, timestampUnit, dateInput, dateToTsUnit, batchInput, batchUnit, dateFormat, reportState]);
 
   // 更新当前时间戳
   useEffect(() => {
@@ -101,6 +144,11 @@ export const TimestampConverter = () => {
 
       const result = timestampToDate(timestampInput, timestampUnit, dateFormat);
       setDateOutput(result);
+      recordHistory({
+        input: timestampInput,
+        output: result,
+        options: { mode: '时间戳转日期', unit: timestampUnit },
+      });
 
       // 计算相对时间
       const ts = parseInt(timestampInput, 10);
@@ -131,6 +179,11 @@ export const TimestampConverter = () => {
 
       const result = dateToTimestamp(dateInput, dateToTsUnit);
       setTimestampOutput(result.toString());
+      recordHistory({
+        input: dateInput,
+        output: result.toString(),
+        options: { mode: '日期转时间戳', unit: dateToTsUnit },
+      });
 
       toast.success('转换成功');
     } catch (error) {
@@ -148,31 +201,16 @@ export const TimestampConverter = () => {
         return;
       }
 
-      const timestamps = batchInput
-        .split('\n')
-        .map((line) => line.trim())
-        .filter((line) => line.length > 0);
+      const { output, successCount, total } = convertBatchText(batchInput, batchUnit, dateFormat);
 
-      if (timestamps.length === 0) {
+      if (total === 0) {
         toast.error('请输入有效的时间戳');
         return;
       }
 
-      const results = batchTimestampToDate(timestamps, batchUnit, dateFormat);
-
-      const output = results
-        .map((result) => {
-          if (result.error) {
-            return `${result.input} -> 错误: ${result.error}`;
-          }
-          return `${result.input} -> ${result.output}`;
-        })
-        .join('\n');
-
       setBatchOutput(output);
-
-      const successCount = results.filter((r) => !r.error).length;
-      toast.success(`成功转换 ${successCount}/${results.length} 条记录`);
+      recordHistory({ input: batchInput, output, options: { mode: '批量转换', unit: batchUnit } });
+      toast.success(`成功转换 ${successCount}/${total} 条记录`);
     } catch (error) {
       console.error('Batch conversion error:', error);
       toast.error('批量转换失败');
@@ -226,7 +264,7 @@ export const TimestampConverter = () => {
                   className="px-3 py-1 text-xs rounded bg-background border border-border hover:border-primary hover:bg-primary/5 transition-colors"
                   title={`使用当前${unit === 'seconds' ? '秒' : unit === 'milliseconds' ? '毫秒' : unit === 'microseconds' ? '微秒' : '纳秒'}时间戳`}
                 >
-                  <span className="font-mono font-semibold">{value.toLocaleString()}</span>
+                  <span className="font-mono font-semibold">{value.toLocaleString(locale)}</span>
                   <span className="text-muted-foreground ml-1">
                     {unit === 'seconds' && 's'}
                     {unit === 'milliseconds' && 'ms'}
@@ -240,7 +278,11 @@ export const TimestampConverter = () => {
         </div>
 
         {/* 主要转换功能 */}
-        <Tabs defaultValue="timestamp-to-date" className="w-full">
+        <Tabs
+          value={activeTab}
+          onValueChange={(value) => setActiveTab(value as ConverterTab)}
+          className="w-full"
+        >
           <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="timestamp-to-date">时间戳 → 日期</TabsTrigger>
             <TabsTrigger value="date-to-timestamp">日期 → 时间戳</TabsTrigger>
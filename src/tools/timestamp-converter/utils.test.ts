@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  convertBatchText,
+  convertFromMilliseconds,
+  dateToTimestamp,
+  detectTimestampUnit,
+  formatDate,
+  getRelativeTime,
+  isValidDateString,
+  isValidTimestamp,
+  normalizeToMilliseconds,
+  timestampToDate,
+} from './utils';
+
+describe('detectTimestampUnit', () => {
+  it.each([
+    ['0', 'seconds'],
+    ['1700000000', 'seconds'],
+    ['1700000000000', 'milliseconds'],
+    ['1700000000000000', 'microseconds'],
+    ['1700000000000000000', 'nanoseconds'],
+  ] as const)('%s → %s', (input, unit) => {
+    expect(detectTimestampUnit(input)).toBe(unit);
+  });
+
+  it('接受数字和负数', () => {
+    expect(detectTimestampUnit(1700000000000)).toBe('milliseconds');
+    expect(detectTimestampUnit('-1700000000')).toBe('seconds');
+  });
+
+  it('非数字时抛出错误', () => {
+    expect(() => detectTimestampUnit('abc')).toThrow('Invalid timestamp');
+  });
+});
+
+describe('单位换算', () => {
+  it.each([
+    ['seconds', 1_700_000_000, 1_700_000_000_000],
+    ['milliseconds', 1_700_000_000_000, 1_700_000_000_000],
+    ['microseconds', 1_700_000_000_000_000, 1_700_000_000_000],
+    ['nanoseconds', 1_700_000_000_000_000_000, 1_700_000_000_000],
+  ] as const)('%s', (unit, value, milliseconds) => {
+    expect(normalizeToMilliseconds(value, unit)).toBe(milliseconds);
+    expect(convertFromMilliseconds(milliseconds, unit)).toBe(value);
+  });
+});
+
+describe('timestampToDate / dateToTimestamp', () => {
+  it('转换为 ISO 字符串', () => {
+    expect(timestampToDate('1700000000', 'seconds', 'iso')).toBe('2023-11-14T22:13:20.000Z');
+    expect(timestampToDate(0, 'milliseconds', 'iso')).toBe('1970-01-01T00:00:00.000Z');
+  });
+
+  it('从 ISO 字符串转换', () => {
+    expect(dateToTimestamp('2023-11-14T22:13:20Z', 'seconds')).toBe(1700000000);
+    expect(dateToTimestamp('2023-11-14T22:13:20.500Z')).toBe(1700000000500);
+  });
+
+  it('非法日期时抛出错误', () => {
+    expect(() => dateToTimestamp('not a date')).toThrow();
+  });
+});
+
+describe('formatDate', () => {
+  it('自定义格式为 YYYY-MM-DD HH:mm:ss', () => {
+    expect(formatDate(new Date(2024, 0, 2, 3, 4, 5), 'custom')).toBe('2024-01-02 03:04:05');
+  });
+});
+
+describe('校验', () => {
+  it.each([
+    ['1700000000', true],
+    ['1700000000000', true],
+    ['', false],
+    ['abc', false],
+    ['-1700000000', false],
+    ['4200000000', false],
+  ])('isValidTimestamp(%j) = %s', (input, valid) => {
+    expect(isValidTimestamp(input)).toBe(valid);
+  });
+
+  it.each([
+    ['2024-01-02', true],
+    ['2024-01-02T03:04:05Z', true],
+    ['tomorrow', false],
+  ])('isValidDateString(%j) = %s', (input, valid) => {
+    expect(isValidDateString(input)).toBe(valid);
+  });
+});
+
+describe('convertBatchText', () => {
+  it('逐行转换并统计成功数', () => {
+    const result = convertBatchText('0\nabc\n1700000000000', 'milliseconds', 'iso');
+    expect(result.total).toBe(3);
+    expect(result.successCount).toBe(2);
+    expect(result.output).toContain('1970-01-01T00:00:00.000Z');
+    expect(result.output).toContain('2023-11-14T22:13:20.000Z');
+  });
+});
+
+describe('getRelativeTime', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('按中文描述过去的时间', () => {
+    const now = Date.now();
+    expect(getRelativeTime(now - 3 * 60_000, 'milliseconds')).toBe('3分钟前');
+    expect(getRelativeTime(now / 1000 - 2 * 86_400, 'seconds')).toBe('2天前');
+  });
+
+  it('描述未来的时间', () => {
+    expect(getRelativeTime(Date.now() + 5 * 3_600_000, 'milliseconds')).toBe('5小时后');
+  });
+});
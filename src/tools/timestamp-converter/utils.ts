@@ -1,3 +1,5 @@
+import { getLocale } from '@/lib/i18n';
+
 /**
  * 时间戳类型
  */
@@ -13,6 +15,25 @@ export type DateFormat =
   | 'time-only'
   | 'custom';
 
+/**
+ * 转换模式（对应页面标签）
+ */
+export type ConverterTab = 'timestamp-to-date' | 'date-to-timestamp' | 'batch';
+
+/**
+ * 可分享的工具状态
+ */
+export interface TimestampConverterState {
+  tab: ConverterTab;
+  timestampInput: string;
+  timestampUnit: TimestampUnit;
+  dateInput: string;
+  dateToTsUnit: TimestampUnit;
+  batchInput: string;
+  batchUnit: TimestampUnit;
+  dateFormat: DateFormat;
+}
+
 /**
  * 检测时间戳类型
  * @param timestamp - 时间戳字符串或数字
@@ -137,7 +158,7 @@ export function formatDate(date: Date, format: DateFormat): string {
       return date.toISOString();
 
     case 'full':
-      return date.toLocaleString('zh-CN', {
+      return date.toLocaleString(getLocale(), {
         year: 'numeric',
         month: '2-digit',
         day: '2-digit',
@@ -148,14 +169,14 @@ export function formatDate(date: Date, format: DateFormat): string {
       });
 
     case 'date-only':
-      return date.toLocaleDateString('zh-CN', {
+      return date.toLocaleDateString(getLocale(), {
         year: 'numeric',
         month: '2-digit',
         day: '2-digit',
       });
 
     case 'time-only':
-      return date.toLocaleTimeString('zh-CN', {
+      return date.toLocaleTimeString(getLocale(), {
         hour: '2-digit',
         minute: '2-digit',
         second: '2-digit',
@@ -253,35 +274,75 @@ export function batchTimestampToDate(
   });
 }
 
+/**
+ * 批量转换多行时间戳文本
+ * @param text - 每行一个时间戳
+ * @param unit - 时间戳单位
+ * @param format - 日期格式
+ * @returns 每行 "输入 -> 输出" 格式的结果，以及成功条数和总条数
+ */
+export function convertBatchText(
+  text: string,
+  unit: TimestampUnit,
+  format: DateFormat
+): { output: string; successCount: number; total: number } {
+  const timestamps = text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+  const results = batchTimestampToDate(timestamps, unit, format);
+
+  const output = results
+    .map((result) => {
+      if (result.error) {
+        return `${result.input} -> 错误: ${result.error}`;
+      }
+      return `${result.input} -> ${result.output}`;
+    })
+    .join('\n');
+
+  return {
+    output,
+    successCount: results.filter((r) => !r.error).length,
+    total: results.length,
+  };
+}
+
 /**
  * 获取相对时间描述
+ * 按当前语言格式化
  * @param timestamp - 时间戳
  * @param unit - 时间戳单位
- * @returns 相对时间描述（如"3分钟前"）
+ * @returns 相对时间描述（如"3分钟前"、"3 minutes ago"）
  */
 export function getRelativeTime(timestamp: number, unit: TimestampUnit): string {
   const milliseconds = normalizeToMilliseconds(timestamp, unit);
   const now = Date.now();
   const diff = now - milliseconds;
 
-  const seconds = Math.floor(diff / 1000);
+  // 未来时间显示为"x 后"
+  const sign = diff < 0 ? 1 : -1;
+  const seconds = Math.floor(Math.abs(diff) / 1000);
   const minutes = Math.floor(seconds / 60);
   const hours = Math.floor(minutes / 60);
   const days = Math.floor(hours / 24);
   const months = Math.floor(days / 30);
   const years = Math.floor(days / 365);
 
+  const formatter = new Intl.RelativeTimeFormat(getLocale(), { numeric: 'always' });
+
   if (seconds < 60) {
-    return `${seconds}秒前`;
+    return formatter.format(sign * seconds, 'second');
   } else if (minutes < 60) {
-    return `${minutes}分钟前`;
+    return formatter.format(sign * minutes, 'minute');
   } else if (hours < 24) {
-    return `${hours}小时前`;
+    return formatter.format(sign * hours, 'hour');
   } else if (days < 30) {
-    return `${days}天前`;
+    return formatter.format(sign * days, 'day');
   } else if (months < 12) {
-    return `${months}个月前`;
+    return formatter.format(sign * months, 'month');
   } else {
-    return `${years}年前`;
+    return formatter.format(sign * years, 'year');
   }
 }
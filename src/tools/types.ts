@@ -1,5 +1,6 @@
 import type { LucideProps } from 'lucide-react';
-import type { FC } from 'react';
+import type { FC, LazyExoticComponent } from 'react';
+import type { LocalizedText } from '@/lib/i18n';
 
 /**
  * 工具分类枚举
@@ -13,10 +14,17 @@ export type ToolCategory =
   | 'conversion'    // 单位换算
   | 'utilities';    // 日常工具
 
+/**
+ * 工具组件
+ * 推荐使用 React.lazy 包装，使每个工具单独打包、按需加载
+ */
+export type ToolComponent = FC | LazyExoticComponent<FC>;
+
 /**
  * 工具配置接口
+ * @template S - 可分享的工具状态类型（见 serializeState）
  */
-export interface ToolConfig {
+export interface ToolConfig<S = unknown> {
   /** 唯一标识符，使用 kebab-case */
   id: string;
 
@@ -26,6 +34,9 @@ export interface ToolConfig {
   /** 工具描述 */
   description: string;
 
+  /** 其他语言的名称和描述（可选，缺失时显示中文） */
+  locales?: LocalizedText<{ name: string; description: string }>;
+
   /** 工具分类 */
   category: ToolCategory;
 
@@ -35,8 +46,8 @@ export interface ToolConfig {
   /** 搜索标签（中英文） */
   tags: string[];
 
-  /** 工具组件 */
-  component: FC;
+  /** 工具组件（支持懒加载） */
+  component: ToolComponent;
 
   /** 是否需要后端支持 */
   requiresBackend: boolean;
@@ -49,6 +60,43 @@ export interface ToolConfig {
 
   /** 示例数据（可选） */
   examples?: ToolExample[];
+
+  /** 命令面板指令（可选） */
+  commands?: ToolCommand[];
+
+  /**
+   * 序列化工具状态，用于生成分享链接（可选）
+   * 工具组件通过 useToolState 上报状态；不应包含密钥等敏感信息
+   */
+  serializeState?(state: S): string;
+
+  /** 还原分享链接中的工具状态，数据无效时返回 null（可选） */
+  deserializeState?(raw: string): S | null;
+}
+
+/**
+ * 命令面板指令
+ * 工具通过 ToolConfig.commands 注册，可在任意页面通过 Ctrl+K 执行
+ */
+export interface ToolCommand {
+  /** 指令 ID，在工具内唯一 */
+  id: string;
+
+  /** 指令名称，展示时会加上工具名前缀 */
+  title: string;
+
+  /** 其他语言的指令名称（可选） */
+  locales?: LocalizedText<{ title: string }>;
+
+  /** 额外搜索关键词（可选） */
+  keywords?: string[];
+
+  /**
+   * 执行指令
+   * 返回的文本会作为成功提示展示，抛出的错误会作为失败提示展示
+   * 为保持工具按需加载，指令内部应动态 import 工具的 utils
+   */
+  run: () => Promise<string | void> | string | void;
 }
 
 /**
@@ -92,6 +140,9 @@ export interface CategoryInfo {
   /** 分类描述 */
   description: string;
 
+  /** 其他语言的名称和描述（可选） */
+  locales?: LocalizedText<{ name: string; description: string }>;
+
   /** 分类图标 */
   icon: FC<LucideProps>;
 }
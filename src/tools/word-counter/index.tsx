@@ -10,8 +10,11 @@ import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { toast } from 'sonner';
+import { useI18n } from '@/hooks/useI18n';
 import { countWords, estimateReadingTime } from './utils';
 import type { WordCountResult } from './utils';
+import { t } from './locales';
+
 export const WordCounter = () => {
   const [input, setInput] = useState('');
   const [stats, setStats] = useState<WordCountResult>({
@@ -24,6 +27,14 @@ export const WordCounter = () => {
     sentences: 0,
   });
   const [readingTime, setReadingTime] = useState(0);
+  // 订阅语言变化，数字和文案按当前语言显示
+  const { locale } = useI18n();
+  const formatNumber = (value: number) => value.toLocaleString(locale);
+  const readingTimeText = new Intl.NumberFormat(locale, {
+    style: 'unit',
+    unit: 'minute',
+    unitDisplay: 'long',
+  }).format(readingTime);
 
   // 实时统计
   useEffect(() => {
@@ -34,16 +45,16 @@ export const WordCounter = () => {
 
   const handleClear = (): void => {
     setInput('');
-    toast.success('已清空');
+    toast.success(t('cleared'));
   };
 
   const handlePaste = async (): Promise<void> => {
     try {
       const text = await navigator.clipboard.readText();
       setInput(text);
-      toast.success('已粘贴');
+      toast.success(t('pasted'));
     } catch {
-      toast.error('粘贴失败，请检查剪贴板权限');
+      toast.error(t('pasteFailed'));
     }
   };
 
@@ -51,29 +62,27 @@ export const WordCounter = () => {
     <div className="container mx-auto py-8 px-4 max-w-4xl">
       <Card>
         <CardHeader>
-          <CardTitle>字数统计</CardTitle>
-          <CardDescription>
-            实时统计文本的字符数、单词数、行数等信息，支持中英文混合文本
-          </CardDescription>
+          <CardTitle>{t('title')}</CardTitle>
+          <CardDescription>{t('description')}</CardDescription>
         </CardHeader>
 
         <CardContent className="space-y-6">
           {/* 输入区域 */}
           <div className="space-y-2">
             <div className="flex items-center justify-between">
-              <Label htmlFor="input">输入文本</Label>
+              <Label htmlFor="input">{t('input')}</Label>
               <div className="flex gap-2">
                 <Button onClick={handlePaste} variant="outline" size="sm">
-                  粘贴
+                  {t('paste')}
                 </Button>
                 <Button onClick={handleClear} variant="outline" size="sm">
-                  清空
+                  {t('clear')}
                 </Button>
               </div>
             </div>
             <Textarea
               id="input"
-              placeholder="在此输入或粘贴文本..."
+              placeholder={t('placeholder')}
               value={input}
               onChange={(e) => setInput(e.target.value)}
               rows={10}
@@ -83,14 +92,14 @@ export const WordCounter = () => {
 
           {/* 统计结果 */}
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-            <StatCard label="总字符数" value={stats.characters} />
-            <StatCard label="字符数(不含空格)" value={stats.charactersNoSpaces} />
-            <StatCard label="中文字符" value={stats.chineseChars} />
-            <StatCard label="英文单词" value={stats.words} />
-            <StatCard label="行数" value={stats.lines} />
-            <StatCard label="段落数" value={stats.paragraphs} />
-            <StatCard label="句子数" value={stats.sentences} />
-            <StatCard label="预计阅读" value={`${readingTime} 分钟`} />
+            <StatCard label={t('characters')} value={formatNumber(stats.characters)} />
+            <StatCard label={t('charactersNoSpaces')} value={formatNumber(stats.charactersNoSpaces)} />
+            <StatCard label={t('chineseChars')} value={formatNumber(stats.chineseChars)} />
+            <StatCard label={t('words')} value={formatNumber(stats.words)} />
+            <StatCard label={t('lines')} value={formatNumber(stats.lines)} />
+            <StatCard label={t('paragraphs')} value={formatNumber(stats.paragraphs)} />
+            <StatCard label={t('sentences')} value={formatNumber(stats.sentences)} />
+            <StatCard label={t('readingTime')} value={readingTimeText} />
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,45 @@
+import { defineMessages } from '@/lib/i18n';
+
+/**
+ * 字数统计工具的消息目录
+ */
+export const t = defineMessages(
+  {
+    title: '字数统计',
+    description: '实时统计文本的字符数、单词数、行数等信息，支持中英文混合文本',
+    input: '输入文本',
+    placeholder: '在此输入或粘贴文本...',
+    paste: '粘贴',
+    clear: '清空',
+    pasted: '已粘贴',
+    cleared: '已清空',
+    pasteFailed: '粘贴失败，请检查剪贴板权限',
+    characters: '总字符数',
+    charactersNoSpaces: '字符数(不含空格)',
+    chineseChars: '中文字符',
+    words: '英文单词',
+    lines: '行数',
+    paragraphs: '段落数',
+    sentences: '句子数',
+    readingTime: '预计阅读',
+  },
+  {
+    title: 'Word Counter',
+    description: 'Count characters, words, lines and more in real time, with support for mixed Chinese and English text',
+    input: 'Input text',
+    placeholder: 'Type or paste text here...',
+    paste: 'Paste',
+    clear: 'Clear',
+    pasted: 'Pasted',
+    cleared: 'Cleared',
+    pasteFailed: 'Paste failed. Check clipboard permissions',
+    characters: 'Characters',
+    charactersNoSpaces: 'Characters (no spaces)',
+    chineseChars: 'Chinese characters',
+    words: 'English words',
+    lines: 'Lines',
+    paragraphs: 'Paragraphs',
+    sentences: 'Sentences',
+    readingTime: 'Reading time',
+  }
+);
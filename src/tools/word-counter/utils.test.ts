@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { countWords, estimateReadingTime } from './utils';
+
+describe('countWords', () => {
+  it('空文本全部为 0', () => {
+    expect(countWords('')).toEqual({
+      characters: 0,
+      charactersNoSpaces: 0,
+      words: 0,
+      chineseChars: 0,
+      lines: 0,
+      paragraphs: 0,
+      sentences: 0,
+    });
+  });
+
+  it('统计英文文本', () => {
+    expect(countWords('Hello world. How are you?')).toEqual({
+      characters: 25,
+      charactersNoSpaces: 21,
+      words: 5,
+      chineseChars: 0,
+      lines: 1,
+      paragraphs: 1,
+      sentences: 2,
+    });
+  });
+
+  it('统计中英文混合文本', () => {
+    const result = countWords('你好 world！\n\n第二段。');
+    expect(result.chineseChars).toBe(5);
+    expect(result.words).toBe(1);
+    expect(result.lines).toBe(3);
+    expect(result.paragraphs).toBe(2);
+    expect(result.sentences).toBe(2);
+  });
+
+  it('没有句末标点时按一句计算', () => {
+    expect(countWords('no punctuation').sentences).toBe(1);
+  });
+
+  it('只有空白时段落和句子为 0', () => {
+    const result = countWords('  \n  ');
+    expect(result.paragraphs).toBe(0);
+    expect(result.sentences).toBe(0);
+    expect(result.charactersNoSpaces).toBe(0);
+  });
+});
+
+describe('estimateReadingTime', () => {
+  it('按中文 400 字/分钟、英文 200 词/分钟估算并向上取整', () => {
+    expect(estimateReadingTime(800, 0)).toBe(2);
+    expect(estimateReadingTime(0, 300)).toBe(2);
+    expect(estimateReadingTime(400, 200)).toBe(2);
+  });
+
+  it('至少 1 分钟', () => {
+    expect(estimateReadingTime(0, 0)).toBe(1);
+  });
+});
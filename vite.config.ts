@@ -1,11 +1,83 @@
+/// <reference types="vitest/config" />
+import fs from "fs"
 import path from "path"
 import tailwindcss from "@tailwindcss/vite"
 import react from "@vitejs/plugin-react"
-import { defineConfig } from "vite"
+import { defineConfig, type Plugin } from "vite"
+import { VitePWA } from "vite-plugin-pwa"
+
+/**
+ * 构建时校验工具注册表
+ * src/tools 下每个含 config.ts 的目录都必须在 src/tools/index.ts 中导入，
+ * 以下划线开头的目录（如 _template）为模板，不参与校验
+ */
+function toolRegistryCheck(): Plugin {
+  return {
+    name: "tool-registry-check",
+    apply: "build",
+    buildStart() {
+      const toolsDir = path.resolve(__dirname, "./src/tools")
+      const registry = fs.readFileSync(path.join(toolsDir, "index.ts"), "utf-8")
+
+      const unregistered = fs
+        .readdirSync(toolsDir, { withFileTypes: true })
+        .filter((entry) => entry.isDirectory() && !entry.name.startsWith("_"))
+        .filter((entry) => fs.existsSync(path.join(toolsDir, entry.name, "config.ts")))
+        .filter((entry) => !registry.includes(`'./${entry.name}/config'`))
+        .map((entry) => entry.name)
+
+      if (unregistered.length > 0) {
+        this.error(
+          `以下工具未在 src/tools/index.ts 中注册: ${unregistered.join(", ")}`
+        )
+      }
+    },
+  }
+}
+
+/**
+ * 离线支持（PWA）
+ * 预缓存应用外壳和所有工具的分包，Pyodide 等 CDN 资源首次下载后缓存
+ */
+function offlineSupport() {
+  return VitePWA({
+    registerType: "autoUpdate",
+    manifest: {
+      name: "Just Tools - 实用工具集合",
+      short_name: "Just Tools",
+      description: "实用工具集合平台，大部分工具可离线使用",
+      lang: "zh-CN",
+      start_url: "/",
+      display: "standalone",
+      theme_color: "#09090b",
+      background_color: "#ffffff",
+      icons: [
+        { src: "/logo.svg", sizes: "any", type: "image/svg+xml", purpose: "any" },
+      ],
+    },
+    workbox: {
+      globPatterns: ["**/*.{js,css,html,svg,png,ico,woff2,wasm}"],
+      navigateFallback: "/index.html",
+      navigateFallbackDenylist: [/^\/api\//],
+      runtimeCaching: [
+        {
+          // Pyodide 版本固定在 URL 中，内容不会变化，下载后优先使用缓存
+          urlPattern: /^https:\/\/cdn\.jsdelivr\.net\/pyodide\//,
+          handler: "CacheFirst",
+          options: {
+            cacheName: "pyodide",
+            expiration: { maxEntries: 100 },
+            cacheableResponse: { statuses: [0, 200] },
+          },
+        },
+      ],
+    },
+  })
+}
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react(), tailwindcss()],
+  plugins: [react(), tailwindcss(), toolRegistryCheck(), offlineSupport()],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
@@ -14,6 +86,11 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['@ffmpeg/ffmpeg', '@ffmpeg/util'],
   },
+  test: {
+    environment: "jsdom",
+    setupFiles: ["./src/test/setup.ts"],
+    include: ["src/**/*.test.{ts,tsx}"],
+  },
   server: {
     proxy: {
       // 代理 API 请求到后端服务
@@ -23,4 +100,4 @@ export default defineConfig({
       },
     },
   },
-})
\ No newline at end of file
+})